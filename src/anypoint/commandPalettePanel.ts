@@ -177,12 +177,36 @@ export class CommandPaletteProvider implements vscode.TreeDataProvider<CommandTr
                     description: 'Stream live application logs with filtering',
                     icon: 'output'
                 },
+                {
+                    label: 'Export FIRE Hypothesis Feedback',
+                    command: 'anypoint-monitor.fireExportHypothesisFeedback',
+                    description: 'Share your tuned failure hypothesis rankings',
+                    icon: 'export'
+                },
+                {
+                    label: 'Import FIRE Hypothesis Feedback',
+                    command: 'anypoint-monitor.fireImportHypothesisFeedback',
+                    description: 'Load hypothesis rankings tuned by your team',
+                    icon: 'cloud-download'
+                },
+                {
+                    label: 'Manage Hidden FIRE Hypotheses',
+                    command: 'anypoint-monitor.fireManageHiddenHypotheses',
+                    description: 'Show hypotheses you hid for an error again',
+                    icon: 'eye'
+                },
                 {
                     label: 'Alerting Hub',
                     command: 'anypoint-monitor.alertingHub',
                     description: 'Configure and manage platform alerts',
                     icon: 'bell'
                 },
+                {
+                    label: 'Alert Analytics',
+                    command: 'anypoint-monitor.alertAnalytics',
+                    description: 'Alert frequency, MTTA/MTTR and noisy rules over time',
+                    icon: 'graph-line'
+                },
                 {
                     label: 'AnypointMQ Statistics',
                     command: 'anypoint-monitor.mqStats',
@@ -219,6 +243,24 @@ export class CommandPaletteProvider implements vscode.TreeDataProvider<CommandTr
                     description: 'Automated incident triage and blast radius analysis',
                     icon: 'flame'
                 },
+                {
+                    label: 'Open War Room Incident',
+                    command: 'anypoint-monitor.openWarRoomIncident',
+                    description: 'Resume a saved incident and compare snapshots',
+                    icon: 'history'
+                },
+                {
+                    label: 'Compare Dependency Map Versions',
+                    command: 'anypoint-monitor.compareDependencyMaps',
+                    description: 'Diff two dependency map builds for drift',
+                    icon: 'git-compare'
+                },
+                {
+                    label: 'Edit War Room Dependencies',
+                    command: 'anypoint-monitor.editWarRoomDependencies',
+                    description: 'Confirm, reject or add dependency map edges',
+                    icon: 'edit'
+                },
                 {
                     label: 'Cost Optimizer',
                     command: 'anypoint-monitor.costOptimizer',
@@ -237,6 +279,12 @@ export class CommandPaletteProvider implements vscode.TreeDataProvider<CommandTr
                     description: 'Test and experiment with DataWeave scripts',
                     icon: 'code'
                 },
+                {
+                    label: 'Run DataWeave Tests',
+                    command: 'anypoint-monitor.dataweaveRunTests',
+                    description: 'Compare DataWeave scripts against saved expected outputs',
+                    icon: 'beaker'
+                },
                 {
                     label: 'Developer Utilities',
                     command: 'anypoint-monitor.developerUtilities',
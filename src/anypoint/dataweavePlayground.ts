@@ -1,12 +1,85 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { telemetryService } from '../services/telemetryService';
-import { wrapWebviewHtml } from '../webview/ui-kit';
+import { DataWeaveExecutionMode, executeDataWeave, getDataWeaveExecutionMode, resolveDataWeaveCli } from '../controllers/dataweaveService';
+import {
+    DATAWEAVE_DIR,
+    DataWeaveSession,
+    INPUT_MIME_TYPES,
+    normalizeSession,
+    sessionFileName,
+    SESSIONS_DIR
+} from './dataweaveSessions';
+import { saveDataWeaveTestCase } from './dataweaveTestRunner';
+import { button, tabs, tabSwitchScript, wrapWebviewHtml } from '../webview/ui-kit';
 
-export async function showDataWeavePlayground(context: vscode.ExtensionContext) {
+const MODE_LABELS: Record<DataWeaveExecutionMode, string> = {
+    auto: 'Auto (local CLI if installed)',
+    online: 'Online (MuleSoft)',
+    local: 'Local dw CLI'
+};
+
+const SAMPLE_SESSION: DataWeaveSession = {
+    name: 'Untitled',
+    script: `%dw 2.0
+output application/json
+---
+{
+    message: "Hello " ++ payload.name,
+    correlationId: attributes.headers."x-correlation-id",
+    region: vars.region
+}`,
+    inputs: [
+        { name: 'payload', mimeType: 'application/json', content: '{\n    "name": "Mule"\n}' },
+        { name: 'vars', mimeType: 'application/json', content: '{\n    "region": "eu-west-1"\n}' },
+        { name: 'attributes', mimeType: 'application/json', content: '{\n    "headers": {\n        "x-correlation-id": "abc-123"\n    }\n}' }
+    ]
+};
+
+function sessionsDir(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) { return undefined; }
+    return path.join(workspaceFolders[0].uri.fsPath, DATAWEAVE_DIR, SESSIONS_DIR);
+}
+
+/** Sessions saved in the workspace, newest first */
+export function listDataWeaveSessions(): Array<{ file: string; session: DataWeaveSession }> {
+    const dir = sessionsDir();
+    if (!dir || !fs.existsSync(dir)) { return []; }
+
+    const sessions: Array<{ file: string; session: DataWeaveSession }> = [];
+    for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json'))) {
+        try {
+            const session = normalizeSession(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')), file.slice(0, -'.json'.length));
+            if (session) { sessions.push({ file: path.join(dir, file), session }); }
+        } catch {
+            // Not a session file; skip it
+        }
+    }
+    return sessions.sort((a, b) => (b.session.savedAt || '').localeCompare(a.session.savedAt || ''));
+}
+
+export function saveDataWeaveSession(session: DataWeaveSession): string {
+    const dir = sessionsDir();
+    if (!dir) {
+        throw new Error('Open a workspace folder to save DataWeave sessions.');
+    }
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    const filePath = path.join(dir, sessionFileName(session.name));
+    fs.writeFileSync(filePath, JSON.stringify({ ...session, savedAt: new Date().toISOString() }, null, 2), 'utf-8');
+    return filePath;
+}
+
+/** Opens the playground, optionally loaded with a script and its inputs */
+export async function showDataWeavePlayground(context: vscode.ExtensionContext, session?: DataWeaveSession) {
     telemetryService.trackPageView('dataweavePlayground');
     const existingPanel = DataWeavePlaygroundPanel.currentPanel;
     if (existingPanel) {
         existingPanel.reveal();
+        if (session) { existingPanel.loadSession(session); }
         return;
     }
 
@@ -21,7 +94,7 @@ export async function showDataWeavePlayground(context: vscode.ExtensionContext)
         }
     );
 
-    DataWeavePlaygroundPanel.currentPanel = new DataWeavePlaygroundPanel(panel, context);
+    DataWeavePlaygroundPanel.currentPanel = new DataWeavePlaygroundPanel(panel, context, session || SAMPLE_SESSION);
 }
 
 class DataWeavePlaygroundPanel {
@@ -29,43 +102,233 @@ class DataWeavePlaygroundPanel {
     private readonly _panel: vscode.WebviewPanel;
     private readonly _context: vscode.ExtensionContext;
     private _disposables: vscode.Disposable[] = [];
+    /** `.dwl` file the playground script was last saved to as a test case */
+    private _scriptPath: string | undefined;
 
-    constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext) {
+    constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext, session: DataWeaveSession) {
         this._panel = panel;
         this._context = context;
-        this._panel.webview.html = this._getPlaygroundHtml(this._panel.webview);
+        this._panel.webview.html = this._getPlaygroundHtml(this._panel.webview, session);
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(message => this._handleMessage(message), null, this._disposables);
+        void this._postCliStatus();
+    }
+
+    private async _handleMessage(message: any) {
+        switch (message.command) {
+            case 'run': {
+                const result = await executeDataWeave({
+                    script: message.script || '',
+                    input: '',
+                    inputMimeType: 'application/json',
+                    inputs: Array.isArray(message.inputs) ? message.inputs : [],
+                    mode: message.mode
+                }, this._context);
+                this._panel.webview.postMessage({ command: 'result', result });
+                break;
+            }
+            case 'saveSession':
+                await this._saveSession(message);
+                break;
+            case 'openSession':
+                await this._openSession();
+                break;
+            case 'saveTestCase':
+                await this._saveTestCase(message);
+                break;
+            case 'openSettings':
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'anypointMonitor.dataweave');
+                break;
+        }
+    }
+
+    private async _saveSession(message: any) {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Session name',
+            value: message.name && message.name !== SAMPLE_SESSION.name ? message.name : '',
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!name) { return; }
+
+        const session = normalizeSession({ name, script: message.script, inputs: message.inputs });
+        if (!session) { return; }
+        try {
+            const filePath = saveDataWeaveSession(session);
+            this._panel.webview.postMessage({ command: 'sessionSaved', name: session.name });
+            vscode.window.showInformationMessage(`DataWeave session saved to ${vscode.workspace.asRelativePath(filePath)}`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(error.message);
+        }
+    }
+
+    private async _openSession() {
+        const sessions = listDataWeaveSessions();
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage(`No saved DataWeave sessions in ${DATAWEAVE_DIR}/${SESSIONS_DIR}.`);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            sessions.map(s => ({
+                label: s.session.name,
+                description: s.session.inputs.map(i => i.name).join(', '),
+                detail: s.session.savedAt ? `Saved ${new Date(s.session.savedAt).toLocaleString()}` : undefined,
+                session: s.session
+            })),
+            { placeHolder: 'Open a DataWeave session' }
+        );
+        if (picked) {
+            this._panel.webview.postMessage({ command: 'loadSession', session: picked.session });
+        }
+    }
+
+    private async _saveTestCase(message: any) {
+        if (typeof message.output !== 'string') {
+            vscode.window.showWarningMessage('Run the script successfully first; its output becomes the expected output of the test case.');
+            return;
+        }
+        if (message.backend === 'heuristic') {
+            vscode.window.showWarningMessage('The last run was only a heuristic preview because the DataWeave service could not be reached. Run the script with the dw CLI or online before saving its output as a test case.');
+            return;
+        }
+
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: this._scriptPath
+                ? vscode.Uri.file(this._scriptPath)
+                : workspaceFolders?.length
+                    ? vscode.Uri.joinPath(workspaceFolders[0].uri, 'src', 'main', 'resources', 'dwl', sessionFileName(message.name || 'transform').replace(/\.json$/, '.dwl'))
+                    : undefined,
+            filters: { 'DataWeave': ['dwl'] },
+            saveLabel: 'Save Script and Test Case'
+        });
+        if (!target) { return; }
+        const scriptPath = target.fsPath;
+
+        if (fs.existsSync(scriptPath) && fs.readFileSync(scriptPath, 'utf-8') !== message.script) {
+            const choice = await vscode.window.showWarningMessage(
+                `${path.basename(scriptPath)} differs from the playground script. Replace it?`,
+                { modal: true },
+                'Replace'
+            );
+            if (choice !== 'Replace') { return; }
+        }
+
+        const caseName = await vscode.window.showInputBox({
+            prompt: 'Test case name',
+            placeHolder: 'e.g. order with two lines',
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!caseName) { return; }
+
+        try {
+            fs.mkdirSync(path.dirname(scriptPath), { recursive: true });
+            fs.writeFileSync(scriptPath, message.script, 'utf-8');
+            const testFilePath = saveDataWeaveTestCase(scriptPath, {
+                name: caseName.trim(),
+                inputs: Array.isArray(message.inputs) ? message.inputs : [],
+                expected: message.output
+            });
+            this._scriptPath = scriptPath;
+
+            const action = await vscode.window.showInformationMessage(
+                `Test case "${caseName.trim()}" saved to ${vscode.workspace.asRelativePath(testFilePath)}`,
+                'Run All Tests'
+            );
+            if (action === 'Run All Tests') {
+                await vscode.commands.executeCommand('anypoint-monitor.dataweaveRunTests');
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to save test case: ${error.message}`);
+        }
+    }
+
+    private async _postCliStatus() {
+        const cliPath = await resolveDataWeaveCli();
+        this._panel.webview.postMessage({ command: 'cliStatus', cliPath: cliPath || '' });
+    }
+
+    public loadSession(session: DataWeaveSession) {
+        this._panel.webview.postMessage({ command: 'loadSession', session });
     }
 
     public reveal() {
         this._panel.reveal(vscode.ViewColumn.One);
     }
 
-    private _getPlaygroundHtml(webview: vscode.Webview): string {
+    private _getPlaygroundHtml(webview: vscode.Webview, session: DataWeaveSession): string {
         const logoPath = vscode.Uri.joinPath(this._context.extensionUri, 'logo.png');
         const logoSrc = webview.asWebviewUri(logoPath);
 
+        const mode = getDataWeaveExecutionMode();
+
         const body = `
         <div class="dw-page">
             <div class="dw-header-bar">
                 <img src="${logoSrc}" alt="Anypoint Monitor" class="dw-logo">
                 <span class="dw-title">DataWeave Playground</span>
+                ${tabs([
+                    { id: 'editor', label: 'Run', active: true },
+                    { id: 'online', label: 'MuleSoft Playground' }
+                ])}
             </div>
-            <div class="dw-iframe-container">
-                <div class="dw-loading" id="loading">
-                    <div class="dw-spinner"></div>
-                    <div class="dw-loading-text">Loading DataWeave Playground...</div>
+            <div class="am-tab-panel am-tab-panel-active dw-tab" id="tab-editor">
+                <div class="dw-toolbar">
+                    <select class="am-select" id="dw-mode" title="Execution backend">
+                        ${(Object.keys(MODE_LABELS) as DataWeaveExecutionMode[]).map(m =>
+                            `<option value="${m}"${m === mode ? ' selected' : ''}>${MODE_LABELS[m]}</option>`).join('')}
+                    </select>
+                    <span class="dw-cli-status" id="dw-cli-status">Looking for dw CLI…</span>
+                    ${button('CLI Settings', { variant: 'ghost', onclick: 'openSettings()' })}
+                    <span style="flex:1"></span>
+                    <span class="dw-session-name" id="dw-session-name"></span>
+                    ${button('Open…', { variant: 'ghost', onclick: 'openSession()' })}
+                    ${button('Save', { variant: 'secondary', onclick: 'saveSession()' })}
+                    ${button('Save Test Case', { variant: 'ghost', onclick: 'saveTestCase()' })}
+                    <span class="dw-meta" id="dw-meta"></span>
+                    ${button('Run', { variant: 'primary', icon: '▶', id: 'dw-run', onclick: 'run()' })}
+                </div>
+                <div class="dw-editor-grid">
+                    <div class="dw-pane">
+                        <div class="dw-pane-title">Script</div>
+                        <textarea id="dw-script" class="dw-code" spellcheck="false"></textarea>
+                    </div>
+                    <div class="dw-pane">
+                        <div class="dw-input-tabs" id="dw-input-tabs"></div>
+                        <div class="dw-pane-title">
+                            <input class="am-input dw-input-name" id="dw-input-name" spellcheck="false" title="Input name used in the script">
+                            <select class="am-select" id="dw-input-mime">
+                                ${INPUT_MIME_TYPES.map(t => `<option value="${t}">${t}</option>`).join('')}
+                            </select>
+                            ${button('Remove', { variant: 'ghost', id: 'dw-input-remove', onclick: 'removeInput()' })}
+                        </div>
+                        <textarea id="dw-input" class="dw-code" spellcheck="false"></textarea>
+                    </div>
+                    <div class="dw-pane dw-output-pane">
+                        <div class="dw-pane-title">Output</div>
+                        <ul class="dw-errors" id="dw-errors"></ul>
+                        <pre class="dw-code dw-output" id="dw-output"></pre>
+                    </div>
+                </div>
+            </div>
+            <div class="am-tab-panel dw-tab" id="tab-online">
+                <div class="dw-iframe-container">
+                    <div class="dw-loading" id="loading">
+                        <div class="dw-spinner"></div>
+                        <div class="dw-loading-text">Loading DataWeave Playground...</div>
+                    </div>
+                    <iframe
+                        id="playground-frame"
+                        src="https://dataweave.mulesoft.com/learn/playground"
+                        sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-downloads allow-modals"
+                        onload="hideLoading()"
+                    ></iframe>
                 </div>
-                <iframe
-                    id="playground-frame"
-                    src="https://dataweave.mulesoft.com/learn/playground"
-                    sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-downloads allow-modals"
-                    onload="hideLoading()"
-                ></iframe>
             </div>
         </div>`;
 
         const scripts = `
+            const vscode = acquireVsCodeApi();
+            ${tabSwitchScript()}
             function hideLoading() {
                 const loading = document.getElementById('loading');
                 if (loading) { loading.style.display = 'none'; }
@@ -75,6 +338,157 @@ class DataWeavePlaygroundPanel {
                 const loading = document.getElementById('loading');
                 loading.innerHTML = '<div style="color:var(--am-error)">Unable to load DataWeave Playground</div><div style="margin-top:10px;font-size:12px;color:var(--am-text-muted)">Please check your internet connection and try again.</div>';
             };
+
+            const scriptEl = document.getElementById('dw-script');
+            const outputEl = document.getElementById('dw-output');
+            const errorsEl = document.getElementById('dw-errors');
+            const metaEl = document.getElementById('dw-meta');
+            const runBtn = document.getElementById('dw-run');
+
+            const inputEl = document.getElementById('dw-input');
+            const inputNameEl = document.getElementById('dw-input-name');
+            const inputMimeEl = document.getElementById('dw-input-mime');
+
+            // Named inputs edited one at a time; the active one is mirrored into the fields
+            let sessionName = '';
+            let lastOutput;
+            let lastBackend;
+            let inputs = [];
+            let activeInput = 0;
+
+            function loadSession(session) {
+                sessionName = session.name;
+                lastOutput = undefined;
+                scriptEl.value = session.script;
+                inputs = session.inputs.map(i => Object.assign({}, i));
+                activeInput = 0;
+                document.getElementById('dw-session-name').textContent = session.name;
+                renderInputs();
+            }
+
+            function renderInputs() {
+                const tabsEl = document.getElementById('dw-input-tabs');
+                tabsEl.innerHTML = '';
+                inputs.forEach((input, index) => {
+                    const tab = document.createElement('button');
+                    tab.className = 'dw-input-tab' + (index === activeInput ? ' dw-input-tab-active' : '');
+                    tab.textContent = input.name || '(unnamed)';
+                    tab.onclick = () => { activeInput = index; renderInputs(); };
+                    tabsEl.appendChild(tab);
+                });
+                ['vars', 'attributes', 'input'].filter(n => !inputs.some(i => i.name === n)).slice(0, 1).forEach(suggested => {
+                    const add = document.createElement('button');
+                    add.className = 'dw-input-tab dw-input-add';
+                    add.textContent = '+ ' + suggested;
+                    add.onclick = () => addInput(suggested);
+                    tabsEl.appendChild(add);
+                });
+
+                const current = inputs[activeInput];
+                inputNameEl.disabled = inputMimeEl.disabled = inputEl.disabled = !current;
+                document.getElementById('dw-input-remove').disabled = !current;
+                inputNameEl.value = current ? current.name : '';
+                inputMimeEl.value = current ? current.mimeType : 'application/json';
+                inputEl.value = current ? current.content : '';
+            }
+
+            function addInput(name) {
+                let unique = name;
+                for (let n = 2; inputs.some(i => i.name === unique); n++) { unique = name + n; }
+                inputs.push({ name: unique, mimeType: 'application/json', content: '{}' });
+                lastOutput = undefined;
+                activeInput = inputs.length - 1;
+                renderInputs();
+            }
+
+            function removeInput() {
+                inputs.splice(activeInput, 1);
+                lastOutput = undefined;
+                activeInput = Math.max(0, activeInput - 1);
+                renderInputs();
+            }
+
+            inputNameEl.addEventListener('input', () => {
+                inputs[activeInput].name = inputNameEl.value.trim();
+                document.querySelectorAll('.dw-input-tab')[activeInput].textContent = inputs[activeInput].name || '(unnamed)';
+            });
+            inputNameEl.addEventListener('change', renderInputs);
+            inputMimeEl.addEventListener('change', () => { inputs[activeInput].mimeType = inputMimeEl.value; });
+            inputEl.addEventListener('input', () => { inputs[activeInput].content = inputEl.value; });
+            // A saved test case must pair the inputs with the output they produced
+            [scriptEl, inputEl, inputNameEl, inputMimeEl].forEach(el => el.addEventListener('input', () => { lastOutput = undefined; }));
+
+            function run() {
+                runBtn.disabled = true;
+                metaEl.textContent = 'Running…';
+                outputEl.classList.remove('dw-failed');
+                errorsEl.innerHTML = '';
+                vscode.postMessage({
+                    command: 'run',
+                    script: scriptEl.value,
+                    inputs: inputs,
+                    mode: document.getElementById('dw-mode').value
+                });
+            }
+            function openSettings() { vscode.postMessage({ command: 'openSettings' }); }
+            function saveSession() {
+                vscode.postMessage({ command: 'saveSession', name: sessionName, script: scriptEl.value, inputs: inputs });
+            }
+            function openSession() { vscode.postMessage({ command: 'openSession' }); }
+            function saveTestCase() {
+                vscode.postMessage({ command: 'saveTestCase', name: sessionName, script: scriptEl.value, inputs: inputs, output: lastOutput, backend: lastBackend });
+            }
+
+            loadSession(${JSON.stringify(session).replace(/</g, '\\u003c')});
+
+            // Select the reported position in the script editor
+            function backendLabel(backend) {
+                return backend === 'local' ? 'local CLI' : backend === 'heuristic' ? 'heuristic preview (not a DataWeave run)' : backend;
+            }
+
+            function goTo(line, column) {
+                const lines = scriptEl.value.split('\\n');
+                let offset = 0;
+                for (let i = 0; i < line - 1 && i < lines.length; i++) { offset += lines[i].length + 1; }
+                offset += Math.max(0, column - 1);
+                scriptEl.focus();
+                scriptEl.setSelectionRange(offset, offset + 1);
+            }
+
+            document.addEventListener('keydown', e => {
+                if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') { e.preventDefault(); run(); }
+            });
+
+            window.addEventListener('message', event => {
+                const msg = event.data;
+                if (msg.command === 'loadSession') {
+                    switchTab('editor');
+                    loadSession(msg.session);
+                } else if (msg.command === 'sessionSaved') {
+                    sessionName = msg.name;
+                    document.getElementById('dw-session-name').textContent = msg.name;
+                } else if (msg.command === 'cliStatus') {
+                    const status = document.getElementById('dw-cli-status');
+                    status.textContent = msg.cliPath ? 'dw CLI: ' + msg.cliPath : 'dw CLI not found';
+                    status.classList.toggle('dw-cli-missing', !msg.cliPath);
+                } else if (msg.command === 'result') {
+                    const r = msg.result;
+                    runBtn.disabled = false;
+                    metaEl.textContent = [backendLabel(r.backend), r.executionTime !== undefined ? r.executionTime + ' ms' : '']
+                        .filter(Boolean).join(' · ');
+                    lastOutput = r.success ? (r.output || '') : undefined;
+                    lastBackend = r.backend;
+                    outputEl.textContent = r.success ? (r.output || '') : (r.error || 'Execution failed');
+                    outputEl.classList.toggle('dw-failed', !r.success);
+                    errorsEl.innerHTML = '';
+                    (r.errors || []).forEach(err => {
+                        const li = document.createElement('li');
+                        li.textContent = 'Line ' + err.line + ', column ' + err.column + ': ' + err.message;
+                        li.onclick = () => goTo(err.line, err.column);
+                        errorsEl.appendChild(li);
+                    });
+                }
+            });
         `;
 
         return wrapWebviewHtml({
@@ -89,8 +503,41 @@ class DataWeavePlaygroundPanel {
                     border-bottom: 1px solid var(--am-border);
                     display: flex; align-items: center; padding: 0 16px; gap: 10px;
                 }
+                .dw-header-bar .am-tabs { margin: 0 0 0 16px; border-bottom: none; }
                 .dw-logo { width: 20px; height: 20px; }
                 .dw-title { font-size: 13px; color: var(--am-text-primary); }
+                .dw-tab.am-tab-panel-active { flex: 1; display: flex; flex-direction: column; min-height: 0; }
+                .dw-toolbar { display: flex; align-items: center; gap: 8px; padding: 8px 16px; border-bottom: 1px solid var(--am-border); }
+                .dw-cli-status, .dw-meta, .dw-session-name { font-size: 12px; color: var(--am-text-secondary); }
+                .dw-input-tabs { display: flex; gap: 2px; padding: 6px 12px 0; border-bottom: 1px solid var(--am-border); }
+                .dw-input-tab {
+                    background: none; border: none; border-bottom: 2px solid transparent; cursor: pointer;
+                    color: var(--am-text-secondary); font-size: 12px; padding: 4px 10px;
+                    font-family: var(--vscode-editor-font-family, monospace);
+                }
+                .dw-input-tab-active { color: var(--am-text-primary); border-bottom-color: var(--am-info); }
+                .dw-input-add { color: var(--am-text-muted); }
+                .dw-input-name { width: 160px; font-family: var(--vscode-editor-font-family, monospace); }
+                .dw-cli-status.dw-cli-missing { color: var(--am-warning); }
+                .dw-editor-grid {
+                    flex: 1; min-height: 0; display: grid; gap: 1px; background: var(--am-border);
+                    grid-template-columns: 1fr 1fr; grid-template-rows: 1fr 1fr;
+                }
+                .dw-pane { display: flex; flex-direction: column; min-height: 0; background: var(--am-bg-primary); }
+                .dw-pane:first-child { grid-row: span 2; }
+                .dw-pane-title {
+                    display: flex; align-items: center; justify-content: space-between; gap: 8px;
+                    font-size: 12px; color: var(--am-text-secondary); padding: 6px 12px;
+                }
+                .dw-code {
+                    flex: 1; margin: 0; padding: 8px 12px; border: none; resize: none; overflow: auto;
+                    background: var(--am-bg-input); color: var(--am-text-primary);
+                    font-family: var(--vscode-editor-font-family, monospace); font-size: 12px; white-space: pre;
+                }
+                .dw-output.dw-failed { color: var(--am-error); white-space: pre-wrap; }
+                .dw-errors { list-style: none; margin: 0; padding: 0; }
+                .dw-errors li { font-size: 12px; color: var(--am-error); padding: 4px 12px; cursor: pointer; }
+                .dw-errors li:hover { background: var(--am-bg-surface-hover); }
                 .dw-iframe-container { flex: 1; position: relative; background: #ffffff; }
                 .dw-iframe-container iframe {
                     width: 100%; height: 100%; border: none; display: block;
@@ -0,0 +1,56 @@
+import { DataWeaveInput } from '../controllers/dataweaveCli';
+
+/**
+ * DataWeave Playground sessions: a script with its named inputs, saved as
+ * JSON under `.dataweave/sessions/` in the workspace so they can be
+ * reopened and shared through source control.
+ */
+
+export const DATAWEAVE_DIR = '.dataweave';
+export const SESSIONS_DIR = 'sessions';
+
+/** Input mime types offered by the playground, in menu order */
+export const INPUT_MIME_TYPES = [
+    'application/json',
+    'application/xml',
+    'text/csv',
+    'application/yaml',
+    'application/x-www-form-urlencoded',
+    'text/plain'
+];
+
+export interface DataWeaveSession {
+    name: string;
+    script: string;
+    inputs: DataWeaveInput[];
+    savedAt?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** File name for a session: lower-case, dash-separated, `.json` */
+export function sessionFileName(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug || 'session'}.json`;
+}
+
+/** Coerces a parsed session file, dropping malformed inputs; undefined when there is no script */
+export function normalizeSession(raw: any, fallbackName = 'Untitled'): DataWeaveSession | undefined {
+    if (!raw || typeof raw !== 'object' || typeof raw.script !== 'string') { return undefined; }
+
+    const inputs: DataWeaveInput[] = (Array.isArray(raw.inputs) ? raw.inputs : [])
+        .filter((i: any) => i && typeof i.name === 'string' && IDENTIFIER.test(i.name))
+        .map((i: any) => ({
+            name: i.name,
+            content: typeof i.content === 'string' ? i.content : JSON.stringify(i.content ?? '', null, 2),
+            mimeType: typeof i.mimeType === 'string' && i.mimeType ? i.mimeType : 'application/json'
+        }))
+        .filter((i: DataWeaveInput, index: number, all: DataWeaveInput[]) => all.findIndex(o => o.name === i.name) === index);
+
+    return {
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fallbackName,
+        script: raw.script,
+        inputs,
+        savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : undefined
+    };
+}
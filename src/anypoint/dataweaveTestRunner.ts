@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { telemetryService } from '../services/telemetryService';
+import { executeDataWeave } from '../controllers/dataweaveService';
+import {
+    compareOutputs,
+    DataWeaveTestCase,
+    DataWeaveTestCaseResult,
+    DataWeaveTestFile,
+    DataWeaveTestFileResult,
+    declaredOutputMimeType,
+    normalizeTestFile,
+    summarizeTestResults,
+    TEST_FILE_SUFFIX,
+    testFileNameFor,
+    upsertTestCase
+} from './dataweaveTests';
+import {
+    wrapWebviewHtml,
+    summaryCard,
+    badge,
+    button,
+    emptyState,
+    escapeHtml as escHtml,
+    escapeAttr
+} from '../webview/ui-kit';
+
+const EXCLUDE_GLOB = '**/{node_modules,target,.git}/**';
+
+let currentPanel: vscode.WebviewPanel | undefined;
+
+function readTestFile(testFilePath: string): DataWeaveTestFile {
+    const defaultScript = path.basename(testFilePath).slice(0, -TEST_FILE_SUFFIX.length) + '.dwl';
+    if (!fs.existsSync(testFilePath)) {
+        return { script: defaultScript, cases: [] };
+    }
+    return normalizeTestFile(JSON.parse(fs.readFileSync(testFilePath, 'utf-8')), defaultScript);
+}
+
+function writeTestFile(testFilePath: string, file: DataWeaveTestFile): void {
+    fs.writeFileSync(testFilePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+}
+
+/** Adds or replaces a case in the test file next to `scriptPath`; returns the test file path */
+export function saveDataWeaveTestCase(scriptPath: string, testCase: DataWeaveTestCase): string {
+    const testFilePath = path.join(path.dirname(scriptPath), testFileNameFor(path.basename(scriptPath)));
+    const file = readTestFile(testFilePath);
+    writeTestFile(testFilePath, upsertTestCase({ ...file, script: path.basename(scriptPath) }, testCase));
+    return testFilePath;
+}
+
+async function runTestFile(testFilePath: string, context: vscode.ExtensionContext): Promise<DataWeaveTestFileResult> {
+    let file: DataWeaveTestFile;
+    try {
+        file = readTestFile(testFilePath);
+    } catch (error: any) {
+        return {
+            file: testFilePath,
+            script: '',
+            cases: [{ name: '(test file)', status: 'error', diffs: [], error: `Invalid test file: ${error.message}` }]
+        };
+    }
+
+    const scriptPath = path.join(path.dirname(testFilePath), file.script);
+    if (!fs.existsSync(scriptPath)) {
+        return {
+            file: testFilePath,
+            script: scriptPath,
+            cases: file.cases.map(c => ({ name: c.name, status: 'error' as const, diffs: [], error: `Script not found: ${file.script}` }))
+        };
+    }
+
+    const script = fs.readFileSync(scriptPath, 'utf-8');
+    const mimeType = declaredOutputMimeType(script);
+    const cases: DataWeaveTestCaseResult[] = [];
+
+    for (const testCase of file.cases) {
+        const result = await executeDataWeave({
+            script,
+            input: '',
+            inputMimeType: 'application/json',
+            inputs: testCase.inputs
+        }, context);
+
+        if (!result.success) {
+            const location = result.errors?.[0] ? ` (line ${result.errors[0].line}, column ${result.errors[0].column})` : '';
+            cases.push({
+                name: testCase.name,
+                status: 'error',
+                diffs: [],
+                error: (result.error || 'Execution failed') + location,
+                durationMs: result.executionTime
+            });
+            continue;
+        }
+
+        if (result.backend === 'heuristic') {
+            cases.push({
+                name: testCase.name,
+                status: 'error',
+                diffs: [],
+                error: 'The DataWeave service could not be reached, so only a heuristic preview ran. Install the dw CLI or check your connection to verify this case.',
+                durationMs: result.executionTime
+            });
+            continue;
+        }
+
+        const actual = result.output || '';
+        const diffs = compareOutputs(testCase.expected, actual, mimeType);
+        cases.push({
+            name: testCase.name,
+            status: diffs.length === 0 ? 'passed' : 'failed',
+            diffs,
+            actual,
+            durationMs: result.executionTime
+        });
+    }
+
+    return { file: testFilePath, script: scriptPath, cases };
+}
+
+/** Runs every `*.dwtest.json` in the workspace and shows the results panel */
+export async function runDataWeaveTests(context: vscode.ExtensionContext): Promise<void> {
+    telemetryService.trackPageView('dataweaveTests');
+
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('Open a workspace folder to run DataWeave tests.');
+        return;
+    }
+
+    const results = await collectResults(context);
+
+    if (currentPanel) {
+        currentPanel.reveal(vscode.ViewColumn.One);
+    } else {
+        currentPanel = vscode.window.createWebviewPanel(
+            'dataweaveTests',
+            'DataWeave Tests',
+            vscode.ViewColumn.One,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        const panel = currentPanel;
+        let latest = results;
+
+        panel.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'rerun':
+                    latest = await collectResults(context);
+                    panel.webview.html = renderTestResults(latest);
+                    break;
+                case 'openFile':
+                    if (typeof message.file === 'string') {
+                        const doc = await vscode.workspace.openTextDocument(message.file);
+                        await vscode.window.showTextDocument(doc, { preview: false });
+                    }
+                    break;
+                case 'acceptActual': {
+                    const fileResult = latest.find(r => r.file === message.file);
+                    const caseResult = fileResult?.cases.find(c => c.name === message.caseName);
+                    if (!fileResult || caseResult?.actual === undefined) { break; }
+                    const file = readTestFile(fileResult.file);
+                    const testCase = file.cases.find(c => c.name === caseResult.name);
+                    if (!testCase) { break; }
+                    writeTestFile(fileResult.file, upsertTestCase(file, { ...testCase, expected: caseResult.actual }));
+                    latest = await collectResults(context);
+                    panel.webview.html = renderTestResults(latest);
+                    vscode.window.showInformationMessage(`Updated expected output of "${caseResult.name}"`);
+                    break;
+                }
+            }
+        });
+        panel.onDidDispose(() => {
+            currentPanel = undefined;
+        });
+    }
+
+    currentPanel.webview.html = renderTestResults(results);
+}
+
+async function collectResults(context: vscode.ExtensionContext): Promise<DataWeaveTestFileResult[]> {
+    const uris = await vscode.workspace.findFiles(`**/*${TEST_FILE_SUFFIX}`, EXCLUDE_GLOB);
+    const files = uris.map(u => u.fsPath).sort();
+
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Running DataWeave tests',
+        cancellable: false
+    }, async (progress) => {
+        const results: DataWeaveTestFileResult[] = [];
+        for (const file of files) {
+            progress.report({ message: vscode.workspace.asRelativePath(file), increment: 100 / files.length });
+            results.push(await runTestFile(file, context));
+        }
+        return results;
+    });
+}
+
+function renderTestResults(results: DataWeaveTestFileResult[]): string {
+    const summary = summarizeTestResults(results);
+    const total = summary.passed + summary.failed + summary.errors;
+
+    const extraStyles = `
+        .dt-file { background: var(--am-bg-surface); border: 1px solid var(--am-border); border-radius: var(--am-radius-md); padding: 16px; margin-bottom: 16px; }
+        .dt-file-header { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; }
+        .dt-file-header h3 { font-size: 14px; flex: 1; }
+        .dt-case { border-top: 1px solid var(--am-border); padding: 8px 0; }
+        .dt-case-header { display: flex; align-items: center; gap: 8px; }
+        .dt-case-name { flex: 1; }
+        .dt-meta { font-size: 12px; color: var(--am-text-muted); }
+        .dt-error { font-family: var(--vscode-editor-font-family, monospace); font-size: 12px; color: var(--am-error); white-space: pre-wrap; margin-top: 6px; }
+        .dt-diff td { font-family: var(--vscode-editor-font-family, monospace); font-size: 12px; word-break: break-all; }
+    `;
+
+    const scripts = `
+const vscode = acquireVsCodeApi();
+function rerun() { vscode.postMessage({ command: 'rerun' }); }
+function openFile(file) { vscode.postMessage({ command: 'openFile', file }); }
+function acceptActual(file, caseName) { vscode.postMessage({ command: 'acceptActual', file, caseName }); }
+`.trim();
+
+    const statusBadge = (c: DataWeaveTestCaseResult) =>
+        c.status === 'passed' ? badge('PASSED', 'success', true)
+            : c.status === 'failed' ? badge('FAILED', 'error', true)
+                : badge('ERROR', 'warning', true);
+
+    const caseHtml = (r: DataWeaveTestFileResult, c: DataWeaveTestCaseResult) => `
+        <div class="dt-case">
+            <div class="dt-case-header">
+                ${statusBadge(c)}
+                <span class="dt-case-name">${escHtml(c.name)}</span>
+                ${c.durationMs !== undefined ? `<span class="dt-meta">${c.durationMs} ms</span>` : ''}
+                ${c.status === 'failed' ? button('Accept Actual', {
+                    variant: 'ghost',
+                    onclick: `acceptActual(${escapeAttr(JSON.stringify(r.file))}, ${escapeAttr(JSON.stringify(c.name))})`
+                }) : ''}
+            </div>
+            ${c.error ? `<div class="dt-error">${escHtml(c.error)}</div>` : ''}
+            ${c.diffs.length > 0 ? `
+            <div class="am-table-container">
+                <table class="am-table dt-diff">
+                    <thead><tr><th>Path</th><th>Change</th><th>Expected</th><th>Actual</th></tr></thead>
+                    <tbody>
+                    ${c.diffs.map(d => `<tr class="am-row">
+                        <td>${escHtml(d.path || '(root)')}</td>
+                        <td>${d.kind}</td>
+                        <td>${escHtml(d.expected ?? '')}</td>
+                        <td>${escHtml(d.actual ?? '')}</td>
+                    </tr>`).join('')}
+                    </tbody>
+                </table>
+            </div>` : ''}
+        </div>`;
+
+    const content = results.length === 0 ? emptyState({
+        icon: '🧪',
+        title: 'No DataWeave tests found',
+        description: `Save a test case from the DataWeave Playground to create a ${TEST_FILE_SUFFIX} file next to your script.`
+    }) : `
+    <div class="am-summary-cards">
+        ${summaryCard({ icon: '🧪', value: total, label: 'Test Cases', breakdown: `${results.length} scripts` })}
+        ${summaryCard({ icon: '✅', value: summary.passed, label: 'Passed', variant: 'healthy' })}
+        ${summaryCard({ icon: '❌', value: summary.failed, label: 'Output Mismatch', variant: summary.failed > 0 ? 'critical' : undefined })}
+        ${summaryCard({ icon: '⚠️', value: summary.errors, label: 'Errors', variant: summary.errors > 0 ? 'warning' : undefined })}
+    </div>
+    ${results.map(r => `
+    <div class="dt-file">
+        <div class="dt-file-header">
+            <h3>${escHtml(vscode.workspace.asRelativePath(r.script || r.file))}</h3>
+            ${r.script ? button('Open Script', { variant: 'ghost', onclick: `openFile(${escapeAttr(JSON.stringify(r.script))})` }) : ''}
+            ${button('Open Tests', { variant: 'ghost', onclick: `openFile(${escapeAttr(JSON.stringify(r.file))})` })}
+        </div>
+        ${r.cases.length === 0 ? '<div class="dt-meta">No test cases</div>' : r.cases.map(c => caseHtml(r, c)).join('')}
+    </div>`).join('')}`;
+
+    const body = `
+<div class="am-container">
+    <header class="am-page-header">
+        <div style="flex:1">
+            <h1>DataWeave Tests</h1>
+            <div class="am-page-header-meta">Run ${new Date().toLocaleString()}</div>
+        </div>
+        <div class="am-page-header-right">
+            ${button('Re-run', { variant: 'primary', onclick: 'rerun()' })}
+        </div>
+    </header>
+    ${content}
+</div>
+`.trim();
+
+    return wrapWebviewHtml({ title: 'DataWeave Tests', body, scripts, extraStyles });
+}
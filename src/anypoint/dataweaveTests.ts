@@ -0,0 +1,213 @@
+import { XMLParser } from 'fast-xml-parser';
+import { DataWeaveInput } from '../controllers/dataweaveCli';
+
+/**
+ * Golden-output test cases for DataWeave scripts. Cases for `mapping.dwl`
+ * live next to it in `mapping.dwtest.json`; each case pairs named inputs
+ * with the expected output, which is compared structurally for JSON and XML
+ * and line by line for everything else.
+ */
+
+export const TEST_FILE_SUFFIX = '.dwtest.json';
+
+export interface DataWeaveTestCase {
+    name: string;
+    inputs: DataWeaveInput[];
+    expected: string;
+}
+
+export interface DataWeaveTestFile {
+    /** Script file name, relative to the test file */
+    script: string;
+    cases: DataWeaveTestCase[];
+}
+
+export interface OutputDifference {
+    /** `order.items[1].sku`, `order.@id`, `line 3`, or empty for the whole output */
+    path: string;
+    kind: 'added' | 'removed' | 'changed';
+    expected?: string;
+    actual?: string;
+}
+
+export interface DataWeaveTestCaseResult {
+    name: string;
+    status: 'passed' | 'failed' | 'error';
+    diffs: OutputDifference[];
+    actual?: string;
+    error?: string;
+    durationMs?: number;
+}
+
+export interface DataWeaveTestFileResult {
+    /** Test file path as shown to the user */
+    file: string;
+    script: string;
+    cases: DataWeaveTestCaseResult[];
+}
+
+const SHORT_MIME_TYPES: Record<string, string> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    csv: 'application/csv',
+    yaml: 'application/yaml',
+    text: 'text/plain',
+    urlencoded: 'application/x-www-form-urlencoded'
+};
+
+const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true
+});
+
+/** `mapping.dwl` → `mapping.dwtest.json` */
+export function testFileNameFor(scriptFileName: string): string {
+    return scriptFileName.replace(/\.dwl$/i, '') + TEST_FILE_SUFFIX;
+}
+
+/** Output mime type declared by the script header, `application/json` when absent */
+export function declaredOutputMimeType(script: string): string {
+    const header = script.split(/^---\s*$/m)[0];
+    const match = header.match(/^\s*output\s+([\w.+-]+(?:\/[\w.+-]+)?)/m);
+    if (!match) { return 'application/json'; }
+    const declared = match[1].toLowerCase();
+    return declared.includes('/') ? declared : SHORT_MIME_TYPES[declared] || `application/${declared}`;
+}
+
+/** Coerces a parsed test file, dropping cases without a name */
+export function normalizeTestFile(raw: any, scriptFileName: string): DataWeaveTestFile {
+    const cases: DataWeaveTestCase[] = (Array.isArray(raw?.cases) ? raw.cases : [])
+        .filter((c: any) => c && typeof c.name === 'string' && c.name.trim())
+        .map((c: any) => ({
+            name: c.name.trim(),
+            inputs: (Array.isArray(c.inputs) ? c.inputs : [])
+                .filter((i: any) => i && typeof i.name === 'string')
+                .map((i: any) => ({
+                    name: i.name,
+                    content: typeof i.content === 'string' ? i.content : JSON.stringify(i.content ?? '', null, 2),
+                    mimeType: typeof i.mimeType === 'string' && i.mimeType ? i.mimeType : 'application/json'
+                })),
+            expected: typeof c.expected === 'string' ? c.expected : JSON.stringify(c.expected ?? '', null, 2)
+        }));
+
+    return {
+        script: typeof raw?.script === 'string' && raw.script ? raw.script : scriptFileName,
+        cases
+    };
+}
+
+/** Adds the case, or replaces the one with the same name */
+export function upsertTestCase(file: DataWeaveTestFile, testCase: DataWeaveTestCase): DataWeaveTestFile {
+    const index = file.cases.findIndex(c => c.name === testCase.name);
+    const cases = index >= 0
+        ? file.cases.map((c, i) => i === index ? testCase : c)
+        : [...file.cases, testCase];
+    return { ...file, cases };
+}
+
+/** JSON notation, so `10` and `"10"` stay distinguishable */
+function render(value: any): string {
+    return JSON.stringify(value);
+}
+
+function joinPath(base: string, key: string): string {
+    return base ? `${base}.${key}` : key;
+}
+
+/** Differences between two parsed documents, by path */
+export function diffValues(expected: any, actual: any, path = ''): OutputDifference[] {
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        const diffs: OutputDifference[] = [];
+        for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+            const itemPath = `${path}[${i}]`;
+            if (i >= actual.length) {
+                diffs.push({ path: itemPath, kind: 'removed', expected: render(expected[i]) });
+            } else if (i >= expected.length) {
+                diffs.push({ path: itemPath, kind: 'added', actual: render(actual[i]) });
+            } else {
+                diffs.push(...diffValues(expected[i], actual[i], itemPath));
+            }
+        }
+        return diffs;
+    }
+
+    const isObject = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v);
+    if (isObject(expected) && isObject(actual)) {
+        const diffs: OutputDifference[] = [];
+        for (const key of Object.keys(expected)) {
+            if (!(key in actual)) {
+                diffs.push({ path: joinPath(path, key), kind: 'removed', expected: render(expected[key]) });
+            } else {
+                diffs.push(...diffValues(expected[key], actual[key], joinPath(path, key)));
+            }
+        }
+        for (const key of Object.keys(actual)) {
+            if (!(key in expected)) {
+                diffs.push({ path: joinPath(path, key), kind: 'added', actual: render(actual[key]) });
+            }
+        }
+        return diffs;
+    }
+
+    if (JSON.stringify(expected) === JSON.stringify(actual)) { return []; }
+    return [{ path, kind: 'changed', expected: render(expected), actual: render(actual) }];
+}
+
+function diffLines(expected: string, actual: string): OutputDifference[] {
+    const expectedLines = expected.replace(/\r\n/g, '\n').trimEnd().split('\n');
+    const actualLines = actual.replace(/\r\n/g, '\n').trimEnd().split('\n');
+    const diffs: OutputDifference[] = [];
+    for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+        const e = expectedLines[i];
+        const a = actualLines[i];
+        if (e === a) { continue; }
+        diffs.push({
+            path: `line ${i + 1}`,
+            kind: e === undefined ? 'added' : a === undefined ? 'removed' : 'changed',
+            expected: e,
+            actual: a
+        });
+    }
+    return diffs;
+}
+
+function parseStructured(text: string, mimeType: string): { ok: true; value: any } | { ok: false } {
+    try {
+        if (mimeType.endsWith('json')) {
+            return { ok: true, value: JSON.parse(text) };
+        }
+        if (mimeType.endsWith('xml')) {
+            return { ok: true, value: xmlParser.parse(text, true) };
+        }
+    } catch {
+        // Fall back to a line comparison
+    }
+    return { ok: false };
+}
+
+/**
+ * Structural differences between expected and actual output. Formatting,
+ * key order and XML whitespace are ignored; output that does not parse as
+ * the declared type is compared line by line.
+ */
+export function compareOutputs(expected: string, actual: string, mimeType: string): OutputDifference[] {
+    const base = mimeType.split(';')[0].trim().toLowerCase();
+    const e = parseStructured(expected, base);
+    const a = parseStructured(actual, base);
+    if (e.ok && a.ok) {
+        return diffValues(e.value, a.value);
+    }
+    return diffLines(expected, actual);
+}
+
+export function summarizeTestResults(results: DataWeaveTestFileResult[]): { passed: number; failed: number; errors: number } {
+    const cases = results.flatMap(r => r.cases);
+    return {
+        passed: cases.filter(c => c.status === 'passed').length,
+        failed: cases.filter(c => c.status === 'failed').length,
+        errors: cases.filter(c => c.status === 'error').length
+    };
+}
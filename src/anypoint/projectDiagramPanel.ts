@@ -277,6 +277,24 @@ function renderSummaryTab(project: MuleProject, narrative: NarrativeResult): str
                     : sys.configs.map(c => `<code class="dg-code">${escapeHtml(c)}</code>`).join(' ')}</td>
             </tr>`).join('');
 
+    const flowLinks = (names: string[]) => names.length === 0
+        ? '<span class="dg-muted">—</span>'
+        : names.map(n => `<a href="#" class="dg-link" data-flow-name="${escapeAttr(n)}">${escapeHtml(n)}</a>`).join(', ');
+
+    const errorTypeRows = project.errorCatalog.types.length === 0
+        ? `<tr><td colspan="4" class="dg-empty">No raise-error types or typed error handlers detected.</td></tr>`
+        : project.errorCatalog.types.map(t => `
+            <tr>
+                <td><code class="dg-code">${escapeHtml(t.type)}</code></td>
+                <td>${flowLinks(t.raisedIn)}</td>
+                <td>${t.handledBy.length === 0
+                    ? '<span class="dg-muted">—</span>'
+                    : t.handledBy.map(h => escapeHtml(h)).join('<br>')}</td>
+                <td>${t.unhandledIn.length > 0
+                    ? `<span class="dg-pill dg-pill-warn">Unhandled</span> in ${flowLinks(t.unhandledIn)}`
+                    : t.raisedIn.length > 0 ? '<span class="dg-pill">Handled</span>' : '<span class="dg-muted">Not raised in project</span>'}</td>
+            </tr>`).join('');
+
     const stats = [
         { label: 'Flows', value: s.composition.flows },
         { label: 'Sub-flows', value: s.composition.subFlows },
@@ -329,6 +347,19 @@ function renderSummaryTab(project: MuleProject, narrative: NarrativeResult): str
                     <tbody>${systemsRows}</tbody>
                 </table>
             </article>
+
+            <article class="dg-card dg-card-wide">
+                <header class="dg-card-head">
+                    <h2 class="dg-card-title">Error types</h2>
+                    ${project.errorCatalog.defaultErrorHandler
+                        ? `<span class="dg-card-meta">Default handler: ${escapeHtml(project.errorCatalog.defaultErrorHandler)}</span>`
+                        : ''}
+                </header>
+                <table class="dg-table">
+                    <thead><tr><th>Type</th><th>Raised in</th><th>Handled by</th><th>Status</th></tr></thead>
+                    <tbody>${errorTypeRows}</tbody>
+                </table>
+            </article>
         </div>
     `;
 }
@@ -768,6 +799,10 @@ function getStyles(): string {
             text-transform: uppercase;
             letter-spacing: 0.5px;
         }
+        .dg-pill-warn {
+            border-color: var(--am-warning);
+            color: var(--am-warning);
+        }
         .dg-code {
             font-family: var(--vscode-editor-font-family, ui-monospace, SFMono-Regular, monospace);
             font-size: 12px;
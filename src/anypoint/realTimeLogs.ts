@@ -8,7 +8,7 @@ import * as fs from 'fs';
 import { getGitHubStarBannerHtml, getGitHubStarBannerStyles, getGitHubStarBannerScript } from '../utils/starPrompt.js';
 import { wrapWebviewHtml, badge, escapeHtml, stripScriptTags } from '../webview/ui-kit';
 import { telemetryService } from '../services/telemetryService';
-import { jumpToSource, buildReplaySession, getInlineHypotheses } from '../fire/orchestrator.js';
+import { jumpToSource, buildReplaySession, getInlineHypotheses, loadHypothesisFeedback } from '../fire/orchestrator.js';
 import { isActionableLogEntry } from '../fire/logParser.js';
 import { showReplayPanel } from '../fire/replayPanel.js';
 
@@ -143,12 +143,11 @@ export async function showRealTimeLogs(
                     message: e.message,
                     timestamp: e.timestamp,
                 }));
-                const startIdx = Math.max(0, message.logIndex - 20);
-                const contextEntries = entries.slice(startIdx, message.logIndex + 1);
                 const replaySession = await buildReplaySession(
-                    contextEntries,
+                    entries,
                     session.applicationDomain,
-                    message.logIndex
+                    message.logIndex,
+                    loadHypothesisFeedback(context)
                 );
                 if (replaySession) {
                     panel.webview.postMessage({
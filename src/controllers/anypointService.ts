@@ -637,6 +637,66 @@ export async function getAnypointMQStats(context: vscode.ExtensionContext, envir
     }
 }
 
+/** Queues and their stats in one Anypoint MQ region */
+export interface MQRegionQueues {
+    regionId: string;
+    regionName: string;
+    queues: any[];
+    stats: any[];
+    /** Set when this region's queues or stats could not be fetched */
+    error?: string;
+}
+
+/**
+ * Queues and their stats in every region of an environment, without prompting
+ * or opening a webview — shared by the War Room MQ collector and the Alerting
+ * Hub. Exchanges are skipped. Throws when the regions cannot be listed (e.g.
+ * Anypoint MQ is not enabled); a failing region is returned with `error` set
+ * and no queues.
+ */
+export async function fetchAnypointMQQueueStats(
+    context: vscode.ExtensionContext,
+    organizationId: string,
+    environmentId: string,
+    signal?: AbortSignal
+): Promise<MQRegionQueues[]> {
+    const { ApiHelper } = await import('./apiHelper.js');
+    const apiHelper = new ApiHelper(context);
+    const mqAdminBase = await getAnypointMqAdminBase(context);
+    const mqStatsBase = await getAnypointMqStatsBase(context);
+    const envBase = `organizations/${organizationId}/environments/${environmentId}`;
+
+    const regionsResponse = await apiHelper.get(`${mqAdminBase}/${envBase}/regions`, { signal });
+    const regions = Array.isArray(regionsResponse.data) ? regionsResponse.data : regionsResponse.data ? [regionsResponse.data] : [];
+
+    const results: MQRegionQueues[] = [];
+    for (const region of regions) {
+        const regionId = region.regionId || region.id;
+        const regionName = region.regionName || regionId;
+        try {
+            const destinationsResponse = await apiHelper.get(`${mqAdminBase}/${envBase}/regions/${regionId}/destinations`, { signal });
+            let destinations = destinationsResponse.data;
+            if (!Array.isArray(destinations)) {
+                destinations = destinations?.queues || destinations?.destinations || [];
+            }
+            const queues = destinations.filter((d: any) =>
+                d && typeof d === 'object' && !d.exchangeId && !(d.type && d.type.toLowerCase() === 'exchange'));
+            if (queues.length === 0) {
+                results.push({ regionId, regionName, queues, stats: [] });
+                continue;
+            }
+
+            const queueIds = queues.map((q: any) => q.queueId || q.id).join(',');
+            const statsResponse = await apiHelper.get(`${mqStatsBase}/${envBase}/regions/${regionId}/queues?destinationIds=${queueIds}`, { signal });
+            const stats = Array.isArray(statsResponse.data) ? statsResponse.data : [statsResponse.data];
+            results.push({ regionId, regionName, queues, stats });
+        } catch (error: any) {
+            results.push({ regionId, regionName, queues: [], stats: [], error: error.message || 'Unknown error' });
+        }
+    }
+    return results;
+}
+
 // ============================================================================
 // END ANYPOINT MQ STATS FUNCTIONS
 // ============================================================================
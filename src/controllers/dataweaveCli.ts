@@ -0,0 +1,253 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Local DataWeave execution through the `dw` CLI
+ * (https://github.com/mulesoft/data-weave-cli). Kept free of the VS Code API
+ * so discovery, argument building and error mapping can be unit tested.
+ */
+
+export interface DataWeaveInput {
+    /** Binding name in the script: `payload`, `vars`, `attributes` or any identifier */
+    name: string;
+    content: string;
+    mimeType: string;
+}
+
+/** A compile or runtime error reported by the CLI, mapped to a script position */
+export interface DataWeaveScriptError {
+    line: number;
+    column: number;
+    message: string;
+    /** Where the CLI located the error, e.g. `main` or an input file name */
+    source?: string;
+}
+
+export interface DwCliRunResult {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    timedOut: boolean;
+    durationMs: number;
+    errors: DataWeaveScriptError[];
+}
+
+export class DataWeaveCliError extends Error {
+    constructor(message: string, public readonly code?: 'INVALID_INPUT' | 'SPAWN_FAILED') {
+        super(message);
+        this.name = 'DataWeaveCliError';
+    }
+}
+
+/** The CLI picks the reader from the input file extension */
+const EXTENSIONS_BY_MIME: Record<string, string> = {
+    'application/json': 'json',
+    'application/xml': 'xml',
+    'text/xml': 'xml',
+    'text/csv': 'csv',
+    'application/csv': 'csv',
+    'application/yaml': 'yaml',
+    'application/x-yaml': 'yaml',
+    'text/yaml': 'yaml',
+    'application/x-www-form-urlencoded': 'urlencoded',
+    'multipart/form-data': 'multipart',
+    'text/plain': 'txt'
+};
+
+const SCRIPT_FILE = 'main.dwl';
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function extensionForMimeType(mimeType: string): string {
+    const base = (mimeType || '').split(';')[0].trim().toLowerCase();
+    if (EXTENSIONS_BY_MIME[base]) { return EXTENSIONS_BY_MIME[base]; }
+    if (base.endsWith('+json')) { return 'json'; }
+    if (base.endsWith('+xml')) { return 'xml'; }
+    return 'txt';
+}
+
+function executableNames(platform: NodeJS.Platform): string[] {
+    return platform === 'win32' ? ['dw.exe', 'dw.cmd', 'dw.bat', 'dw'] : ['dw'];
+}
+
+async function isExecutable(file: string, platform: NodeJS.Platform): Promise<boolean> {
+    try {
+        const stat = await fs.promises.stat(file);
+        if (!stat.isFile()) { return false; }
+        await fs.promises.access(file, platform === 'win32' ? fs.constants.F_OK : fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Candidate locations in lookup order: configured path, DW_HOME, PATH, then the installer default `~/.dw/bin` */
+export function dwCliCandidates(
+    configuredPath: string | undefined,
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): string[] {
+    const home = env.HOME || env.USERPROFILE || os.homedir();
+    const names = executableNames(platform);
+    const configured = (configuredPath || '').trim();
+    if (configured) {
+        return [configured.startsWith('~') ? path.join(home, configured.slice(1)) : configured];
+    }
+
+    const dirs: string[] = [];
+    if (env.DW_HOME) { dirs.push(path.join(env.DW_HOME, 'bin')); }
+    const pathVar = env.PATH || env.Path || '';
+    dirs.push(...pathVar.split(path.delimiter).filter(Boolean));
+    dirs.push(path.join(home, '.dw', 'bin'));
+
+    return dirs.flatMap(dir => names.map(name => path.join(dir, name)));
+}
+
+/**
+ * First executable `dw` CLI found. A configured path is used as-is and never
+ * falls back to PATH, so a typo surfaces instead of silently running another
+ * version.
+ */
+export async function findDwCli(
+    configuredPath: string | undefined,
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): Promise<string | undefined> {
+    for (const candidate of dwCliCandidates(configuredPath, env, platform)) {
+        if (await isExecutable(candidate, platform)) { return candidate; }
+    }
+    return undefined;
+}
+
+/** First problem with the input names, or undefined when each is a unique identifier */
+export function validateInputNames(inputs: Array<{ name: string }>): string | undefined {
+    const seen = new Set<string>();
+    for (const input of inputs) {
+        if (!IDENTIFIER.test(input.name)) {
+            return `Invalid input name "${input.name}": use letters, digits and underscores`;
+        }
+        if (seen.has(input.name)) {
+            return `Duplicate input name "${input.name}"`;
+        }
+        seen.add(input.name);
+    }
+    return undefined;
+}
+
+export function buildDwRunArgs(scriptFile: string, inputFiles: Array<{ name: string; file: string }>): string[] {
+    const args = ['run'];
+    for (const input of inputFiles) {
+        args.push('-i', `${input.name}=${input.file}`);
+    }
+    args.push('-f', scriptFile);
+    return args;
+}
+
+/**
+ * Maps CLI diagnostics to script positions. The CLI prints the message, a
+ * code excerpt with a caret marker and then `Location:` followed by
+ * `main (line: 3, column:5)`; each location closes one error.
+ */
+export function parseDwErrors(stderr: string): DataWeaveScriptError[] {
+    const errors: DataWeaveScriptError[] = [];
+    const lines = stderr.replace(/\r\n/g, '\n').split('\n');
+    const location = /^(.*?)\s*\(line:\s*(\d+),\s*column:\s*(\d+)\)\s*$/i;
+    let blockStart = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].trim().match(location);
+        if (!match) { continue; }
+
+        const block = lines.slice(blockStart, i);
+        const message = block
+            .map(l => l.trim())
+            .find(l => l && !/^location:?$/i.test(l) && !/^\d+\|/.test(l) && !/^\^+$/.test(l));
+        const source = match[1].replace(/^location:\s*/i, '').trim();
+
+        errors.push({
+            line: parseInt(match[2], 10),
+            column: parseInt(match[3], 10),
+            message: message || 'DataWeave error',
+            source: source || undefined
+        });
+        blockStart = i + 1;
+    }
+    return errors;
+}
+
+/**
+ * Runs `script` with the given named inputs in a throwaway directory and
+ * returns the raw output. Never rejects for script errors; only for invalid
+ * input names or a CLI that cannot be started.
+ */
+export async function runDwCli(
+    cliPath: string,
+    script: string,
+    inputs: DataWeaveInput[],
+    timeoutMs: number
+): Promise<DwCliRunResult> {
+    const invalid = validateInputNames(inputs);
+    if (invalid) {
+        throw new DataWeaveCliError(invalid, 'INVALID_INPUT');
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'anypoint-dw-'));
+    try {
+        const scriptFile = path.join(workDir, SCRIPT_FILE);
+        await fs.promises.writeFile(scriptFile, script, 'utf-8');
+
+        const inputFiles: Array<{ name: string; file: string }> = [];
+        for (const input of inputs) {
+            const file = path.join(workDir, `${input.name}.${extensionForMimeType(input.mimeType)}`);
+            await fs.promises.writeFile(file, input.content, 'utf-8');
+            inputFiles.push({ name: input.name, file });
+        }
+
+        return await spawnWithTimeout(cliPath, buildDwRunArgs(scriptFile, inputFiles), workDir, timeoutMs);
+    } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+}
+
+function spawnWithTimeout(command: string, args: string[], cwd: string, timeoutMs: number): Promise<DwCliRunResult> {
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, {
+            cwd,
+            windowsHide: true,
+            // .cmd/.bat wrappers can only be started through the shell on Windows
+            shell: process.platform === 'win32' && /\.(cmd|bat)$/i.test(command)
+        });
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let timedOut = false;
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGKILL');
+        }, timeoutMs);
+
+        child.stdout.on('data', chunk => stdout.push(chunk));
+        child.stderr.on('data', chunk => stderr.push(chunk));
+        child.on('error', err => {
+            clearTimeout(timer);
+            reject(new DataWeaveCliError(`Failed to start DataWeave CLI at ${command}: ${err.message}`, 'SPAWN_FAILED'));
+        });
+        child.on('close', exitCode => {
+            clearTimeout(timer);
+            const out = Buffer.concat(stdout).toString('utf-8');
+            const errText = Buffer.concat(stderr).toString('utf-8');
+            // Some CLI versions print diagnostics on stdout and only signal failure via the exit code
+            const diagnostics = errText.trim() || exitCode === 0 ? errText : out;
+            resolve({
+                exitCode,
+                stdout: out,
+                stderr: errText,
+                timedOut,
+                durationMs: Date.now() - started,
+                errors: timedOut ? [] : parseDwErrors(diagnostics)
+            });
+        });
+    });
+}
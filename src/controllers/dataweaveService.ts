@@ -1,5 +1,6 @@
 import axios from 'axios';
 import * as vscode from 'vscode';
+import { DataWeaveCliError, DataWeaveInput, DataWeaveScriptError, findDwCli, runDwCli, validateInputNames } from './dataweaveCli';
 
 /**
  * DataWeave execution service
@@ -11,13 +12,75 @@ export interface DataWeaveExecutionResult {
     output?: string;
     error?: string;
     executionTime?: number;
+    /** Script positions of CLI errors; only the local backend reports them */
+    errors?: DataWeaveScriptError[];
+    /**
+     * `heuristic` marks a best-effort preview from the built-in simple parser,
+     * used when the online service is unreachable. It is not a DataWeave run,
+     * so its output must not be trusted as a result.
+     */
+    backend?: 'online' | 'local' | 'heuristic';
+    /**
+     * Set on failures where the backend ran the script and the script itself
+     * failed, as opposed to setup or transport errors where it never ran.
+     */
+    scriptError?: boolean;
 }
 
+/** `auto` runs locally when a `dw` CLI is found and online otherwise */
+export type DataWeaveExecutionMode = 'auto' | 'online' | 'local';
+
 export interface DataWeaveExecutionOptions {
     script: string;
     input: string;
     inputMimeType: string;
     outputMimeType?: string;
+    /** Named inputs such as `payload`, `vars` and `attributes`; when omitted `input` is bound to `payload` */
+    inputs?: DataWeaveInput[];
+    /** Overrides the `anypointMonitor.dataweave.executionMode` setting */
+    mode?: DataWeaveExecutionMode;
+}
+
+const DEFAULT_CLI_TIMEOUT_SECONDS = 30;
+
+function dataweaveConfig(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('anypointMonitor.dataweave');
+}
+
+export function getDataWeaveExecutionMode(): DataWeaveExecutionMode {
+    const mode = dataweaveConfig().get<string>('executionMode', 'auto');
+    return mode === 'online' || mode === 'local' ? mode : 'auto';
+}
+
+/** Path of the `dw` CLI from `anypointMonitor.dataweave.cliPath`, DW_HOME, PATH or ~/.dw/bin */
+export async function resolveDataWeaveCli(): Promise<string | undefined> {
+    return findDwCli(dataweaveConfig().get<string>('cliPath', ''));
+}
+
+/** The named inputs of a run: `options.inputs`, or `input` as `payload` */
+export function resolveDataWeaveInputs(options: DataWeaveExecutionOptions): DataWeaveInput[] {
+    if (options.inputs) {
+        return options.inputs;
+    }
+    return options.input ? [{ name: 'payload', content: options.input, mimeType: options.inputMimeType }] : [];
+}
+
+/**
+ * Execute a transformation with the requested backend, falling back to the
+ * configured execution mode.
+ */
+export async function executeDataWeave(
+    options: DataWeaveExecutionOptions,
+    context: vscode.ExtensionContext
+): Promise<DataWeaveExecutionResult> {
+    const mode = options.mode || getDataWeaveExecutionMode();
+    const useLocal = mode === 'local' || (mode === 'auto' && !!(await resolveDataWeaveCli()));
+
+    if (useLocal) {
+        return executeDataWeaveLocal(options);
+    }
+    const result = await executeDataWeaveTransformation(options, context);
+    return { backend: 'online', ...result };
 }
 
 /**
@@ -31,31 +94,39 @@ export async function executeDataWeaveTransformation(
     const startTime = Date.now();
 
     try {
+        const inputs = resolveDataWeaveInputs(options);
+
         // Validate inputs
-        if (!options.script || !options.input) {
+        if (!options.script || inputs.length === 0) {
             return {
                 success: false,
                 error: 'Both script and input are required'
             };
         }
 
+        const invalidInput = validateInputNames(inputs);
+        if (invalidInput) {
+            return { success: false, error: invalidInput };
+        }
+
         // Extract output mime type from script if not provided
         const outputMimeType = options.outputMimeType || extractOutputMimeType(options.script);
 
         console.log('Executing DataWeave transformation:', {
             scriptLength: options.script.length,
-            inputLength: options.input.length,
-            inputMimeType: options.inputMimeType,
+            inputs: inputs.map(i => `${i.name} (${i.mimeType}, ${i.content.length} chars)`),
             outputMimeType: outputMimeType
         });
 
         // Try approach 1: Direct API call with User-Agent headers
         try {
+            const data: Record<string, any> = {};
+            for (const input of inputs) {
+                data[input.name] = parseInput(input.content, input.mimeType);
+            }
             const payload = {
                 code: options.script,
-                data: {
-                    payload: parseInput(options.input, options.inputMimeType)
-                }
+                data
             };
 
             const response = await axios.post('https://dataweave.mulesoft.com/api/run', payload, {
@@ -82,7 +153,8 @@ export async function executeDataWeaveTransformation(
                 return {
                     success: true,
                     output: output,
-                    executionTime: executionTime
+                    executionTime: executionTime,
+                    backend: 'online'
                 };
             }
         } catch (apiError: any) {
@@ -91,13 +163,18 @@ export async function executeDataWeaveTransformation(
 
         // Approach 2: Try to execute using simple evaluation
         try {
-            const result = await executeWithSimpleParser(options.script, options.input, options.inputMimeType);
+            const payloadInput = inputs.find(i => i.name === 'payload');
+            if (!payloadInput) {
+                throw new Error('Simple parser only supports payload input');
+            }
+            const result = await executeWithSimpleParser(options.script, payloadInput.content, payloadInput.mimeType);
             const executionTime = Date.now() - startTime;
 
             return {
                 success: true,
                 output: result,
-                executionTime: executionTime
+                executionTime: executionTime,
+                backend: 'heuristic'
             };
         } catch (parseError: any) {
             console.log('Simple parser failed:', parseError.message);
@@ -159,20 +236,70 @@ async function executeWithSimpleParser(script: string, input: string, inputMimeT
 }
 
 /**
- * Execute DataWeave transformation locally (if CLI is available)
- * This is an alternative method that doesn't require internet
+ * Execute DataWeave transformation locally with the `dw` CLI
+ * Works offline and reports compile errors with line and column
  */
 export async function executeDataWeaveLocal(
     options: DataWeaveExecutionOptions
 ): Promise<DataWeaveExecutionResult> {
-    // TODO: Implement local execution using DataWeave CLI
-    // Check if 'dw' command is available in PATH
-    // Execute: dw run script.dwl --input payload input.json
-
-    return {
-        success: false,
-        error: 'Local DataWeave execution is not yet implemented. Please ensure you have an internet connection to use the online execution.'
-    };
+    const startTime = Date.now();
+    const configuredPath = dataweaveConfig().get<string>('cliPath', '');
+    const cliPath = await findDwCli(configuredPath);
+
+    if (!cliPath) {
+        return {
+            success: false,
+            backend: 'local',
+            error: configuredPath
+                ? `DataWeave CLI not found or not executable at "${configuredPath}". Check the anypointMonitor.dataweave.cliPath setting.`
+                : 'DataWeave CLI (dw) not found. Install it from https://github.com/mulesoft/data-weave-cli, add it to PATH or set anypointMonitor.dataweave.cliPath.'
+        };
+    }
+
+    if (!options.script) {
+        return { success: false, backend: 'local', error: 'Script is required' };
+    }
+
+    const inputs = resolveDataWeaveInputs(options);
+    const timeoutSeconds = dataweaveConfig().get<number>('timeoutSeconds', DEFAULT_CLI_TIMEOUT_SECONDS);
+
+    try {
+        const run = await runDwCli(cliPath, options.script, inputs, Math.max(1, timeoutSeconds) * 1000);
+
+        if (run.timedOut) {
+            return {
+                success: false,
+                backend: 'local',
+                error: `DataWeave CLI timed out after ${timeoutSeconds}s. Increase anypointMonitor.dataweave.timeoutSeconds for long-running scripts.`,
+                executionTime: run.durationMs
+            };
+        }
+
+        if (run.exitCode !== 0 || run.errors.length > 0) {
+            return {
+                success: false,
+                backend: 'local',
+                error: run.stderr.trim() || run.stdout.trim() || `DataWeave CLI exited with code ${run.exitCode}`,
+                errors: run.errors,
+                scriptError: true,
+                executionTime: run.durationMs
+            };
+        }
+
+        return {
+            success: true,
+            backend: 'local',
+            output: run.stdout.replace(/\r?\n$/, ''),
+            executionTime: run.durationMs
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            backend: 'local',
+            error: error instanceof DataWeaveCliError ? error.message : `Local DataWeave execution failed: ${error.message}`,
+            executionTime: Date.now() - startTime
+        };
+    }
 }
 
 /**
@@ -215,6 +342,10 @@ function parseInput(input: string, mimeType: string): any {
                 // Return YAML as string (API will parse it)
                 return input;
 
+            case 'application/x-www-form-urlencoded':
+                // Decode to an object, repeated keys become arrays
+                return parseFormUrlEncoded(input);
+
             default:
                 // Try to parse as JSON, fallback to string
                 try {
@@ -230,6 +361,15 @@ function parseInput(input: string, mimeType: string): any {
     }
 }
 
+function parseFormUrlEncoded(input: string): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+    for (const [key, value] of new URLSearchParams(input.trim())) {
+        const existing = result[key];
+        result[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+    return result;
+}
+
 /**
  * Format output based on MIME type
  */
@@ -675,6 +675,42 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	const dataweaveRunTestsCmd = registerCommandWithTelemetry('anypoint-monitor.dataweaveRunTests', async () => {
+		try {
+			const { runDataWeaveTests } = await import('./anypoint/dataweaveTestRunner.js');
+			await runDataWeaveTests(context);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error running DataWeave tests: ${error.message}`);
+		}
+	});
+
+	const fireExportFeedbackCmd = registerCommandWithTelemetry('anypoint-monitor.fireExportHypothesisFeedback', async () => {
+		try {
+			const { exportHypothesisFeedback } = await import('./fire/orchestrator.js');
+			await exportHypothesisFeedback(context);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error exporting hypothesis feedback: ${error.message}`);
+		}
+	});
+
+	const fireImportFeedbackCmd = registerCommandWithTelemetry('anypoint-monitor.fireImportHypothesisFeedback', async () => {
+		try {
+			const { importHypothesisFeedback } = await import('./fire/orchestrator.js');
+			await importHypothesisFeedback(context);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error importing hypothesis feedback: ${error.message}`);
+		}
+	});
+
+	const fireManageHiddenCmd = registerCommandWithTelemetry('anypoint-monitor.fireManageHiddenHypotheses', async () => {
+		try {
+			const { manageHiddenHypotheses } = await import('./fire/orchestrator.js');
+			await manageHiddenHypotheses(context);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error managing hidden hypotheses: ${error.message}`);
+		}
+	});
+
 	const accountManagerCmd = registerCommandWithTelemetry('anypoint-monitor.accountManager', async () => {
 		try {
 			await showAccountManagerWebview(context);
@@ -887,6 +923,15 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	const alertAnalyticsCmd = registerCommandWithTelemetry('anypoint-monitor.alertAnalytics', async () => {
+		try {
+			const { showAlertAnalytics } = await import('./premium/alerting/alertAnalyticsPanel.js');
+			await showAlertAnalytics(context);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error opening Alert Analytics: ${error.message}`);
+		}
+	});
+
 	const dependencyVisualizerCmd = registerCommandWithTelemetry('anypoint-monitor.dependencyVisualizer', async () => {
 		try {
 			await showDependencyVisualizer(context);
@@ -978,6 +1023,33 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	const openWarRoomIncidentCmd = registerCommandWithTelemetry('anypoint-monitor.openWarRoomIncident', async (args?: { incidentId?: string; rerun?: boolean }) => {
+		try {
+			const { openWarRoomIncident } = await import('./warroom/warRoomCommand.js');
+			await openWarRoomIncident(context, args);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error: ${error.message || error}`);
+		}
+	});
+
+	const editDependenciesCmd = registerCommandWithTelemetry('anypoint-monitor.editWarRoomDependencies', async () => {
+		try {
+			const { showDependencyEditor } = await import('./warroom/dependencyEditor.js');
+			showDependencyEditor(context);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error: ${error.message || error}`);
+		}
+	});
+
+	const compareDependencyMapsCmd = registerCommandWithTelemetry('anypoint-monitor.compareDependencyMaps', async () => {
+		try {
+			const { compareDependencyMapVersions } = await import('./warroom/warRoomCommand.js');
+			await compareDependencyMapVersions();
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Error: ${error.message || error}`);
+		}
+	});
+
 	context.subscriptions.push(userInfo);
 	context.subscriptions.push(getApplications);
 	context.subscriptions.push(revokeAccessCommand);
@@ -994,6 +1066,10 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(realTimeLogsCmd);
 	context.subscriptions.push(environmentComparisonCmd);
 	context.subscriptions.push(dataweavePlaygroundCmd);
+	context.subscriptions.push(dataweaveRunTestsCmd);
+	context.subscriptions.push(fireExportFeedbackCmd);
+	context.subscriptions.push(fireImportFeedbackCmd);
+	context.subscriptions.push(fireManageHiddenCmd);
 	context.subscriptions.push(accountManagerCmd);
 	context.subscriptions.push(selectBusinessGroupCmd);
 	context.subscriptions.push(statusBarQuickActionsCmd);
@@ -1007,10 +1083,14 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(getHybridClustersCmd);
 	context.subscriptions.push(getAnypointMQStatsCmd);
 	context.subscriptions.push(alertingHubCmd);
+	context.subscriptions.push(alertAnalyticsCmd);
 	context.subscriptions.push(dependencyVisualizerCmd);
 	context.subscriptions.push(costOptimizerCmd);
 	context.subscriptions.push(devInfo);
 	context.subscriptions.push(startWarRoomCmd);
+	context.subscriptions.push(openWarRoomIncidentCmd);
+	context.subscriptions.push(compareDependencyMapsCmd);
+	context.subscriptions.push(editDependenciesCmd);
 }
 
 // This method is called when your extension is deactivated
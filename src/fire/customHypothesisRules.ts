@@ -0,0 +1,200 @@
+// src/fire/customHypothesisRules.ts
+// Failure Intelligence & Replay Engine — Workspace Hypothesis Rules
+//
+// Loads team-defined hypothesis rules from `.fire/rules/*.json|yaml` so
+// domain errors (custom APP:* types raised via raise-error, vendor API error
+// codes) get the same guided explanations as the built-in rules.
+// No VS Code API — reads the workspace folder with fs.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseYaml, YamlParseError } from '../utils/simpleYaml.js';
+import { wildcardToRegExp } from '../utils/wildcard.js';
+import {
+  HypothesisRule,
+  HypothesisRuleDefinition,
+  HypothesisRuleLoadResult,
+  MuleErrorCategory,
+  ParsedMuleError,
+} from './types.js';
+
+const FIRE_DIR = '.fire';
+const RULES_DIR = 'rules';
+
+const CATEGORIES: MuleErrorCategory[] = ['expression', 'connectivity', 'security', 'runtime', 'unknown'];
+const MATCH_KEYS = ['errorType', 'message', 'flowName', 'category'];
+const DEFAULT_CONFIDENCE = 0.8;
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Load every rule file under `.fire/rules/` in the given workspace folder.
+ * Invalid files or rules are skipped and reported in `errors`; valid rules in
+ * the same file are still loaded.
+ */
+export function loadWorkspaceHypothesisRules(workspaceRoot: string, reservedIds: string[] = []): HypothesisRuleLoadResult {
+  const rulesDir = path.join(workspaceRoot, FIRE_DIR, RULES_DIR);
+  if (!fs.existsSync(rulesDir)) { return { rules: [], errors: [] }; }
+
+  const rules: HypothesisRule[] = [];
+  const errors: string[] = [];
+  const seenIds = new Set(reservedIds);
+
+  const files = fs.readdirSync(rulesDir)
+    .filter(f => /\.(json|ya?ml)$/i.test(f))
+    .sort();
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(rulesDir, file), 'utf-8');
+    } catch (err: any) {
+      errors.push(`${file}: ${err.message || err}`);
+      continue;
+    }
+
+    const parsed = parseHypothesisRuleFile(content, file);
+    errors.push(...parsed.errors);
+
+    for (const definition of parsed.definitions) {
+      if (seenIds.has(definition.id)) {
+        errors.push(`${file}: duplicate rule id "${definition.id}"`);
+        continue;
+      }
+      seenIds.add(definition.id);
+      rules.push(compileHypothesisRule(definition));
+    }
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Parse one rule file. The file holds either a list of rules or an object
+ * with a `rules` list, in JSON or YAML depending on the extension.
+ */
+export function parseHypothesisRuleFile(
+  content: string,
+  fileName: string
+): { definitions: HypothesisRuleDefinition[]; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = /\.json$/i.test(fileName) ? JSON.parse(content) : parseYaml(content);
+  } catch (err: any) {
+    const detail = err instanceof YamlParseError ? err.message : `Invalid JSON: ${err.message || err}`;
+    return { definitions: [], errors: [`${fileName}: ${detail}`] };
+  }
+
+  const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) {
+    return { definitions: [], errors: [`${fileName}: expected a list of rules or an object with a "rules" list`] };
+  }
+
+  const definitions: HypothesisRuleDefinition[] = [];
+  const errors: string[] = [];
+  list.forEach((entry, index) => {
+    const result = validateHypothesisRuleDefinition(entry);
+    const label = `${fileName} rule ${typeof entry?.id === 'string' ? `"${entry.id}"` : `#${index + 1}`}`;
+    if (result.errors.length > 0) {
+      errors.push(...result.errors.map(e => `${label}: ${e}`));
+    } else {
+      definitions.push(result.definition!);
+    }
+  });
+
+  return { definitions, errors };
+}
+
+export function validateHypothesisRuleDefinition(raw: any): { definition: HypothesisRuleDefinition | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { definition: null, errors: ['rule must be an object'] };
+  }
+
+  if (typeof raw.id !== 'string' || !raw.id.trim()) { errors.push('"id" is required'); }
+  for (const field of ['title', 'explanation', 'suggestion']) {
+    if (typeof raw[field] !== 'string' || !raw[field].trim()) { errors.push(`"${field}" is required`); }
+  }
+  if (raw.confidence !== undefined &&
+      !(typeof raw.confidence === 'number' && raw.confidence > 0 && raw.confidence <= 1)) {
+    errors.push('"confidence" must be a number between 0 and 1');
+  }
+
+  const match = raw.match;
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    errors.push('"match" is required');
+    return { definition: null, errors };
+  }
+
+  if (!MATCH_KEYS.some(key => match[key] !== undefined)) {
+    errors.push(`"match" needs at least one of ${MATCH_KEYS.join(', ')}`);
+  }
+  if (match.errorType !== undefined && (typeof match.errorType !== 'string' || !match.errorType)) {
+    errors.push('"match.errorType" must be a non-empty string');
+  }
+  for (const key of ['message', 'flowName']) {
+    if (match[key] === undefined) { continue; }
+    if (typeof match[key] !== 'string' || !match[key]) {
+      errors.push(`"match.${key}" must be a non-empty string`);
+      continue;
+    }
+    try {
+      new RegExp(match[key], 'i');
+    } catch (err: any) {
+      errors.push(`"match.${key}" is not a valid regular expression: ${err.message}`);
+    }
+  }
+  if (match.category !== undefined && !CATEGORIES.includes(match.category)) {
+    errors.push(`"match.category" must be one of ${CATEGORIES.join(', ')}`);
+  }
+
+  if (errors.length > 0) { return { definition: null, errors }; }
+  return { definition: raw as HypothesisRuleDefinition, errors };
+}
+
+/**
+ * Turn a validated definition into an engine rule. The rule matches when
+ * every condition present in `match` holds for the parsed error.
+ */
+export function compileHypothesisRule(definition: HypothesisRuleDefinition): HypothesisRule {
+  const { match } = definition;
+  const errorType = match.errorType ? wildcardToRegExp(match.errorType) : null;
+  const message = match.message ? new RegExp(match.message, 'i') : null;
+  const flowName = match.flowName ? new RegExp(match.flowName, 'i') : null;
+
+  return {
+    id: definition.id,
+    source: 'workspace',
+    matches: (e) =>
+      (!errorType || (e.errorType !== null && errorType.test(e.errorType))) &&
+      (!message || (e.errorMessage !== null && message.test(e.errorMessage))) &&
+      (!flowName || (e.flowName !== null && flowName.test(e.flowName))) &&
+      (!match.category || e.category === match.category),
+    produce: (e) => {
+      const groups = message?.exec(e.errorMessage ?? '') ?? null;
+      const fill = (template: string) => fillTemplate(template, e, groups);
+      return {
+        title:       fill(definition.title),
+        explanation: fill(definition.explanation),
+        suggestion:  fill(definition.suggestion),
+        confidence:  definition.confidence ?? DEFAULT_CONFIDENCE,
+      };
+    },
+  };
+}
+
+// ─── Internal Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Substitute `{1}`, `{name}`, `{errorType}` and `{flowName}`. Placeholders
+ * with no value are left as written so a broken template is visible.
+ */
+function fillTemplate(template: string, error: ParsedMuleError, groups: RegExpExecArray | null): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    if (/^\d+$/.test(key)) { return groups?.[Number(key)] ?? placeholder; }
+    if (groups?.groups?.[key] !== undefined) { return groups.groups[key]; }
+    if (key === 'errorType') { return error.errorType ?? placeholder; }
+    if (key === 'flowName') { return error.flowName ?? placeholder; }
+    return placeholder;
+  });
+}
@@ -0,0 +1,118 @@
+// src/fire/elementResolver.ts
+// Failure Intelligence & Replay Engine — Element Resolver
+//
+// Pinpoints the failing processor in one Mule config from its parsed XML
+// tree: by the doc:id logged in the "Element DSL" block, or by walking the
+// component location ("order-flow/processors/1/route/0/processors/0") to
+// the exact element. sourceMapper falls back to its line-based fuzzy scan
+// only when neither resolves.
+// Pure logic — no VS Code API.
+
+import { locateMuleElements, MuleElementLocation } from '../utils/muleProject.js';
+import { ParsedMuleError, SourceLocation } from './types.js';
+
+/** Path segments that start the processor part of a component location */
+const LOCATION_ROOTS = ['processors', 'errorHandler', 'source'];
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the failing element of `error` in one Mule config file.
+ * A doc:id match wins over a component location match; returns null when
+ * neither identifies an element in this file.
+ */
+export function resolveElementLocation(
+  filePath: string,
+  content: string,
+  error: ParsedMuleError
+): SourceLocation | null {
+  const paths = [error.componentPath, error.processorPath, error.elementPath]
+    .map(raw => (raw ? splitComponentPath(raw) : null))
+    .filter((p): p is ComponentPath => p !== null);
+  const docId = error.docId && content.includes(error.docId) ? error.docId : null;
+  if (!docId && paths.length === 0) {
+    return null;
+  }
+
+  const elements = locateMuleElements(content);
+
+  if (docId) {
+    const element = elements.find(e => e.docId === docId);
+    if (element) {
+      return toSourceLocation(filePath, element, 'doc-id');
+    }
+  }
+
+  for (const { flowName, relativePath } of paths) {
+    const flow = flowName ?? error.flowName;
+    if (!flow) { continue; }
+
+    const inFlow = (e: MuleElementLocation) => e.path === `${e.flowName}/${relativePath}`;
+    const element = elements.find(e => inFlow(e) && e.flowName === flow)
+      ?? elements.find(e => inFlow(e) && normaliseFlowName(e.flowName) === normaliseFlowName(flow));
+    if (element) {
+      return toSourceLocation(filePath, element, 'element-path');
+    }
+  }
+
+  return null;
+}
+
+export interface ComponentPath {
+  /** Flow name prefix, when the path carries one */
+  flowName: string | null;
+  /** Location below the flow, e.g. "processors/1/route/0/processors/0" */
+  relativePath: string;
+}
+
+/**
+ * Split a logged component location into its flow name and the location
+ * below the flow. Returns null for labels that are not locations, such as
+ * "transform-message:Transform Message".
+ *
+ *   "order-flow/processors/2/processors/0" → { "order-flow", "processors/2/processors/0" }
+ *   "processors/2"                         → { null, "processors/2" }
+ */
+export function splitComponentPath(raw: string): ComponentPath | null {
+  const segments = raw.trim().split('/').filter(Boolean);
+  const start = segments.findIndex(s => LOCATION_ROOTS.includes(s));
+  if (start < 0 || start > 1) {
+    return null;
+  }
+
+  const relative = segments.slice(start);
+  const wellFormed = relative[0] === 'source'
+    ? relative.length === 1
+    : relative.length % 2 === 0 && relative.every((s, i) =>
+      i % 2 === 0 ? ['processors', 'errorHandler', 'route'].includes(s) : /^\d+$/.test(s));
+  if (!wellFormed) {
+    return null;
+  }
+
+  return {
+    flowName: start === 1 ? segments[0] : null,
+    relativePath: relative.join('/'),
+  };
+}
+
+// ─── Internal Helpers ─────────────────────────────────────────────────────────
+
+function toSourceLocation(
+  filePath: string,
+  element: MuleElementLocation,
+  matchMethod: 'doc-id' | 'element-path'
+): SourceLocation {
+  return {
+    filePath,
+    lineNumber: element.line,
+    columnNumber: element.column,
+    flowName: element.flowName,
+    processorName: element.docName ?? element.tagName,
+    matchMethod,
+  };
+}
+
+/** Same leniency as the fuzzy scan: case, hyphens and underscores are ignored */
+function normaliseFlowName(name: string): string {
+  return name.toLowerCase().replace(/[-_\s]/g, '');
+}
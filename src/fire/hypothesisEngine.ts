@@ -9,29 +9,32 @@
 //   - Pure rule-based pattern matching — no AI, no network calls, no VS Code API
 //   - Each rule is a self-contained object: easy to add, remove, or reorder
 //   - Rules are evaluated in order; all matching rules are returned (ranked by confidence)
+//   - Recorded user feedback shifts each rule's confidence and can hide a rule
+//     for one error signature (see hypothesisFeedback.ts)
 //   - Fully testable without a VS Code host
 
-import { ParsedMuleError, ExecutionContext, FailureHypothesis } from './types.js';
-
-// ─── Rule definition ──────────────────────────────────────────────────────────
-
-interface HypothesisRule {
-  /** Short identifier used in tests */
-  id: string;
-  /** Return true if this rule applies to the given error + context */
-  matches: (error: ParsedMuleError, ctx: ExecutionContext | null) => boolean;
-  /** Produce the hypothesis when the rule matches */
-  produce: (error: ParsedMuleError, ctx: ExecutionContext | null) => FailureHypothesis;
-}
+import {
+  ParsedMuleError,
+  ExecutionContext,
+  FailureHypothesis,
+  HypothesisFeedbackStore,
+  HypothesisRule,
+} from './types.js';
+import { errorSignature, feedbackAdjustment, isHypothesisHidden } from './hypothesisFeedback.js';
 
 // ─── Rules registry ───────────────────────────────────────────────────────────
 
-const RULES: HypothesisRule[] = [
+/**
+ * Built-in rules, evaluated in order. Workspace rules loaded from
+ * `.fire/rules/` (see customHypothesisRules.ts) run after these.
+ */
+const BUILTIN_RULES: HypothesisRule[] = [
 
   // ── DataWeave / Expression errors ─────────────────────────────────────────
 
   {
     id: 'dw-field-not-found',
+    source: 'builtin',
     matches: (e) =>
       e.category === 'expression' &&
       e.errorMessage !== null &&
@@ -55,6 +58,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'dw-null-pointer',
+    source: 'builtin',
     matches: (e) =>
       e.category === 'expression' &&
       e.errorMessage !== null &&
@@ -73,6 +77,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'dw-type-mismatch',
+    source: 'builtin',
     matches: (e) =>
       e.category === 'expression' &&
       e.errorMessage !== null &&
@@ -91,6 +96,7 @@ const RULES: HypothesisRule[] = [
 
 {
     id: 'dw-general-expression',
+    source: 'builtin',
     matches: (e) => e.category === 'expression',
     produce: (e, ctx) => {
       const hasData = ctx?.rawPayload || Object.keys(ctx?.variables ?? {}).length > 0;
@@ -112,6 +118,7 @@ const RULES: HypothesisRule[] = [
 
   {
   id: 'http-localhost-error',
+  source: 'builtin',
   matches: (e) => 
     e.category === 'connectivity' && 
     /localhost|127\.0\.0\.1/i.test(e.errorMessage ?? ''),
@@ -125,6 +132,7 @@ const RULES: HypothesisRule[] = [
 
 {
   id: 'mule-composite-routing',
+  source: 'builtin',
   matches: (e) => 
     e.errorType === 'MULE:COMPOSITE_ROUTING' || 
     /composite routing error/i.test(e.errorMessage ?? ''),
@@ -145,6 +153,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'http-connection-refused',
+    source: 'builtin',
     matches: (e) =>
       e.category === 'connectivity' &&
       e.errorMessage !== null &&
@@ -163,6 +172,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'http-timeout',
+    source: 'builtin',
     matches: (e) =>
       e.category === 'connectivity' &&
       e.errorMessage !== null &&
@@ -182,6 +192,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'db-connectivity',
+    source: 'builtin',
     matches: (e) =>
       e.errorType !== null &&
       /^DB:/i.test(e.errorType),
@@ -200,6 +211,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'general-connectivity',
+    source: 'builtin',
     matches: (e) => e.category === 'connectivity',
     produce: (e) => ({
       title: `Connectivity failure: ${e.errorType ?? 'unknown connector'}`,
@@ -217,6 +229,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'security-token-expired',
+    source: 'builtin',
     matches: (e) =>
       e.category === 'security' &&
       e.errorMessage !== null &&
@@ -238,6 +251,7 @@ const RULES: HypothesisRule[] = [
 
   {
     id: 'runtime-out-of-memory',
+    source: 'builtin',
     matches: (e) =>
       e.errorMessage !== null &&
       /out of memory|heap space|java\.lang\.OutOfMemory/i.test(e.errorMessage),
@@ -256,8 +270,30 @@ const RULES: HypothesisRule[] = [
     }),
   },
 
+  {
+    id: 'unhandled-error-type',
+    source: 'builtin',
+    matches: (e) =>
+      e.errorType !== null &&
+      e.flowName !== null &&
+      Array.isArray(e.handledBy) && e.handledBy.length === 0,
+    produce: (e) => ({
+      title: `No error handler catches ${e.errorType} in '${e.flowName}'`,
+      explanation:
+        `Neither '${e.flowName}', its try scopes, nor the flows calling it declare an ` +
+        `on-error handler for ${e.errorType}, so Mule's default handler logged it and ` +
+        `the caller received a generic failure.`,
+      suggestion:
+        `Add an <on-error-propagate type="${e.errorType}"> (or on-error-continue) to the ` +
+        `flow's error handler to map it to a meaningful response, or reference a global ` +
+        `error handler that covers it.`,
+      confidence: 0.6,
+    }),
+  },
+
   {
     id: 'runtime-general',
+    source: 'builtin',
     matches: (e) => e.category === 'runtime' && e.confidence > 0.3,
     produce: (e) => ({
       title: `Runtime error: ${e.errorType ?? 'MULE:UNKNOWN'}`,
@@ -274,30 +310,52 @@ const RULES: HypothesisRule[] = [
 
 ];
 
+let workspaceRules: HypothesisRule[] = [];
+
 // ─── Public API ───────────────────────────────────────────────────────────────
 
+/**
+ * Replace the workspace-defined rules. Called before each replay so edits to
+ * rule files take effect without reloading the extension.
+ */
+export function setWorkspaceHypothesisRules(rules: HypothesisRule[]): void {
+  workspaceRules = [...rules];
+}
+
+export function getHypothesisRules(): HypothesisRule[] {
+  return [...BUILTIN_RULES, ...workspaceRules];
+}
+
 /**
  * Generate ranked failure hypotheses for a given parsed error + context.
  *
- * @param error   The parsed Mule error
- * @param ctx     The full execution context (may be null if only partial info available)
- * @returns       Array of hypotheses sorted by confidence descending.
- *                Empty array if no rules match (never throws).
+ * @param error     The parsed Mule error
+ * @param ctx       The full execution context (may be null if only partial info available)
+ * @param feedback  Recorded votes and hidden rules; omit for the static ranking
+ * @returns         Array of hypotheses sorted by confidence descending.
+ *                  Empty array if no rules match (never throws).
  */
 export function generateHypotheses(
   error: ParsedMuleError,
-  ctx: ExecutionContext | null
+  ctx: ExecutionContext | null,
+  feedback: HypothesisFeedbackStore | null = null
 ): FailureHypothesis[] {
   if (!error || error.confidence === 0) {
     return [];
   }
 
   const results: FailureHypothesis[] = [];
+  const signature = feedback ? errorSignature(error) : '';
 
-  for (const rule of RULES) {
+  for (const rule of getHypothesisRules()) {
     try {
+      if (feedback && isHypothesisHidden(feedback, signature, rule.id)) { continue; }
       if (rule.matches(error, ctx)) {
-        results.push(rule.produce(error, ctx));
+        const hypothesis = rule.produce(error, ctx);
+        const confidence = feedback
+          ? clampConfidence(hypothesis.confidence + feedbackAdjustment(feedback, rule.id, error.errorType))
+          : hypothesis.confidence;
+        results.push({ ...hypothesis, confidence, ruleId: rule.id, source: rule.source });
       }
     } catch {
       // A broken rule must never crash the entire engine
@@ -316,8 +374,15 @@ export function generateHypotheses(
  */
 export function getBestHypothesis(
   error: ParsedMuleError,
-  ctx: ExecutionContext | null
+  ctx: ExecutionContext | null,
+  feedback: HypothesisFeedbackStore | null = null
 ): FailureHypothesis | null {
-  const all = generateHypotheses(error, ctx);
+  const all = generateHypotheses(error, ctx, feedback);
   return all.length > 0 ? all[0] : null;
-}
\ No newline at end of file
+}
+
+// ─── Internal helpers ─────────────────────────────────────────────────────────
+
+function clampConfidence(value: number): number {
+  return Math.min(0.99, Math.max(0.01, Math.round(value * 100) / 100));
+}
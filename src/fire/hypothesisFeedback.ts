@@ -0,0 +1,229 @@
+// src/fire/hypothesisFeedback.ts
+// Failure Intelligence & Replay Engine — Hypothesis Feedback
+//
+// Turns the 👍 / 👎 votes recorded in the replay panel into ranking
+// adjustments for the hypothesis engine, tracks hypotheses hidden for an
+// error signature, and merges feedback datasets exported by teammates.
+// Pure logic — no VS Code API.
+
+import { createHash } from 'crypto';
+import { FeedbackTally, FeedbackVotes, HypothesisFeedbackStore, ParsedMuleError } from './types.js';
+
+/** Largest confidence shift a rule can earn from votes across all errors */
+const RULE_WEIGHT = 0.15;
+
+/** Largest confidence shift a rule can earn from votes on the same error type */
+const ERROR_TYPE_WEIGHT = 0.25;
+
+/** Bucket for errors without a type */
+const UNTYPED = '*';
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function emptyFeedbackStore(): HypothesisFeedbackStore {
+  return { version: 1, rules: {}, byErrorType: {}, hidden: {}, sources: {} };
+}
+
+/**
+ * Coerce stored or imported JSON into a feedback store.
+ * Malformed sections are dropped. Votes recorded before feedback was tracked
+ * per rule were keyed by hypothesis title and cannot be attributed, so the
+ * old flat format yields an empty store.
+ */
+export function normalizeFeedbackStore(raw: unknown): HypothesisFeedbackStore {
+  const store = emptyFeedbackStore();
+  if (!isRecord(raw) || raw.version !== 1) { return store; }
+
+  if (typeof raw.origin === 'string' && raw.origin) {
+    store.origin = raw.origin;
+  }
+  Object.assign(store, normalizeVotes(raw));
+
+  if (isRecord(raw.sources)) {
+    for (const [origin, votes] of Object.entries(raw.sources)) {
+      if (isRecord(votes)) {
+        store.sources[origin] = normalizeVotes(votes);
+      }
+    }
+  }
+
+  if (isRecord(raw.hidden)) {
+    for (const [signature, ruleIds] of Object.entries(raw.hidden)) {
+      if (Array.isArray(ruleIds)) {
+        store.hidden[signature] = [...new Set(ruleIds.filter((id): id is string => typeof id === 'string'))];
+      }
+    }
+  }
+
+  return store;
+}
+
+/**
+ * Identifies "the same error" for hiding hypotheses: the error type (or
+ * category) plus the message with numbers, quoted values and IDs masked,
+ * so repeats of one failure share a signature across requests.
+ */
+export function errorSignature(error: ParsedMuleError): string {
+  const template = (error.errorMessage ?? '')
+    .toLowerCase()
+    .replace(/(['"`]).*?\1/g, '?')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f-]{27,}\b/g, '?')
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 160);
+  return `${error.errorType ?? error.category}|${template}`;
+}
+
+/** Record one vote for a rule on an error type */
+export function recordFeedback(
+  store: HypothesisFeedbackStore,
+  ruleId: string,
+  errorType: string | null,
+  helpful: boolean
+): HypothesisFeedbackStore {
+  const bump = (tally: FeedbackTally | undefined): FeedbackTally => ({
+    helpful:    (tally?.helpful ?? 0) + (helpful ? 1 : 0),
+    notHelpful: (tally?.notHelpful ?? 0) + (helpful ? 0 : 1),
+  });
+  const typeKey = errorType ?? UNTYPED;
+
+  return {
+    ...store,
+    rules: { ...store.rules, [ruleId]: bump(store.rules[ruleId]) },
+    byErrorType: {
+      ...store.byErrorType,
+      [typeKey]: { ...store.byErrorType[typeKey], [ruleId]: bump(store.byErrorType[typeKey]?.[ruleId]) },
+    },
+  };
+}
+
+/** Hide a rule's hypothesis for every error with this signature */
+export function hideHypothesis(store: HypothesisFeedbackStore, signature: string, ruleId: string): HypothesisFeedbackStore {
+  const current = store.hidden[signature] ?? [];
+  if (current.includes(ruleId)) { return store; }
+  return { ...store, hidden: { ...store.hidden, [signature]: [...current, ruleId] } };
+}
+
+/** Show a rule's hypothesis again for errors with this signature */
+export function unhideHypothesis(store: HypothesisFeedbackStore, signature: string, ruleId: string): HypothesisFeedbackStore {
+  const current = store.hidden[signature] ?? [];
+  if (!current.includes(ruleId)) { return store; }
+
+  const hidden = { ...store.hidden, [signature]: current.filter(id => id !== ruleId) };
+  if (hidden[signature].length === 0) {
+    delete hidden[signature];
+  }
+  return { ...store, hidden };
+}
+
+export function isHypothesisHidden(store: HypothesisFeedbackStore, signature: string, ruleId: string): boolean {
+  return store.hidden[signature]?.includes(ruleId) ?? false;
+}
+
+/**
+ * Confidence shift earned by a rule from recorded votes, between
+ * -(RULE_WEIGHT + ERROR_TYPE_WEIGHT) and +(RULE_WEIGHT + ERROR_TYPE_WEIGHT).
+ * Votes on the same error type weigh more than votes across all errors, and
+ * a handful of votes moves the ranking less than a long, consistent record.
+ * Local and imported votes count alike.
+ */
+export function feedbackAdjustment(store: HypothesisFeedbackStore, ruleId: string, errorType: string | null): number {
+  const score = (tally: FeedbackTally): number =>
+    (tally.helpful - tally.notHelpful) / (tally.helpful + tally.notHelpful + 2);
+  const voters = allVotes(store);
+
+  return RULE_WEIGHT * score(sumTallies(voters.map(v => v.rules[ruleId]))) +
+    ERROR_TYPE_WEIGHT * score(sumTallies(voters.map(v => v.byErrorType[errorType ?? UNTYPED]?.[ruleId])));
+}
+
+/** Local and imported votes in the store */
+export function countVotes(store: HypothesisFeedbackStore): number {
+  return allVotes(store)
+    .flatMap(v => Object.values(v.rules))
+    .reduce((sum, t) => sum + t.helpful + t.notHelpful, 0);
+}
+
+/**
+ * Combine an imported dataset with the local one. The export's own votes and
+ * the votes it had imported are kept per origin, so importing the same file
+ * again — or a newer export from the same teammate — replaces those votes
+ * instead of counting them twice. Votes from the local origin are never
+ * imported back. Hidden rules are unioned.
+ */
+export function mergeFeedbackStores(local: HypothesisFeedbackStore, imported: HypothesisFeedbackStore): HypothesisFeedbackStore {
+  const sources = { ...local.sources };
+  const add = (origin: string, votes: FeedbackVotes) => {
+    if (origin !== local.origin) {
+      sources[origin] = { rules: votes.rules, byErrorType: votes.byErrorType };
+    }
+  };
+  for (const [origin, votes] of Object.entries(imported.sources)) {
+    add(origin, votes);
+  }
+  add(imported.origin ?? anonymousOrigin(imported), imported);
+
+  const hidden: HypothesisFeedbackStore['hidden'] = {};
+  for (const signature of new Set([...Object.keys(local.hidden), ...Object.keys(imported.hidden)])) {
+    hidden[signature] = [...new Set([...(local.hidden[signature] ?? []), ...(imported.hidden[signature] ?? [])])];
+  }
+
+  return { ...local, hidden, sources };
+}
+
+// ─── Internal Helpers ─────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function normalizeVotes(raw: Record<string, any>): FeedbackVotes {
+  const votes: FeedbackVotes = { rules: {}, byErrorType: {} };
+
+  if (isRecord(raw.rules)) {
+    for (const [ruleId, tally] of Object.entries(raw.rules)) {
+      votes.rules[ruleId] = normalizeTally(tally);
+    }
+  }
+
+  if (isRecord(raw.byErrorType)) {
+    for (const [errorType, rules] of Object.entries(raw.byErrorType)) {
+      if (!isRecord(rules)) { continue; }
+      votes.byErrorType[errorType] = {};
+      for (const [ruleId, tally] of Object.entries(rules)) {
+        votes.byErrorType[errorType][ruleId] = normalizeTally(tally);
+      }
+    }
+  }
+
+  return votes;
+}
+
+function allVotes(store: HypothesisFeedbackStore): FeedbackVotes[] {
+  return [store, ...Object.values(store.sources)];
+}
+
+function sumTallies(tallies: Array<FeedbackTally | undefined>): FeedbackTally {
+  return tallies.reduce<FeedbackTally>((sum, t) => ({
+    helpful:    sum.helpful + (t?.helpful ?? 0),
+    notHelpful: sum.notHelpful + (t?.notHelpful ?? 0),
+  }), { helpful: 0, notHelpful: 0 });
+}
+
+/**
+ * Stable origin for an export written before origins were recorded, derived
+ * from its votes so the same file maps to the same source on every import.
+ */
+function anonymousOrigin(votes: FeedbackVotes): string {
+  const digest = createHash('sha256')
+    .update(JSON.stringify({ rules: votes.rules, byErrorType: votes.byErrorType }))
+    .digest('hex');
+  return `import-${digest.slice(0, 16)}`;
+}
+
+function normalizeTally(raw: unknown): FeedbackTally {
+  const count = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v > 0 ? Math.floor(v) : 0;
+  return isRecord(raw)
+    ? { helpful: count(raw.helpful), notHelpful: count(raw.notHelpful) }
+    : { helpful: 0, notHelpful: 0 };
+}
@@ -36,6 +36,15 @@ const RE_ELEMENT_LABEL = /\bElement[:\s]+([a-zA-Z][\w\-]+(?::[^\s,]+)?)/i;
  */
 const RE_ELEMENT_STRUCTURED = /Element\s*:\s*([a-zA-Z][\w\-]+(?:flow|subflow)[^\s@]+)/i;
 
+/**
+ * Matches the full component location in the structured Element block:
+ * "Element : order-flow/processors/1/route/0/processors/0 @ app:orders.xml:25"
+ */
+const RE_COMPONENT_PATH = /\bElement\s*:\s*([^\s@()]+\/[^\s@()]+)/;
+
+/** Matches doc:id in the "Element DSL" block: <ee:transform doc:id="6d5a0c1e-..."> */
+const RE_DOC_ID = /\bdoc:id\s*=\s*["']([^"']+)["']/;
+
 /** Matches thread names from Mule log output */
 const RE_THREAD_NAME = /\[?(MuleRuntime|http\-[a-z\-]+|uber|cpuLight|cpuIntensive|io)[\w\.\-]*\]?/;
 
@@ -48,6 +57,12 @@ const RE_XML_BLOB = /(<\?xml[\s\S]*?>[\s\S]*?<\/[^>]+>)/;
 /** Matches flow variable assignments: vars.customerId = CUST-4471 */
 const RE_FLOW_VAR = /\bvars?\.([a-zA-Z][\w]+)\s*[=:]\s*([^\s,}\n]+)/g;
 
+/** Matches the Mule 4 event ID in "[processor: ...; event: 0-6ed6bd10-...]" or "[event: ...]" */
+const RE_MULE4_EVENT = /[;\[]\s*event:\s*([a-zA-Z0-9\-_]{6,64})/;
+
+/** Matches the Mule 4 logger location "[processor: order-flow/processors/0; event: ...]" */
+const RE_MULE4_PROCESSOR = /\[processor:\s*([^;\]]*)/;
+
 /** Matches HTTP attribute assignments: attributes.method = POST */
 const RE_HTTP_ATTR = /\battributes?\.([a-zA-Z][\w]+)\s*[=:]\s*([^\s,}\n]+)/g;
 
@@ -101,6 +116,8 @@ export function parseLogEntry(message: string): ParsedMuleError {
   const elementMatch    = RE_ELEMENT_LABEL.exec(message);
   const elementStructured = RE_ELEMENT_STRUCTURED.exec(message);
   const threadMatch     = RE_THREAD_NAME.exec(message);
+  const componentMatch  = RE_COMPONENT_PATH.exec(message);
+  const docIdMatch      = RE_DOC_ID.exec(message);
 
   let errorType   = errorTypeMatch?.[1]  ?? null;
   const flowName    = flowNameMatch?.[1]   ?? null;
@@ -145,6 +162,8 @@ export function parseLogEntry(message: string): ParsedMuleError {
     flowName,
     processorPath,
     elementPath,
+    componentPath: componentMatch?.[1] ?? null,
+    docId: docIdMatch?.[1] ?? null,
     threadName,
     errorMessage,
     category,
@@ -339,13 +358,30 @@ export function extractThreadId(message: string): string | null {
  *   x-correlation-id: abc-123
  *   correlationId=abc-123
  *   [correlationId: abc-123]
+ *   [processor: order-flow/processors/0; event: 0-6ed6bd10-3c4f-11ee]   (Mule 4 logger)
  */
 export function extractCorrelationId(message: string): string | null {
   if (!message) { return null; }
-  const match = /(?:x-correlation-id|correlationId|correlation-id|X-Correlation-Id)\s*[=:\s]+([a-zA-Z0-9\-_]{6,64})/i.exec(message);
+  const match = /(?:x-correlation-id|correlationId|correlation-id|X-Correlation-Id)\s*[=:\s]+([a-zA-Z0-9\-_]{6,64})/i.exec(message)
+    ?? RE_MULE4_EVENT.exec(message);
   return match?.[1] ?? null;
 }
 
+/**
+ * Extract the logging processor from the Mule 4 location block:
+ *   [processor: order-flow/processors/1/processors/0; event: ...]
+ * Returns null when the block is absent or empty.
+ */
+export function extractProcessorLocation(message: string): { flowName: string; processorPath: string | null } | null {
+  if (!message) { return null; }
+  const location = RE_MULE4_PROCESSOR.exec(message)?.[1]?.trim();
+  if (!location) { return null; }
+  const slash = location.indexOf('/');
+  return slash < 0
+    ? { flowName: location, processorPath: null }
+    : { flowName: location.slice(0, slash), processorPath: location.slice(slash + 1) || null };
+}
+
 // ─── Internal Helpers ─────────────────────────────────────────────────────────
 
 function emptyError(): ParsedMuleError {
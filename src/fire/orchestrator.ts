@@ -11,10 +11,20 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import { parseLogEntry, buildExecutionContext } from './logParser.js';
-import { findSourceLocation, openSourceLocation } from './sourceMapper.js';
-import { generateHypotheses } from './hypothesisEngine.js';
-import { ReplaySession, ExecutionContext, FailureHypothesis } from './types.js';
+import { findErrorHandling, findSourceLocation, openSourceLocation } from './sourceMapper.js';
+import { generateHypotheses, getHypothesisRules, setWorkspaceHypothesisRules } from './hypothesisEngine.js';
+import { loadWorkspaceHypothesisRules } from './customHypothesisRules.js';
+import { countVotes, emptyFeedbackStore, mergeFeedbackStores, normalizeFeedbackStore, unhideHypothesis } from './hypothesisFeedback.js';
+import { reconstructRequestTrace } from './requestTrace.js';
+import { ReplaySession, ExecutionContext, FailureHypothesis, HypothesisFeedbackStore } from './types.js';
+
+/** Log lines before the failing entry scanned for payload, vars and attributes */
+const CONTEXT_WINDOW = 20;
+
+/** globalState key holding the HypothesisFeedbackStore */
+const FEEDBACK_STORAGE_KEY = 'fire.hypothesis.feedback';
 
 // ─── Public API ───────────────────────────────────────────────────────────────
 
@@ -24,20 +34,23 @@ import { ReplaySession, ExecutionContext, FailureHypothesis } from './types.js';
  * Call this when the user clicks "Replay Failure" or "Jump to Source"
  * on a log entry in the Real-Time Logs panel.
  *
- * @param entries       Raw log entries from the active session
- *                      (all entries from the same thread, if possible)
+ * @param entries       The full log buffer of the active session; the request
+ *                      trace is reconstructed from all of it
  * @param appDomain     The CloudHub application domain name
  * @param failingIndex  Index of the specific failing entry in the array
+ * @param feedback      Recorded hypothesis feedback used to re-rank hypotheses
  * @returns             A ReplaySession, or null if the entry is not actionable
  */
 export async function buildReplaySession(
   entries: Array<{ priority: string; message: string; timestamp: number }>,
   appDomain: string,
-  failingIndex: number
+  failingIndex: number,
+  feedback: HypothesisFeedbackStore | null = null
 ): Promise<ReplaySession | null> {
 
-  // 1. Build execution context from the log batch
-  const ctx = buildExecutionContext(entries, appDomain);
+  // 1. Build execution context from the lines leading up to the failure
+  const windowStart = Math.max(0, failingIndex - CONTEXT_WINDOW);
+  const ctx = buildExecutionContext(entries.slice(windowStart, failingIndex + 1), appDomain);
   if (!ctx) { return null; }
 
   // 2. Find source location in workspace
@@ -49,8 +62,12 @@ export async function buildReplaySession(
     dataWeaveScript = await extractDataWeaveScript(sourceLocation.filePath, ctx.error.flowName);
   }
 
-  // 4. Generate hypotheses
-  const hypotheses = generateHypotheses(ctx.error, ctx);
+  // 4. Check which of the project's error handlers catch this error type
+  ctx.error.handledBy = await findErrorHandling(ctx.error);
+
+  // 5. Generate hypotheses, including the workspace's own rules
+  refreshWorkspaceHypothesisRules();
+  const hypotheses = generateHypotheses(ctx.error, ctx, feedback);
 
   const session: ReplaySession = {
     sessionId:      generateSessionId(appDomain, ctx.timestamp),
@@ -58,6 +75,7 @@ export async function buildReplaySession(
     sourceLocation,
     dataWeaveScript,
     createdAt:      new Date().toISOString(),
+    requestTrace:   reconstructRequestTrace(entries, failingIndex),
   };
 
   // Attach hypotheses to context error for downstream use
@@ -97,7 +115,7 @@ export async function jumpToSource(
 
   const opened = await openSourceLocation(location);
   if (opened) {
-    const matchDesc = location.matchMethod === 'exact'
+    const matchDesc = location.matchMethod !== 'flow-only'
       ? `line ${location.lineNumber + 1} in ${path.basename(location.filePath)}`
       : `flow '${location.flowName}' in ${path.basename(location.filePath)} (processor not pinpointed)`;
 
@@ -115,15 +133,144 @@ export async function jumpToSource(
  */
 export function getInlineHypotheses(
   message: string,
-  priority: string
+  priority: string,
+  feedback: HypothesisFeedbackStore | null = null
 ): FailureHypothesis[] {
   const error = parseLogEntry(message);
   if (error.confidence < 0.3) { return []; }
-  return generateHypotheses(error, null);
+  return generateHypotheses(error, null, feedback);
+}
+
+// ─── Hypothesis feedback ──────────────────────────────────────────────────────
+
+/** The recorded feedback; an origin is assigned on first use and kept once saved */
+export function loadHypothesisFeedback(context: vscode.ExtensionContext): HypothesisFeedbackStore {
+  const store = normalizeFeedbackStore(context.globalState.get(FEEDBACK_STORAGE_KEY));
+  return store.origin ? store : { ...store, origin: randomUUID() };
+}
+
+export async function saveHypothesisFeedback(
+  context: vscode.ExtensionContext,
+  store: HypothesisFeedbackStore
+): Promise<void> {
+  await context.globalState.update(FEEDBACK_STORAGE_KEY, store);
+}
+
+/**
+ * Write the recorded feedback to a JSON file so a team can share tuned rankings.
+ */
+export async function exportHypothesisFeedback(context: vscode.ExtensionContext): Promise<void> {
+  const store = loadHypothesisFeedback(context);
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, 'fire-hypothesis-feedback.json') : undefined,
+    filters: { JSON: ['json'] },
+    saveLabel: 'Export Feedback',
+  });
+  if (!target) { return; }
+
+  // Keep the origin stable so teammates re-importing a later export replace these votes
+  await saveHypothesisFeedback(context, store);
+  await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(store, null, 2), 'utf8'));
+  vscode.window.showInformationMessage(`FIRE: Exported ${countVotes(store)} hypothesis vote(s) to ${path.basename(target.fsPath)}`);
+}
+
+/**
+ * Load a feedback file exported by a teammate, merging it into the local
+ * dataset or replacing it.
+ */
+export async function importHypothesisFeedback(context: vscode.ExtensionContext): Promise<void> {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { JSON: ['json'] },
+    openLabel: 'Import Feedback',
+  });
+  if (!picked?.[0]) { return; }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(picked[0])).toString('utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read ${path.basename(picked[0].fsPath)}: ${error.message}`);
+  }
+  if ((raw as any)?.version !== 1) {
+    throw new Error(`${path.basename(picked[0].fsPath)} is not a FIRE hypothesis feedback export`);
+  }
+  const imported = normalizeFeedbackStore(raw);
+
+  const mode = await vscode.window.showQuickPick(
+    [
+      { label: 'Merge', description: 'Add the imported votes and hidden hypotheses to yours; re-importing updates them', value: 'merge' },
+      { label: 'Replace', description: 'Discard your feedback and use the imported dataset', value: 'replace' },
+    ],
+    { placeHolder: 'How should the imported feedback be applied?' }
+  );
+  if (!mode) { return; }
+
+  const local = loadHypothesisFeedback(context);
+  const next = mergeFeedbackStores(
+    mode.value === 'merge' ? local : { ...emptyFeedbackStore(), origin: local.origin },
+    imported
+  );
+  await saveHypothesisFeedback(context, next);
+  vscode.window.showInformationMessage(`FIRE: Hypothesis feedback ${mode.value === 'merge' ? 'merged' : 'replaced'} from ${path.basename(picked[0].fsPath)}`);
+}
+
+/**
+ * Pick hidden hypotheses to show again. Without this, a hypothesis hidden by
+ * mistake only comes back with a Replace import.
+ */
+export async function manageHiddenHypotheses(context: vscode.ExtensionContext): Promise<void> {
+  const store = loadHypothesisFeedback(context);
+  const items = Object.entries(store.hidden).flatMap(([signature, ruleIds]) => {
+    const [errorType, ...message] = signature.split('|');
+    return ruleIds.map(ruleId => ({
+      label: ruleId,
+      description: errorType,
+      detail: message.join('|') || undefined,
+      signature,
+      ruleId,
+    }));
+  });
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('FIRE: No hypotheses are hidden.');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: 'Select hidden hypotheses to show again',
+  });
+  if (!picked?.length) { return; }
+
+  const next = picked.reduce((s, item) => unhideHypothesis(s, item.signature, item.ruleId), store);
+  await saveHypothesisFeedback(context, next);
+  vscode.window.showInformationMessage(`FIRE: ${picked.length} hidden hypothesis(es) will be shown again.`);
 }
 
 // ─── Internal helpers ─────────────────────────────────────────────────────────
 
+/**
+ * Reload workspace hypothesis rules (.fire/rules) into the engine. Invalid
+ * rules are skipped and reported without blocking the replay.
+ */
+function refreshWorkspaceHypothesisRules(): void {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    setWorkspaceHypothesisRules([]);
+    return;
+  }
+
+  const builtinIds = getHypothesisRules().filter(r => r.source === 'builtin').map(r => r.id);
+  const { rules, errors } = loadWorkspaceHypothesisRules(workspaceFolders[0].uri.fsPath, builtinIds);
+  setWorkspaceHypothesisRules(rules);
+
+  if (errors.length > 0) {
+    const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+    vscode.window.showWarningMessage(`FIRE: skipped invalid hypothesis rules — ${errors[0]}${more}`);
+  }
+}
+
 /**
  * Extract the first DataWeave script found inside a given flow in an XML file.
  * Looks for <ee:set-payload>, <ee:set-variable>, or <dw:transform-message> blocks.
@@ -0,0 +1,70 @@
+// src/fire/replayInputs.ts
+// Failure Intelligence & Replay Engine — Replay Inputs
+//
+// Turns the captured ExecutionContext into the named DataWeave inputs
+// (payload, vars, attributes) used to re-run the failing script.
+// Pure logic — no VS Code API.
+
+import { DataWeaveInput } from '../controllers/dataweaveCli.js';
+import { ExecutionContext } from './types.js';
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Mime type of a payload captured from a log line.
+ * JSON when it parses, XML when it looks like markup, plain text otherwise.
+ */
+export function detectPayloadMimeType(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) { return 'text/plain'; }
+  try {
+    JSON.parse(trimmed);
+    return 'application/json';
+  } catch {
+    // not JSON
+  }
+  return trimmed.startsWith('<') ? 'application/xml' : 'text/plain';
+}
+
+/**
+ * Convert a value scraped from a log line into the JSON value it most likely
+ * had at runtime: numbers, booleans, null and JSON literals are decoded,
+ * surrounding quotes are stripped, everything else stays a string.
+ */
+export function coerceLogValue(value: string): unknown {
+  const trimmed = value.trim();
+  if (/^(?:-?\d+(?:\.\d+)?|true|false|null)$/.test(trimmed) || /^[[{"]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // fall through to string handling
+    }
+  }
+  const quoted = /^'(.*)'$/.exec(trimmed);
+  return quoted ? quoted[1] : trimmed;
+}
+
+/**
+ * Named inputs that reproduce the failing event: the captured payload (or
+ * `null` when none was logged) plus `vars` and `attributes` objects built
+ * from the extracted key/value pairs.
+ */
+export function buildReplayInputs(ctx: ExecutionContext): DataWeaveInput[] {
+  const toObject = (entries: Record<string, string>) => {
+    const obj: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(entries)) {
+      obj[key] = coerceLogValue(value);
+    }
+    return JSON.stringify(obj, null, 2);
+  };
+
+  const payload: DataWeaveInput = ctx.rawPayload
+    ? { name: 'payload', content: ctx.rawPayload, mimeType: detectPayloadMimeType(ctx.rawPayload) }
+    : { name: 'payload', content: 'null', mimeType: 'application/json' };
+
+  return [
+    payload,
+    { name: 'vars', content: toObject(ctx.variables), mimeType: 'application/json' },
+    { name: 'attributes', content: toObject(ctx.attributes), mimeType: 'application/json' },
+  ];
+}
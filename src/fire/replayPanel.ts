@@ -2,10 +2,17 @@
 // Failure Intelligence & Replay Engine — Replay Panel
 //
 // Renders the interactive debugger UI when a replay session is ready.
-// Shows: flow context, extracted payload, variables, hypotheses, DW script editor.
+// Shows: flow context, request trace, extracted payload, variables, hypotheses,
+// DW script editor.
+// The script editor re-runs the extracted DataWeave against the captured
+// payload, vars and attributes so the failure can be reproduced and fixed.
 
 import * as vscode from 'vscode';
-import { ReplaySession, FailureHypothesis } from './types.js';
+import type { DataWeaveExecutionResult } from '../controllers/dataweaveService.js';
+import { ReplaySession, FailureHypothesis, RequestTrace, PayloadShapeChange } from './types.js';
+import { buildReplayInputs } from './replayInputs.js';
+import { errorSignature, hideHypothesis, recordFeedback } from './hypothesisFeedback.js';
+import { loadHypothesisFeedback, saveHypothesisFeedback } from './orchestrator.js';
 import {
     wrapWebviewHtml,
     badge,
@@ -13,8 +20,6 @@ import {
     escapeHtml,
 } from '../webview/ui-kit';
 
-const FEEDBACK_STORAGE_KEY = 'fire.hypothesis.feedback';
-
 const activePanels = new Map<string, vscode.WebviewPanel>();
 
 export async function showReplayPanel(
@@ -71,23 +76,132 @@ export async function showReplayPanel(
                 break;
 
             case 'hypothesisFeedback': {
-                const raw = context.globalState.get<Record<string, number>>(FEEDBACK_STORAGE_KEY) ?? {};
-                const key = `hypothesis.${message.title.toLowerCase().replace(/\s+/g, '_')}`;
-                const current = raw[key] ?? 0;
-                raw[key] = message.helpful ? current + 1 : Math.max(current - 1, -5);
-                await context.globalState.update(FEEDBACK_STORAGE_KEY, raw);
-                console.log(`FIRE: Feedback recorded for "${message.title}": ${message.helpful ? '+1' : '-1'} (total: ${raw[key]})`);
+                if (!message.ruleId) { break; }
+                const store = recordFeedback(
+                    loadHypothesisFeedback(context),
+                    message.ruleId,
+                    session.context.error.errorType,
+                    !!message.helpful
+                );
+                await saveHypothesisFeedback(context, store);
+                console.log(`FIRE: Feedback recorded for rule "${message.ruleId}": ${message.helpful ? '+1' : '-1'}`);
+                break;
+            }
+
+            case 'hideHypothesis': {
+                if (!message.ruleId) { break; }
+                const store = hideHypothesis(
+                    loadHypothesisFeedback(context),
+                    errorSignature(session.context.error),
+                    message.ruleId
+                );
+                await saveHypothesisFeedback(context, store);
+                vscode.window.showInformationMessage(
+                    `FIRE: "${message.title}" will no longer be suggested for this error. Use "AM: Export FIRE Hypothesis Feedback" to share your tuning.`
+                );
+                break;
+            }
+
+            case 'replay': {
+                const { executeDataWeave } = await import('../controllers/dataweaveService.js');
+                const result = await executeDataWeave({
+                    script: message.script ?? '',
+                    input: '',
+                    inputMimeType: 'application/json',
+                    inputs: buildReplayInputs(session.context),
+                }, context);
+                panel.webview.postMessage({ command: 'replayResult', result, outcome: replayOutcome(result) });
+                break;
+            }
+
+            case 'applyFix': {
+                await vscode.env.clipboard.writeText(message.script ?? '');
+                if (session.sourceLocation) {
+                    const { openSourceLocation } = await import('./sourceMapper.js');
+                    await openSourceLocation(session.sourceLocation);
+                    vscode.window.showInformationMessage('⚙️ Edited script copied — paste it over the Transform Message body to apply the fix');
+                } else {
+                    vscode.window.showInformationMessage('⚙️ Edited script copied to clipboard');
+                }
                 break;
             }
 
-            case 'openInPlayground':
-                await vscode.commands.executeCommand('anypoint-monitor.dataweavePlayground');
+            case 'openInPlayground': {
+                const { showDataWeavePlayground } = await import('../anypoint/dataweavePlayground.js');
+                await showDataWeavePlayground(context, {
+                    name: `Replay ${session.context.error.flowName ?? session.context.applicationDomain}`,
+                    script: message.script ?? session.dataWeaveScript ?? '',
+                    inputs: buildReplayInputs(session.context),
+                });
                 break;
+            }
         }
     });
 }
 
-function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesis[]): string {
+/** Longest log excerpt shown per trace step */
+const TRACE_MESSAGE_PREVIEW = 240;
+
+function renderRequestTrace(trace: RequestTrace): string {
+    const describeShapeChange = (change: PayloadShapeChange): string => [
+        change.format ? `format ${change.format}` : '',
+        change.added.length ? `added ${change.added.join(', ')}` : '',
+        change.removed.length ? `removed ${change.removed.join(', ')}` : '',
+        change.retyped.length ? `retyped ${change.retyped.join(', ')}` : '',
+    ].filter(Boolean).join(' · ');
+
+    const priorityVariant = (priority: string) =>
+        /ERROR|FATAL/i.test(priority) ? 'error' : /WARN/i.test(priority) ? 'warning' : 'default';
+
+    const shapeChanges = trace.steps.filter(s => s.shapeChange).length;
+
+    const steps = trace.steps.map((step, i) => {
+        const classes = ['trace-step', step.isFailure ? 'failing' : '', step.shapeChange ? 'shape-changed' : '']
+            .filter(Boolean).join(' ');
+        const location = [step.flowName, step.processorPath].filter(Boolean).join('/');
+        const excerpt = step.message.length > TRACE_MESSAGE_PREVIEW
+            ? `${step.message.slice(0, TRACE_MESSAGE_PREVIEW)}…`
+            : step.message;
+        return `
+        <li class="${classes}">
+          <div class="trace-step-header">
+            <span class="trace-time">#${i + 1} ${escapeHtml(new Date(step.timestamp).toISOString().slice(11, 23))}</span>
+            ${badge(step.priority, priorityVariant(step.priority))}
+            ${location ? `<span class="trace-location">${escapeHtml(location)}</span>` : ''}
+            ${step.isFailure ? badge('Failure', 'error') : ''}
+            ${step.shapeChange ? badge('Payload shape changed', 'warning') : ''}
+          </div>
+          <div class="trace-message">${escapeHtml(excerpt)}</div>
+          ${step.shapeChange ? `<div class="trace-shape">${escapeHtml(describeShapeChange(step.shapeChange))}</div>` : ''}
+          ${step.payload ? `<details><summary>Payload</summary><pre class="code-block">${escapeHtml(step.payload)}</pre></details>` : ''}
+        </li>`;
+    }).join('');
+
+    return `
+      <div class="trace-meta">
+        <span>Correlation ID <code>${escapeHtml(trace.correlationId)}</code></span>
+        ${badge(`${trace.steps.length} log line${trace.steps.length === 1 ? '' : 's'}`, 'info')}
+        ${shapeChanges > 0 ? badge(`${shapeChanges} payload shape change${shapeChanges === 1 ? '' : 's'}`, 'warning') : ''}
+      </div>
+      ${trace.flowPath.length > 0
+        ? `<div class="trace-meta"><span class="trace-path">${trace.flowPath.map(f => escapeHtml(f)).join(' → ')}</span></div>`
+        : ''}
+      <ol class="trace-steps">${steps}</ol>`;
+}
+
+/**
+ * What a replay run tells us: the script ran cleanly, the script itself
+ * failed (the failure reproduced), or it never ran — a heuristic preview, a
+ * missing CLI or a network error says nothing about the script.
+ */
+export function replayOutcome(result: DataWeaveExecutionResult): 'ran' | 'script-error' | 'not-run' {
+  if (result.backend === 'heuristic') { return 'not-run'; }
+  if (result.success) { return 'ran'; }
+  return result.scriptError || (result.errors?.length ?? 0) > 0 ? 'script-error' : 'not-run';
+}
+
+/** Exported for tests */
+export function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesis[]): string {
     const error = session.context.error;
     const ctx = session.context;
 
@@ -130,19 +244,22 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
     const hypothesesHtml = hypotheses.length > 0
         ? hypotheses.map((h, i) => {
             const titleJson = JSON.stringify(h.title);
+            const ruleJson = JSON.stringify(h.ruleId ?? null);
             return `
         <div class="hypothesis" id="hyp-${i}">
           <div class="h-header">
             <span class="h-rank">#${i + 1}</span>
             <span class="h-title">${escapeHtml(h.title)}</span>
+            ${h.source === 'workspace' ? badge('Workspace rule', 'info') : ''}
             <span class="h-conf">${Math.round(h.confidence * 100)}%</span>
           </div>
           <div class="h-explanation">${escapeHtml(h.explanation)}</div>
           <div class="h-suggestion">💡 ${escapeHtml(h.suggestion)}</div>
           <div class="h-feedback" id="feedback-${i}">
             <span class="feedback-label">Was this helpful?</span>
-            ${button('👍 Yes', { variant: 'ghost', onclick: `sendFeedback(${i}, true, ${titleJson})` })}
-            ${button('👎 No', { variant: 'ghost', onclick: `sendFeedback(${i}, false, ${titleJson})` })}
+            ${button('👍 Yes', { variant: 'ghost', onclick: `sendFeedback(${i}, true, ${ruleJson})` })}
+            ${button('👎 No', { variant: 'ghost', onclick: `sendFeedback(${i}, false, ${ruleJson})` })}
+            ${button('Hide for this error', { variant: 'ghost', onclick: `hideHypothesis(${i}, ${ruleJson}, ${titleJson})` })}
           </div>
         </div>`;
         }).join('')
@@ -161,11 +278,31 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
         <span>Open the Mule project folder in VS Code to enable source navigation</span>
        </div>`;
 
+    const replayInputs = buildReplayInputs(ctx);
+    const inputsSummary = [
+        ctx.rawPayload ? `payload (${replayInputs[0].mimeType})` : 'payload (null — none captured)',
+        `vars (${varsEntries.length})`,
+        `attributes (${attrsEntries.length})`,
+    ].join(' · ');
+
     const dwHtml = session.dataWeaveScript
-        ? `<pre class="code-block">${escapeHtml(session.dataWeaveScript)}</pre>
+        ? `<textarea class="code-block dw-editor" id="dw-script" spellcheck="false">${escapeHtml(session.dataWeaveScript)}</textarea>
        <div class="replay-inline-actions">
-         ${button('Copy script', { variant: 'secondary', onclick: 'copyScript()' })}
-         <span class="replay-hint">Paste into AM: DataWeave Playground · native playground injection coming Q2</span>
+         ${button('▶ Replay', { variant: 'primary', id: 'replay-btn', onclick: 'replay()' })}
+         ${button('Reset', { variant: 'ghost', onclick: 'resetScript()' })}
+         ${button('Open in Playground', { variant: 'secondary', onclick: 'openInPlayground()' })}
+         ${button('Copy script', { variant: 'ghost', onclick: 'copyScript()' })}
+         <span class="replay-hint">Runs against ${escapeHtml(inputsSummary)}</span>
+       </div>
+       <div class="replay-result" id="replay-result" hidden>
+         <div class="replay-result-header">
+           <span id="replay-status"></span>
+           <span class="replay-hint" id="replay-meta"></span>
+           <span style="flex:1"></span>
+           <span id="apply-fix" hidden>${button(session.sourceLocation ? 'Copy & open source' : 'Copy fixed script', { variant: 'secondary', onclick: 'applyFix()' })}</span>
+         </div>
+         <ul class="replay-errors" id="replay-errors"></ul>
+         <pre class="code-block" id="replay-output"></pre>
        </div>`
         : `<div class="empty-hint">No DataWeave script found — source mapping required</div>`;
 
@@ -185,6 +322,16 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
         </div>`).join('')
         : `<div class="empty-hint">No attributes extracted</div>`;
 
+    const handlingHtml = !error.handledBy
+        ? ''
+        : error.handledBy.length > 0
+            ? `<div class="handling-row">${badge('Handled', 'success')} <span>${error.handledBy.map(h => escapeHtml(h)).join(' · ')}</span></div>`
+            : `<div class="handling-row">${badge('Unhandled', 'warning')} <span>No error handler catches ${escapeHtml(error.errorType ?? 'this error')} in flow ${escapeHtml(error.flowName ?? 'unknown')}</span></div>`;
+
+    const traceHtml = session.requestTrace
+        ? renderRequestTrace(session.requestTrace)
+        : `<div class="empty-hint">No correlation ID on the failing line — the full request cannot be traced</div>`;
+
     const headerRight = error.errorType
         ? `<div class="am-page-header-right">${badge(error.errorType, 'error')}</div>`
         : '';
@@ -223,9 +370,15 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
           <div class="flow-value">${escapeHtml(error.category)}</div>
         </div>
       </div>
+      ${handlingHtml}
       ${error.errorMessage ? `<div class="error-message-box">${escapeHtml(error.errorMessage)}</div>` : ''}
     </div>
 
+    <div class="am-card">
+      <div class="am-card-title">🧭 Request trace</div>
+      ${traceHtml}
+    </div>
+
     <div class="am-card">
       <div class="am-card-title">📄 Source location</div>
       ${sourceHtml}
@@ -243,7 +396,7 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
         ? `<pre class="code-block">${payloadHighlighted ?? escapeHtml(payloadStr)}</pre>
              <div class="replay-inline-actions">
                ${button('Copy payload', { variant: 'secondary', onclick: 'copyPayload()' })}
-               <span class="replay-hint">Paste as input in AM: DataWeave Playground</span>
+               <span class="replay-hint">Bound to <code>payload</code> when replaying the DataWeave script</span>
              </div>`
         : `<div class="empty-hint">No payload detected in log context</div>`}
       </div>
@@ -290,6 +443,7 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
             font-family: var(--vscode-editor-font-family, monospace);
             color: var(--am-text-primary);
         }
+        .handling-row { display: flex; align-items: center; gap: 8px; flex-wrap: wrap; margin-top: 10px; font-size: 12px; }
         .error-message-box {
             margin-top: 10px;
             padding: 8px 10px;
@@ -327,6 +481,47 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
         .h-explanation { font-size: 12px; color: var(--am-text-secondary); margin-bottom: 6px; line-height: 1.5; }
         .h-suggestion { font-size: 12px; color: var(--am-success); line-height: 1.5; }
 
+        .trace-meta { display: flex; align-items: center; gap: 8px; flex-wrap: wrap; margin-bottom: 8px; font-size: 12px; }
+        .trace-path { font-family: var(--vscode-editor-font-family, monospace); color: var(--am-info); }
+        .trace-steps { list-style: none; margin: 0; padding: 0; max-height: 360px; overflow: auto; }
+        .trace-step {
+            border-left: 3px solid var(--am-border);
+            padding: 6px 10px;
+            margin-bottom: 4px;
+            font-size: 12px;
+        }
+        .trace-step.shape-changed {
+            border-left-color: var(--am-warning);
+            background: color-mix(in srgb, var(--am-warning) 8%, transparent);
+        }
+        .trace-step.failing {
+            border-left-color: var(--am-error);
+            background: color-mix(in srgb, var(--am-error) 8%, transparent);
+        }
+        .trace-step-header { display: flex; align-items: center; gap: 8px; flex-wrap: wrap; }
+        .trace-time, .trace-location { font-family: var(--vscode-editor-font-family, monospace); font-size: 11px; color: var(--am-text-muted); }
+        .trace-message {
+            font-family: var(--vscode-editor-font-family, monospace);
+            font-size: 11px;
+            color: var(--am-text-secondary);
+            margin-top: 3px;
+            white-space: pre-wrap;
+            word-break: break-word;
+        }
+        .trace-shape { font-size: 11px; color: var(--am-warning); margin-top: 3px; }
+        .trace-step details { margin-top: 4px; font-size: 11px; }
+        .trace-step details .code-block { margin: 4px 0 0; }
+
+        .dw-editor { width: 100%; min-height: 160px; resize: vertical; box-sizing: border-box; }
+        .replay-result { margin-top: 12px; }
+        .replay-result-header { display: flex; align-items: center; gap: 8px; margin-bottom: 6px; }
+        .replay-status-pass { color: var(--am-success); font-weight: 600; font-size: 12px; }
+        .replay-status-fail { color: var(--am-error); font-weight: 600; font-size: 12px; }
+        .replay-status-skip { color: var(--am-warning); font-weight: 600; font-size: 12px; }
+        .replay-errors { list-style: none; margin: 0 0 6px; padding: 0; }
+        .replay-errors li { font-size: 12px; color: var(--am-error); padding: 3px 0; cursor: pointer; }
+        .replay-errors li:hover { text-decoration: underline; }
+
         .code-block {
             background: var(--am-bg-secondary);
             border: 1px solid var(--am-border);
@@ -398,12 +593,78 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
     vscode.postMessage({ command: 'copyScript' });
   }
 
-  function sendFeedback(index, helpful, title) {
+  const originalScript = ${JSON.stringify(session.dataWeaveScript ?? '').replace(/</g, '\\u003c')};
+  const scriptEl = document.getElementById('dw-script');
+
+  function replay() {
+    document.getElementById('replay-btn').disabled = true;
+    document.getElementById('replay-meta').textContent = 'Running…';
+    vscode.postMessage({ command: 'replay', script: scriptEl.value });
+  }
+
+  function resetScript() {
+    scriptEl.value = originalScript;
+  }
+
+  function openInPlayground() {
+    vscode.postMessage({ command: 'openInPlayground', script: scriptEl ? scriptEl.value : originalScript });
+  }
+
+  function applyFix() {
+    vscode.postMessage({ command: 'applyFix', script: scriptEl.value });
+  }
+
+  // Select the reported position in the script editor
+  function goTo(line, column) {
+    const lines = scriptEl.value.split('\\n');
+    let offset = 0;
+    for (let i = 0; i < line - 1 && i < lines.length; i++) { offset += lines[i].length + 1; }
+    offset += Math.max(0, column - 1);
+    scriptEl.focus();
+    scriptEl.setSelectionRange(offset, offset + 1);
+  }
+
+  window.addEventListener('message', event => {
+    const msg = event.data;
+    if (msg.command !== 'replayResult') { return; }
+    const r = msg.result;
+    const edited = scriptEl.value !== originalScript;
+
+    document.getElementById('replay-btn').disabled = false;
+    document.getElementById('replay-result').hidden = false;
+    const status = document.getElementById('replay-status');
+    if (msg.outcome === 'not-run') {
+      status.textContent = '⚠️ Could not run the script: ' + (r.backend === 'heuristic'
+        ? 'the DataWeave service was unreachable and only a heuristic preview ran'
+        : (r.error || 'execution failed'));
+      status.className = 'replay-status-skip';
+    } else {
+      status.textContent = msg.outcome === 'ran'
+        ? (edited ? '✅ Edited script passes' : '⚠️ Script ran without error — the failure did not reproduce')
+        : '❌ Failure reproduced';
+      status.className = msg.outcome === 'ran' ? 'replay-status-pass' : 'replay-status-fail';
+    }
+    document.getElementById('replay-meta').textContent = [r.backend === 'local' ? 'local CLI' : r.backend === 'heuristic' ? 'heuristic preview (not a DataWeave run)' : r.backend, r.executionTime !== undefined ? r.executionTime + ' ms' : '']
+      .filter(Boolean).join(' · ');
+    document.getElementById('apply-fix').hidden = !(msg.outcome === 'ran' && edited);
+    document.getElementById('replay-output').textContent = r.success ? (r.output || '') : (r.error || 'Execution failed');
+
+    const errorsEl = document.getElementById('replay-errors');
+    errorsEl.innerHTML = '';
+    (r.errors || []).forEach(err => {
+      const li = document.createElement('li');
+      li.textContent = 'Line ' + err.line + ', column ' + err.column + ': ' + err.message;
+      li.onclick = () => goTo(err.line, err.column);
+      errorsEl.appendChild(li);
+    });
+  });
+
+  function sendFeedback(index, helpful, ruleId) {
     vscode.postMessage({
       command: 'hypothesisFeedback',
       index: index,
       helpful: helpful,
-      title: title
+      ruleId: ruleId
     });
 
     const el = document.getElementById('feedback-' + index);
@@ -411,6 +672,12 @@ function getReplayPanelHtml(session: ReplaySession, hypotheses: FailureHypothesi
       el.innerHTML = '<span class="feedback-thanks">✅ Thanks for the feedback!</span>';
     }
   }
+
+  function hideHypothesis(index, ruleId, title) {
+    vscode.postMessage({ command: 'hideHypothesis', ruleId: ruleId, title: title });
+    const el = document.getElementById('hyp-' + index);
+    if (el) { el.remove(); }
+  }
 `;
 
     return wrapWebviewHtml({
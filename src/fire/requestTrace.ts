@@ -0,0 +1,155 @@
+// src/fire/requestTrace.ts
+// Failure Intelligence & Replay Engine — Request Trace
+//
+// Reconstructs the full request behind a failing log entry: every line in
+// the buffer that shares its correlation ID, in time order, with the flow
+// path taken and the steps where the logged payload changed shape.
+// Pure logic — no VS Code API.
+
+import {
+  extractCorrelationId,
+  extractPayload,
+  extractProcessorLocation,
+  isActionableLogEntry,
+  parseLogEntry,
+} from './logParser.js';
+import { PayloadShapeChange, RequestTrace, TraceStep } from './types.js';
+
+/** Nesting depth recorded in a payload shape; deeper fields are ignored */
+const MAX_SHAPE_DEPTH = 3;
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Build the request trace for `entries[failingIndex]`.
+ * Returns null when the failing entry has no correlation ID, because thread
+ * names are reused across requests and cannot identify one on their own.
+ */
+export function reconstructRequestTrace(
+  entries: Array<{ priority: string; message: string; timestamp: number }>,
+  failingIndex: number
+): RequestTrace | null {
+  const failing = entries[failingIndex];
+  if (!failing) { return null; }
+
+  const correlationId = extractCorrelationId(failing.message);
+  if (!correlationId) { return null; }
+
+  const related = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry, index }) => index === failingIndex || extractCorrelationId(entry.message) === correlationId)
+    .sort((a, b) => a.entry.timestamp - b.entry.timestamp || a.index - b.index);
+
+  let previousShape: PayloadShape | null = null;
+  const steps: TraceStep[] = related.map(({ entry, index }) => {
+    const location = extractProcessorLocation(entry.message);
+    const parsed = !location && isActionableLogEntry(entry.priority, entry.message)
+      ? parseLogEntry(entry.message)
+      : null;
+
+    const payload = extractPayload(entry.message);
+    let shapeChange: PayloadShapeChange | null = null;
+    if (payload) {
+      const shape = payloadShape(payload);
+      if (previousShape) {
+        shapeChange = diffPayloadShapes(previousShape, shape);
+      }
+      previousShape = shape;
+    }
+
+    return {
+      index,
+      timestamp: entry.timestamp,
+      priority: entry.priority,
+      message: entry.message,
+      flowName: location?.flowName ?? parsed?.flowName ?? null,
+      processorPath: location?.processorPath ?? parsed?.processorPath ?? null,
+      payload,
+      shapeChange,
+      isFailure: index === failingIndex,
+    };
+  });
+
+  const flowPath: string[] = [];
+  for (const step of steps) {
+    if (step.flowName && flowPath[flowPath.length - 1] !== step.flowName) {
+      flowPath.push(step.flowName);
+    }
+  }
+
+  return { correlationId, steps, flowPath };
+}
+
+/**
+ * Shape of a logged payload: its format and a map of field path → type.
+ * JSON paths use dot notation with `[]` for array items; XML records each
+ * element name with type "element".
+ */
+export interface PayloadShape {
+  format: 'json' | 'xml' | 'text';
+  fields: Record<string, string>;
+}
+
+export function payloadShape(raw: string): PayloadShape {
+  try {
+    const fields: Record<string, string> = {};
+    collectJsonShape(JSON.parse(raw), '', 0, fields);
+    return { format: 'json', fields };
+  } catch {
+    // not JSON
+  }
+
+  if (raw.trim().startsWith('<')) {
+    const fields: Record<string, string> = {};
+    const tag = /<([A-Za-z_][\w:.-]*)[\s/>]/g;
+    let match: RegExpExecArray | null;
+    while ((match = tag.exec(raw)) !== null) {
+      fields[match[1]] = 'element';
+    }
+    return { format: 'xml', fields };
+  }
+
+  return { format: 'text', fields: {} };
+}
+
+/**
+ * Differences between two payload shapes, or null when they match.
+ */
+export function diffPayloadShapes(before: PayloadShape, after: PayloadShape): PayloadShapeChange | null {
+  if (before.format !== after.format) {
+    return { added: [], removed: [], retyped: [], format: `${before.format} → ${after.format}` };
+  }
+
+  const added = Object.keys(after.fields).filter(p => !(p in before.fields));
+  const removed = Object.keys(before.fields).filter(p => !(p in after.fields));
+  const retyped = Object.keys(after.fields)
+    .filter(p => p in before.fields && before.fields[p] !== after.fields[p])
+    .map(p => `${p}: ${before.fields[p]} → ${after.fields[p]}`);
+
+  return added.length || removed.length || retyped.length ? { added, removed, retyped } : null;
+}
+
+// ─── Internal Helpers ─────────────────────────────────────────────────────────
+
+function jsonType(value: unknown): string {
+  if (value === null) { return 'null'; }
+  if (Array.isArray(value)) { return 'array'; }
+  return typeof value;
+}
+
+function collectJsonShape(value: unknown, path: string, depth: number, fields: Record<string, string>): void {
+  if (path) { fields[path] = jsonType(value); }
+  if (depth >= MAX_SHAPE_DEPTH) { return; }
+
+  if (Array.isArray(value)) {
+    // Items are assumed homogeneous; the first one stands for the rest and
+    // does not count as a nesting level of its own
+    if (value.length > 0) {
+      collectJsonShape(value[0], `${path}[]`, depth, fields);
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      collectJsonShape(child, path ? `${path}.${key}` : key, depth + 1, fields);
+    }
+  }
+}
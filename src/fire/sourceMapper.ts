@@ -10,10 +10,15 @@
 //   - Uses vscode.workspace.findFiles — no direct fs calls (respects .gitignore)
 //   - Reads files with vscode.workspace.openTextDocument for encoding safety
 //   - Never throws — always returns null on failure so callers stay clean
-//   - Scores matches so "exact" beats "fuzzy" beats "flow-only"
+//   - Resolves doc:id and component locations on the parsed XML tree first
+//     (elementResolver); the line-by-line scan is the fallback
+//   - Scores matches so "doc-id" beats "element-path" beats "exact" beats
+//     "fuzzy" beats "flow-only"
 
 import * as vscode from 'vscode';
 import { ParsedMuleError, SourceLocation } from './types.js';
+import { resolveElementLocation } from './elementResolver.js';
+import { describeErrorHandler, findErrorHandlers, parseMuleProject } from '../utils/muleProject.js';
 
 // ─── XML search patterns ──────────────────────────────────────────────────────
 
@@ -46,13 +51,14 @@ const MAX_FILE_SIZE_BYTES = 512 * 1024; // 512 KB
 /**
  * Find the source location of a failing Mule processor in the workspace.
  *
- * @param error   The parsed Mule error containing flowName and elementPath
+ * @param error   The parsed Mule error containing flowName, elementPath and,
+ *                when logged, the component location and doc:id
  * @returns       A SourceLocation if found, or null if no match
  */
 export async function findSourceLocation(
   error: ParsedMuleError
 ): Promise<SourceLocation | null> {
-  if (!error.flowName) {
+  if (!error.flowName && !error.docId) {
     return null;
   }
 
@@ -122,6 +128,41 @@ export async function openSourceLocation(location: SourceLocation): Promise<bool
   }
 }
 
+/**
+ * Describe the workspace error handlers that catch the error's type in its
+ * flow, using the project's error catalog.
+ *
+ * @returns  Handler descriptions, an empty array when nothing catches the
+ *           type, or null when the error type or flow is unknown
+ */
+export async function findErrorHandling(error: ParsedMuleError): Promise<string[] | null> {
+  if (!error.flowName || !error.errorType) {
+    return null;
+  }
+
+  try {
+    const files: Record<string, string> = {};
+    for (const fileUri of await vscode.workspace.findFiles(MULE_XML_GLOB, EXCLUDE_GLOB, MAX_FILES)) {
+      const stat = await vscode.workspace.fs.stat(fileUri);
+      if (stat.size <= MAX_FILE_SIZE_BYTES) {
+        files[fileUri.fsPath] = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+      }
+    }
+
+    const { errorCatalog } = parseMuleProject({ files });
+    const flowNames = Object.keys(errorCatalog.flowHandlers);
+    const flowName = flowNames.find(name => name === error.flowName)
+      ?? flowNames.find(name => matchesFlowName(name, error.flowName!));
+    if (!flowName) {
+      return null;
+    }
+
+    return findErrorHandlers(errorCatalog, error.errorType, flowName).map(describeErrorHandler);
+  } catch {
+    return null;
+  }
+}
+
 // ─── Internal — file scanning ─────────────────────────────────────────────────
 
 /**
@@ -141,6 +182,12 @@ async function scanFileForError(
   const document = await vscode.workspace.openTextDocument(fileUri);
   const text = document.getText();
 
+  // Exact resolution by doc:id or component location on the parsed tree
+  const resolved = resolveElementLocation(fileUri.fsPath, text, error);
+  if (resolved) {
+    return resolved;
+  }
+
   // Fast pre-check: does this file even mention the flow name?
   // This avoids line-by-line scanning on irrelevant files.
   if (!error.flowName || !textMentionsFlow(text, error.flowName)) {
@@ -310,9 +357,11 @@ function lineMatchesProcessor(line: string, processorName: string): boolean {
 // ─── Internal — ranking ───────────────────────────────────────────────────────
 
 const MATCH_SCORE: Record<SourceLocation['matchMethod'], number> = {
-  exact:      3,
-  fuzzy:      2,
-  'flow-only': 1,
+  'doc-id':       5,
+  'element-path': 4,
+  exact:          3,
+  fuzzy:          2,
+  'flow-only':    1,
 };
 
 function rankCandidates(candidates: SourceLocation[]): SourceLocation {
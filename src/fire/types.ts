@@ -22,6 +22,15 @@ export interface ParsedMuleError {
   /** The raw element path from the stack trace, e.g. "processors/2/processors/0" */
   elementPath: string | null;
 
+  /**
+   * The full component location from the "Element :" line, e.g.
+   * "process-order-flow/processors/1/route/0/processors/0"
+   */
+  componentPath?: string | null;
+
+  /** The failing element's doc:id, from the "Element DSL :" line */
+  docId?: string | null;
+
   /** Thread identifier for correlating multiple log entries to the same request */
   threadName: string | null;
 
@@ -33,6 +42,12 @@ export interface ParsedMuleError {
 
   /** Confidence score 0–1 for how certain we are this is a parseable Mule error */
   confidence: number;
+
+  /**
+   * Workspace error handlers that catch this error type in its flow, from
+   * the project's error catalog. Empty when none does; absent when unknown.
+   */
+  handledBy?: string[] | null;
 }
 
 /**
@@ -96,7 +111,7 @@ export interface SourceLocation {
   processorName: string;
 
   /** How the match was found */
-  matchMethod: 'exact' | 'fuzzy' | 'flow-only';
+  matchMethod: 'doc-id' | 'element-path' | 'exact' | 'fuzzy' | 'flow-only';
 }
 
 // ─── Replay Session ───────────────────────────────────────────────────────────
@@ -119,6 +134,60 @@ export interface ReplaySession {
 
   /** ISO timestamp when this session was created */
   createdAt: string;
+
+  /** Every log line of the failing request, when it carries a correlation ID */
+  requestTrace?: RequestTrace | null;
+}
+
+// ─── Request Trace ────────────────────────────────────────────────────────────
+
+/**
+ * How the payload shape differs from the previous step that logged a payload.
+ * Paths use dot notation with `[]` for array items, e.g. "lines[].sku".
+ */
+export interface PayloadShapeChange {
+  added: string[];
+  removed: string[];
+  /** Paths whose type changed, e.g. "total: string → number" */
+  retyped: string[];
+  /** Set when the payload switched format, e.g. "json → xml" */
+  format?: string;
+}
+
+/**
+ * One log line belonging to the traced request, in time order.
+ */
+export interface TraceStep {
+  /** Index of the entry in the log buffer */
+  index: number;
+  timestamp: number;
+  priority: string;
+  message: string;
+
+  /** Flow that logged the line, from `[processor: flow/processors/0; ...]` or the error details */
+  flowName: string | null;
+  processorPath: string | null;
+
+  /** Payload captured on this line, if any */
+  payload: string | null;
+
+  /** Set when this step's payload has a different shape than the previous payload */
+  shapeChange: PayloadShapeChange | null;
+
+  /** True for the failing entry the trace was built from */
+  isFailure: boolean;
+}
+
+/**
+ * The full request reconstructed from every log line sharing the failing
+ * entry's correlation ID.
+ */
+export interface RequestTrace {
+  correlationId: string;
+  steps: TraceStep[];
+
+  /** Flows in the order the request passed through them, consecutive repeats collapsed */
+  flowPath: string[];
 }
 
 // ─── Hypothesis ───────────────────────────────────────────────────────────────
@@ -136,6 +205,94 @@ export interface FailureHypothesis {
   /** Actionable fix suggestion */
   suggestion: string;
 
-  /** Confidence 0–1 */
+  /** Confidence 0–1, after adjustment by recorded feedback */
   confidence: number;
+
+  /** ID of the rule that produced this hypothesis */
+  ruleId?: string;
+
+  /** Whether the rule is built in or defined in `.fire/rules/` */
+  source?: 'builtin' | 'workspace';
+}
+
+// ─── Hypothesis Rules ─────────────────────────────────────────────────────────
+
+export interface HypothesisRule {
+  /** Short identifier used in tests and feedback */
+  id: string;
+  source: 'builtin' | 'workspace';
+  /** Return true if this rule applies to the given error + context */
+  matches: (error: ParsedMuleError, ctx: ExecutionContext | null) => boolean;
+  /** Produce the hypothesis when the rule matches */
+  produce: (error: ParsedMuleError, ctx: ExecutionContext | null) => FailureHypothesis;
+}
+
+/**
+ * Workspace rule definition as written in `.fire/rules/*.json|yaml`. Every
+ * condition under `match` that is present must hold.
+ */
+export interface HypothesisRuleDefinition {
+  id: string;
+  match: {
+    /** Error type, case-insensitive; `*` matches any characters (e.g. "APP:*") */
+    errorType?: string;
+    /** Regular expression tested against the error message; groups feed the templates */
+    message?: string;
+    /** Regular expression tested against the flow name */
+    flowName?: string;
+    category?: MuleErrorCategory;
+  };
+  /**
+   * Texts shown in the replay panel. `{1}`, `{2}`… and `{name}` insert groups
+   * captured by `match.message`; `{errorType}` and `{flowName}` insert the
+   * error's fields.
+   */
+  title: string;
+  explanation: string;
+  suggestion: string;
+  /** 0–1, default 0.8 */
+  confidence?: number;
+}
+
+export interface HypothesisRuleLoadResult {
+  rules: HypothesisRule[];
+  errors: string[];
+}
+
+// ─── Hypothesis Feedback ──────────────────────────────────────────────────────
+
+/** Helpful / not helpful votes recorded for one rule */
+export interface FeedbackTally {
+  helpful: number;
+  notHelpful: number;
+}
+
+/** Votes recorded by one person */
+export interface FeedbackVotes {
+  /** Votes per rule ID, across all errors */
+  rules: Record<string, FeedbackTally>;
+
+  /** Votes per error type (e.g. "HTTP:TIMEOUT"), then per rule ID */
+  byErrorType: Record<string, Record<string, FeedbackTally>>;
+}
+
+/**
+ * Feedback collected from the replay panel, used to re-rank hypotheses.
+ * Stored in globalState and exchanged between team members as JSON.
+ * `rules` and `byErrorType` hold the local votes.
+ */
+export interface HypothesisFeedbackStore extends FeedbackVotes {
+  version: 1;
+
+  /** Identifies the installation that recorded the local votes */
+  origin?: string;
+
+  /** Rule IDs hidden per error signature (see errorSignature) */
+  hidden: Record<string, string[]>;
+
+  /**
+   * Votes imported from teammates, keyed by the origin of the export they came
+   * from. Importing from the same origin again replaces its votes.
+   */
+  sources: Record<string, FeedbackVotes>;
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { AlertAnalytics, AlertEvent, AlertFrequency, AlertHistoryRecord } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** An alert resolved this quickly without anyone acknowledging it counts as flapping */
+export const FLAP_WINDOW_MS = 10 * 60 * 1000;
+
+export function toHistoryRecord(event: AlertEvent): AlertHistoryRecord {
+    return {
+        id: event.id,
+        ruleId: event.ruleId,
+        ruleName: event.ruleName,
+        appName: event.appName,
+        environmentId: event.environmentId,
+        environmentName: event.environmentName,
+        severity: event.severity,
+        status: event.status,
+        message: event.message,
+        firedAt: event.firedAt,
+        acknowledgedAt: event.acknowledgedAt,
+        resolvedAt: event.resolvedAt
+    };
+}
+
+/**
+ * Upsert `events` into `records` by id, keeping the earliest acknowledge and
+ * resolve timestamps, and drop records fired before `retainSince`.
+ */
+export function mergeHistoryRecords(
+    records: AlertHistoryRecord[],
+    events: AlertEvent[],
+    retainSince?: number
+): AlertHistoryRecord[] {
+    const byId = new Map(records.map(r => [r.id, r]));
+    for (const event of events) {
+        const incoming = toHistoryRecord(event);
+        const existing = byId.get(event.id);
+        byId.set(event.id, existing ? {
+            ...existing,
+            ...incoming,
+            acknowledgedAt: existing.acknowledgedAt || incoming.acknowledgedAt,
+            resolvedAt: incoming.resolvedAt || existing.resolvedAt
+        } : incoming);
+    }
+    return [...byId.values()]
+        .filter(r => retainSince === undefined || Date.parse(r.firedAt) >= retainSince)
+        .sort((a, b) => a.firedAt.localeCompare(b.firedAt));
+}
+
+function elapsed(from: string, to: string | undefined): number | undefined {
+    if (!to) { return undefined; }
+    const ms = Date.parse(to) - Date.parse(from);
+    return isNaN(ms) || ms < 0 ? undefined : ms;
+}
+
+function mean(values: Array<number | undefined>): number | undefined {
+    const known = values.filter((v): v is number => v !== undefined);
+    return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : undefined;
+}
+
+function isFlapping(record: AlertHistoryRecord): boolean {
+    const ttr = elapsed(record.firedAt, record.resolvedAt);
+    return !record.acknowledgedAt && ttr !== undefined && ttr <= FLAP_WINDOW_MS;
+}
+
+function frequency(key: string, label: string, records: AlertHistoryRecord[]): AlertFrequency {
+    return {
+        key,
+        label,
+        count: records.length,
+        critical: records.filter(r => r.severity === 'critical').length,
+        mttaMs: mean(records.map(r => elapsed(r.firedAt, r.acknowledgedAt))),
+        mttrMs: mean(records.map(r => elapsed(r.firedAt, r.resolvedAt))),
+        flapping: records.filter(isFlapping).length,
+        apps: new Set(records.map(r => r.appName)).size
+    };
+}
+
+function groupBy(records: AlertHistoryRecord[], keyOf: (r: AlertHistoryRecord) => string): Map<string, AlertHistoryRecord[]> {
+    const groups = new Map<string, AlertHistoryRecord[]>();
+    for (const r of records) {
+        const key = keyOf(r);
+        groups.set(key, [...(groups.get(key) || []), r]);
+    }
+    return groups;
+}
+
+/** Frequency, MTTA/MTTR and noisiest rules over alerts fired in [from, to) */
+export function computeAlertAnalytics(records: AlertHistoryRecord[], from: Date, to: Date): AlertAnalytics {
+    const inRange = records.filter(r => {
+        const t = Date.parse(r.firedAt);
+        return t >= from.getTime() && t < to.getTime();
+    });
+
+    const byRule = [...groupBy(inRange, r => r.ruleId)]
+        .map(([ruleId, group]) => frequency(ruleId, group[group.length - 1].ruleName, group))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+    const byApp = [...groupBy(inRange, r => r.appName)]
+        .map(([app, group]) => frequency(app, app, group))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+    const daily: AlertAnalytics['daily'] = [];
+    const perDay = groupBy(inRange, r => r.firedAt.slice(0, 10));
+    for (let t = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()); t < to.getTime(); t += DAY_MS) {
+        const day = new Date(t).toISOString().slice(0, 10);
+        daily.push({ day, count: perDay.get(day)?.length || 0 });
+    }
+
+    return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        total: inRange.length,
+        critical: inRange.filter(r => r.severity === 'critical').length,
+        warning: inRange.filter(r => r.severity === 'warning').length,
+        info: inRange.filter(r => r.severity === 'info').length,
+        mttaMs: mean(inRange.map(r => elapsed(r.firedAt, r.acknowledgedAt))),
+        mttrMs: mean(inRange.map(r => elapsed(r.firedAt, r.resolvedAt))),
+        byRule,
+        byApp,
+        noisiest: [...byRule]
+            .filter(r => r.count > 1)
+            .sort((a, b) => b.flapping - a.flapping || b.count - a.count)
+            .slice(0, 5),
+        daily
+    };
+}
+
+/** "3m 20s", "2h 5m", "—" when unknown */
+export function formatDuration(ms: number | undefined): string {
+    if (ms === undefined) { return '—'; }
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) { return `${seconds}s`; }
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) { return `${minutes}m ${seconds % 60}s`; }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) { return `${hours}h ${minutes % 60}m`; }
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/** Markdown summary of the seven days before `weekEnd`, compared with the week before that */
+export function buildWeeklySummaryMarkdown(records: AlertHistoryRecord[], weekEnd: Date, scopeLabel: string): string {
+    const weekStart = new Date(weekEnd.getTime() - 7 * DAY_MS);
+    const week = computeAlertAnalytics(records, weekStart, weekEnd);
+    const previous = computeAlertAnalytics(records, new Date(weekStart.getTime() - 7 * DAY_MS), weekStart);
+    const change = previous.total === 0
+        ? ''
+        : ` (${week.total >= previous.total ? '+' : ''}${Math.round(((week.total - previous.total) / previous.total) * 100)}% vs previous week)`;
+
+    const lines = [
+        `# Weekly Alert Summary — ${scopeLabel}`,
+        '',
+        `${weekStart.toISOString().slice(0, 10)} to ${new Date(weekEnd.getTime() - 1).toISOString().slice(0, 10)}`,
+        '',
+        `- **Alerts fired:** ${week.total}${change}`,
+        `- **Critical / warning / info:** ${week.critical} / ${week.warning} / ${week.info}`,
+        `- **Mean time to acknowledge:** ${formatDuration(week.mttaMs)}`,
+        `- **Mean time to resolve:** ${formatDuration(week.mttrMs)}`,
+        ''
+    ];
+
+    if (week.total === 0) {
+        lines.push('No alerts fired this week.');
+        return lines.join('\n') + '\n';
+    }
+
+    lines.push(
+        '## Alerts by Rule',
+        '',
+        '| Rule | Alerts | Critical | Apps | Flapping | MTTA | MTTR |',
+        '|------|-------:|---------:|-----:|---------:|------|------|',
+        ...week.byRule.map(r =>
+            `| ${r.label} | ${r.count} | ${r.critical} | ${r.apps} | ${r.flapping} | ${formatDuration(r.mttaMs)} | ${formatDuration(r.mttrMs)} |`),
+        '',
+        '## Alerts by Application',
+        '',
+        '| Application | Alerts | Critical | MTTR |',
+        '|-------------|-------:|---------:|------|',
+        ...week.byApp.map(a => `| ${a.label} | ${a.count} | ${a.critical} | ${formatDuration(a.mttrMs)} |`),
+        ''
+    );
+
+    if (week.noisiest.length > 0) {
+        lines.push('## Tuning Candidates', '');
+        for (const r of week.noisiest) {
+            const flapNote = r.flapping > 0
+                ? `${r.flapping} of ${r.count} resolved within ${FLAP_WINDOW_MS / 60000} minutes without acknowledgement`
+                : `fired ${r.count} times`;
+            lines.push(`- **${r.label}** — ${flapNote}`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
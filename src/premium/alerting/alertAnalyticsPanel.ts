@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import { AlertEngine } from './alertEngine';
+import { AccountService } from '../../controllers/accountService';
+import { AlertFrequency, AlertHistoryRecord } from './types';
+import { buildWeeklySummaryMarkdown, computeAlertAnalytics, FLAP_WINDOW_MS, formatDuration } from './alertAnalytics';
+import { telemetryService } from '../../services/telemetryService';
+import {
+    wrapWebviewHtml,
+    summaryCard,
+    button,
+    emptyState,
+    escapeHtml as escHtml,
+    escapeAttr
+} from '../../webview/ui-kit';
+
+const RANGES = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AnalyticsFilter {
+    rangeDays: number;
+    environmentId: string;
+}
+
+let currentPanel: vscode.WebviewPanel | undefined;
+
+/** Alert frequency, MTTA/MTTR and noisy rules from the persisted alert history */
+export async function showAlertAnalytics(context: vscode.ExtensionContext): Promise<void> {
+    telemetryService.trackPageView('alertAnalytics');
+
+    if (currentPanel) {
+        currentPanel.reveal(vscode.ViewColumn.One);
+        return;
+    }
+
+    const account = await new AccountService(context).getActiveAccount();
+    if (!account) {
+        vscode.window.showErrorMessage('No active Anypoint account. Log in to view alert analytics.');
+        return;
+    }
+
+    const history = AlertEngine.getInstance(context).getHistory();
+    const filter: AnalyticsFilter = { rangeDays: 30, environmentId: '' };
+    let records: AlertHistoryRecord[] = [];
+
+    const panel = vscode.window.createWebviewPanel(
+        'alertAnalytics',
+        'Alert Analytics',
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    currentPanel = panel;
+
+    const render = async () => {
+        records = await history.load(account.id);
+        panel.webview.html = renderAlertAnalytics(records, filter, account.organizationName || account.id);
+    };
+
+    await render();
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+        switch (message.command) {
+            case 'filter':
+                filter.rangeDays = RANGES.includes(message.rangeDays) ? message.rangeDays : filter.rangeDays;
+                filter.environmentId = message.environmentId || '';
+                panel.webview.html = renderAlertAnalytics(records, filter, account.organizationName || account.id);
+                break;
+            case 'refresh':
+                await render();
+                break;
+            case 'exportWeekly':
+                await exportWeeklySummary(records, filter.environmentId, account.organizationName || account.id);
+                break;
+        }
+    });
+
+    panel.onDidDispose(() => {
+        currentPanel = undefined;
+    });
+}
+
+function environmentsOf(records: AlertHistoryRecord[]): Array<{ id: string; name: string }> {
+    const names = new Map<string, string>();
+    for (const r of records) { names.set(r.environmentId, r.environmentName); }
+    return [...names].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function exportWeeklySummary(records: AlertHistoryRecord[], environmentId: string, accountName: string): Promise<void> {
+    const scoped = environmentId ? records.filter(r => r.environmentId === environmentId) : records;
+    const envName = environmentId ? scoped[0]?.environmentName || environmentId : 'all environments';
+    const markdown = buildWeeklySummaryMarkdown(scoped, new Date(), `${accountName} · ${envName}`);
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`alert-summary-${new Date().toISOString().slice(0, 10)}.md`),
+        filters: { 'Markdown': ['md'] },
+        saveLabel: 'Save Weekly Summary'
+    });
+    if (uri) {
+        const fs = await import('fs');
+        await fs.promises.writeFile(uri.fsPath, markdown, 'utf-8');
+        vscode.window.showInformationMessage(`Weekly alert summary exported to ${uri.fsPath}`);
+    }
+}
+
+function renderAlertAnalytics(records: AlertHistoryRecord[], filter: AnalyticsFilter, accountName: string): string {
+    const environments = environmentsOf(records);
+    const scoped = filter.environmentId ? records.filter(r => r.environmentId === filter.environmentId) : records;
+    const to = new Date();
+    const analytics = computeAlertAnalytics(scoped, new Date(to.getTime() - filter.rangeDays * DAY_MS), to);
+    const maxDaily = Math.max(1, ...analytics.daily.map(d => d.count));
+
+    const extraStyles = `
+        .aa-toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 16px; }
+        .aa-section { background: var(--am-bg-surface); border: 1px solid var(--am-border); border-radius: var(--am-radius-md); padding: 16px; margin-bottom: 16px; }
+        .aa-section h3 { font-size: 14px; margin-bottom: 12px; }
+        .aa-hint { font-size: 12px; color: var(--am-text-muted); margin: -6px 0 10px; }
+        .aa-chart { display: flex; align-items: flex-end; gap: 2px; height: 80px; }
+        .aa-bar { flex: 1; background: var(--am-info); border-radius: 2px 2px 0 0; min-height: 1px; }
+        .aa-bar.aa-empty { background: var(--am-border); }
+        .aa-chart-axis { display: flex; justify-content: space-between; font-size: 11px; color: var(--am-text-muted); margin-top: 4px; }
+        .aa-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+        .aa-num { text-align: right; }
+    `;
+
+    const scripts = `
+const vscode = acquireVsCodeApi();
+function applyFilter() {
+    vscode.postMessage({
+        command: 'filter',
+        rangeDays: parseInt(document.getElementById('aa-range').value),
+        environmentId: document.getElementById('aa-env').value
+    });
+}
+function refresh() { vscode.postMessage({ command: 'refresh' }); }
+function exportWeekly() { vscode.postMessage({ command: 'exportWeekly' }); }
+`.trim();
+
+    const frequencyTable = (rows: AlertFrequency[], firstColumn: string, withApps: boolean) => `
+        <div class="am-table-container">
+            <table class="am-table">
+                <thead><tr>
+                    <th>${firstColumn}</th><th class="aa-num">Alerts</th><th class="aa-num">Critical</th>
+                    ${withApps ? '<th class="aa-num">Apps</th>' : ''}<th class="aa-num">Flapping</th><th>MTTA</th><th>MTTR</th>
+                </tr></thead>
+                <tbody>
+                ${rows.map(r => `<tr class="am-row">
+                    <td>${escHtml(r.label)}</td>
+                    <td class="aa-num">${r.count}</td>
+                    <td class="aa-num">${r.critical}</td>
+                    ${withApps ? `<td class="aa-num">${r.apps}</td>` : ''}
+                    <td class="aa-num">${r.flapping}</td>
+                    <td>${formatDuration(r.mttaMs)}</td>
+                    <td>${formatDuration(r.mttrMs)}</td>
+                </tr>`).join('')}
+                </tbody>
+            </table>
+        </div>`;
+
+    const content = analytics.total === 0 ? emptyState({
+        icon: '📊',
+        title: 'No alerts in this period',
+        description: records.length === 0
+            ? 'Alert history is recorded while the Alerting Hub is monitoring. Start monitoring to collect data.'
+            : 'Try a longer period or another environment.'
+    }) : `
+    <div class="am-summary-cards">
+        ${summaryCard({ icon: '🔔', value: analytics.total, label: 'Alerts Fired', breakdown: `${analytics.critical} critical · ${analytics.warning} warning` })}
+        ${summaryCard({ icon: '👀', value: formatDuration(analytics.mttaMs), label: 'Mean Time to Acknowledge' })}
+        ${summaryCard({ icon: '✅', value: formatDuration(analytics.mttrMs), label: 'Mean Time to Resolve' })}
+        ${summaryCard({ icon: '📉', value: analytics.byRule.reduce((n, r) => n + r.flapping, 0), label: 'Flapping Alerts', variant: 'warning' })}
+    </div>
+
+    <div class="aa-section">
+        <h3>Alerts per Day</h3>
+        <div class="aa-chart">
+            ${analytics.daily.map(d => `<div class="aa-bar${d.count === 0 ? ' aa-empty' : ''}" style="height:${Math.max(1, Math.round((d.count / maxDaily) * 100))}%" title="${escapeAttr(`${d.day}: ${d.count}`)}"></div>`).join('')}
+        </div>
+        <div class="aa-chart-axis"><span>${escHtml(analytics.daily[0]?.day || '')}</span><span>${escHtml(analytics.daily[analytics.daily.length - 1]?.day || '')}</span></div>
+    </div>
+
+    ${analytics.noisiest.length > 0 ? `
+    <div class="aa-section">
+        <h3>Noisiest Rules</h3>
+        <p class="aa-hint">Rules that fire repeatedly, ranked by alerts resolved within ${FLAP_WINDOW_MS / 60000} minutes without acknowledgement. Consider raising their threshold or adding a "sustained for" clause.</p>
+        ${frequencyTable(analytics.noisiest, 'Rule', true)}
+    </div>` : ''}
+
+    <div class="aa-grid">
+        <div class="aa-section">
+            <h3>By Rule</h3>
+            ${frequencyTable(analytics.byRule, 'Rule', true)}
+        </div>
+        <div class="aa-section">
+            <h3>By Application</h3>
+            ${frequencyTable(analytics.byApp, 'Application', false)}
+        </div>
+    </div>`;
+
+    const body = `
+<div class="am-container">
+    <header class="am-page-header">
+        <div style="flex:1">
+            <h1>Alert Analytics</h1>
+            <div class="am-page-header-meta">${escHtml(accountName)} · ${records.length} alerts recorded</div>
+        </div>
+        <div class="am-page-header-right">
+            ${button('Refresh', { variant: 'ghost', onclick: 'refresh()' })}
+            ${button('Export Weekly Summary', { variant: 'primary', onclick: 'exportWeekly()', disabled: records.length === 0 })}
+        </div>
+    </header>
+
+    <div class="aa-toolbar">
+        <select class="am-select" id="aa-range" onchange="applyFilter()">
+            ${RANGES.map(d => `<option value="${d}"${d === filter.rangeDays ? ' selected' : ''}>Last ${d} days</option>`).join('')}
+        </select>
+        <select class="am-select" id="aa-env" onchange="applyFilter()">
+            <option value="">All environments</option>
+            ${environments.map(e => `<option value="${escapeAttr(e.id)}"${e.id === filter.environmentId ? ' selected' : ''}>${escHtml(e.name)}</option>`).join('')}
+        </select>
+    </div>
+
+    ${content}
+</div>
+`.trim();
+
+    return wrapWebviewHtml({ title: 'Alert Analytics', body, scripts, extraStyles });
+}
@@ -1,13 +1,29 @@
 import * as vscode from 'vscode';
 import axios from 'axios';
-import { AlertConfig, AlertEvent, AlertState, AppMetricsSnapshot, PollingInterval } from './types';
-import { DEFAULT_RULES, evaluateRules, mergeRulesWithDefaults } from './alertRules';
+import {
+    AlertConfig,
+    AlertEvent,
+    AlertNotification,
+    AlertRule,
+    AlertState,
+    AppMetricsSnapshot,
+    DeliveryResult,
+    NotificationChannel,
+    PollingInterval,
+    RuleEvaluationMemory
+} from './types';
+import { alertTargetKey, createRuleEvaluationMemory, DEFAULT_RULES, evaluateRules, isQueueMetric, isRuleBreached, mergeRulesWithDefaults, ruleConditions } from './alertRules';
+import { buildQueueSnapshots } from './queueSnapshots';
+import { dispatchNotifications, normalizeChannels } from './notificationChannels';
+import { AlertHistoryStore } from './alertHistory';
 import { AccountService } from '../../controllers/accountService';
 import { getBaseUrl } from '../../constants';
+import { fetchAnypointMQQueueStats } from '../../controllers/anypointService';
 
 const ALERT_STATE_KEY = 'anypointMonitor.alertState';
 const ALERT_CONFIG_KEY = 'anypointMonitor.alertConfig';
 const MAX_EVENTS = 200;
+const SMTP_PASSWORD_SECRET_PREFIX = 'anypointMonitor.alerting.smtpPassword.';
 const DATASOURCE_CACHE_TTL = 300000;
 
 interface VisualizerDatasource {
@@ -27,10 +43,13 @@ export class AlertEngine {
     private config: AlertConfig;
     private state: AlertState;
     private lastFiredMap: Map<string, number> = new Map();
+    private memory: RuleEvaluationMemory = createRuleEvaluationMemory();
+    private history: AlertHistoryStore;
     private panel: vscode.WebviewPanel | undefined;
 
     private constructor(context: vscode.ExtensionContext) {
         this.context = context;
+        this.history = new AlertHistoryStore(context);
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
         this.statusBarItem.command = 'anypoint-monitor.alertingHub';
         this.config = this.loadConfig();
@@ -67,6 +86,10 @@ export class AlertEngine {
         return { ...this.config };
     }
 
+    getHistory(): AlertHistoryStore {
+        return this.history;
+    }
+
     getState(): AlertState {
         return {
             ...this.state,
@@ -116,11 +139,29 @@ export class AlertEngine {
         }
     }
 
+    /** Add a custom rule or replace an existing rule's definition */
+    saveRule(rule: AlertRule): void {
+        const existing = this.config.rules.find(r => r.id === rule.id);
+        const rules = existing
+            ? this.config.rules.map(r => r.id === rule.id ? { ...r, ...rule } : r)
+            : [...this.config.rules, { ...rule, custom: true }];
+        for (const key of [...this.memory.pending.keys()]) {
+            if (key.endsWith(`:${rule.id}`)) { this.memory.pending.delete(key); }
+        }
+        this.updateConfig({ rules });
+    }
+
+    /** Built-in rules can only be disabled; custom rules are removed */
+    deleteRule(ruleId: string): void {
+        this.updateConfig({ rules: this.config.rules.filter(r => r.id !== ruleId || !r.custom) });
+    }
+
     acknowledgeAlert(eventId: string): void {
         const event = this.state.events.find(e => e.id === eventId);
         if (event) {
             event.status = 'acknowledged';
             event.acknowledgedAt = new Date().toISOString();
+            this.recordHistory([event]);
             this.saveState();
             this.updateStatusBar();
             this.notifyPanel();
@@ -132,6 +173,7 @@ export class AlertEngine {
         if (event) {
             event.status = 'snoozed';
             event.snoozedUntil = new Date(Date.now() + durationMs).toISOString();
+            this.recordHistory([event]);
             this.saveState();
             this.updateStatusBar();
             this.notifyPanel();
@@ -143,9 +185,11 @@ export class AlertEngine {
         if (event) {
             event.status = 'resolved';
             event.resolvedAt = new Date().toISOString();
+            this.recordHistory([event]);
             this.saveState();
             this.updateStatusBar();
             this.notifyPanel();
+            this.forwardToChannels([{ kind: 'resolved', event }]);
         }
     }
 
@@ -193,24 +237,33 @@ export class AlertEngine {
             }
 
             for (const env of this.config.monitoredEnvironments) {
-                const apps = await this.fetchAppSnapshots(baseUrl, accessToken, organizationId, env.id);
+                const apps = [
+                    ...await this.fetchAppSnapshots(baseUrl, accessToken, organizationId, env.id),
+                    ...await this.fetchQueueSnapshots(organizationId, env.id)
+                ];
                 const filteredApps = apps.filter(a => !this.config.mutedApps.includes(a.name));
                 const newEvents: AlertEvent[] = [];
 
+                // Auto-resolve alerts whose rules no longer match, before this poll
+                // replaces the previous values rate-of-change rules compare against
+                const resolved = this.autoResolve(apps, env.id);
+                if (resolved.length > 0) {
+                    this.recordHistory(resolved);
+                    this.forwardToChannels(resolved.map(event => ({ kind: 'resolved', event })));
+                }
+
                 for (const app of filteredApps) {
-                    const triggered = evaluateRules(app, this.config.rules, env.id, env.name);
+                    const triggered = evaluateRules(app, this.config.rules, env.id, env.name, this.memory, now);
                     for (const event of triggered) {
                         if (!this.isDuplicate(event)) {
-                            newEvents.push(event);
+                            newEvents.push({ ...event, accountId: activeAccount.id });
                             this.lastFiredMap.set(this.dedupeKey(event), now);
                         }
                     }
                 }
 
-                // Auto-resolve alerts for apps that are now healthy
-                this.autoResolve(apps, env.id);
-
                 if (newEvents.length > 0) {
+                    this.recordHistory(newEvents);
                     this.state.events.unshift(...newEvents);
                     this.trimEvents();
                     this.notifyUser(newEvents);
@@ -279,6 +332,20 @@ export class AlertEngine {
         return snapshots;
     }
 
+    /** Queue snapshots, only fetched while an enabled rule watches an `mq_*` metric */
+    private async fetchQueueSnapshots(organizationId: string, environmentId: string): Promise<AppMetricsSnapshot[]> {
+        const watchesQueues = this.config.rules.some(r => r.enabled && ruleConditions(r).some(c => isQueueMetric(c.metric)));
+        if (!watchesQueues) { return []; }
+
+        try {
+            return buildQueueSnapshots(await fetchAnypointMQQueueStats(this.context, organizationId, environmentId));
+        } catch (error: any) {
+            // Anypoint MQ is often not enabled in every environment
+            console.log(`AlertEngine: no Anypoint MQ stats for environment ${environmentId}: ${error.message}`);
+            return [];
+        }
+    }
+
     private async enrichWithMetrics(
         apps: AppMetricsSnapshot[],
         baseUrl: string,
@@ -388,29 +455,114 @@ export class AlertEngine {
     }
 
     private dedupeKey(event: AlertEvent): string {
-        return `${event.appName}:${event.ruleId}:${event.environmentId}`;
+        return `${alertTargetKey(event.appName, event.queue)}:${event.ruleId}:${event.environmentId}`;
     }
 
-    private autoResolve(apps: AppMetricsSnapshot[], environmentId: string): void {
+    private autoResolve(apps: AppMetricsSnapshot[], environmentId: string): AlertEvent[] {
+        const resolved: AlertEvent[] = [];
         for (const event of this.state.events) {
             if (event.status !== 'active' || event.environmentId !== environmentId) {
                 continue;
             }
-            const app = apps.find(a => a.name === event.appName);
+            const target = alertTargetKey(event.appName, event.queue);
+            const app = apps.find(a => alertTargetKey(a.name, a.queue) === target && (a.type === 'MQ') === (event.appType === 'MQ'));
             if (!app) { continue; }
 
             const rule = this.config.rules.find(r => r.id === event.ruleId);
             if (!rule) { continue; }
 
-            const triggered = evaluateRules(app, [rule], environmentId, event.environmentName);
-            if (triggered.length === 0) {
+            const previous = this.memory.previousValues.get(`${environmentId}:${target}`);
+            if (!isRuleBreached(app, rule, previous)) {
                 event.status = 'resolved';
                 event.resolvedAt = new Date().toISOString();
+                resolved.push(event);
             }
         }
+        return resolved;
+    }
+
+    getChannels(): NotificationChannel[] {
+        return normalizeChannels(vscode.workspace.getConfiguration('anypointMonitor').get('alerting.channels'));
+    }
+
+    async setChannelPassword(channelName: string, password: string): Promise<void> {
+        await this.context.secrets.store(SMTP_PASSWORD_SECRET_PREFIX + channelName, password);
+    }
+
+    private async getChannelPassword(channel: NotificationChannel): Promise<string | undefined> {
+        return this.context.secrets.get(SMTP_PASSWORD_SECRET_PREFIX + channel.name);
+    }
+
+    /** Send a sample fired alert to one channel, ignoring its severity and event routing */
+    async sendTestNotification(channelName: string): Promise<DeliveryResult | undefined> {
+        const channel = this.getChannels().find(c => c.name === channelName);
+        if (!channel) { return undefined; }
+
+        const now = new Date().toISOString();
+        const event: AlertEvent = {
+            id: `test-${Date.now()}`,
+            ruleId: 'test',
+            ruleName: 'Test Notification',
+            appName: 'example-app',
+            appType: 'CH2',
+            environmentId: 'test',
+            environmentName: 'Test',
+            severity: 'info',
+            status: 'active',
+            message: `Test notification from the Anypoint Monitor Alerting Hub to "${channel.name}"`,
+            currentValue: 0,
+            threshold: 0,
+            firedAt: now
+        };
+        const [result] = await dispatchNotifications(
+            [{ ...channel, enabled: true, severities: [], events: [] }],
+            [{ kind: 'fired', event }],
+            { getPassword: c => this.getChannelPassword(c) }
+        );
+        return result;
+    }
+
+    /**
+     * Persist in the background under the account each alert fired for, so an
+     * acknowledge or resolve after switching accounts still lands in the right
+     * history. Alerts saved before accountId was recorded are skipped.
+     */
+    private recordHistory(events: AlertEvent[]): void {
+        const byAccount = new Map<string, AlertEvent[]>();
+        for (const event of events) {
+            if (!event.accountId) { continue; }
+            byAccount.set(event.accountId, [...(byAccount.get(event.accountId) || []), event]);
+        }
+        for (const [accountId, accountEvents] of byAccount) {
+            this.history.record(accountId, accountEvents)
+                .catch(err => console.error('AlertEngine: failed to record alert history', err));
+        }
+    }
+
+    /** Deliver in the background; a failed channel never blocks polling */
+    private forwardToChannels(notifications: AlertNotification[]): void {
+        const channels = this.getChannels();
+        if (channels.length === 0 || notifications.length === 0) { return; }
+
+        dispatchNotifications(channels, notifications, {
+            getPassword: c => this.getChannelPassword(c)
+        }).then(results => {
+            const failed = results.filter(r => !r.ok);
+            for (const r of failed) {
+                console.error(`AlertEngine: delivery to ${r.channel} failed after ${r.attempts} attempt(s): ${r.error}`);
+            }
+            const channelNames = [...new Set(failed.map(r => r.channel))];
+            if (channelNames.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Alert notifications could not be delivered to ${channelNames.join(', ')}: ${failed[0].error}`
+                );
+            }
+        });
     }
 
     private notifyUser(events: AlertEvent[]): void {
+        this.forwardToChannels(events.map(event => ({ kind: 'fired', event })));
+
         const criticals = events.filter(e => e.severity === 'critical');
         const warnings = events.filter(e => e.severity === 'warning');
 
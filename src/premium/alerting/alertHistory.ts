@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { AlertEvent, AlertHistoryRecord } from './types';
+import { mergeHistoryRecords } from './alertAnalytics';
+
+const HISTORY_DIR = 'alert-history';
+const RETENTION_DAYS = 90;
+
+/**
+ * Alert history kept in globalStorage as one JSON file per account and
+ * environment, so it survives the 200-event cap on the live alert list.
+ * Records older than 90 days are pruned on write.
+ */
+export class AlertHistoryStore {
+    /** Serializes writes so concurrent polls and user actions do not lose updates */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    record(accountId: string, events: AlertEvent[]): Promise<void> {
+        if (events.length === 0) { return this.writeQueue; }
+        this.writeQueue = this.writeQueue.then(() => this.write(accountId, events)).catch(err => {
+            console.error('AlertHistoryStore: failed to record alerts', err);
+        });
+        return this.writeQueue;
+    }
+
+    /** Records for the given environments, or every environment on the account */
+    async load(accountId: string, environmentIds?: string[]): Promise<AlertHistoryRecord[]> {
+        await this.writeQueue;
+        const ids = environmentIds || await this.listEnvironments(accountId);
+        const records = await Promise.all(ids.map(id => this.readFile(accountId, id)));
+        return records.flat().sort((a, b) => a.firedAt.localeCompare(b.firedAt));
+    }
+
+    async listEnvironments(accountId: string): Promise<string[]> {
+        try {
+            const entries = await vscode.workspace.fs.readDirectory(this.accountDir(accountId));
+            return entries
+                .filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.json'))
+                .map(([name]) => decodeURIComponent(name.slice(0, -'.json'.length)));
+        } catch {
+            return [];
+        }
+    }
+
+    private async write(accountId: string, events: AlertEvent[]): Promise<void> {
+        const retainSince = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const byEnvironment = new Map<string, AlertEvent[]>();
+        for (const event of events) {
+            byEnvironment.set(event.environmentId, [...(byEnvironment.get(event.environmentId) || []), event]);
+        }
+
+        await vscode.workspace.fs.createDirectory(this.accountDir(accountId));
+        for (const [environmentId, envEvents] of byEnvironment) {
+            const merged = mergeHistoryRecords(await this.readFile(accountId, environmentId), envEvents, retainSince);
+            await vscode.workspace.fs.writeFile(
+                this.fileUri(accountId, environmentId),
+                Buffer.from(JSON.stringify(merged), 'utf-8')
+            );
+        }
+    }
+
+    private async readFile(accountId: string, environmentId: string): Promise<AlertHistoryRecord[]> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(this.fileUri(accountId, environmentId));
+            const parsed = JSON.parse(Buffer.from(bytes).toString('utf-8'));
+            return Array.isArray(parsed) ? parsed : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private accountDir(accountId: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.context.globalStorageUri, HISTORY_DIR, encodeURIComponent(accountId));
+    }
+
+    private fileUri(accountId: string, environmentId: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.accountDir(accountId), `${encodeURIComponent(environmentId)}.json`);
+    }
+}
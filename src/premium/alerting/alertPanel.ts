@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import { AlertEngine } from './alertEngine';
 import { AccountService } from '../../controllers/accountService';
-import { AlertConfig, PollingInterval } from './types';
+import { AlertConfig, AlertRule, NotificationChannel, PollingInterval } from './types';
+import { describeRule } from './alertRules';
 import { telemetryService } from '../../services/telemetryService';
 import {
     wrapWebviewHtml,
@@ -49,7 +50,15 @@ export async function showAlertingHub(context: vscode.ExtensionContext): Promise
         } catch { /* no environments */ }
     }
 
-    panel.webview.html = getAlertingHubHtml(state, config, environments);
+    panel.webview.html = getAlertingHubHtml(state, config, environments, engine.getChannels());
+
+    const rerenderConfig = () => {
+        panel.webview.html = getAlertingHubHtml(engine.getState(), engine.getConfig(), environments, engine.getChannels(), 'config');
+    };
+
+    const settingsListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('anypointMonitor.alerting.channels')) { rerenderConfig(); }
+    });
 
     panel.webview.onDidReceiveMessage(async (message) => {
         switch (message.command) {
@@ -95,6 +104,44 @@ export async function showAlertingHub(context: vscode.ExtensionContext): Promise
                 }
                 break;
             }
+            case 'saveRule': {
+                const rule = message.rule as AlertRule;
+                if (!rule?.id || !rule.name?.trim()) {
+                    vscode.window.showErrorMessage('Alert rule needs a name.');
+                    break;
+                }
+                engine.saveRule(rule);
+                rerenderConfig();
+                break;
+            }
+            case 'deleteRule':
+                engine.deleteRule(message.ruleId);
+                rerenderConfig();
+                break;
+            case 'testChannel': {
+                const result = await engine.sendTestNotification(message.channel);
+                if (result?.ok) {
+                    vscode.window.showInformationMessage(`Test notification sent to "${message.channel}".`);
+                } else {
+                    vscode.window.showErrorMessage(`Test notification to "${message.channel}" failed: ${result?.error || 'channel not found'}`);
+                }
+                break;
+            }
+            case 'setChannelPassword': {
+                const password = await vscode.window.showInputBox({
+                    prompt: `SMTP password for "${message.channel}"`,
+                    password: true,
+                    ignoreFocusOut: true
+                });
+                if (password !== undefined) {
+                    await engine.setChannelPassword(message.channel, password);
+                    vscode.window.showInformationMessage(`SMTP password for "${message.channel}" saved to the VS Code secret store.`);
+                }
+                break;
+            }
+            case 'openChannelSettings':
+                vscode.commands.executeCommand('workbench.action.openSettings', 'anypointMonitor.alerting.channels');
+                break;
             case 'updateInterval':
                 engine.updateConfig({ pollingIntervalMs: message.interval as PollingInterval });
                 if (engine.isRunning()) {
@@ -102,6 +149,25 @@ export async function showAlertingHub(context: vscode.ExtensionContext): Promise
                     engine.start();
                 }
                 break;
+            case 'openQueue': {
+                const event = engine.getState().events.find(e => e.id === message.eventId);
+                if (!event?.queue) { break; }
+                const organizationId = await accountService.getEffectiveOrganizationId() || activeAccount?.organizationId || '';
+                const { showQueueDetailsWebview } = await import('../../anypoint/mqQueueDetails.js');
+                await showQueueDetailsWebview(
+                    context,
+                    event.queue.queueId,
+                    event.queue.regionId,
+                    event.queue.regionName,
+                    event.environmentId,
+                    event.environmentName,
+                    organizationId
+                );
+                break;
+            }
+            case 'openAnalytics':
+                vscode.commands.executeCommand('anypoint-monitor.alertAnalytics');
+                break;
             case 'exportCsv':
                 await exportAlertsCsv(engine);
                 break;
@@ -109,10 +175,18 @@ export async function showAlertingHub(context: vscode.ExtensionContext): Promise
     });
 
     panel.onDidDispose(() => {
+        settingsListener.dispose();
         engine.setPanel(undefined);
     });
 }
 
+function formatScope(rule: AlertRule): string {
+    const parts: string[] = [];
+    if (rule.scope?.apps?.length) { parts.push(`Apps: ${rule.scope.apps.join(', ')}`); }
+    if (rule.scope?.environments?.length) { parts.push(`Envs: ${rule.scope.environments.join(', ')}`); }
+    return parts.join(' · ');
+}
+
 async function exportAlertsCsv(engine: AlertEngine): Promise<void> {
     const state = engine.getState();
     const rows = ['Timestamp,App,Rule,Severity,Status,Message'];
@@ -134,7 +208,9 @@ async function exportAlertsCsv(engine: AlertEngine): Promise<void> {
 function getAlertingHubHtml(
     state: any,
     config: AlertConfig,
-    environments: Array<{ id: string; name: string }>
+    environments: Array<{ id: string; name: string }>,
+    channels: NotificationChannel[],
+    activeTab: 'alerts' | 'config' = 'alerts'
 ): string {
     const eventsJson = JSON.stringify(state.events || []);
     const configJson = JSON.stringify(config);
@@ -151,6 +227,7 @@ function getAlertingHubHtml(
             </div>
         </div>
         <div class="am-page-header-right">
+            ${button('Analytics', { variant: 'ghost', onclick: "vscode.postMessage({ command: 'openAnalytics' })" })}
             ${button('Export CSV', { variant: 'ghost', onclick: 'exportCsv()' })}
             <span id="monitorToggleContainer">
             ${state.isPolling
@@ -162,8 +239,8 @@ function getAlertingHubHtml(
     </div>`;
 
     const tabsHtml = tabs([
-        { id: 'alerts', label: 'Alerts', active: true },
-        { id: 'config', label: 'Configuration' }
+        { id: 'alerts', label: 'Alerts', active: activeTab === 'alerts' },
+        { id: 'config', label: 'Configuration', active: activeTab === 'config' }
     ]);
 
     const infoBannerHtml = `
@@ -186,8 +263,9 @@ function getAlertingHubHtml(
                     <li><strong>CPU Usage</strong> &mdash; Warning at 85%, Critical at 95%</li>
                     <li><strong>Memory Usage</strong> &mdash; Warning at 85%, Critical at 95%</li>
                     <li><strong>Error Rate</strong> &mdash; Warning when errors exceed 5% of total requests</li>
+                    <li><strong>Anypoint MQ Queues</strong> &mdash; Backlog over 1,000 messages, depth growing for 3 polls, over 500 in flight, and any message in a dead-letter queue</li>
                 </ul>
-                <p style="margin-top:8px">All thresholds and rules are customizable in the <strong>Configuration</strong> tab.</p>
+                <p style="margin-top:8px">All thresholds and rules are customizable in the <strong>Configuration</strong> tab, where you can also add rules that combine conditions (CPU &gt; 80 AND error rate &gt; 2), fire only after several polls, watch for sudden rises, or apply to selected apps and environments.</p>
             </div>
         </div>
     </div>`;
@@ -256,23 +334,97 @@ function getAlertingHubHtml(
     </div>
 
     <div class="ah-config-section">
-        <h3>Alert Rules</h3>
+        <div class="ah-section-header">
+            <h3>Alert Rules</h3>
+            ${button('New Rule', { variant: 'secondary', onclick: 'editRule(null)' })}
+        </div>
         <div class="am-table-container">
             <table class="am-table">
-                <thead><tr><th>Enabled</th><th>Rule</th><th>Description</th><th>Severity</th><th>Threshold</th></tr></thead>
+                <thead><tr><th>Enabled</th><th>Rule</th><th>Condition</th><th>Severity</th><th>Threshold</th><th></th></tr></thead>
                 <tbody>
                 ${config.rules.map(r => `
                     <tr class="am-row">
                         <td><input type="checkbox" ${r.enabled ? 'checked' : ''} onchange="toggleRule('${escapeAttr(r.id)}', this.checked)"/></td>
-                        <td>${uiEscapeHtml(r.name)}</td>
-                        <td style="color:var(--am-text-muted)">${uiEscapeHtml(r.description)}</td>
+                        <td>${uiEscapeHtml(r.name)}${r.custom ? ' ' + badge('custom', 'info') : ''}
+                            ${r.description ? `<div class="ah-rule-meta">${uiEscapeHtml(r.description)}</div>` : ''}</td>
+                        <td>${uiEscapeHtml(describeRule(r))}
+                            ${formatScope(r) ? `<div class="ah-rule-meta">${uiEscapeHtml(formatScope(r))}</div>` : ''}</td>
                         <td>${badge(r.severity, r.severity === 'critical' ? 'error' : r.severity === 'warning' ? 'warning' : 'info')}</td>
                         <td><input type="text" class="am-input" value="${escapeAttr(String(r.threshold))}" style="width:60px" onchange="updateThreshold('${escapeAttr(r.id)}', this.value)"/></td>
+                        <td class="ah-rule-actions">
+                            ${button('Edit', { variant: 'ghost', onclick: `editRule('${escapeAttr(r.id)}')` })}
+                            ${r.custom ? button('Delete', { variant: 'ghost', onclick: `deleteRule('${escapeAttr(r.id)}')` }) : ''}
+                        </td>
                     </tr>
                 `).join('')}
                 </tbody>
             </table>
         </div>
+
+        <div class="ah-rule-editor" id="ruleEditor" style="display:none">
+            <h4 id="ruleEditorTitle">New Rule</h4>
+            <div class="ah-config-row"><label>Name</label><input class="am-input" id="ruleName" placeholder="e.g. CPU and errors climbing"/></div>
+            <div class="ah-config-row"><label>Description</label><input class="am-input" id="ruleDescription"/></div>
+            <div class="ah-config-row">
+                <label>Severity</label>
+                <select class="am-select" id="ruleSeverity">
+                    <option value="critical">critical</option>
+                    <option value="warning">warning</option>
+                    <option value="info">info</option>
+                </select>
+            </div>
+            <div class="ah-config-row">
+                <label>Fire when</label>
+                <select class="am-select" id="ruleCombinator">
+                    <option value="all">all conditions match</option>
+                    <option value="any">any condition matches</option>
+                </select>
+            </div>
+            <div id="ruleConditions"></div>
+            <div class="ah-config-row"><label></label>${button('+ Condition', { variant: 'ghost', onclick: 'addCondition()' })}</div>
+            <div class="ah-config-row">
+                <label>Sustained for</label>
+                <input class="am-input ah-narrow" id="ruleForPolls" type="number" min="1" placeholder="1"/> polls
+                <input class="am-input ah-narrow" id="ruleForMinutes" type="number" min="0" step="0.5" placeholder="0"/> minutes
+            </div>
+            <div class="ah-config-row"><label>Apps</label><input class="am-input" id="ruleScopeApps" placeholder="All apps — or a comma list, * wildcards allowed (order-*)"/></div>
+            <div class="ah-config-row"><label>Environments</label><input class="am-input" id="ruleScopeEnvs" list="ruleEnvNames" placeholder="All environments — or a comma list of names"/></div>
+            <datalist id="ruleEnvNames">${environments.map(e => `<option value="${escapeAttr(e.name)}"></option>`).join('')}</datalist>
+            <div class="ah-config-row"><label>Cooldown</label><input class="am-input ah-narrow" id="ruleCooldown" type="number" min="1" placeholder="5"/> minutes</div>
+            <div class="ah-config-row">
+                <label></label>
+                ${button('Save Rule', { variant: 'primary', onclick: 'saveRuleForm()' })}
+                ${button('Cancel', { variant: 'ghost', onclick: 'closeRuleEditor()' })}
+            </div>
+        </div>
+    </div>
+
+    <div class="ah-config-section">
+        <div class="ah-section-header">
+            <h3>Notification Channels</h3>
+            ${button('Edit in Settings', { variant: 'ghost', onclick: "vscode.postMessage({ command: 'openChannelSettings' })" })}
+        </div>
+        ${channels.length === 0
+            ? '<p style="color:var(--am-text-muted);font-size:12px">No channels configured. Add webhook, Slack, Teams or email channels to <code>anypointMonitor.alerting.channels</code> to forward fired and resolved alerts.</p>'
+            : `<div class="am-table-container">
+            <table class="am-table">
+                <thead><tr><th>Channel</th><th>Type</th><th>Severities</th><th>Events</th><th></th></tr></thead>
+                <tbody>
+                ${channels.map(c => `
+                    <tr class="am-row">
+                        <td>${uiEscapeHtml(c.name)}${c.enabled === false ? ' ' + badge('disabled') : ''}</td>
+                        <td>${uiEscapeHtml(c.type)}</td>
+                        <td>${uiEscapeHtml(c.severities?.length ? c.severities.join(', ') : 'all')}</td>
+                        <td>${uiEscapeHtml(c.events?.length ? c.events.join(', ') : 'fired, resolved')}</td>
+                        <td class="ah-rule-actions">
+                            ${button('Send Test', { variant: 'ghost', onclick: `vscode.postMessage({ command: 'testChannel', channel: '${escapeAttr(c.name)}' })` })}
+                            ${c.type === 'email' && c.smtp?.username ? button('Set Password', { variant: 'ghost', onclick: `vscode.postMessage({ command: 'setChannelPassword', channel: '${escapeAttr(c.name)}' })` }) : ''}
+                        </td>
+                    </tr>
+                `).join('')}
+                </tbody>
+            </table>
+        </div>`}
     </div>
 
     <div class="ah-config-section">
@@ -287,12 +439,12 @@ function getAlertingHubHtml(
     <div class="am-container">
         ${headerHtml}
         ${tabsHtml}
-        <div id="tab-alerts" class="am-tab-panel am-tab-panel-active">
+        <div id="tab-alerts" class="am-tab-panel${activeTab === 'alerts' ? ' am-tab-panel-active' : ''}">
             ${infoBannerHtml}
             ${onboardingHtml}
             ${dashboardHtml}
         </div>
-        <div id="tab-config" class="am-tab-panel">
+        <div id="tab-config" class="am-tab-panel${activeTab === 'config' ? ' am-tab-panel-active' : ''}">
             ${configHtml}
         </div>
     </div>`;
@@ -359,6 +511,9 @@ function getAlertingHubHtml(
             html += '<td><span class="am-badge am-badge-pill ' + stCls + '">' + escHtml(e.status) + '</span></td>';
             html += '<td style="max-width:300px;overflow:hidden;text-overflow:ellipsis">' + escHtml(e.message) + '</td>';
             html += '<td class="am-actions">';
+            if (e.queue) {
+                html += '<button class="am-btn-icon" onclick="openQueue(\\'' + escAttr(e.id) + '\\')" title="Queue Details">&#128229;</button>';
+            }
             if (e.status === 'active') {
                 html += '<button class="am-btn-icon" onclick="ack(\\'' + escAttr(e.id) + '\\')" title="Acknowledge">&#10003;</button>';
                 html += '<button class="am-btn-icon" onclick="snooze(\\'' + escAttr(e.id) + '\\', 3600000)" title="Snooze 1h">&#9202;</button>';
@@ -383,9 +538,93 @@ function getAlertingHubHtml(
     function clearResolved() { vscode.postMessage({ command: 'clearResolved' }); }
     function muteApp(name) { vscode.postMessage({ command: 'muteApp', appName: name }); }
     function unmuteApp(name) { vscode.postMessage({ command: 'unmuteApp', appName: name }); }
+    function openQueue(id) { vscode.postMessage({ command: 'openQueue', eventId: id }); }
     function exportCsv() { vscode.postMessage({ command: 'exportCsv' }); }
     function toggleRule(id, enabled) { vscode.postMessage({ command: 'updateRule', ruleId: id, enabled: enabled }); }
     function updateThreshold(id, val) { const num = parseFloat(val); vscode.postMessage({ command: 'updateRule', ruleId: id, threshold: isNaN(num) ? val : num }); }
+    const RULE_METRICS = [['cpu', 'CPU %'], ['memory', 'Memory'], ['error_rate', 'Error rate %'], ['app_status', 'App status'], ['deployment_status', 'Deployment status'],
+        ['mq_queue_depth', 'Queue depth'], ['mq_inflight', 'Queue in-flight'], ['mq_dlq_messages', 'DLQ messages']];
+    const RULE_OPERATORS = [['gt', '>'], ['gte', '≥'], ['lt', '<'], ['lte', '≤'], ['eq', '='], ['neq', '≠'], ['not_healthy', 'is not healthy'],
+        ['rises_by', 'rises by more than'], ['falls_by', 'falls by more than'], ['rises_by_pct', 'rises by more than %']];
+    let editingRule = null;
+
+    function optionsHtml(options, selected) {
+        return options.map(o => '<option value="' + o[0] + '"' + (o[0] === selected ? ' selected' : '') + '>' + escHtml(o[1]) + '</option>').join('');
+    }
+    function addCondition(condition, locked) {
+        const c = condition || { metric: 'cpu', operator: 'gt', threshold: 80 };
+        const row = document.createElement('div');
+        row.className = 'ah-config-row ah-condition';
+        row.innerHTML = '<label></label>'
+            + '<select class="am-select ah-cond-metric"' + (locked ? ' disabled' : '') + '>' + optionsHtml(RULE_METRICS, c.metric) + '</select>'
+            + '<select class="am-select ah-cond-operator"' + (locked ? ' disabled' : '') + '>' + optionsHtml(RULE_OPERATORS, c.operator) + '</select>'
+            + '<input class="am-input ah-narrow ah-cond-threshold" value="' + escAttr(c.threshold) + '"/>'
+            + (locked ? '' : '<button class="am-btn am-btn-ghost" onclick="this.parentElement.remove()">Remove</button>');
+        document.getElementById('ruleConditions').appendChild(row);
+    }
+    function editRule(id) {
+        editingRule = id ? currentConfig.rules.find(r => r.id === id) : null;
+        const r = editingRule || { name: '', description: '', severity: 'warning', metric: 'cpu', operator: 'gt', threshold: 80, cooldownMs: 300000 };
+        document.getElementById('ruleEditorTitle').textContent = editingRule ? 'Edit ' + r.name : 'New Rule';
+        document.getElementById('ruleName').value = r.name;
+        document.getElementById('ruleName').disabled = !!editingRule && !editingRule.custom;
+        document.getElementById('ruleDescription').value = r.description || '';
+        document.getElementById('ruleSeverity').value = r.severity;
+        document.getElementById('ruleCombinator').value = r.combinator || 'all';
+        document.getElementById('ruleForPolls').value = r.forPolls || '';
+        document.getElementById('ruleForMinutes').value = r.forDurationMs ? r.forDurationMs / 60000 : '';
+        document.getElementById('ruleScopeApps').value = ((r.scope && r.scope.apps) || []).join(', ');
+        document.getElementById('ruleScopeEnvs').value = ((r.scope && r.scope.environments) || []).join(', ');
+        document.getElementById('ruleCooldown').value = r.cooldownMs / 60000;
+        document.getElementById('ruleConditions').innerHTML = '';
+        // Built-in rules keep their primary metric and operator; extra conditions are free-form
+        addCondition({ metric: r.metric, operator: r.operator, threshold: r.threshold }, !!editingRule && !editingRule.custom);
+        (r.conditions || []).forEach(c => addCondition(c, false));
+        document.getElementById('ruleEditor').style.display = '';
+        document.getElementById('ruleName').focus();
+    }
+    function closeRuleEditor() {
+        editingRule = null;
+        document.getElementById('ruleEditor').style.display = 'none';
+    }
+    function splitList(id) {
+        return document.getElementById(id).value.split(',').map(s => s.trim()).filter(Boolean);
+    }
+    function saveRuleForm() {
+        const conditions = Array.from(document.querySelectorAll('.ah-condition')).map(row => {
+            const raw = row.querySelector('.ah-cond-threshold').value.trim();
+            const num = parseFloat(raw);
+            return {
+                metric: row.querySelector('.ah-cond-metric').value,
+                operator: row.querySelector('.ah-cond-operator').value,
+                threshold: raw !== '' && !isNaN(num) ? num : raw
+            };
+        });
+        const name = document.getElementById('ruleName').value.trim();
+        if (!name || conditions.length === 0) return;
+        const forPolls = parseInt(document.getElementById('ruleForPolls').value);
+        const forMinutes = parseFloat(document.getElementById('ruleForMinutes').value);
+        const cooldown = parseFloat(document.getElementById('ruleCooldown').value);
+        const apps = splitList('ruleScopeApps');
+        const environments = splitList('ruleScopeEnvs');
+        vscode.postMessage({ command: 'saveRule', rule: {
+            id: editingRule ? editingRule.id : 'custom_' + Date.now(),
+            name,
+            description: document.getElementById('ruleDescription').value.trim(),
+            severity: document.getElementById('ruleSeverity').value,
+            enabled: editingRule ? editingRule.enabled : true,
+            metric: conditions[0].metric,
+            operator: conditions[0].operator,
+            threshold: conditions[0].threshold,
+            conditions: conditions.slice(1),
+            combinator: document.getElementById('ruleCombinator').value,
+            forPolls: forPolls > 1 ? forPolls : undefined,
+            forDurationMs: forMinutes > 0 ? Math.round(forMinutes * 60000) : undefined,
+            scope: apps.length || environments.length ? { apps, environments } : undefined,
+            cooldownMs: cooldown > 0 ? Math.round(cooldown * 60000) : 300000
+        } });
+    }
+    function deleteRule(id) { vscode.postMessage({ command: 'deleteRule', ruleId: id }); }
     function updateInterval() { vscode.postMessage({ command: 'updateInterval', interval: parseInt(document.getElementById('intervalSelect').value) }); }
     function toggleEnv(el) { el.classList.toggle('ah-selected'); }
     function getSelectedEnvs() { return Array.from(document.querySelectorAll('.ah-env-chip.ah-selected')).map(el => el.dataset.id); }
@@ -463,6 +702,14 @@ function getAlertingHubStyles(): string {
         .ah-config-section h3 { font-size: 14px; margin-bottom: 12px; }
         .ah-config-row { display: flex; align-items: center; gap: 12px; margin-bottom: 8px; }
         .ah-config-row label { min-width: 160px; font-size: 13px; }
+        .ah-config-row .am-input { flex: 1; }
+        .ah-config-row .am-input.ah-narrow { flex: 0 0 80px; }
+        .ah-section-header { display: flex; align-items: center; justify-content: space-between; margin-bottom: 12px; }
+        .ah-section-header h3 { margin-bottom: 0; }
+        .ah-rule-meta { font-size: 11px; color: var(--am-text-muted); margin-top: 2px; }
+        .ah-rule-actions { white-space: nowrap; }
+        .ah-rule-editor { margin-top: 16px; padding-top: 12px; border-top: 1px solid var(--am-border); }
+        .ah-rule-editor h4 { font-size: 13px; margin-bottom: 10px; }
 
         .ah-env-list { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 8px; }
         .ah-env-chip {
@@ -1,4 +1,14 @@
-import { AlertRule, AlertEvent, AlertSeverity, AppMetricsSnapshot } from './types';
+import {
+    AlertCondition,
+    AlertEvent,
+    AlertMetric,
+    AlertOperator,
+    AlertRule,
+    AppMetricsSnapshot,
+    QueueLocation,
+    RuleEvaluationMemory
+} from './types';
+import { wildcardToRegExp } from '../../utils/wildcard';
 
 const HEALTHY_STATUSES: Record<string, string[]> = {
     'CH1': ['STARTED'],
@@ -6,6 +16,34 @@ const HEALTHY_STATUSES: Record<string, string[]> = {
     'HYBRID': ['STARTED', 'RUNNING'],
 };
 
+const METRIC_LABELS: Record<AlertMetric, string> = {
+    app_status: 'status',
+    cpu: 'CPU',
+    memory: 'memory',
+    error_rate: 'error rate',
+    mq_queue_depth: 'queue depth',
+    mq_inflight: 'in-flight messages',
+    mq_dlq_messages: 'DLQ messages',
+    deployment_status: 'deployment status'
+};
+
+const OPERATOR_LABELS: Record<AlertOperator, string> = {
+    gt: '>',
+    lt: '<',
+    gte: '≥',
+    lte: '≤',
+    eq: '=',
+    neq: '≠',
+    not_healthy: 'is not healthy',
+    rises_by: 'rises by more than',
+    falls_by: 'falls by more than',
+    rises_by_pct: 'rises by more than %'
+};
+
+const RATE_OPERATORS: AlertOperator[] = ['rises_by', 'falls_by', 'rises_by_pct'];
+
+const PERCENT_METRICS: AlertMetric[] = ['cpu', 'memory', 'error_rate'];
+
 export const DEFAULT_RULES: AlertRule[] = [
     {
         id: 'app_stopped',
@@ -72,16 +110,69 @@ export const DEFAULT_RULES: AlertRule[] = [
         severity: 'warning',
         enabled: true,
         cooldownMs: 300000
+    },
+    {
+        id: 'mq_queue_depth_high',
+        name: 'Queue Backlog',
+        description: 'Fires when an Anypoint MQ queue holds more than 1,000 messages',
+        metric: 'mq_queue_depth',
+        operator: 'gt',
+        threshold: 1000,
+        severity: 'warning',
+        enabled: true,
+        cooldownMs: 900000
+    },
+    {
+        id: 'mq_queue_growing',
+        name: 'Queue Growing',
+        description: 'Fires when a queue\'s depth has grown on 3 consecutive polls',
+        metric: 'mq_queue_depth',
+        operator: 'rises_by',
+        threshold: 0,
+        forPolls: 3,
+        severity: 'warning',
+        enabled: true,
+        cooldownMs: 900000
+    },
+    {
+        id: 'mq_inflight_high',
+        name: 'Queue In-Flight High',
+        description: 'Fires when more than 500 messages are in flight on a queue',
+        metric: 'mq_inflight',
+        operator: 'gt',
+        threshold: 500,
+        severity: 'warning',
+        enabled: true,
+        cooldownMs: 900000
+    },
+    {
+        id: 'mq_dlq_messages',
+        name: 'Messages in Dead-Letter Queue',
+        description: 'Fires when any dead-letter queue holds a message',
+        metric: 'mq_dlq_messages',
+        operator: 'gt',
+        threshold: 0,
+        severity: 'critical',
+        enabled: true,
+        cooldownMs: 900000
     }
 ];
 
+/** Rules on `mq_*` metrics need queue snapshots, which cost extra API calls per poll */
+export function isQueueMetric(metric: AlertMetric): boolean {
+    return metric.startsWith('mq_');
+}
+
 function getMetricValue(app: AppMetricsSnapshot, metric: string): number | string | undefined {
     switch (metric) {
-        case 'app_status': return app.status;
+        case 'app_status': return app.type === 'MQ' ? undefined : app.status;
         case 'cpu': return app.cpu;
         case 'memory': return app.memory;
         case 'error_rate': return app.errorRate;
         case 'deployment_status': return app.lastDeploymentStatus;
+        case 'mq_queue_depth': return app.queue?.messages;
+        case 'mq_inflight': return app.queue?.inflightMessages;
+        case 'mq_dlq_messages': return app.queue?.isDeadLetterQueue ? app.queue.messages : undefined;
         default: return undefined;
     }
 }
@@ -140,48 +231,241 @@ function formatAlertMessage(rule: AlertRule, app: AppMetricsSnapshot, currentVal
             return `${app.name} memory at ${Number(currentValue).toFixed(1)}% (threshold: ${rule.threshold}%)`;
         case 'error_rate':
             return `${app.name} error rate at ${Number(currentValue).toFixed(1)}% (threshold: ${rule.threshold}%)`;
+        case 'mq_queue_depth':
+            return `Queue ${app.name} holds ${Number(currentValue).toLocaleString('en-US')} messages (threshold: ${rule.threshold})`;
+        case 'mq_inflight':
+            return `Queue ${app.name} has ${Number(currentValue).toLocaleString('en-US')} messages in flight (threshold: ${rule.threshold})`;
+        case 'mq_dlq_messages':
+            return `Dead-letter queue ${app.name} holds ${Number(currentValue).toLocaleString('en-US')} message${Number(currentValue) === 1 ? '' : 's'}`;
         default:
             return `${app.name}: ${rule.name} triggered (value: ${currentValue}, threshold: ${rule.threshold})`;
     }
 }
 
+interface ConditionResult {
+    matched: boolean;
+    value?: number | string;
+    /** Change since the previous poll, for rate-of-change operators */
+    change?: number;
+}
+
+export function createRuleEvaluationMemory(): RuleEvaluationMemory {
+    return { previousValues: new Map(), pending: new Map() };
+}
+
+/** The primary metric/operator/threshold followed by any extra conditions */
+export function ruleConditions(rule: AlertRule): AlertCondition[] {
+    return [{ metric: rule.metric, operator: rule.operator, threshold: rule.threshold }, ...(rule.conditions || [])];
+}
+
+function isCompositeRule(rule: AlertRule): boolean {
+    return ruleConditions(rule).length > 1 || RATE_OPERATORS.includes(rule.operator);
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+    return wildcardToRegExp(pattern.trim()).test(value);
+}
+
+export function isRuleInScope(rule: AlertRule, appName: string, environmentId: string, environmentName: string): boolean {
+    const apps = (rule.scope?.apps || []).filter(a => a.trim());
+    const environments = (rule.scope?.environments || []).filter(e => e.trim());
+    if (apps.length > 0 && !apps.some(p => matchesPattern(appName, p))) {
+        return false;
+    }
+    if (environments.length > 0 && !environments.some(e => e === environmentId || matchesPattern(environmentName, e))) {
+        return false;
+    }
+    return true;
+}
+
+function evaluateCondition(
+    app: AppMetricsSnapshot,
+    condition: AlertCondition,
+    previous?: Partial<Record<AlertMetric, number | string>>
+): ConditionResult {
+    const value = getMetricValue(app, condition.metric);
+    if (value === undefined || value === null) {
+        return { matched: false };
+    }
+
+    if (!RATE_OPERATORS.includes(condition.operator)) {
+        return { matched: compareValues(value, condition.operator, condition.threshold, app.type), value };
+    }
+
+    // Rate of change needs a numeric value from the previous poll
+    const before = Number(previous?.[condition.metric]);
+    const now = Number(value);
+    const threshold = Number(condition.threshold);
+    if (previous?.[condition.metric] === undefined || isNaN(before) || isNaN(now) || isNaN(threshold)) {
+        return { matched: false, value };
+    }
+    const change = now - before;
+    switch (condition.operator) {
+        case 'rises_by': return { matched: change > threshold, value, change };
+        case 'falls_by': return { matched: -change > threshold, value, change };
+        default: {
+            const pct = before > 0 ? (change / before) * 100 : 0;
+            return { matched: before > 0 && pct > threshold, value, change: pct };
+        }
+    }
+}
+
+function conditionsMatch(rule: AlertRule, results: ConditionResult[]): boolean {
+    return rule.combinator === 'any' ? results.some(r => r.matched) : results.every(r => r.matched);
+}
+
+/**
+ * Whether the rule's conditions hold for this snapshot right now, ignoring the
+ * for-polls / for-duration clauses. Used to auto-resolve fired alerts.
+ */
+export function isRuleBreached(
+    app: AppMetricsSnapshot,
+    rule: AlertRule,
+    previous?: Partial<Record<AlertMetric, number | string>>
+): boolean {
+    return conditionsMatch(rule, ruleConditions(rule).map(c => evaluateCondition(app, c, previous)));
+}
+
+function formatMetricValue(metric: AlertMetric, value: number | string): string {
+    if (typeof value === 'number' || (value !== '' && !isNaN(Number(value)))) {
+        const num = Number(value);
+        return PERCENT_METRICS.includes(metric) ? `${num.toFixed(1)}%` : `${Math.round(num * 10) / 10}`;
+    }
+    return String(value);
+}
+
+function describeCondition(condition: AlertCondition): string {
+    const label = METRIC_LABELS[condition.metric] || condition.metric;
+    if (condition.operator === 'not_healthy') {
+        return `${label} ${OPERATOR_LABELS.not_healthy}`;
+    }
+    if (condition.operator === 'rises_by_pct') {
+        return `${label} rises by more than ${condition.threshold}%`;
+    }
+    return `${label} ${OPERATOR_LABELS[condition.operator] || condition.operator} ${condition.threshold}`;
+}
+
+function describeDuration(rule: AlertRule): string {
+    const parts: string[] = [];
+    if ((rule.forPolls || 0) > 1) {
+        parts.push(`${rule.forPolls} consecutive polls`);
+    }
+    if ((rule.forDurationMs || 0) > 0) {
+        const minutes = rule.forDurationMs! / 60000;
+        parts.push(minutes >= 1 ? `${Math.round(minutes * 10) / 10}m` : `${Math.round(rule.forDurationMs! / 1000)}s`);
+    }
+    return parts.length > 0 ? ` for ${parts.join(' and ')}` : '';
+}
+
+/** Human-readable rule condition, e.g. "CPU > 80 AND error rate > 2 for 3 consecutive polls" */
+export function describeRule(rule: AlertRule): string {
+    const joiner = rule.combinator === 'any' ? ' OR ' : ' AND ';
+    return ruleConditions(rule).map(describeCondition).join(joiner) + describeDuration(rule);
+}
+
+function formatCompositeMessage(rule: AlertRule, app: AppMetricsSnapshot, results: ConditionResult[]): string {
+    const conditions = ruleConditions(rule);
+    const parts = results
+        .map((r, i) => ({ r, c: conditions[i] }))
+        .filter(({ r }) => r.matched)
+        .map(({ r, c }) => {
+            const label = METRIC_LABELS[c.metric] || c.metric;
+            if (r.change !== undefined) {
+                const change = c.operator === 'rises_by_pct'
+                    ? `${r.change.toFixed(1)}%`
+                    : formatMetricValue(c.metric, Math.abs(r.change));
+                return `${label} ${c.operator === 'falls_by' ? 'fell' : 'rose'} by ${change} to ${formatMetricValue(c.metric, r.value!)}`;
+            }
+            return `${label} at ${formatMetricValue(c.metric, r.value!)} (${describeCondition(c)})`;
+        });
+    return `${app.name}: ${parts.join(rule.combinator === 'any' ? ' OR ' : ' AND ')}${describeDuration(rule)}`;
+}
+
+function metricSnapshot(app: AppMetricsSnapshot): Partial<Record<AlertMetric, number | string>> {
+    const snapshot: Partial<Record<AlertMetric, number | string>> = {};
+    for (const metric of Object.keys(METRIC_LABELS) as AlertMetric[]) {
+        const value = getMetricValue(app, metric);
+        if (value !== undefined && value !== null) {
+            snapshot[metric] = value;
+        }
+    }
+    return snapshot;
+}
+
+/**
+ * Identifies an alert target within an environment. Queue ids are only unique
+ * per region, and an app may share a queue's name, so queues are keyed by
+ * type, region and queue id.
+ */
+export function alertTargetKey(name: string, queue?: QueueLocation): string {
+    return queue ? `MQ:${queue.regionId}:${queue.queueId}` : name;
+}
+
+/**
+ * Evaluate every enabled, in-scope rule against one app snapshot. With a
+ * `memory` shared across polls, rate-of-change operators compare against the
+ * previous poll and for-polls / for-duration clauses delay firing until the
+ * rule has matched long enough; without one, those rules fire immediately or
+ * (rate of change) never.
+ */
 export function evaluateRules(
     app: AppMetricsSnapshot,
     rules: AlertRule[],
     environmentId: string,
-    environmentName: string
+    environmentName: string,
+    memory?: RuleEvaluationMemory,
+    now = Date.now()
 ): AlertEvent[] {
     const events: AlertEvent[] = [];
+    const target = alertTargetKey(app.name, app.queue);
+    const appKey = `${environmentId}:${target}`;
+    const previous = memory?.previousValues.get(appKey);
 
     for (const rule of rules) {
-        if (!rule.enabled) {
+        if (!rule.enabled || !isRuleInScope(rule, app.name, environmentId, environmentName)) {
             continue;
         }
 
-        const currentValue = getMetricValue(app, rule.metric);
-        if (currentValue === undefined || currentValue === null) {
+        const results = ruleConditions(rule).map(c => evaluateCondition(app, c, previous));
+        const pendingKey = `${appKey}:${rule.id}`;
+        if (!conditionsMatch(rule, results)) {
+            memory?.pending.delete(pendingKey);
             continue;
         }
 
-        if (compareValues(currentValue, rule.operator, rule.threshold, app.type)) {
-            events.push({
-                id: `${app.name}-${rule.id}-${Date.now()}`,
-                ruleId: rule.id,
-                ruleName: rule.name,
-                appName: app.name,
-                appType: app.type,
-                environmentId,
-                environmentName,
-                severity: rule.severity,
-                status: 'active',
-                message: formatAlertMessage(rule, app, currentValue),
-                currentValue,
-                threshold: rule.threshold,
-                firedAt: new Date().toISOString()
-            });
+        if (memory && ((rule.forPolls || 0) > 1 || (rule.forDurationMs || 0) > 0)) {
+            const pending = memory.pending.get(pendingKey) || { since: now, polls: 0 };
+            pending.polls += 1;
+            memory.pending.set(pendingKey, pending);
+            if (pending.polls < (rule.forPolls || 1) || now - pending.since < (rule.forDurationMs || 0)) {
+                continue;
+            }
         }
+
+        const composite = isCompositeRule(rule);
+        const primary = results.find(r => r.matched && r.value !== undefined) || results[0];
+        const currentValue = primary.value ?? '';
+        events.push({
+            id: `${target}-${rule.id}-${now}`,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            appName: app.name,
+            appType: app.type,
+            environmentId,
+            environmentName,
+            severity: rule.severity,
+            status: 'active',
+            message: composite || rule.forPolls || rule.forDurationMs
+                ? formatCompositeMessage(rule, app, results)
+                : formatAlertMessage(rule, app, currentValue),
+            currentValue,
+            threshold: composite ? describeRule(rule) : rule.threshold,
+            firedAt: new Date(now).toISOString(),
+            ...(app.queue ? { queue: { queueId: app.queue.queueId, regionId: app.queue.regionId, regionName: app.queue.regionName } } : {})
+        });
     }
 
+    memory?.previousValues.set(appKey, metricSnapshot(app));
     return events;
 }
 
@@ -200,7 +484,21 @@ export function mergeRulesWithDefaults(customRules?: Partial<AlertRule>[]): Aler
                 enabled: custom.enabled ?? merged[idx].enabled,
                 severity: custom.severity ?? merged[idx].severity,
                 cooldownMs: custom.cooldownMs ?? merged[idx].cooldownMs,
+                threshold: custom.threshold ?? merged[idx].threshold,
+                conditions: custom.conditions ?? merged[idx].conditions,
+                combinator: custom.combinator ?? merged[idx].combinator,
+                forPolls: custom.forPolls ?? merged[idx].forPolls,
+                forDurationMs: custom.forDurationMs ?? merged[idx].forDurationMs,
+                scope: custom.scope ?? merged[idx].scope,
             };
+        } else if (custom.custom && custom.name && custom.metric && custom.operator && custom.threshold !== undefined) {
+            merged.push({
+                description: '',
+                severity: 'warning',
+                enabled: true,
+                cooldownMs: 300000,
+                ...custom
+            } as AlertRule);
         }
     }
     return merged;
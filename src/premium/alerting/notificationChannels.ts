@@ -0,0 +1,248 @@
+import axios from 'axios';
+import {
+    AlertEvent,
+    AlertNotification,
+    AlertSeverity,
+    DeliveryResult,
+    NotificationChannel,
+    NotificationChannelType
+} from './types';
+import { sendSmtpMail } from './smtpClient';
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+    critical: '#d13438',
+    warning: '#ffaa44',
+    info: '#0078d4'
+};
+
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+    critical: '🔴',
+    warning: '⚠️',
+    info: 'ℹ️'
+};
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'teams', 'email'];
+
+export interface RetryOptions {
+    attempts: number;
+    baseDelayMs: number;
+}
+
+export interface DispatchOptions {
+    retry?: RetryOptions;
+    /** SMTP password for an email channel, looked up by channel name */
+    getPassword?: (channel: NotificationChannel) => Promise<string | undefined>;
+    timeoutMs?: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 1000 };
+
+/** Thrown for failures a retry cannot fix, e.g. a 4xx response or a broken template */
+class PermanentDeliveryError extends Error {}
+
+/** Drop malformed entries from the `anypointMonitor.alerting.channels` setting */
+export function normalizeChannels(raw: unknown): NotificationChannel[] {
+    if (!Array.isArray(raw)) { return []; }
+    return raw.filter((c): c is NotificationChannel =>
+        !!c && typeof c === 'object'
+        && typeof c.name === 'string' && c.name.trim() !== ''
+        && CHANNEL_TYPES.includes(c.type)
+        && (c.type === 'email' ? !!c.smtp?.host : typeof c.url === 'string' && c.url.trim() !== '')
+    );
+}
+
+/** Whether a channel's severity and fired/resolved routing accept this notification */
+export function channelAccepts(channel: NotificationChannel, notification: AlertNotification): boolean {
+    if (channel.enabled === false) { return false; }
+    if (channel.severities?.length && !channel.severities.includes(notification.event.severity)) { return false; }
+    if (channel.events?.length && !channel.events.includes(notification.kind)) { return false; }
+    return true;
+}
+
+/**
+ * Fill `{{field}}` placeholders in a JSON template. Values are JSON-escaped so
+ * they can sit inside string literals (`"app": "{{appName}}"`); unknown fields
+ * become empty strings. Throws when the result is not valid JSON.
+ */
+export function renderBodyTemplate(template: string, notification: AlertNotification): unknown {
+    const values: Record<string, unknown> = { ...notification.event, kind: notification.kind };
+    const rendered = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => {
+        const value = values[key];
+        return value === undefined || value === null ? '' : JSON.stringify(String(value)).slice(1, -1);
+    });
+    try {
+        return JSON.parse(rendered);
+    } catch (err: any) {
+        throw new PermanentDeliveryError(`Body template is not valid JSON after substitution: ${err.message}`);
+    }
+}
+
+function title(notification: AlertNotification): string {
+    const { event, kind } = notification;
+    return kind === 'resolved'
+        ? `Resolved: ${event.ruleName} on ${event.appName}`
+        : `${event.severity.toUpperCase()}: ${event.ruleName} on ${event.appName}`;
+}
+
+function facts(event: AlertEvent): Array<{ name: string; value: string }> {
+    return [
+        { name: 'Application', value: event.appName },
+        { name: 'Environment', value: event.environmentName },
+        { name: 'Severity', value: event.severity },
+        { name: 'Value', value: String(event.currentValue) },
+        { name: 'Threshold', value: String(event.threshold) },
+        { name: 'Fired', value: event.firedAt },
+        ...(event.resolvedAt ? [{ name: 'Resolved', value: event.resolvedAt }] : [])
+    ];
+}
+
+export function buildSlackPayload(notification: AlertNotification): unknown {
+    const { event, kind } = notification;
+    const emoji = kind === 'resolved' ? '✅' : SEVERITY_EMOJI[event.severity];
+    return {
+        text: `${emoji} ${title(notification)} — ${event.message}`,
+        blocks: [
+            { type: 'header', text: { type: 'plain_text', text: `${emoji} ${title(notification)}` } },
+            { type: 'section', text: { type: 'mrkdwn', text: event.message } },
+            {
+                type: 'section',
+                fields: facts(event).map(f => ({ type: 'mrkdwn', text: `*${f.name}:*\n${f.value}` }))
+            }
+        ]
+    };
+}
+
+/** Adaptive Card wrapped the way Teams incoming webhooks and Workflows expect it */
+export function buildTeamsPayload(notification: AlertNotification): unknown {
+    const { event, kind } = notification;
+    return {
+        type: 'message',
+        attachments: [{
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: {
+                $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                type: 'AdaptiveCard',
+                version: '1.4',
+                body: [
+                    {
+                        type: 'TextBlock',
+                        text: title(notification),
+                        weight: 'Bolder',
+                        size: 'Medium',
+                        color: kind === 'resolved' ? 'Good' : event.severity === 'critical' ? 'Attention' : 'Warning',
+                        wrap: true
+                    },
+                    { type: 'TextBlock', text: event.message, wrap: true },
+                    { type: 'FactSet', facts: facts(event).map(f => ({ title: f.name, value: f.value })) }
+                ],
+                msteams: { width: 'Full' }
+            }
+        }],
+        themeColor: kind === 'resolved' ? '#107c10' : SEVERITY_COLORS[event.severity]
+    };
+}
+
+export function buildEmail(notification: AlertNotification): { subject: string; text: string } {
+    const { event } = notification;
+    return {
+        subject: `[Anypoint Monitor] ${title(notification)}`,
+        text: [
+            event.message,
+            '',
+            ...facts(event).map(f => `${f.name}: ${f.value}`),
+            '',
+            `Rule: ${event.ruleName} (${event.ruleId})`,
+            `Alert ID: ${event.id}`
+        ].join('\n')
+    };
+}
+
+function isRetryable(err: any): boolean {
+    if (err instanceof PermanentDeliveryError) { return false; }
+    const status = err?.response?.status;
+    if (status === undefined) { return true; }
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/** Run `send`, retrying transient failures with exponential backoff (1x, 2x, 4x ... baseDelayMs) */
+export async function withRetry(
+    send: () => Promise<void>,
+    options: RetryOptions = DEFAULT_RETRY
+): Promise<{ attempts: number }> {
+    let attempt = 0;
+    for (;;) {
+        attempt++;
+        try {
+            await send();
+            return { attempts: attempt };
+        } catch (err: any) {
+            if (attempt >= options.attempts || !isRetryable(err)) {
+                err.attempts = attempt;
+                throw err;
+            }
+            await new Promise(r => setTimeout(r, options.baseDelayMs * Math.pow(2, attempt - 1)));
+        }
+    }
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>, timeoutMs: number): Promise<void> {
+    const resp = await axios.post(url, body, {
+        headers: { 'Content-Type': 'application/json', ...headers },
+        timeout: timeoutMs,
+        validateStatus: () => true
+    });
+    if (resp.status >= 200 && resp.status < 300) { return; }
+
+    const err: any = resp.status >= 400 && resp.status < 500 && resp.status !== 408 && resp.status !== 429
+        ? new PermanentDeliveryError(`HTTP ${resp.status}`)
+        : new Error(`HTTP ${resp.status}`);
+    err.response = { status: resp.status };
+    throw err;
+}
+
+export async function sendToChannel(
+    channel: NotificationChannel,
+    notification: AlertNotification,
+    options: DispatchOptions = {}
+): Promise<void> {
+    const timeoutMs = options.timeoutMs ?? 10000;
+    switch (channel.type) {
+        case 'slack':
+            return postJson(channel.url!, buildSlackPayload(notification), {}, timeoutMs);
+        case 'teams':
+            return postJson(channel.url!, buildTeamsPayload(notification), {}, timeoutMs);
+        case 'webhook': {
+            const body = channel.bodyTemplate
+                ? renderBodyTemplate(channel.bodyTemplate, notification)
+                : { kind: notification.kind, ...notification.event };
+            return postJson(channel.url!, body, channel.headers || {}, timeoutMs);
+        }
+        case 'email': {
+            const password = await options.getPassword?.(channel);
+            return sendSmtpMail(channel.smtp!, password, buildEmail(notification), timeoutMs);
+        }
+    }
+}
+
+/**
+ * Send every notification to every channel that accepts it. Deliveries run in
+ * parallel; failures are reported in the results rather than thrown.
+ */
+export async function dispatchNotifications(
+    channels: NotificationChannel[],
+    notifications: AlertNotification[],
+    options: DispatchOptions = {}
+): Promise<DeliveryResult[]> {
+    const deliveries = channels.flatMap(channel =>
+        notifications.filter(n => channelAccepts(channel, n)).map(async (notification): Promise<DeliveryResult> => {
+            const base = { channel: channel.name, eventId: notification.event.id, kind: notification.kind };
+            try {
+                const { attempts } = await withRetry(() => sendToChannel(channel, notification, options), options.retry);
+                return { ...base, ok: true, attempts };
+            } catch (err: any) {
+                return { ...base, ok: false, attempts: err?.attempts ?? 1, error: err?.message || String(err) };
+            }
+        })
+    );
+    return Promise.all(deliveries);
+}
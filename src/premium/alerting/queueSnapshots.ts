@@ -0,0 +1,37 @@
+import type { MQRegionQueues } from '../../controllers/anypointService';
+import { AppMetricsSnapshot } from './types';
+
+/**
+ * One `MQ` snapshot per queue from fetchAnypointMQQueueStats. A queue counts
+ * as a dead-letter queue when another queue in its region names it as
+ * `deadLetterQueueId`. Snapshots are named by queue id for display; rules
+ * key them by region as well (see alertTargetKey).
+ */
+export function buildQueueSnapshots(regions: MQRegionQueues[]): AppMetricsSnapshot[] {
+    const snapshots: AppMetricsSnapshot[] = [];
+    for (const region of regions) {
+        const deadLetterIds = new Set(region.queues.map(q => q.deadLetterQueueId).filter(Boolean));
+
+        for (const queue of region.queues) {
+            const queueId = queue.queueId || queue.id;
+            if (!queueId) { continue; }
+            const stats = region.stats.find(s =>
+                s && (s.destination === queueId || s.queueId === queueId || s.destinationId === queueId)) || {};
+
+            snapshots.push({
+                name: queueId,
+                type: 'MQ',
+                status: 'ACTIVE',
+                queue: {
+                    queueId,
+                    regionId: region.regionId,
+                    regionName: region.regionName,
+                    messages: Number(stats.messages) || 0,
+                    inflightMessages: Number(stats.inflightMessages) || 0,
+                    isDeadLetterQueue: deadLetterIds.has(queueId)
+                }
+            });
+        }
+    }
+    return snapshots;
+}
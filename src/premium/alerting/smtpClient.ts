@@ -0,0 +1,209 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import { SmtpSettings } from './types';
+
+/**
+ * Just enough SMTP to hand one plain-text message to a relay: EHLO, STARTTLS
+ * when offered, AUTH PLAIN, MAIL/RCPT/DATA. No attachments, pipelining or
+ * connection reuse. Credentials are only sent over TLS, to a loopback relay,
+ * or when `allowInsecureAuth` is set.
+ */
+
+export class SmtpError extends Error {
+    constructor(message: string, public readonly code?: number) {
+        super(message);
+        this.name = 'SmtpError';
+    }
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+export interface SmtpMessage {
+    subject: string;
+    text: string;
+}
+
+class SmtpSession {
+    private buffer = '';
+    private pendingLines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | undefined;
+    private failure: Error | undefined;
+
+    constructor(public socket: net.Socket, private readonly timeoutMs: number) {
+        this.attach(socket);
+    }
+
+    attach(socket: net.Socket): void {
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.setTimeout(this.timeoutMs);
+        socket.on('data', (chunk: string) => {
+            this.buffer += chunk;
+            this.parse();
+        });
+        socket.on('timeout', () => this.fail(new SmtpError('SMTP server timed out')));
+        socket.on('error', err => this.fail(err));
+        socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+    }
+
+    /** Stop listening on the plain socket before it is handed to TLS */
+    detach(): void {
+        this.socket.removeAllListeners('data');
+        this.socket.removeAllListeners('timeout');
+        this.socket.removeAllListeners('error');
+        this.socket.removeAllListeners('close');
+        this.socket.setTimeout(0);
+    }
+
+    read(): Promise<SmtpReply> {
+        const next = this.replies.shift();
+        if (next) { return Promise.resolve(next); }
+        if (this.failure) { return Promise.reject(this.failure); }
+        return new Promise((resolve, reject) => { this.waiting = { resolve, reject }; });
+    }
+
+    async expect(codes: number[], line?: string): Promise<SmtpReply> {
+        if (line !== undefined) {
+            this.socket.write(`${line}\r\n`);
+        }
+        const reply = await this.read();
+        if (!codes.includes(reply.code)) {
+            const sent = line?.startsWith('AUTH') ? 'AUTH' : line;
+            throw new SmtpError(`SMTP ${sent ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+        }
+        return reply;
+    }
+
+    private parse(): void {
+        let idx: number;
+        while ((idx = this.buffer.indexOf('\n')) >= 0) {
+            const line = this.buffer.slice(0, idx).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(idx + 1);
+            this.pendingLines.push(line.slice(4));
+            // "250-..." continues a multi-line reply; "250 ..." ends it
+            if (line.charAt(3) !== '-') {
+                this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines });
+                this.pendingLines = [];
+            }
+        }
+        if (this.waiting && this.replies.length > 0) {
+            const waiting = this.waiting;
+            this.waiting = undefined;
+            waiting.resolve(this.replies.shift()!);
+        }
+    }
+
+    private fail(err: Error): void {
+        this.failure = this.failure || err;
+        if (this.waiting) {
+            const waiting = this.waiting;
+            this.waiting = undefined;
+            waiting.reject(err);
+        }
+    }
+}
+
+function connect(settings: SmtpSettings, timeoutMs: number): Promise<net.Socket> {
+    const port = settings.port || (settings.secure ? 465 : 587);
+    return new Promise((resolve, reject) => {
+        const socket: net.Socket = settings.secure
+            ? tls.connect({ host: settings.host, port, servername: settings.host }, () => resolve(socket))
+            : net.connect({ host: settings.host, port }, () => resolve(socket));
+        socket.setTimeout(timeoutMs, () => {
+            socket.destroy();
+            reject(new SmtpError(`Could not connect to ${settings.host}:${port}`));
+        });
+        socket.once('error', reject);
+    });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+        const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+        secure.once('error', reject);
+    });
+}
+
+/** localhost, 127.0.0.0/8 and ::1 — a relay on the same machine */
+export function isLoopbackHost(host: string): boolean {
+    const h = host.trim().toLowerCase().replace(/^\[|\]$/g, '');
+    if (h === 'localhost' || h.endsWith('.localhost') || h === '::1') {
+        return true;
+    }
+    const v4 = h.replace(/^::ffff:/, '');
+    return net.isIPv4(v4) && v4.startsWith('127.');
+}
+
+function formatMessage(settings: SmtpSettings, message: SmtpMessage): string {
+    const headers = [
+        `From: ${settings.from}`,
+        `To: ${settings.to.join(', ')}`,
+        `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit'
+    ];
+    // Dot-stuffing: a line starting with "." would otherwise end the DATA section
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+function address(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return match ? match[1] : value.trim();
+}
+
+export async function sendSmtpMail(
+    settings: SmtpSettings,
+    password: string | undefined,
+    message: SmtpMessage,
+    timeoutMs = 15000
+): Promise<void> {
+    if (!settings.host || !settings.from || !settings.to?.length) {
+        throw new SmtpError('SMTP settings need host, from and at least one recipient');
+    }
+
+    const session = new SmtpSession(await connect(settings, timeoutMs), timeoutMs);
+    try {
+        await session.expect([220]);
+        const hostname = os.hostname() || 'localhost';
+        const ehlo = await session.expect([250], `EHLO ${hostname}`);
+        let encrypted = !!settings.secure;
+
+        if (!encrypted && ehlo.lines.some(l => l.toUpperCase().startsWith('STARTTLS'))) {
+            await session.expect([220], 'STARTTLS');
+            session.detach();
+            session.attach(await upgradeToTls(session.socket, settings.host));
+            await session.expect([250], `EHLO ${hostname}`);
+            encrypted = true;
+        }
+
+        if (settings.username) {
+            if (!encrypted && !settings.allowInsecureAuth && !isLoopbackHost(settings.host)) {
+                await session.expect([221], 'QUIT').catch(() => undefined);
+                throw new SmtpError(
+                    `${settings.host} did not offer STARTTLS; refusing to send SMTP credentials unencrypted. ` +
+                    'Use "secure": true, a relay that supports STARTTLS, or set "allowInsecureAuth" to accept the risk.'
+                );
+            }
+            const credentials = Buffer.from(`\0${settings.username}\0${password || ''}`).toString('base64');
+            await session.expect([235], `AUTH PLAIN ${credentials}`);
+        }
+
+        await session.expect([250], `MAIL FROM:<${address(settings.from)}>`);
+        for (const recipient of settings.to) {
+            await session.expect([250, 251], `RCPT TO:<${address(recipient)}>`);
+        }
+        await session.expect([354], 'DATA');
+        await session.expect([250], formatMessage(settings, message));
+        await session.expect([221], 'QUIT').catch(() => undefined);
+    } finally {
+        session.socket.destroy();
+    }
+}
@@ -1,9 +1,19 @@
 export type AlertSeverity = 'critical' | 'warning' | 'info';
 export type AlertStatus = 'active' | 'acknowledged' | 'snoozed' | 'resolved';
-export type AlertMetric = 'app_status' | 'cpu' | 'memory' | 'error_rate' | 'mq_queue_depth' | 'deployment_status';
-export type AlertOperator = 'gt' | 'lt' | 'eq' | 'neq' | 'gte' | 'lte' | 'not_healthy';
+/** `mq_*` metrics apply to Anypoint MQ queue snapshots; the rest to applications */
+export type AlertMetric = 'app_status' | 'cpu' | 'memory' | 'error_rate' | 'mq_queue_depth' | 'mq_inflight' | 'mq_dlq_messages' | 'deployment_status';
+/** `MQ` marks an Anypoint MQ queue rather than an application */
+export type AlertTargetType = 'CH1' | 'CH2' | 'HYBRID' | 'MQ';
+/** `rises_by` / `falls_by` / `rises_by_pct` compare against the previous poll's value */
+export type AlertOperator = 'gt' | 'lt' | 'eq' | 'neq' | 'gte' | 'lte' | 'not_healthy' | 'rises_by' | 'falls_by' | 'rises_by_pct';
 export type PollingInterval = 30000 | 60000 | 300000;
 
+export interface AlertCondition {
+    metric: AlertMetric;
+    operator: AlertOperator;
+    threshold: number | string;
+}
+
 export interface AlertRule {
     id: string;
     name: string;
@@ -14,6 +24,33 @@ export interface AlertRule {
     severity: AlertSeverity;
     enabled: boolean;
     cooldownMs: number;
+    /** Further conditions combined with the primary metric/operator/threshold */
+    conditions?: AlertCondition[];
+    /** How the primary condition and `conditions` combine; defaults to 'all' */
+    combinator?: 'all' | 'any';
+    /** Consecutive polls the rule must match before it fires */
+    forPolls?: number;
+    /** How long the rule must keep matching before it fires */
+    forDurationMs?: number;
+    /** Restrict the rule to these apps / environments (ids or names); empty means everywhere */
+    scope?: AlertRuleScope;
+    /** Created in the Alerting Hub rather than one of the built-in rules */
+    custom?: boolean;
+}
+
+export interface AlertRuleScope {
+    /** App names or queue ids; `*` matches any characters, e.g. `order-*` */
+    apps?: string[];
+    environments?: string[];
+}
+
+/**
+ * What `evaluateRules` remembers between polls: the previous metric values for
+ * rate-of-change operators and how long each rule has been matching per app.
+ */
+export interface RuleEvaluationMemory {
+    previousValues: Map<string, Partial<Record<AlertMetric, number | string>>>;
+    pending: Map<string, { since: number; polls: number }>;
 }
 
 export interface AlertEvent {
@@ -21,7 +58,7 @@ export interface AlertEvent {
     ruleId: string;
     ruleName: string;
     appName: string;
-    appType: 'CH1' | 'CH2' | 'HYBRID';
+    appType: AlertTargetType;
     environmentId: string;
     environmentName: string;
     severity: AlertSeverity;
@@ -33,6 +70,16 @@ export interface AlertEvent {
     acknowledgedAt?: string;
     resolvedAt?: string;
     snoozedUntil?: string;
+    /** Set for queue alerts so the Alerting Hub can open the queue details */
+    queue?: QueueLocation;
+    /** Account that was polling when the alert fired; its history file records every later change */
+    accountId?: string;
+}
+
+export interface QueueLocation {
+    queueId: string;
+    regionId: string;
+    regionName: string;
 }
 
 export interface AlertState {
@@ -51,12 +98,117 @@ export interface AlertConfig {
     mutedApps: string[];
 }
 
+/** One application or, with type `MQ`, one Anypoint MQ queue (named by its queue id) */
 export interface AppMetricsSnapshot {
     name: string;
-    type: 'CH1' | 'CH2' | 'HYBRID';
+    type: AlertTargetType;
     status: string;
     cpu?: number;
     memory?: number;
     errorRate?: number;
     lastDeploymentStatus?: string;
+    queue?: QueueMetrics;
+}
+
+export interface QueueMetrics extends QueueLocation {
+    messages: number;
+    inflightMessages: number;
+    /** Another queue in the region uses this one as its dead-letter queue */
+    isDeadLetterQueue: boolean;
+}
+
+export type NotificationChannelType = 'webhook' | 'slack' | 'teams' | 'email';
+export type AlertNotificationKind = 'fired' | 'resolved';
+
+/** One entry of the `anypointMonitor.alerting.channels` setting */
+export interface NotificationChannel {
+    name: string;
+    type: NotificationChannelType;
+    enabled?: boolean;
+    /** Webhook / Slack / Teams incoming webhook URL */
+    url?: string;
+    /** Extra HTTP headers for `webhook` channels */
+    headers?: Record<string, string>;
+    /**
+     * JSON body for `webhook` channels with `{{field}}` placeholders for any
+     * AlertEvent field plus `{{kind}}`. Defaults to the event itself.
+     */
+    bodyTemplate?: string;
+    /** Severities routed to this channel; empty means all */
+    severities?: AlertSeverity[];
+    /** Which transitions are sent; defaults to both */
+    events?: AlertNotificationKind[];
+    smtp?: SmtpSettings;
+}
+
+export interface SmtpSettings {
+    host: string;
+    port?: number;
+    /** Implicit TLS (usually port 465); otherwise STARTTLS is used when offered */
+    secure?: boolean;
+    username?: string;
+    /** Send credentials even when the connection is not encrypted (non-loopback hosts without STARTTLS) */
+    allowInsecureAuth?: boolean;
+    from: string;
+    to: string[];
+}
+
+export interface AlertNotification {
+    kind: AlertNotificationKind;
+    event: AlertEvent;
+}
+
+export interface DeliveryResult {
+    channel: string;
+    eventId: string;
+    kind: AlertNotificationKind;
+    ok: boolean;
+    attempts: number;
+    error?: string;
+}
+
+/** An alert as kept in the persisted history, updated as it is acknowledged and resolved */
+export interface AlertHistoryRecord {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    appName: string;
+    environmentId: string;
+    environmentName: string;
+    severity: AlertSeverity;
+    status: AlertStatus;
+    message: string;
+    firedAt: string;
+    acknowledgedAt?: string;
+    resolvedAt?: string;
+}
+
+export interface AlertFrequency {
+    key: string;
+    label: string;
+    count: number;
+    critical: number;
+    /** Mean time to acknowledge / resolve, over the alerts that were */
+    mttaMs?: number;
+    mttrMs?: number;
+    /** Alerts resolved within the flap window without being acknowledged */
+    flapping: number;
+    apps: number;
+}
+
+export interface AlertAnalytics {
+    from: string;
+    to: string;
+    total: number;
+    critical: number;
+    warning: number;
+    info: number;
+    mttaMs?: number;
+    mttrMs?: number;
+    byRule: AlertFrequency[];
+    byApp: AlertFrequency[];
+    /** Rules that fire most often, flapping ones first: candidates for threshold tuning */
+    noisiest: AlertFrequency[];
+    /** Fired alerts per UTC day, oldest first */
+    daily: Array<{ day: string; count: number }>;
 }
@@ -1,5 +1,4 @@
 import * as vscode from 'vscode';
-import axios from 'axios';
 import JSZip from 'jszip';
 import { AccountService } from '../../controllers/accountService';
 import { ApiHelper } from '../../controllers/apiHelper';
@@ -11,30 +10,22 @@ import {
     discoverDependencies,
     discoverApiContracts,
     discoverApiManagerDependencies,
+    loadDependencyMap,
     AppInfo,
 } from '../../warroom/dependencyMapper';
 import {
     TracedNode,
     TracerGraphData,
-    AppMetrics,
     buildTracerGraph,
     classifyAppHealth,
 } from './graphLayout';
 import { showConnectionTracerPanel } from './dependencyVizPanel';
+import { fetchMetricsForApps } from './inboundMetrics';
+import { downloadAppJar } from '../../warroom/appArtifacts';
 import { telemetryService } from '../../services/telemetryService';
 
-const DATASOURCE_CACHE_TTL = 300000;
 const METRICS_REFRESH_INTERVAL = 30000;
 
-interface CachedDatasource {
-    id: number;
-    database: string;
-    baseUrl: string;
-    fetchedAt: number;
-}
-
-let cachedDatasource: CachedDatasource | undefined;
-
 let outputChannel: vscode.OutputChannel | undefined;
 function log(msg: string): void {
     if (!outputChannel) {
@@ -162,6 +153,7 @@ export async function showDependencyVisualizer(context: vscode.ExtensionContext)
 
         if (contractDeps.status === 'fulfilled') { allDeps.push(...contractDeps.value); }
         if (autodiscoveryDeps.status === 'fulfilled') { allDeps.push(...autodiscoveryDeps.value); }
+        allDeps.push(...loadAsyncDependencies(environmentName));
 
         progress.report({ message: 'Enriching seed app properties...' });
 
@@ -337,6 +329,18 @@ export async function showDependencyVisualizer(context: vscode.ExtensionContext)
     });
 }
 
+/**
+ * Queue and topic edges need every app's JAR to link producers to consumers, so
+ * reuse the ones from the last War Room dependency map build of this environment.
+ */
+function loadAsyncDependencies(environmentName: string): DependencyEntry[] {
+    const map = loadDependencyMap();
+    if (!map || map.environment !== environmentName) { return []; }
+    const asyncDeps = map.dependencies.filter(d => d.via);
+    log(`Loaded ${asyncDeps.length} async dependencies from the saved dependency map`);
+    return asyncDeps;
+}
+
 function clearTracerRefresh(): void {
     if (tracerState?.refreshTimer) {
         clearInterval(tracerState.refreshTimer);
@@ -370,6 +374,7 @@ async function retraceFromApp(context: vscode.ExtensionContext, appName: string)
 
         if (contractDeps.status === 'fulfilled') { allDeps.push(...contractDeps.value); }
         if (autodiscoveryDeps.status === 'fulfilled') { allDeps.push(...autodiscoveryDeps.value); }
+        allDeps.push(...loadAsyncDependencies(environmentName));
 
         const seedApp = allApps.find(a => a.name === appName);
         if (seedApp) {
@@ -557,87 +562,9 @@ async function extractPropertiesFromJar(
     environmentId: string
 ): Promise<Record<string, string>> {
     const props: Record<string, string> = {};
-    const isCH1 = !!app.rawData?.fullDomain;
 
     try {
-        let jarData: ArrayBuffer | undefined;
-
-        if (isCH1) {
-            const domain = app.rawData?.domain || app.name;
-            const encodedDomain = encodeURIComponent(domain);
-            // CH1 API returns "filename" (lowercase n)
-            const fileName = app.rawData?.filename || app.rawData?.fileName;
-            log(`CH1 filename for "${app.name}": ${fileName}`);
-
-            // Strategy 1: CloudHub download endpoint (the correct CH1 pattern)
-            // /cloudhub/api/organizations/{orgId}/environments/{envId}/applications/{domain}/download/{fileName}
-            if (fileName && typeof fileName === 'string') {
-                const downloadUrl = `${baseUrl}/cloudhub/api/organizations/${organizationId}/environments/${environmentId}/applications/${encodedDomain}/download/${encodeURIComponent(fileName)}`;
-                log(`Trying CH1 direct download for "${app.name}": ${downloadUrl}`);
-                jarData = await tryDownloadJar(apiHelper, downloadUrl, environmentId, organizationId);
-                if (jarData) {
-                    log(`CH1 JAR downloaded for "${app.name}" via direct download (${(jarData as any).byteLength || 0} bytes)`);
-                }
-            }
-
-            // Strategy 2: Fallback URL patterns
-            if (!jarData) {
-                const candidateUrls = [
-                    `${baseUrl}/cloudhub/api/organizations/${organizationId}/environments/${environmentId}/applications/${encodedDomain}/download`,
-                    `${baseUrl}/cloudhub/api/v2/applications/${encodedDomain}/artifact`,
-                    `${baseUrl}/cloudhub/api/applications/${encodedDomain}/artifact`,
-                ];
-
-                for (const artifactUrl of candidateUrls) {
-                    log(`Trying CH1 JAR download for "${app.name}": ${artifactUrl}`);
-                    jarData = await tryDownloadJar(apiHelper, artifactUrl, environmentId, organizationId);
-                    if (jarData) {
-                        log(`CH1 JAR downloaded for "${app.name}" (${(jarData as any).byteLength || 0} bytes) from ${artifactUrl}`);
-                        break;
-                    }
-                }
-            }
-
-            // Strategy 3: Try Exchange/GraphQL if fileName has coordinates
-            if (!jarData && fileName && typeof fileName === 'string') {
-                const coords = parseFileNameCoordinates(fileName, organizationId);
-                if (coords) {
-                    log(`CH1 Exchange coordinates from fileName "${fileName}": ${coords.groupId}/${coords.artifactId}/${coords.version}`);
-                    jarData = await downloadJarFromExchange(apiHelper, baseUrl, coords.groupId, coords.artifactId, coords.version);
-                    if (jarData) {
-                        log(`CH1 JAR downloaded via Exchange for "${app.name}" (${(jarData as any).byteLength || 0} bytes)`);
-                    }
-                }
-            }
-        } else {
-            // CH2: try GraphQL → S3 download for the artifact
-            const ref = app.rawData?.application?.ref;
-            if (ref?.groupId && ref?.artifactId && ref?.version) {
-                log(`Downloading CH2 JAR for "${app.name}" via GraphQL (${ref.groupId}/${ref.artifactId}/${ref.version})`);
-                try {
-                    const gqlResp = await apiHelper.post(`${baseUrl}/graph/api/v2/graphql`, {
-                        query: `query asset { asset(groupId:"${ref.groupId}", assetId:"${ref.artifactId}", version:"${ref.version}") { files { classifier packaging externalLink } } }`
-                    });
-                    if (gqlResp.status === 200) {
-                        const files = gqlResp.data?.data?.asset?.files || [];
-                        const jarFile = files.find((f: any) => f.packaging === 'jar' && f.externalLink);
-                        if (jarFile?.externalLink) {
-                            const s3Resp = await axios.get(jarFile.externalLink, {
-                                responseType: 'arraybuffer',
-                                timeout: 30000,
-                                validateStatus: (status: number) => (status ?? 0) < 500,
-                            });
-                            if (s3Resp.status === 200 && s3Resp.data) {
-                                jarData = s3Resp.data;
-                                log(`CH2 JAR downloaded for "${app.name}" (${(s3Resp.data as any).byteLength || 'unknown'} bytes)`);
-                            }
-                        }
-                    }
-                } catch (gqlErr: any) {
-                    log(`CH2 GraphQL JAR fetch failed for "${app.name}": ${gqlErr.message}`);
-                }
-            }
-        }
+        const jarData = await downloadAppJar(app, apiHelper, baseUrl, organizationId, environmentId, log);
 
         if (!jarData) {
             log(`No JAR available for "${app.name}", skipping .properties extraction`);
@@ -718,236 +645,3 @@ function parseYamlProperties(content: string, result: Record<string, string>): v
         }
     }
 }
-
-async function tryDownloadJar(
-    apiHelper: ApiHelper,
-    url: string,
-    environmentId: string,
-    organizationId: string
-): Promise<ArrayBuffer | undefined> {
-    try {
-        const resp = await apiHelper.get(url, {
-            headers: {
-                'X-ANYPNT-ENV-ID': environmentId,
-                'X-ANYPNT-ORG-ID': organizationId,
-                'Accept': 'application/java-archive, application/zip, application/octet-stream',
-            },
-            responseType: 'arraybuffer',
-            timeout: 30000,
-            validateStatus: (status: number) => (status ?? 0) < 500,
-        });
-        if (resp.status === 200 && resp.data) {
-            const size = (resp.data as any).byteLength || 0;
-            const contentType = resp.headers?.['content-type'] || '';
-            if (size > 1000 && !contentType.includes('text/html')) {
-                return resp.data;
-            }
-            log(`JAR response too small (${size} bytes) or HTML from ${url}`);
-        } else {
-            log(`JAR download returned status ${resp.status} from ${url}`);
-        }
-    } catch (e: any) {
-        log(`JAR download failed: ${e.message}`);
-    }
-    return undefined;
-}
-
-function parseFileNameCoordinates(fileName: string, fallbackGroupId: string): { groupId: string; artifactId: string; version: string } | undefined {
-    // CH1 fileName formats:
-    //   "bonfire-1.0.0-mule-application.jar"
-    //   "cisco-meraki-nx-am-papi-2.3.1-mule-application.jar"
-    //   Coordinates: groupId = orgId, artifactId = name part, version = version part
-    const match = fileName.match(/^(.+?)-(\d+\.\d+\.\d+(?:-SNAPSHOT)?)-mule-application\.jar$/i);
-    if (match) {
-        return { groupId: fallbackGroupId, artifactId: match[1], version: match[2] };
-    }
-    return undefined;
-}
-
-async function downloadJarFromExchange(
-    apiHelper: ApiHelper,
-    baseUrl: string,
-    groupId: string,
-    artifactId: string,
-    version: string
-): Promise<ArrayBuffer | undefined> {
-    // Strategy A: GraphQL to get S3 presigned URL
-    try {
-        log(`Exchange download: trying GraphQL for ${groupId}/${artifactId}/${version}`);
-        const gqlResp = await apiHelper.post(`${baseUrl}/graph/api/v2/graphql`, {
-            query: `query asset { asset(groupId:"${groupId}", assetId:"${artifactId}", version:"${version}") { files { classifier packaging externalLink } } }`
-        });
-        if (gqlResp.status === 200) {
-            const files = gqlResp.data?.data?.asset?.files || [];
-            const jarFile = files.find((f: any) => f.packaging === 'jar' && f.externalLink);
-            if (jarFile?.externalLink) {
-                log(`Exchange download: found S3 link for ${artifactId}`);
-                const s3Resp = await axios.get(jarFile.externalLink, {
-                    responseType: 'arraybuffer',
-                    timeout: 30000,
-                    validateStatus: (status: number) => (status ?? 0) < 500,
-                });
-                if (s3Resp.status === 200 && s3Resp.data) {
-                    return s3Resp.data;
-                }
-                log(`Exchange download: S3 returned status ${s3Resp.status}`);
-            } else {
-                log(`Exchange download: no JAR with externalLink found (${files.length} files)`);
-            }
-        }
-    } catch (e: any) {
-        log(`Exchange download: GraphQL failed: ${e.message}`);
-    }
-
-    // Strategy B: Maven Facade API
-    try {
-        const groupPath = groupId.replace(/\./g, '/');
-        const mavenUrl = `https://maven.anypoint.mulesoft.com/api/v3/organizations/${groupId}/maven/${groupPath}/${artifactId}/${version}/${artifactId}-${version}-mule-application.jar`;
-        log(`Exchange download: trying Maven Facade ${mavenUrl}`);
-        const mvnResp = await apiHelper.get(mavenUrl, {
-            responseType: 'arraybuffer',
-            timeout: 30000,
-            validateStatus: (status: number) => (status ?? 0) < 500,
-        });
-        if (mvnResp.status === 200 && mvnResp.data) {
-            const size = (mvnResp.data as any).byteLength || 0;
-            if (size > 1000) {
-                log(`Exchange download: Maven Facade success (${size} bytes)`);
-                return mvnResp.data;
-            }
-        }
-        log(`Exchange download: Maven Facade returned status ${mvnResp.status}`);
-    } catch (e: any) {
-        log(`Exchange download: Maven Facade failed: ${e.message}`);
-    }
-
-    // Strategy C: Exchange API
-    try {
-        const exchangeUrl = `${baseUrl}/exchange/api/v2/assets/${groupId}/${artifactId}/${version}/artifact`;
-        log(`Exchange download: trying Exchange API ${exchangeUrl}`);
-        const exResp = await apiHelper.get(exchangeUrl, {
-            responseType: 'arraybuffer',
-            timeout: 30000,
-            validateStatus: (status: number) => (status ?? 0) < 500,
-        });
-        if (exResp.status === 200 && exResp.data) {
-            const size = (exResp.data as any).byteLength || 0;
-            if (size > 1000) {
-                log(`Exchange download: Exchange API success (${size} bytes)`);
-                return exResp.data;
-            }
-        }
-        log(`Exchange download: Exchange API returned status ${exResp.status}`);
-    } catch (e: any) {
-        log(`Exchange download: Exchange API failed: ${e.message}`);
-    }
-
-    return undefined;
-}
-
-async function fetchMetricsForApps(
-    appNames: string[],
-    baseUrl: string,
-    accessToken: string,
-    organizationId: string,
-    environmentId: string
-): Promise<Map<string, AppMetrics>> {
-    const metricsMap = new Map<string, AppMetrics>();
-    const datasource = await getVisualizerDatasource(baseUrl, accessToken);
-    if (!datasource) { return metricsMap; }
-
-    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
-    const batchSize = 5;
-
-    for (let i = 0; i < appNames.length; i += batchSize) {
-        const batch = appNames.slice(i, i + batchSize);
-        await Promise.allSettled(batch.map(async (appName) => {
-            try {
-                const condition = `("org_id" = '${organizationId}' AND "env_id" = '${environmentId}' AND "app_id" = '${appName}')`;
-
-                const totalReqQuery = `SELECT sum("avg_request_count") FROM "app_inbound_metric" WHERE ${condition} AND time >= now() - 15m GROUP BY time(1m) fill(0) tz('${timezone}')`;
-                const failedReqQuery = `SELECT sum("avg_request_count") FROM "app_inbound_metric" WHERE ${condition} AND "response_type" = 'FAILED' AND time >= now() - 15m GROUP BY time(1m) fill(0) tz('${timezone}')`;
-                const responseTimeQuery = `SELECT percentile("avg_response_time", 75) FROM "app_inbound_metric" WHERE ${condition} AND time >= now() - 15m GROUP BY time(1m) fill(none) tz('${timezone}')`;
-
-                const proxyUrl = `${datasource.baseUrl}/monitoring/api/visualizer/api/datasources/proxy/${datasource.id}/query`;
-                const authHeaders = { 'Authorization': `Bearer ${accessToken}` };
-
-                const [totalResp, failedResp, rtResp] = await Promise.allSettled([
-                    axios.get(proxyUrl, { params: { db: `"${datasource.database}"`, q: totalReqQuery, epoch: 'ms' }, headers: authHeaders, timeout: 8000 }),
-                    axios.get(proxyUrl, { params: { db: `"${datasource.database}"`, q: failedReqQuery, epoch: 'ms' }, headers: authHeaders, timeout: 8000 }),
-                    axios.get(proxyUrl, { params: { db: `"${datasource.database}"`, q: responseTimeQuery, epoch: 'ms' }, headers: authHeaders, timeout: 8000 }),
-                ]);
-
-                const totalRequests = sumSeriesValues(totalResp);
-                const failedRequests = sumSeriesValues(failedResp);
-                const avgResponseTimeMs = averageSeriesValues(rtResp);
-
-                const minutes = 15;
-                const requestsPerMin = totalRequests > 0 ? Math.round(totalRequests / minutes) : 0;
-                const errorRate = totalRequests > 0 ? (failedRequests / totalRequests) * 100 : 0;
-
-                metricsMap.set(appName, {
-                    requestsPerMin,
-                    errorRate: Math.round(errorRate * 100) / 100,
-                    avgResponseTimeMs: Math.round(avgResponseTimeMs),
-                    failedRequests: Math.round(failedRequests),
-                    totalRequests: Math.round(totalRequests),
-                });
-            } catch { /* metrics unavailable for this app */ }
-        }));
-
-        if (i + batchSize < appNames.length) {
-            await new Promise(r => setTimeout(r, 200));
-        }
-    }
-
-    return metricsMap;
-}
-
-function sumSeriesValues(result: PromiseSettledResult<any>): number {
-    if (result.status !== 'fulfilled') { return 0; }
-    try {
-        const series = result.value.data?.results?.[0]?.series?.[0]?.values || [];
-        return series.reduce((sum: number, point: any[]) => sum + (point[1] || 0), 0);
-    } catch { return 0; }
-}
-
-function averageSeriesValues(result: PromiseSettledResult<any>): number {
-    if (result.status !== 'fulfilled') { return 0; }
-    try {
-        const series = result.value.data?.results?.[0]?.series?.[0]?.values || [];
-        const validPoints = series.filter((p: any[]) => p[1] !== null && p[1] !== undefined);
-        if (validPoints.length === 0) { return 0; }
-        const sum = validPoints.reduce((s: number, p: any[]) => s + p[1], 0);
-        return sum / validPoints.length;
-    } catch { return 0; }
-}
-
-async function getVisualizerDatasource(baseUrl: string, accessToken: string): Promise<CachedDatasource | undefined> {
-    if (cachedDatasource && (Date.now() - cachedDatasource.fetchedAt) < DATASOURCE_CACHE_TTL) {
-        return cachedDatasource;
-    }
-
-    try {
-        const resp = await axios.get(`${baseUrl}/monitoring/api/visualizer/api/bootdata`, {
-            headers: { 'Authorization': `Bearer ${accessToken}` },
-            timeout: 10000
-        });
-
-        const datasources = resp.data?.Settings?.datasources || [];
-        const influx = datasources.find((d: any) => d.name === 'influxdb')
-            || datasources.find((d: any) => d.type === 'influxdb' || d.meta?.id === 'influxdb');
-
-        if (!influx) { return undefined; }
-
-        cachedDatasource = {
-            id: influx.id,
-            database: influx.database || influx.jsonData?.database || 'anypoint_monitoring',
-            baseUrl,
-            fetchedAt: Date.now()
-        };
-        return cachedDatasource;
-    } catch {
-        return undefined;
-    }
-}
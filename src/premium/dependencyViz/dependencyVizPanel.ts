@@ -52,6 +52,7 @@ function getTracerHtml(graphData: TracerGraphData): string {
                         <div class="ct-legend-item"><svg width="30" height="6"><line x1="0" y1="3" x2="30" y2="3" stroke="var(--am-success)" stroke-width="2.5"/></svg> API Contract (high)</div>
                         <div class="ct-legend-item"><svg width="30" height="6"><line x1="0" y1="3" x2="30" y2="3" stroke="var(--am-success)" stroke-width="1.5" stroke-dasharray="6,3"/></svg> Property / Autodiscovery</div>
                         <div class="ct-legend-item"><svg width="30" height="6"><line x1="0" y1="3" x2="30" y2="3" stroke="var(--am-success)" stroke-width="1" stroke-dasharray="2,3"/></svg> Naming Convention</div>
+                        <div class="ct-legend-item"><svg width="30" height="6"><line x1="0" y1="3" x2="30" y2="3" stroke="var(--am-success)" stroke-width="2" stroke-dasharray="2,5"/></svg> Async (queue / topic)</div>
                     </div>
                     <div class="ct-empty-state" id="emptyState" style="display:none">
                         <h3>No connections discovered</h3>
@@ -255,6 +256,7 @@ function getNodeRadius(node) { return node.isSeed ? 24 : node.type === 'EXTERNAL
 function getNodeColor(node) { return node.type === 'EXTERNAL' ? '#c586c0' : (HEALTH_COLORS[node.health] || HEALTH_COLORS.nodata); }
 function getEdgeStyle(edge) {
     const color = HEALTH_COLORS[edge.health] || HEALTH_COLORS.nodata;
+    if (edge.via) { return { dash: [2, 5], width: 2, color }; }
     switch (edge.confidence) {
         case 'high': return { dash: [], width: 2.5, color };
         case 'medium': return { dash: [8, 4], width: 1.8, color };
@@ -1,4 +1,5 @@
 import { DependencyEntry } from '../../warroom/types';
+import { formatAsyncChannel } from '../../warroom/muleConfigDependencies';
 
 export type ConnectionHealth = 'healthy' | 'degraded' | 'failing' | 'nodata';
 
@@ -35,6 +36,8 @@ export interface TracedEdge {
     apiName?: string;
     contractId?: string;
     targetUrl?: string;
+    /** Message channel for asynchronous edges, e.g. "Anypoint MQ orders-queue" */
+    via?: string;
 }
 
 export interface TracerGraphData {
@@ -119,14 +122,16 @@ export function buildTracerGraph(
     for (const dep of deps) {
         if (!nodeMap.has(dep.sourceApp) && !nodeMap.has(dep.targetApp)) { continue; }
         const sourceMetrics = metricsMap.get(dep.sourceApp);
+        const via = dep.via ? formatAsyncChannel(dep.via) : undefined;
         edges.push({
             source: dep.sourceApp,
             target: dep.targetApp,
             discoveryMethod: dep.discoveryMethod,
-            discoveryLabel: getDiscoveryLabel(dep.discoveryMethod),
+            discoveryLabel: via ? `Async via ${via}` : getDiscoveryLabel(dep.discoveryMethod),
             confidence: dep.confidence,
             health: classifyHealth(sourceMetrics),
             targetUrl: dep.targetUrl,
+            via,
         });
     }
 
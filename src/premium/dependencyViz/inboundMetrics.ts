@@ -0,0 +1,132 @@
+import axios from 'axios';
+import { AppMetrics } from './graphLayout';
+
+const DATASOURCE_CACHE_TTL = 300000;
+const METRICS_BATCH_SIZE = 5;
+const LIVE_WINDOW_MINUTES = 15;
+
+interface CachedDatasource {
+    id: number;
+    database: string;
+    baseUrl: string;
+    fetchedAt: number;
+}
+
+let cachedDatasource: CachedDatasource | undefined;
+
+/**
+ * Inbound request metrics per app from the `app_inbound_metric` series.
+ * Without a window the last 15 minutes are queried (the live tracer view);
+ * the War Room passes its incident window instead.
+ */
+export async function fetchMetricsForApps(
+    appNames: string[],
+    baseUrl: string,
+    accessToken: string,
+    organizationId: string,
+    environmentId: string,
+    timeWindow?: { start: Date; end: Date }
+): Promise<Map<string, AppMetrics>> {
+    const metricsMap = new Map<string, AppMetrics>();
+    const datasource = await getVisualizerDatasource(baseUrl, accessToken);
+    if (!datasource) { return metricsMap; }
+
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    const range = timeWindow
+        ? `time >= ${timeWindow.start.getTime()}ms AND time <= ${timeWindow.end.getTime()}ms`
+        : `time >= now() - ${LIVE_WINDOW_MINUTES}m`;
+    const minutes = timeWindow
+        ? Math.max(1, (timeWindow.end.getTime() - timeWindow.start.getTime()) / 60000)
+        : LIVE_WINDOW_MINUTES;
+
+    for (let i = 0; i < appNames.length; i += METRICS_BATCH_SIZE) {
+        const batch = appNames.slice(i, i + METRICS_BATCH_SIZE);
+        await Promise.allSettled(batch.map(async (appName) => {
+            try {
+                const condition = `("org_id" = '${organizationId}' AND "env_id" = '${environmentId}' AND "app_id" = '${appName}')`;
+
+                const totalReqQuery = `SELECT sum("avg_request_count") FROM "app_inbound_metric" WHERE ${condition} AND ${range} GROUP BY time(1m) fill(0) tz('${timezone}')`;
+                const failedReqQuery = `SELECT sum("avg_request_count") FROM "app_inbound_metric" WHERE ${condition} AND "response_type" = 'FAILED' AND ${range} GROUP BY time(1m) fill(0) tz('${timezone}')`;
+                const responseTimeQuery = `SELECT percentile("avg_response_time", 75) FROM "app_inbound_metric" WHERE ${condition} AND ${range} GROUP BY time(1m) fill(none) tz('${timezone}')`;
+
+                const proxyUrl = `${datasource.baseUrl}/monitoring/api/visualizer/api/datasources/proxy/${datasource.id}/query`;
+                const authHeaders = { 'Authorization': `Bearer ${accessToken}` };
+
+                const [totalResp, failedResp, rtResp] = await Promise.allSettled([
+                    axios.get(proxyUrl, { params: { db: `"${datasource.database}"`, q: totalReqQuery, epoch: 'ms' }, headers: authHeaders, timeout: 8000 }),
+                    axios.get(proxyUrl, { params: { db: `"${datasource.database}"`, q: failedReqQuery, epoch: 'ms' }, headers: authHeaders, timeout: 8000 }),
+                    axios.get(proxyUrl, { params: { db: `"${datasource.database}"`, q: responseTimeQuery, epoch: 'ms' }, headers: authHeaders, timeout: 8000 }),
+                ]);
+
+                const totalRequests = sumSeriesValues(totalResp);
+                const failedRequests = sumSeriesValues(failedResp);
+                const avgResponseTimeMs = averageSeriesValues(rtResp);
+
+                const requestsPerMin = totalRequests > 0 ? Math.round(totalRequests / minutes) : 0;
+                const errorRate = totalRequests > 0 ? (failedRequests / totalRequests) * 100 : 0;
+
+                metricsMap.set(appName, {
+                    requestsPerMin,
+                    errorRate: Math.round(errorRate * 100) / 100,
+                    avgResponseTimeMs: Math.round(avgResponseTimeMs),
+                    failedRequests: Math.round(failedRequests),
+                    totalRequests: Math.round(totalRequests),
+                });
+            } catch { /* metrics unavailable for this app */ }
+        }));
+
+        if (i + METRICS_BATCH_SIZE < appNames.length) {
+            await new Promise(r => setTimeout(r, 200));
+        }
+    }
+
+    return metricsMap;
+}
+
+function sumSeriesValues(result: PromiseSettledResult<any>): number {
+    if (result.status !== 'fulfilled') { return 0; }
+    try {
+        const series = result.value.data?.results?.[0]?.series?.[0]?.values || [];
+        return series.reduce((sum: number, point: any[]) => sum + (point[1] || 0), 0);
+    } catch { return 0; }
+}
+
+function averageSeriesValues(result: PromiseSettledResult<any>): number {
+    if (result.status !== 'fulfilled') { return 0; }
+    try {
+        const series = result.value.data?.results?.[0]?.series?.[0]?.values || [];
+        const validPoints = series.filter((p: any[]) => p[1] !== null && p[1] !== undefined);
+        if (validPoints.length === 0) { return 0; }
+        const sum = validPoints.reduce((s: number, p: any[]) => s + p[1], 0);
+        return sum / validPoints.length;
+    } catch { return 0; }
+}
+
+async function getVisualizerDatasource(baseUrl: string, accessToken: string): Promise<CachedDatasource | undefined> {
+    if (cachedDatasource && (Date.now() - cachedDatasource.fetchedAt) < DATASOURCE_CACHE_TTL) {
+        return cachedDatasource;
+    }
+
+    try {
+        const resp = await axios.get(`${baseUrl}/monitoring/api/visualizer/api/bootdata`, {
+            headers: { 'Authorization': `Bearer ${accessToken}` },
+            timeout: 10000
+        });
+
+        const datasources = resp.data?.Settings?.datasources || [];
+        const influx = datasources.find((d: any) => d.name === 'influxdb')
+            || datasources.find((d: any) => d.type === 'influxdb' || d.meta?.id === 'influxdb');
+
+        if (!influx) { return undefined; }
+
+        cachedDatasource = {
+            id: influx.id,
+            database: influx.database || influx.jsonData?.database || 'anypoint_monitoring',
+            baseUrl,
+            fetchedAt: Date.now()
+        };
+        return cachedDatasource;
+    } catch {
+        return undefined;
+    }
+}
@@ -3,6 +3,7 @@ import {
     DependencyEntry,
     BlastRadius,
     WarRoomData,
+    WarRoomReport,
     WarRoomConfig,
     AppWarRoomData,
     TimelineEvent,
@@ -206,6 +207,21 @@ export function createWarRoomData(overrides?: Partial<WarRoomData>): WarRoomData
     };
 }
 
+export function createWarRoomReport(overrides?: Partial<WarRoomReport>): WarRoomReport {
+    const data = createWarRoomData();
+    return {
+        config: data.config,
+        blastRadius: data.blastRadius,
+        timeline: [],
+        correlations: [],
+        apps: data.apps,
+        collectionErrors: [],
+        collectionTime: data.collectionTime,
+        generatedAt: '2026-02-27T09:31:00Z',
+        ...overrides
+    };
+}
+
 // ── Scenario Builders ────────────────────────────────────────────────────
 
 /**
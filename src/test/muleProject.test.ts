@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 
-import { parseMuleProject, MuleProject } from '../utils/muleProject';
+import { parseMuleProject, MuleProject, errorTypeMatches, findErrorHandlers, describeErrorHandler, locateMuleElements } from '../utils/muleProject';
 import { buildHeuristicNarrative } from '../utils/muleProjectSummary';
 
 const MULE_NS = 'xmlns="http://www.mulesoft.org/schema/mule/core"';
@@ -72,6 +72,22 @@ suite('Mule project parser', () => {
         assert.strictEqual(http!.kind, 'http');
     });
 
+    test('captures the nested connection element of connector configs', () => {
+        const p = project({
+            'src/main/mule/global.xml': `<?xml version="1.0"?>
+                <mule ${MULE_NS} ${DB_NS}>
+                    <db:config name="Orders_DB">
+                        <db:my-sql-connection host="orders-db.internal" port="3306" database="orders"/>
+                    </db:config>
+                </mule>`,
+        });
+
+        const db = p.connectorConfigs.find(c => c.name === 'Orders_DB');
+        assert.ok(db, 'db:config should be detected');
+        assert.strictEqual(db!.connection?.localName, 'my-sql-connection');
+        assert.strictEqual(db!.connection?.attributes.host, 'orders-db.internal');
+    });
+
     test('extracts schedulers (cron + fixed-frequency)', () => {
         const p = project({
             'src/main/mule/schedules.xml': `<?xml version="1.0"?>
@@ -353,6 +369,230 @@ mq.queue=orders.in
         assert.strictEqual(p.listeners[0].path, '${unknown.key}');
     });
 
+    test('builds an error catalog of raised types and the handlers covering them', () => {
+        const p = project({
+            'src/main/mule/orders.xml': `<?xml version="1.0"?>
+                <mule ${MULE_NS}>
+                    <configuration defaultErrorHandler-ref="api-errors"/>
+                    <error-handler name="api-errors">
+                        <on-error-propagate type="APP:VALIDATION, HTTP:BAD_REQUEST"/>
+                    </error-handler>
+                    <flow name="create-order">
+                        <choice>
+                            <when expression="#[payload.total > 5000]">
+                                <raise-error type="APP:CREDIT_BLOCKED" description="Over limit"/>
+                            </when>
+                        </choice>
+                        <try>
+                            <raise-error type="APP:STOCK"/>
+                            <error-handler>
+                                <on-error-continue type="APP:STOCK" when="#[vars.retry]"/>
+                            </error-handler>
+                        </try>
+                        <flow-ref name="validate"/>
+                        <error-handler>
+                            <on-error-continue type="APP:CREDIT_BLOCKED"/>
+                            <on-error-propagate>
+                                <raise-error type="APP:ORDER_FAILED"/>
+                            </on-error-propagate>
+                        </error-handler>
+                    </flow>
+                    <sub-flow name="validate">
+                        <raise-error type="APP:VALIDATION"/>
+                    </sub-flow>
+                    <flow name="sync-sap">
+                        <raise-error type="APP:VALIDATION"/>
+                        <raise-error type="SAP:REJECTED"/>
+                    </flow>
+                </mule>`,
+        });
+        const catalog = p.errorCatalog;
+
+        assert.strictEqual(catalog.defaultErrorHandler, 'api-errors');
+        assert.deepStrictEqual(catalog.raised.map(r => `${r.flowName}:${r.type}:${r.location}`), [
+            'create-order:APP:CREDIT_BLOCKED:flow',
+            'create-order:APP:STOCK:try',
+            'create-order:APP:ORDER_FAILED:error-handler',
+            'validate:APP:VALIDATION:flow',
+            'sync-sap:APP:VALIDATION:flow',
+            'sync-sap:SAP:REJECTED:flow',
+        ]);
+        assert.strictEqual(catalog.raised[0].description, 'Over limit');
+
+        const byType = new Map(catalog.types.map(t => [t.type, t]));
+        assert.deepStrictEqual(Array.from(byType.keys()), [
+            'APP:CREDIT_BLOCKED', 'APP:ORDER_FAILED', 'APP:STOCK', 'APP:VALIDATION', 'HTTP:BAD_REQUEST', 'SAP:REJECTED',
+        ]);
+        assert.deepStrictEqual(byType.get('APP:CREDIT_BLOCKED')!.handledBy, [
+            'on-error-continue in create-order',
+            'on-error-propagate in create-order',
+        ]);
+        assert.deepStrictEqual(byType.get('APP:STOCK')!.handledBy, [
+            'on-error-continue in try scope of create-order (when #[vars.retry])',
+            'on-error-propagate in create-order',
+        ]);
+        // Raised inside the flow's own error handler: nothing in the flow can catch it
+        assert.deepStrictEqual(byType.get('APP:ORDER_FAILED')!.unhandledIn, ['create-order']);
+        // The sub-flow inherits create-order's handlers; sync-sap falls back to the default handler
+        assert.deepStrictEqual(byType.get('APP:VALIDATION')!.unhandledIn, []);
+        assert.deepStrictEqual(byType.get('APP:VALIDATION')!.handledBy, [
+            'on-error-propagate in create-order',
+            'on-error-propagate in global handler api-errors',
+        ]);
+        assert.deepStrictEqual(byType.get('SAP:REJECTED')!.unhandledIn, ['sync-sap']);
+        assert.deepStrictEqual(byType.get('HTTP:BAD_REQUEST')!.raisedIn, []);
+
+        const globalHandler = catalog.handlers.find(h => h.scope === 'global')!;
+        assert.deepStrictEqual(globalHandler.coversFlows, ['sync-sap']);
+    });
+
+    test('credits a raise inside a try only to handlers that error can reach', () => {
+        const p = project({
+            'src/main/mule/payments.xml': `<?xml version="1.0"?>
+                <mule ${MULE_NS}>
+                    <flow name="charge">
+                        <try>
+                            <raise-error type="APP:DECLINED"/>
+                            <error-handler>
+                                <on-error-propagate type="APP:TIMEOUT"/>
+                            </error-handler>
+                        </try>
+                        <try>
+                            <raise-error type="APP:TIMEOUT"/>
+                            <error-handler>
+                                <on-error-continue type="APP:DECLINED"/>
+                            </error-handler>
+                        </try>
+                        <try>
+                            <try>
+                                <raise-error type="APP:FRAUD"/>
+                                <error-handler>
+                                    <on-error-continue type="APP:FRAUD"/>
+                                </error-handler>
+                            </try>
+                            <error-handler>
+                                <on-error-propagate type="APP:FRAUD"/>
+                            </error-handler>
+                        </try>
+                    </flow>
+                    <flow name="refund">
+                        <error-handler>
+                            <on-error-continue type="APP:DECLINED"/>
+                        </error-handler>
+                    </flow>
+                </mule>`,
+        });
+        const catalog = p.errorCatalog;
+        const byType = new Map(catalog.types.map(t => [t.type, t]));
+
+        // The sibling try's on-error-continue and refund's handler never see it
+        assert.deepStrictEqual(byType.get('APP:DECLINED')!.handledBy, []);
+        assert.deepStrictEqual(byType.get('APP:DECLINED')!.unhandledIn, ['charge']);
+        assert.deepStrictEqual(byType.get('APP:TIMEOUT')!.handledBy, []);
+        assert.deepStrictEqual(byType.get('APP:TIMEOUT')!.unhandledIn, ['charge']);
+        // The inner try continues, so the outer try's handler is never reached
+        assert.deepStrictEqual(byType.get('APP:FRAUD')!.handledBy, ['on-error-continue in try scope of charge']);
+
+        const [declined, timeout, fraud] = catalog.raised;
+        assert.notDeepStrictEqual(declined.enclosingTries, timeout.enclosingTries);
+        assert.strictEqual(fraud.enclosingTries.length, 2);
+        assert.strictEqual(
+            catalog.handlers.find(h => h.types.includes('APP:TIMEOUT'))!.tryId,
+            declined.enclosingTries[0]
+        );
+    });
+
+    test('resolves error-handler and on-error references to global declarations', () => {
+        const p = project({
+            'src/main/mule/global.xml': `<?xml version="1.0"?>
+                <mule ${MULE_NS}>
+                    <on-error-continue name="log-and-continue" type="ANY"/>
+                    <error-handler name="shared">
+                        <on-error-propagate type="HTTP:CONNECTIVITY"/>
+                    </error-handler>
+                </mule>`,
+            'src/main/mule/api.xml': `<?xml version="1.0"?>
+                <mule ${MULE_NS}>
+                    <flow name="call-partner">
+                        <error-handler ref="shared"/>
+                    </flow>
+                    <flow name="nightly-job">
+                        <error-handler>
+                            <on-error ref="log-and-continue"/>
+                        </error-handler>
+                    </flow>
+                    <flow name="no-handler"/>
+                </mule>`,
+        });
+        const catalog = p.errorCatalog;
+
+        assert.deepStrictEqual(
+            findErrorHandlers(catalog, 'HTTP:CONNECTIVITY', 'call-partner').map(describeErrorHandler),
+            ['on-error-propagate in global handler shared']
+        );
+        assert.deepStrictEqual(findErrorHandlers(catalog, 'HTTP:TIMEOUT', 'call-partner'), []);
+        assert.deepStrictEqual(
+            findErrorHandlers(catalog, 'DB:QUERY_EXECUTION', 'nightly-job').map(describeErrorHandler),
+            ['on-error-continue in nightly-job']
+        );
+        assert.deepStrictEqual(findErrorHandlers(catalog, 'APP:ANY_ERROR', 'no-handler'), []);
+    });
+
+    test('matches handler error types like the Mule runtime', () => {
+        assert.ok(errorTypeMatches('APP:CREDIT_BLOCKED', 'app:credit_blocked'));
+        assert.ok(errorTypeMatches('ANY', 'APP:CREDIT_BLOCKED'));
+        assert.ok(errorTypeMatches('MULE:ANY', 'HTTP:TIMEOUT'));
+        assert.ok(errorTypeMatches('CONNECTIVITY', 'HTTP:CONNECTIVITY'));
+        assert.ok(errorTypeMatches('*:TIMEOUT', 'SOCKETS:TIMEOUT'));
+        assert.ok(errorTypeMatches('APP:*', 'APP:STOCK'));
+        assert.ok(!errorTypeMatches('APP:*', 'HTTP:TIMEOUT'));
+        assert.ok(!errorTypeMatches('HTTP:CONNECTIVITY', 'HTTP:TIMEOUT'));
+    });
+
+    test('locates flows and processors by component location with line and column', () => {
+        const xml = [
+            '<?xml version="1.0"?>',
+            `<mule ${MULE_NS} ${HTTP_NS}>`,
+            '    <flow name="order-flow">',
+            '        <http:listener config-ref="api" path="/orders"/>',
+            '        <try>',
+            '            <flow-ref name="validate" doc:id="ref-1"/>',
+            '            <error-handler>',
+            '                <on-error-continue><logger message="retry"/></on-error-continue>',
+            '            </error-handler>',
+            '        </try>',
+            '        <scatter-gather>',
+            '            <route><logger message="a"/></route>',
+            '            <route><logger message="b" doc:name="Log B"/></route>',
+            '        </scatter-gather>',
+            '    </flow>',
+            '    <sub-flow name="validate"><logger message="v"/></sub-flow>',
+            '</mule>',
+        ].join('\n');
+
+        const located = locateMuleElements(xml).map(e => `${e.path}@${e.line}:${e.column}`);
+        assert.deepStrictEqual(located, [
+            'order-flow@2:4',
+            'order-flow/source@3:8',
+            'order-flow/processors/0@4:8',
+            'order-flow/processors/0/processors/0@5:12',
+            'order-flow/processors/0/errorHandler/0@7:16',
+            'order-flow/processors/0/errorHandler/0/processors/0@7:35',
+            'order-flow/processors/1@10:8',
+            'order-flow/processors/1/route/0@11:12',
+            'order-flow/processors/1/route/0/processors/0@11:19',
+            'order-flow/processors/1/route/1@12:12',
+            'order-flow/processors/1/route/1/processors/0@12:19',
+            'validate@15:4',
+            'validate/processors/0@15:30',
+        ]);
+
+        const elements = locateMuleElements(xml);
+        assert.strictEqual(elements.find(e => e.docId === 'ref-1')!.tagName, 'flow-ref');
+        assert.strictEqual(elements.find(e => e.docName === 'Log B')!.flowName, 'order-flow');
+        assert.deepStrictEqual(locateMuleElements('<mule><flow name="x"><logger/></flow></mule'), []);
+    });
+
     test('returns empty project gracefully when no Mule files are present', () => {
         const p = project({
             'README.md': '# Just a readme',
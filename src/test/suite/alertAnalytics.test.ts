@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import {
+    buildWeeklySummaryMarkdown,
+    computeAlertAnalytics,
+    formatDuration,
+    mergeHistoryRecords
+} from '../../premium/alerting/alertAnalytics';
+import { AlertEvent, AlertHistoryRecord } from '../../premium/alerting/types';
+
+const MIN = 60 * 1000;
+const T0 = Date.parse('2026-03-02T09:00:00.000Z');
+
+function record(id: string, overrides: Partial<AlertHistoryRecord> = {}): AlertHistoryRecord {
+    return {
+        id,
+        ruleId: 'cpu_high',
+        ruleName: 'High CPU Usage',
+        appName: 'order-api',
+        environmentId: 'env-1',
+        environmentName: 'Production',
+        severity: 'warning',
+        status: 'resolved',
+        message: 'order-api CPU at 90.0% (threshold: 85%)',
+        firedAt: new Date(T0).toISOString(),
+        ...overrides
+    };
+}
+
+const at = (offsetMs: number) => new Date(T0 + offsetMs).toISOString();
+
+suite('AlertAnalytics Test Suite', () => {
+
+    suite('mergeHistoryRecords', () => {
+
+        test('should upsert by id, keep the first acknowledgement and prune old records', () => {
+            const existing = [
+                record('a', { status: 'acknowledged', acknowledgedAt: at(2 * MIN), resolvedAt: undefined }),
+                record('old', { firedAt: at(-100 * 24 * 60 * MIN) })
+            ];
+            const update = { ...record('a'), appType: 'CH2', currentValue: 90, threshold: 85, acknowledgedAt: at(9 * MIN), resolvedAt: at(20 * MIN) } as AlertEvent;
+
+            const merged = mergeHistoryRecords(existing, [update], T0 - 90 * 24 * 60 * MIN);
+
+            assert.deepStrictEqual(merged.map(r => r.id), ['a']);
+            assert.strictEqual(merged[0].acknowledgedAt, at(2 * MIN));
+            assert.strictEqual(merged[0].resolvedAt, at(20 * MIN));
+            assert.strictEqual((merged[0] as any).currentValue, undefined);
+        });
+    });
+
+    suite('computeAlertAnalytics', () => {
+
+        const records = [
+            record('1', { acknowledgedAt: at(4 * MIN), resolvedAt: at(30 * MIN) }),
+            record('2', { firedAt: at(60 * MIN), resolvedAt: at(63 * MIN) }),
+            record('3', { firedAt: at(120 * MIN), resolvedAt: at(125 * MIN), appName: 'payment-sapi' }),
+            record('4', { firedAt: at(24 * 60 * MIN), ruleId: 'app_stopped', ruleName: 'Application Stopped', severity: 'critical', acknowledgedAt: at(24 * 60 * MIN + 2 * MIN), status: 'acknowledged' }),
+            record('5', { firedAt: at(-3 * 24 * 60 * MIN) })
+        ];
+
+        test('should compute frequency and MTTA/MTTR per rule and app within the range', () => {
+            const analytics = computeAlertAnalytics(records, new Date(T0), new Date(T0 + 3 * 24 * 60 * MIN));
+
+            assert.strictEqual(analytics.total, 4);
+            assert.deepStrictEqual([analytics.critical, analytics.warning], [1, 3]);
+            assert.strictEqual(analytics.mttaMs, 3 * MIN);
+            assert.strictEqual(analytics.mttrMs, (30 + 3 + 5) * MIN / 3);
+
+            const cpu = analytics.byRule[0];
+            assert.deepStrictEqual([cpu.key, cpu.count, cpu.apps, cpu.flapping], ['cpu_high', 3, 2, 2]);
+            assert.deepStrictEqual(analytics.byApp.map(a => [a.label, a.count]), [['order-api', 3], ['payment-sapi', 1]]);
+            assert.deepStrictEqual(analytics.daily.map(d => d.count), [3, 1, 0, 0]);
+        });
+
+        test('should rank rules that flap as the noisiest', () => {
+            const analytics = computeAlertAnalytics(records, new Date(T0), new Date(T0 + 3 * 24 * 60 * MIN));
+
+            assert.deepStrictEqual(analytics.noisiest.map(r => r.key), ['cpu_high']);
+        });
+    });
+
+    suite('buildWeeklySummaryMarkdown', () => {
+
+        test('should summarise the week and compare with the previous one', () => {
+            const weekEnd = new Date(T0 + 7 * 24 * 60 * MIN);
+            const markdown = buildWeeklySummaryMarkdown([
+                record('1', { acknowledgedAt: at(4 * MIN), resolvedAt: at(30 * MIN) }),
+                record('2', { firedAt: at(60 * MIN), resolvedAt: at(63 * MIN) }),
+                record('3', { firedAt: at(-2 * 24 * 60 * MIN) })
+            ], weekEnd, 'Acme · Production');
+
+            assert.ok(markdown.startsWith('# Weekly Alert Summary — Acme · Production'));
+            assert.ok(markdown.includes('- **Alerts fired:** 2 (+100% vs previous week)'));
+            assert.ok(markdown.includes('| High CPU Usage | 2 | 0 | 1 | 1 | 4m 0s | 16m 30s |'));
+            assert.ok(markdown.includes('**High CPU Usage** — 1 of 2 resolved within 10 minutes without acknowledgement'));
+        });
+    });
+
+    test('formatDuration should pick a readable unit', () => {
+        assert.deepStrictEqual(
+            [formatDuration(undefined), formatDuration(45000), formatDuration(3 * 60 * MIN + 5 * MIN), formatDuration(50 * 60 * MIN)],
+            ['—', '45s', '3h 5m', '2d 2h']
+        );
+    });
+});
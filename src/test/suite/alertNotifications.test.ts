@@ -0,0 +1,261 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import { AddressInfo } from 'net';
+import {
+    buildTeamsPayload,
+    channelAccepts,
+    dispatchNotifications,
+    normalizeChannels,
+    renderBodyTemplate
+} from '../../premium/alerting/notificationChannels';
+import { isLoopbackHost } from '../../premium/alerting/smtpClient';
+import { AlertEvent, AlertNotification, NotificationChannel } from '../../premium/alerting/types';
+
+function event(overrides: Partial<AlertEvent> = {}): AlertEvent {
+    return {
+        id: 'evt-1',
+        ruleId: 'cpu_high',
+        ruleName: 'High CPU Usage',
+        appName: 'order-api',
+        appType: 'CH2',
+        environmentId: 'env-1',
+        environmentName: 'Production',
+        severity: 'critical',
+        status: 'active',
+        message: 'order-api CPU at 97.0% (threshold: 85%)',
+        currentValue: 97,
+        threshold: 85,
+        firedAt: '2026-01-05T10:00:00.000Z',
+        ...overrides
+    };
+}
+
+const fired = (overrides: Partial<AlertEvent> = {}): AlertNotification => ({ kind: 'fired', event: event(overrides) });
+
+function emailChannel(host: string, port: number): NotificationChannel {
+    return {
+        name: 'oncall-mail',
+        type: 'email',
+        smtp: { host, port, username: 'alerts', from: 'Alerts <alerts@example.com>', to: ['oncall@example.com'] }
+    };
+}
+
+/** First non-loopback IPv4 address of this machine, to reach a test relay as a "remote" host */
+function externalIPv4(): string | undefined {
+    return Object.values(os.networkInterfaces()).flat()
+        .find(i => i && i.family === 'IPv4' && !i.internal)?.address;
+}
+
+/** Plain-text SMTP relay that accepts everything and never offers STARTTLS */
+async function startSmtpServer(host: string): Promise<{ port: number; commands: string[]; data: () => string; close: () => Promise<void> }> {
+    const commands: string[] = [];
+    let data = '';
+    const server = net.createServer(socket => {
+        let inData = false;
+        let buffer = '';
+        socket.write('220 localhost ESMTP\r\n');
+        socket.on('data', chunk => {
+            buffer += chunk.toString();
+            let idx: number;
+            while ((idx = buffer.indexOf('\r\n')) >= 0) {
+                const line = buffer.slice(0, idx);
+                buffer = buffer.slice(idx + 2);
+                if (inData) {
+                    if (line === '.') {
+                        inData = false;
+                        socket.write('250 queued\r\n');
+                    } else {
+                        data += line + '\n';
+                    }
+                    continue;
+                }
+                commands.push(line.split(' ')[0]);
+                if (line.startsWith('EHLO')) { socket.write('250-localhost\r\n250 AUTH PLAIN\r\n'); }
+                else if (line.startsWith('AUTH')) { socket.write('235 ok\r\n'); }
+                else if (line === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+                else if (line === 'QUIT') { socket.end('221 bye\r\n'); }
+                else { socket.write('250 ok\r\n'); }
+            }
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, host, resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        port,
+        commands,
+        data: () => data,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
+
+interface Received {
+    body: any;
+    headers: http.IncomingHttpHeaders;
+}
+
+/** Local stand-in for webhook endpoints; `statuses` are returned in order, then 200 */
+async function startServer(statuses: number[] = []): Promise<{ url: string; received: Received[]; close: () => Promise<void> }> {
+    const received: Received[] = [];
+    const server = http.createServer((req, res) => {
+        let data = '';
+        req.on('data', chunk => { data += chunk; });
+        req.on('end', () => {
+            received.push({ body: JSON.parse(data), headers: req.headers });
+            res.statusCode = statuses.shift() ?? 200;
+            res.end();
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}/hook`,
+        received,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
+
+suite('AlertNotifications Test Suite', () => {
+
+    const retry = { attempts: 3, baseDelayMs: 1 };
+
+    test('should post a templated JSON body with escaped values and custom headers', async () => {
+        const server = await startServer();
+        try {
+            const channel: NotificationChannel = {
+                name: 'ops-hook',
+                type: 'webhook',
+                url: server.url,
+                headers: { 'X-Api-Key': 'secret' },
+                bodyTemplate: '{"summary": "{{kind}}: {{message}}", "app": "{{appName}}", "note": "{{missing}}"}'
+            };
+
+            const results = await dispatchNotifications([channel], [fired({ message: 'CPU "hot"\nnow' })], { retry });
+
+            assert.deepStrictEqual(results, [{ channel: 'ops-hook', eventId: 'evt-1', kind: 'fired', ok: true, attempts: 1 }]);
+            assert.deepStrictEqual(server.received[0].body, { summary: 'fired: CPU "hot"\nnow', app: 'order-api', note: '' });
+            assert.strictEqual(server.received[0].headers['x-api-key'], 'secret');
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('should retry transient failures with backoff', async () => {
+        const server = await startServer([503, 429]);
+        try {
+            const [result] = await dispatchNotifications([{ name: 'slack', type: 'slack', url: server.url }], [fired()], { retry });
+
+            assert.deepStrictEqual([result.ok, result.attempts], [true, 3]);
+            assert.strictEqual(server.received.length, 3);
+            assert.ok(server.received[2].body.blocks.length > 0);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('should report a permanent failure without retrying', async () => {
+        const server = await startServer([404]);
+        try {
+            const [result] = await dispatchNotifications([{ name: 'teams', type: 'teams', url: server.url }], [fired()], { retry });
+
+            assert.deepStrictEqual([result.ok, result.attempts, result.error], [false, 1, 'HTTP 404']);
+            assert.strictEqual(server.received.length, 1);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('should route by severity and fired/resolved transition', () => {
+        const pager: NotificationChannel = { name: 'pager', type: 'webhook', url: 'http://x', severities: ['critical'], events: ['fired'] };
+
+        assert.strictEqual(channelAccepts(pager, fired()), true);
+        assert.strictEqual(channelAccepts(pager, fired({ severity: 'warning' })), false);
+        assert.strictEqual(channelAccepts(pager, { kind: 'resolved', event: event() }), false);
+        assert.strictEqual(channelAccepts({ ...pager, enabled: false }, fired()), false);
+    });
+
+    test('should build a Teams adaptive card for resolved alerts', () => {
+        const payload: any = buildTeamsPayload({ kind: 'resolved', event: event({ resolvedAt: '2026-01-05T10:05:00.000Z' }) });
+        const card = payload.attachments[0].content;
+
+        assert.strictEqual(card.type, 'AdaptiveCard');
+        assert.strictEqual(card.body[0].text, 'Resolved: High CPU Usage on order-api');
+        assert.ok(card.body[2].facts.some((f: any) => f.title === 'Resolved'));
+    });
+
+    test('should reject templates that do not produce JSON and drop malformed channels', () => {
+        assert.throws(() => renderBodyTemplate('{"app": {{appName}}}', fired()), /not valid JSON/);
+        assert.deepStrictEqual(normalizeChannels([
+            { name: 'a', type: 'slack', url: 'https://hooks.slack.com/x' },
+            { name: 'b', type: 'pagerduty', url: 'https://x' },
+            { name: 'c', type: 'email' },
+            null
+        ]).map(c => c.name), ['a']);
+    });
+
+    test('should deliver email through a loopback SMTP server', async () => {
+        const smtp = await startSmtpServer('127.0.0.1');
+        try {
+            const [result] = await dispatchNotifications([emailChannel('127.0.0.1', smtp.port)], [fired({ message: '.starts with a dot' })], {
+                retry,
+                getPassword: async () => 'pw'
+            });
+
+            assert.strictEqual(result.ok, true, result.error);
+            assert.deepStrictEqual(smtp.commands, ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+            assert.ok(smtp.data().includes('Subject: [Anypoint Monitor] CRITICAL: High CPU Usage on order-api'));
+            assert.ok(smtp.data().includes('\n..starts with a dot\n'));
+        } finally {
+            await smtp.close();
+        }
+    });
+
+    test('should refuse to send SMTP credentials unencrypted to a remote relay', async function () {
+        const host = externalIPv4();
+        if (!host) {
+            this.skip();
+        }
+        const smtp = await startSmtpServer(host!);
+        try {
+            const [refused] = await dispatchNotifications([emailChannel(host!, smtp.port)], [fired()], {
+                retry,
+                getPassword: async () => 'pw'
+            });
+
+            assert.strictEqual(refused.ok, false);
+            assert.match(refused.error ?? '', /did not offer STARTTLS; refusing to send SMTP credentials unencrypted/);
+            assert.ok(!smtp.commands.includes('AUTH'), 'credentials must not be sent');
+            assert.ok(!smtp.commands.includes('MAIL'));
+        } finally {
+            await smtp.close();
+        }
+    });
+
+    test('should authenticate without TLS when allowInsecureAuth is set', async function () {
+        const host = externalIPv4();
+        if (!host) {
+            this.skip();
+        }
+        const smtp = await startSmtpServer(host!);
+        try {
+            const channel = emailChannel(host!, smtp.port);
+            channel.smtp!.allowInsecureAuth = true;
+            const [result] = await dispatchNotifications([channel], [fired()], { retry, getPassword: async () => 'pw' });
+
+            assert.strictEqual(result.ok, true, result.error);
+            assert.deepStrictEqual(smtp.commands, ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+        } finally {
+            await smtp.close();
+        }
+    });
+
+    test('should treat only local addresses as loopback', () => {
+        for (const host of ['localhost', '127.0.0.1', '127.1.2.3', '::1', '[::1]', '::ffff:127.0.0.1']) {
+            assert.strictEqual(isLoopbackHost(host), true, host);
+        }
+        for (const host of ['smtp.example.com', '10.0.0.5', '128.0.0.1', 'localhost.example.com']) {
+            assert.strictEqual(isLoopbackHost(host), false, host);
+        }
+    });
+});
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import {
+    alertTargetKey,
+    createRuleEvaluationMemory,
+    DEFAULT_RULES,
+    describeRule,
+    evaluateRules,
+    isRuleBreached,
+    mergeRulesWithDefaults
+} from '../../premium/alerting/alertRules';
+import { buildQueueSnapshots } from '../../premium/alerting/queueSnapshots';
+import { AlertRule, AppMetricsSnapshot } from '../../premium/alerting/types';
+
+function app(overrides: Partial<AppMetricsSnapshot> = {}): AppMetricsSnapshot {
+    return { name: 'order-api', type: 'CH2', status: 'RUNNING', cpu: 50, memory: 40, errorRate: 0, ...overrides };
+}
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+    return {
+        id: 'cpu_and_errors',
+        name: 'CPU and errors',
+        description: '',
+        metric: 'cpu',
+        operator: 'gt',
+        threshold: 80,
+        severity: 'critical',
+        enabled: true,
+        cooldownMs: 300000,
+        custom: true,
+        ...overrides
+    };
+}
+
+suite('AlertRules Test Suite', () => {
+
+    suite('composite conditions', () => {
+
+        test('should require every condition by default and any condition when combinator is any', () => {
+            const composite = rule({ conditions: [{ metric: 'error_rate', operator: 'gt', threshold: 2 }] });
+
+            assert.strictEqual(evaluateRules(app({ cpu: 90, errorRate: 1 }), [composite], 'env-1', 'Production').length, 0);
+            const [event] = evaluateRules(app({ cpu: 90, errorRate: 3 }), [composite], 'env-1', 'Production');
+            assert.strictEqual(event.message, 'order-api: CPU at 90.0% (CPU > 80) AND error rate at 3.0% (error rate > 2)');
+            assert.strictEqual(event.threshold, 'CPU > 80 AND error rate > 2');
+
+            assert.strictEqual(evaluateRules(app({ cpu: 90, errorRate: 1 }), [{ ...composite, combinator: 'any' }], 'env-1', 'Production').length, 1);
+        });
+
+        test('should keep the original message for single-condition rules', () => {
+            const [event] = evaluateRules(app({ cpu: 97 }), DEFAULT_RULES.filter(r => r.id === 'cpu_critical'), 'env-1', 'Production');
+            assert.strictEqual(event.message, 'order-api CPU at 97.0% (threshold: 95%)');
+            assert.strictEqual(event.threshold, 95);
+        });
+    });
+
+    suite('sustained rules', () => {
+
+        test('should fire only after the configured number of consecutive polls', () => {
+            const sustained = rule({ forPolls: 3 });
+            const memory = createRuleEvaluationMemory();
+            const poll = (cpu: number, t: number) => evaluateRules(app({ cpu }), [sustained], 'env-1', 'Production', memory, t);
+
+            assert.strictEqual(poll(90, 0).length, 0);
+            assert.strictEqual(poll(90, 60000).length, 0);
+            assert.strictEqual(poll(70, 120000).length, 0, 'a recovery resets the streak');
+            assert.strictEqual(poll(90, 180000).length, 0);
+            assert.strictEqual(poll(90, 240000).length, 0);
+            const events = poll(90, 300000);
+            assert.strictEqual(events.length, 1);
+            assert.ok(events[0].message.endsWith('for 3 consecutive polls'));
+        });
+
+        test('should wait for the for-duration clause', () => {
+            const sustained = rule({ forDurationMs: 5 * 60000 });
+            const memory = createRuleEvaluationMemory();
+
+            assert.strictEqual(evaluateRules(app({ cpu: 90 }), [sustained], 'env-1', 'Production', memory, 0).length, 0);
+            assert.strictEqual(evaluateRules(app({ cpu: 90 }), [sustained], 'env-1', 'Production', memory, 4 * 60000).length, 0);
+            assert.strictEqual(evaluateRules(app({ cpu: 90 }), [sustained], 'env-1', 'Production', memory, 5 * 60000).length, 1);
+        });
+    });
+
+    suite('rate of change', () => {
+
+        test('should compare against the previous poll', () => {
+            const rising = rule({ metric: 'error_rate', operator: 'rises_by', threshold: 2 });
+            const memory = createRuleEvaluationMemory();
+
+            assert.strictEqual(evaluateRules(app({ errorRate: 1 }), [rising], 'env-1', 'Production', memory).length, 0, 'no previous value yet');
+            const [event] = evaluateRules(app({ errorRate: 4.5 }), [rising], 'env-1', 'Production', memory);
+            assert.strictEqual(event.message, 'order-api: error rate rose by 3.5% to 4.5%');
+            assert.strictEqual(evaluateRules(app({ errorRate: 5 }), [rising], 'env-1', 'Production', memory).length, 0);
+        });
+
+        test('should support falls and percentage rises', () => {
+            const previous = { cpu: 40, memory: 80 };
+
+            assert.strictEqual(isRuleBreached(app({ memory: 50 }), rule({ metric: 'memory', operator: 'falls_by', threshold: 20 }), previous), true);
+            assert.strictEqual(isRuleBreached(app({ cpu: 70 }), rule({ operator: 'rises_by_pct', threshold: 50 }), previous), true);
+            assert.strictEqual(isRuleBreached(app({ cpu: 55 }), rule({ operator: 'rises_by_pct', threshold: 50 }), previous), false);
+        });
+    });
+
+    suite('scope', () => {
+
+        test('should only evaluate rules for matching apps and environments', () => {
+            const scoped = rule({ scope: { apps: ['order-*'], environments: ['production'] } });
+
+            assert.strictEqual(evaluateRules(app({ cpu: 90 }), [scoped], 'env-1', 'Production').length, 1);
+            assert.strictEqual(evaluateRules(app({ cpu: 90 }), [scoped], 'env-2', 'Sandbox').length, 0);
+            assert.strictEqual(evaluateRules(app({ name: 'payment-sapi', cpu: 90 }), [scoped], 'env-1', 'Production').length, 0);
+            assert.strictEqual(evaluateRules(app({ cpu: 90 }), [rule({ scope: { environments: ['env-2'] } })], 'env-2', 'Sandbox').length, 1);
+        });
+    });
+
+    suite('mergeRulesWithDefaults', () => {
+
+        test('should keep stored thresholds and custom rules', () => {
+            const merged = mergeRulesWithDefaults([
+                { ...DEFAULT_RULES[1], threshold: 70, forPolls: 2 },
+                rule(),
+                { id: 'broken', custom: true } as AlertRule
+            ]);
+
+            const cpu = merged.find(r => r.id === 'cpu_high')!;
+            assert.strictEqual(cpu.threshold, 70);
+            assert.strictEqual(describeRule(cpu), 'CPU > 70 for 2 consecutive polls');
+            assert.ok(merged.some(r => r.id === 'cpu_and_errors'));
+            assert.ok(!merged.some(r => r.id === 'broken'));
+            assert.strictEqual(merged.length, DEFAULT_RULES.length + 1);
+        });
+    });
+
+    suite('queue rules', () => {
+
+        const regions = (ordersDepth: number, dlqDepth: number) => [{
+            regionId: 'us-east-1',
+            regionName: 'US East (N. Virginia)',
+            queues: [{ queueId: 'orders', deadLetterQueueId: 'orders-dlq' }, { queueId: 'orders-dlq' }],
+            stats: [
+                { destination: 'orders', messages: ordersDepth, inflightMessages: 3 },
+                { destination: 'orders-dlq', messages: dlqDepth, inflightMessages: 0 }
+            ]
+        }];
+        const queueRules = DEFAULT_RULES.filter(r => r.id.startsWith('mq_'));
+
+        test('should flag dead-letter queues and only alert on them for DLQ messages', () => {
+            const snapshots = buildQueueSnapshots(regions(5, 2));
+            assert.deepStrictEqual(snapshots.map(s => [s.name, s.queue!.isDeadLetterQueue]), [['orders', false], ['orders-dlq', true]]);
+
+            const events = snapshots.flatMap(s => evaluateRules(s, queueRules, 'env-1', 'Production'));
+            assert.deepStrictEqual(events.map(e => [e.appName, e.ruleId]), [['orders-dlq', 'mq_dlq_messages']]);
+            assert.strictEqual(events[0].message, 'Dead-letter queue orders-dlq holds 2 messages');
+            assert.deepStrictEqual(events[0].queue, { queueId: 'orders-dlq', regionId: 'us-east-1', regionName: 'US East (N. Virginia)' });
+        });
+
+        test('should alert when a queue keeps growing and ignore app rules', () => {
+            const memory = createRuleEvaluationMemory();
+            const poll = (depth: number, t: number) =>
+                evaluateRules(buildQueueSnapshots(regions(depth, 0))[0], [...DEFAULT_RULES.filter(r => !r.id.startsWith('mq_')), ...queueRules], 'env-1', 'Production', memory, t)
+                    .map(e => e.ruleId);
+
+            assert.deepStrictEqual(poll(10, 0), []);
+            assert.deepStrictEqual(poll(20, 1), []);
+            assert.deepStrictEqual(poll(30, 2), []);
+            assert.deepStrictEqual(poll(1200, 3), ['mq_queue_depth_high', 'mq_queue_growing']);
+        });
+
+        test('should keep queues with the same id in different regions apart', () => {
+            const memory = createRuleEvaluationMemory();
+            const growing = queueRules.filter(r => r.id === 'mq_queue_growing');
+            const poll = (eastDepth: number, westDepth: number, t: number) => {
+                const west = { ...regions(westDepth, 0)[0], regionId: 'eu-west-2', regionName: 'EU West (London)' };
+                return buildQueueSnapshots([...regions(eastDepth, 0), west])
+                    .filter(s => s.name === 'orders')
+                    .flatMap(s => evaluateRules(s, growing, 'env-1', 'Production', memory, t))
+                    .map(e => e.queue!.regionId);
+            };
+
+            assert.deepStrictEqual(poll(10, 500, 0), []);
+            assert.deepStrictEqual(poll(20, 400, 1), []);
+            assert.deepStrictEqual(poll(30, 300, 2), []);
+            assert.deepStrictEqual(poll(1200, 200, 3), ['us-east-1']);
+            assert.deepStrictEqual(Array.from(memory.previousValues.keys()).sort(), [
+                'env-1:MQ:eu-west-2:orders',
+                'env-1:MQ:us-east-1:orders'
+            ]);
+        });
+
+        test('should not mix up a queue with an app of the same name', () => {
+            assert.strictEqual(alertTargetKey('orders'), 'orders');
+            assert.strictEqual(
+                alertTargetKey('orders', { queueId: 'orders', regionId: 'us-east-1', regionName: 'US East (N. Virginia)' }),
+                'MQ:us-east-1:orders'
+            );
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import {
+    seasonalWindows,
+    computeBaselineStats,
+    deviationScore,
+    scoreSeverity
+} from '../../warroom/baseline';
+
+suite('Baseline Test Suite', () => {
+
+    suite('seasonalWindows', () => {
+
+        test('should shift the window back by whole weeks', () => {
+            const start = new Date('2026-02-27T09:00:00Z');
+            const end = new Date('2026-02-27T10:00:00Z');
+            const windows = seasonalWindows(start, end, 3);
+
+            assert.strictEqual(windows.length, 3);
+            assert.strictEqual(windows[0].start.toISOString(), '2026-02-20T09:00:00.000Z');
+            assert.strictEqual(windows[0].end.toISOString(), '2026-02-20T10:00:00.000Z');
+            assert.strictEqual(windows[2].end.toISOString(), '2026-02-06T10:00:00.000Z');
+        });
+
+        test('should widen short windows to 30 minutes', () => {
+            const end = new Date('2026-02-27T10:00:00Z');
+            const [week1] = seasonalWindows(new Date('2026-02-27T09:59:00Z'), end, 1);
+            assert.strictEqual(week1.start.toISOString(), '2026-02-20T09:30:00.000Z');
+        });
+
+        test('should return no windows for zero weeks', () => {
+            assert.deepStrictEqual(seasonalWindows(new Date(), new Date(), 0), []);
+        });
+    });
+
+    suite('computeBaselineStats', () => {
+
+        test('should compute mean and standard deviation for zscore', () => {
+            const stats = computeBaselineStats([2, 4, 4, 4, 5, 5, 7, 9], 'zscore');
+            assert.ok(stats);
+            assert.strictEqual(stats.center, 5);
+            assert.strictEqual(stats.spread, 2);
+            assert.strictEqual(stats.samples, 8);
+        });
+
+        test('should compute median and scaled MAD for mad', () => {
+            const stats = computeBaselineStats([1, 2, 3, 4, 100], 'mad');
+            assert.ok(stats);
+            assert.strictEqual(stats.center, 3);
+            assert.ok(Math.abs(stats.spread - 1.4826) < 1e-9);
+        });
+
+        test('should not let a past spike dominate the MAD baseline', () => {
+            const normal = [40, 42, 38, 41, 39, 40, 43, 37];
+            const withSpike = [...normal, 95, 97];
+            const mad = computeBaselineStats(withSpike, 'mad');
+            const z = computeBaselineStats(withSpike, 'zscore');
+            assert.ok(mad && z);
+            assert.ok(mad.center < 42, 'median should stay near normal load');
+            assert.ok(z.center > 50, 'mean is pulled up by the spike');
+        });
+
+        test('should return null without finite samples', () => {
+            assert.strictEqual(computeBaselineStats([], 'mad'), null);
+            assert.strictEqual(computeBaselineStats([NaN], 'zscore'), null);
+        });
+    });
+
+    suite('deviationScore / scoreSeverity', () => {
+
+        test('should standardize the distance from the center', () => {
+            const stats = { method: 'zscore' as const, center: 40, spread: 5, samples: 30 };
+            assert.strictEqual(deviationScore(65, stats), 5);
+            assert.strictEqual(deviationScore(30, stats), -2);
+        });
+
+        test('should apply the spread floor to flat baselines', () => {
+            const flat = { method: 'mad' as const, center: 3, spread: 0, samples: 30 };
+            assert.strictEqual(deviationScore(5, flat, 2), 1);
+            assert.strictEqual(deviationScore(5, flat), Infinity);
+        });
+
+        test('should map scores to severities', () => {
+            assert.strictEqual(scoreSeverity(2.9), null);
+            assert.strictEqual(scoreSeverity(3), 'medium');
+            assert.strictEqual(scoreSeverity(5), 'high');
+            assert.strictEqual(scoreSeverity(-8), null);
+        });
+    });
+});
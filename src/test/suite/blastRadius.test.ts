@@ -217,4 +217,112 @@ suite('BlastRadius Test Suite', () => {
             assert.strictEqual(appAEntry?.hops, 1, 'app-a should be recorded at shortest distance (1 hop)');
         });
     });
+
+    suite('impact weighting', () => {
+
+        function createWeightedDependencyMap() {
+            return createDependencyMap({
+                dependencies: [
+                    { sourceApp: 'order-api', targetApp: 'payment-sapi', targetUrl: '', discoveryMethod: 'property_file', confidence: 'high', isExternal: false },
+                    { sourceApp: 'order-api', targetApp: 'inventory-sapi', targetUrl: '', discoveryMethod: 'naming_convention', confidence: 'low', isExternal: false },
+                    { sourceApp: 'order-api', targetApp: 'auth-service', targetUrl: '', discoveryMethod: 'manual', confidence: 'low', isExternal: false },
+                    { sourceApp: 'payment-sapi', targetApp: 'notification-api', targetUrl: '', discoveryMethod: 'api_contract', confidence: 'medium', isExternal: false }
+                ]
+            });
+        }
+
+        test('should score impact by hop decay and path confidence without traffic', () => {
+            const result = calculateBlastRadius(['order-api'], createWeightedDependencyMap());
+            const impact = (app: string) => result.downstream.find(d => d.app === app)?.impact;
+
+            assert.strictEqual(impact('payment-sapi'), 1);
+            assert.strictEqual(impact('auth-service'), 1, 'manual edges count as certain');
+            assert.strictEqual(impact('notification-api'), 0.3);
+            assert.strictEqual(impact('inventory-sapi'), 0.3);
+            assert.strictEqual(result.downstream.find(d => d.app === 'notification-api')?.confidence, 0.6);
+        });
+
+        test('should weight by inbound traffic share and sort by impact', () => {
+            const traffic = new Map([
+                ['payment-sapi', 100],
+                ['inventory-sapi', 800],
+                ['notification-api', 100]
+            ]);
+            const result = calculateBlastRadius(['order-api'], createWeightedDependencyMap(), { traffic });
+
+            assert.deepStrictEqual(result.downstream.map(d => d.app), ['auth-service', 'inventory-sapi', 'payment-sapi', 'notification-api']);
+            assert.strictEqual(result.downstream[1].impact, 0.24);
+            // auth-service has no sample: it gets the mean measured share (1/3) instead of 0
+            assert.strictEqual(result.downstream[0].impact, 0.333);
+            assert.strictEqual(result.downstream[0].noTrafficData, true);
+            assert.strictEqual(result.downstream[1].noTrafficData, undefined);
+        });
+
+        test('should not rank an async consumer without traffic data as unaffected', () => {
+            const depMap = createDependencyMap({
+                dependencies: [
+                    { sourceApp: 'order-api', targetApp: 'payment-sapi', targetUrl: '', discoveryMethod: 'property_file', confidence: 'high', isExternal: false },
+                    {
+                        sourceApp: 'order-api', targetApp: 'fulfillment-worker', targetUrl: 'anypoint-mq://orders-queue',
+                        discoveryMethod: 'mule_config', confidence: 'high', isExternal: false,
+                        targetKind: 'anypoint-mq', via: { kind: 'anypoint-mq', destination: 'orders-queue' }
+                    }
+                ]
+            });
+            const result = calculateBlastRadius(['order-api'], depMap, { traffic: new Map([['payment-sapi', 250]]) });
+            const entry = (app: string) => result.downstream.find(d => d.app === app)!;
+
+            assert.strictEqual(entry('payment-sapi').impact, 1);
+            assert.strictEqual(entry('fulfillment-worker').impact, 1);
+            assert.strictEqual(entry('fulfillment-worker').noTrafficData, true);
+            assert.strictEqual(entry('payment-sapi').noTrafficData, undefined);
+        });
+
+        test('should prune edges below the minimum confidence but keep manual edges', () => {
+            const result = calculateBlastRadius(['order-api'], createWeightedDependencyMap(), { minConfidence: 'high' });
+            const names = result.downstream.map(d => d.app);
+
+            assert.deepStrictEqual(names.sort(), ['auth-service', 'payment-sapi']);
+            assert.strictEqual(result.prunedEdges, 2);
+        });
+
+        test('should prefer the higher-confidence path when scoring', () => {
+            const depMap = createDependencyMap({
+                dependencies: [
+                    { sourceApp: 'order-api', targetApp: 'payment-sapi', targetUrl: '', discoveryMethod: 'naming_convention', confidence: 'low', isExternal: false },
+                    { sourceApp: 'order-api', targetApp: 'inventory-sapi', targetUrl: '', discoveryMethod: 'property_file', confidence: 'high', isExternal: false },
+                    { sourceApp: 'inventory-sapi', targetApp: 'payment-sapi', targetUrl: '', discoveryMethod: 'property_file', confidence: 'high', isExternal: false }
+                ]
+            });
+            const payment = calculateBlastRadius(['order-api'], depMap).downstream.find(d => d.app === 'payment-sapi');
+
+            assert.strictEqual(payment?.hops, 1);
+            assert.strictEqual(payment?.impact, 0.5);
+            assert.strictEqual(payment?.confidence, 1);
+        });
+    });
+
+    suite('async edges', () => {
+
+        test('should expand producer to consumer chains and label the channel', () => {
+            const depMap = createDependencyMap({
+                dependencies: [
+                    {
+                        sourceApp: 'order-api', targetApp: 'fulfillment-worker', targetUrl: 'anypoint-mq://orders-queue',
+                        discoveryMethod: 'mule_config', confidence: 'high', isExternal: false,
+                        targetKind: 'anypoint-mq', via: { kind: 'anypoint-mq', destination: 'orders-queue' }
+                    },
+                    { sourceApp: 'fulfillment-worker', targetApp: 'shipping-sapi', targetUrl: '', discoveryMethod: 'property_file', confidence: 'high', isExternal: false }
+                ]
+            });
+
+            const downstream = calculateBlastRadius(['order-api'], depMap).downstream;
+            const upstream = calculateBlastRadius(['fulfillment-worker'], depMap).upstream;
+
+            assert.strictEqual(downstream.find(d => d.app === 'fulfillment-worker')?.via, 'Anypoint MQ orders-queue');
+            assert.strictEqual(downstream.find(d => d.app === 'shipping-sapi')?.via, undefined);
+            assert.strictEqual(upstream[0].app, 'order-api');
+            assert.strictEqual(upstream[0].via, 'Anypoint MQ orders-queue');
+        });
+    });
 });
@@ -644,4 +644,82 @@ suite('CorrelationEngine Test Suite', () => {
             assert.ok(!connCorrelation, 'should NOT match short app names to avoid false positives');
         });
     });
+
+    suite('certificate, rate limiting and MQ quota rules', () => {
+
+        function dataWithGroups(appName: string, groups: ReturnType<typeof createLogGroup>[]) {
+            const apps = new Map();
+            apps.set(appName, createAppWarRoomData({
+                logs: {
+                    groups,
+                    totalEntries: groups.reduce((s, g) => s + g.count, 0),
+                    errors: groups.filter(g => g.level === 'ERROR').reduce((s, g) => s + g.count, 0),
+                    warnings: groups.filter(g => g.level === 'WARN').reduce((s, g) => s + g.count, 0)
+                }
+            }));
+            return createWarRoomData({ apps });
+        }
+
+        test('should detect expired TLS certificates', () => {
+            const data = dataWithGroups('payments-api', [createLogGroup({
+                pattern: 'SSLHandshakeException: PKIX path validation failed: CertificateExpiredException: NotAfter: <date>',
+                sampleMessage: 'javax.net.ssl.SSLHandshakeException: PKIX path validation failed: java.security.cert.CertificateExpiredException',
+                count: 8
+            })]);
+
+            const cert = analyzeCorrelations(data, buildTimeline(data)).find(c => c.category === 'certificate_expiry');
+            assert.ok(cert, 'should detect certificate expiry');
+            assert.strictEqual(cert.confidence, 'high');
+            assert.ok(cert.evidence[0].startsWith('payments-api: 8x certificate validation failure'));
+        });
+
+        test('should detect HTTP 429 rate limiting', () => {
+            const data = dataWithGroups('order-api', [createLogGroup({
+                pattern: 'HTTP GET on resource <url> failed: Too Many Requests (429)',
+                sampleMessage: 'HTTP:TOO_MANY_REQUESTS',
+                count: 25
+            })]);
+
+            const rate = analyzeCorrelations(data, buildTimeline(data)).find(c => c.category === 'rate_limiting');
+            assert.ok(rate, 'should detect rate limiting');
+            assert.strictEqual(rate.confidence, 'high');
+            assert.ok(rate.probableCause.includes('25 occurrences'));
+        });
+
+        test('should attribute MQ throttling to the MQ quota rule, not rate limiting', () => {
+            const data = dataWithGroups('order-consumer', [createLogGroup({
+                pattern: 'ANYPOINT-MQ:CONNECTIVITY Quota exceeded for organization',
+                sampleMessage: 'Anypoint MQ returned 429: quota exceeded',
+                count: 6
+            })]);
+
+            const correlations = analyzeCorrelations(data, buildTimeline(data));
+            assert.ok(correlations.some(c => c.category === 'mq_quota'));
+            assert.ok(!correlations.some(c => c.category === 'rate_limiting'));
+        });
+
+        test('should flag queues close to the in-flight limit from MQ stats', () => {
+            const data = createWarRoomData({
+                mqStats: [
+                    { queueId: 'orders-q', region: 'US East', messages: 5000, inflightMessages: 110000, fifo: false, deadLetterQueueId: 'orders-dlq' },
+                    { queueId: 'audit-q', region: 'US East', messages: 10, inflightMessages: 3, fifo: false, deadLetterQueueId: null }
+                ]
+            });
+
+            const mq = analyzeCorrelations(data, buildTimeline(data)).find(c => c.category === 'mq_quota');
+            assert.ok(mq, 'should detect MQ in-flight saturation');
+            assert.strictEqual(mq.confidence, 'medium');
+            assert.strictEqual(mq.evidence.length, 1);
+            assert.ok(mq.evidence[0].startsWith('Queue orders-q (US East): 110,000 in-flight messages'));
+        });
+
+        test('should not flag healthy queues', () => {
+            const data = createWarRoomData({
+                mqStats: [{ queueId: 'orders-q', region: 'US East', messages: 50, inflightMessages: 20, fifo: false, deadLetterQueueId: null }]
+            });
+
+            const correlations = analyzeCorrelations(data, buildTimeline(data));
+            assert.ok(!correlations.some(c => c.category === 'mq_quota'));
+        });
+    });
 });
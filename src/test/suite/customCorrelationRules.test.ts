@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import {
+    parseRuleFile,
+    validateRuleDefinition,
+    compileCorrelationRule
+} from '../../warroom/customCorrelationRules';
+import { analyzeCorrelations, buildTimeline } from '../../warroom/correlationEngine';
+import {
+    createWarRoomData,
+    createAppWarRoomData,
+    createLogGroup,
+    createDeploymentRecord,
+    createAnomaly
+} from '../mocks/warRoomMocks';
+import { AppWarRoomData, CorrelationRuleDefinition } from '../../warroom/types';
+
+const SALESFORCE_RULE: CorrelationRuleDefinition = {
+    id: 'salesforce-token-expiry',
+    title: 'Salesforce token expiry on {apps}',
+    category: 'connectivity_failure',
+    confidence: 'high',
+    match: { logPattern: 'INVALID_SESSION_ID', logLevel: 'ERROR', minCount: 2 },
+    evidence: ['Rotate the connected app credentials used by {apps}']
+};
+
+function dataWithApps(entries: Array<[string, AppWarRoomData]>) {
+    return createWarRoomData({ apps: new Map(entries) });
+}
+
+suite('CustomCorrelationRules Test Suite', () => {
+
+    suite('parseRuleFile', () => {
+
+        test('should parse a YAML file with a rules list', () => {
+            const yaml = [
+                'rules:',
+                '  - id: db-pool-exhaustion',
+                '    title: DB connection pool exhausted on {apps}',
+                '    category: resource_exhaustion',
+                '    confidence: medium',
+                '    match:',
+                "      logPattern: 'Cannot get a connection|pool exhausted'",
+                '      minCount: 5'
+            ].join('\n');
+
+            const { definitions, errors } = parseRuleFile(yaml, 'db.yaml');
+            assert.deepStrictEqual(errors, []);
+            assert.strictEqual(definitions.length, 1);
+            assert.strictEqual(definitions[0].match.minCount, 5);
+        });
+
+        test('should parse a JSON array of rules', () => {
+            const { definitions, errors } = parseRuleFile(JSON.stringify([SALESFORCE_RULE]), 'sf.json');
+            assert.deepStrictEqual(errors, []);
+            assert.strictEqual(definitions[0].id, 'salesforce-token-expiry');
+        });
+
+        test('should keep valid rules when another rule in the file is invalid', () => {
+            const content = JSON.stringify({ rules: [SALESFORCE_RULE, { id: 'broken', title: 'x', category: 'nope', confidence: 'high', match: {} }] });
+            const { definitions, errors } = parseRuleFile(content, 'mixed.json');
+
+            assert.strictEqual(definitions.length, 1);
+            assert.ok(errors.some(e => e.startsWith('mixed.json rule "broken": "category"')));
+        });
+
+        test('should report syntax errors with the file name', () => {
+            const { definitions, errors } = parseRuleFile('{ not json', 'bad.json');
+            assert.strictEqual(definitions.length, 0);
+            assert.ok(errors[0].startsWith('bad.json: Invalid JSON'));
+        });
+    });
+
+    suite('validateRuleDefinition', () => {
+
+        test('should reject an invalid regular expression', () => {
+            const { errors } = validateRuleDefinition({ ...SALESFORCE_RULE, match: { logPattern: '(unclosed' } });
+            assert.ok(errors.some(e => e.includes('not a valid regular expression')));
+        });
+
+        test('should require at least one match condition', () => {
+            const { errors } = validateRuleDefinition({ ...SALESFORCE_RULE, match: {} });
+            assert.ok(errors.some(e => e.includes('needs at least one of')));
+        });
+    });
+
+    suite('compileCorrelationRule', () => {
+
+        test('should fire when the log pattern reaches minCount', () => {
+            const data = dataWithApps([['sf-sync', createAppWarRoomData({
+                logs: { groups: [createLogGroup({ pattern: 'INVALID_SESSION_ID: Session expired', count: 4, appName: 'sf-sync' })], totalEntries: 4, errors: 4, warnings: 0 }
+            })]]);
+
+            const result = compileCorrelationRule(SALESFORCE_RULE).evaluate(data, []);
+            assert.ok(result);
+            assert.strictEqual(result.probableCause, 'Salesforce token expiry on sf-sync');
+            assert.strictEqual(result.category, 'connectivity_failure');
+            assert.ok(result.evidence.includes('Rotate the connected app credentials used by sf-sync'));
+            assert.ok(result.evidence.includes('Matched workspace rule "salesforce-token-expiry"'));
+        });
+
+        test('should not fire below minCount', () => {
+            const data = dataWithApps([['sf-sync', createAppWarRoomData({
+                logs: { groups: [createLogGroup({ pattern: 'INVALID_SESSION_ID', count: 1 })], totalEntries: 1, errors: 1, warnings: 0 }
+            })]]);
+
+            assert.strictEqual(compileCorrelationRule(SALESFORCE_RULE).evaluate(data, []), null);
+        });
+
+        test('should require all conditions on the same app', () => {
+            const rule = compileCorrelationRule({
+                id: 'bad-release-cpu',
+                title: 'Release on {apps} caused CPU spike',
+                category: 'recent_deployment',
+                confidence: 'medium',
+                match: { metricAnomaly: { metric: 'cpu', severity: 'high' }, deploymentWithinMinutes: 30 }
+            });
+
+            const data = dataWithApps([
+                ['order-api', createAppWarRoomData({ metrics: { ...createAppWarRoomData().metrics, anomalies: [createAnomaly()] } })],
+                ['billing-api', createAppWarRoomData({ deployments: [createDeploymentRecord({ appName: 'billing-api', timestamp: '2026-02-27T09:20:00Z' })] })]
+            ]);
+            assert.strictEqual(rule.evaluate(data, []), null);
+
+            const both = dataWithApps([
+                ['order-api', createAppWarRoomData({
+                    metrics: { ...createAppWarRoomData().metrics, anomalies: [createAnomaly()] },
+                    deployments: [createDeploymentRecord({ timestamp: '2026-02-27T09:20:00Z' })]
+                })]
+            ]);
+            const result = rule.evaluate(both, []);
+            assert.ok(result);
+            assert.ok(result.evidence.some(e => e.includes('deployed v2.1.0 10 min before the end of the window')));
+        });
+    });
+
+    suite('analyzeCorrelations with workspace rules', () => {
+
+        test('should include workspace rule results alongside built-in ones', () => {
+            const data = dataWithApps([['sf-sync', createAppWarRoomData({
+                logs: { groups: [createLogGroup({ pattern: 'INVALID_SESSION_ID', count: 3 })], totalEntries: 3, errors: 3, warnings: 0 }
+            })]]);
+
+            const results = analyzeCorrelations(data, buildTimeline(data), [compileCorrelationRule(SALESFORCE_RULE)]);
+            assert.strictEqual(results.length, 1);
+            assert.strictEqual(results[0].category, 'connectivity_failure');
+        });
+
+        test('should ignore rules that throw', () => {
+            const data = createWarRoomData();
+            const results = analyzeCorrelations(data, [], [{
+                id: 'explodes',
+                source: 'workspace',
+                evaluate: () => { throw new Error('boom'); }
+            }]);
+
+            assert.strictEqual(results.length, 1);
+            assert.strictEqual(results[0].category, 'unknown');
+        });
+    });
+});
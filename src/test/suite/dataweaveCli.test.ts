@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    buildDwRunArgs,
+    DataWeaveCliError,
+    dwCliCandidates,
+    extensionForMimeType,
+    findDwCli,
+    parseDwErrors,
+    runDwCli
+} from '../../controllers/dataweaveCli';
+
+const COMPILE_ERROR = [
+    'Unable to resolve reference of: `paylod`.',
+    '',
+    '4| paylod.name',
+    '   ^^^^^^',
+    'Location:',
+    'main (line: 4, column:1)',
+    '',
+    'Invalid input "}", expected Expression',
+    '',
+    '7| }',
+    '   ^',
+    'Location:',
+    'main (line: 7, column:5)'
+].join('\n');
+
+/**
+ * Stand-in for the dw CLI: echoes the arguments and the content of each
+ * `-i name=file` input, or fails/hangs when the script says so.
+ */
+const FAKE_CLI = `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const script = fs.readFileSync(args[args.indexOf('-f') + 1], 'utf-8');
+if (script.includes('HANG')) { setTimeout(() => {}, 60000); return; }
+if (script.includes('FAIL')) { process.stderr.write(${JSON.stringify(COMPILE_ERROR)}); process.exit(255); }
+const inputs = {};
+args.forEach((a, i) => {
+    if (a === '-i') {
+        const [name, file] = args[i + 1].split('=');
+        inputs[name] = { ext: file.split('.').pop(), content: fs.readFileSync(file, 'utf-8') };
+    }
+});
+process.stdout.write(JSON.stringify({ command: args[0], inputs }) + '\\n');
+`;
+
+suite('DataWeave CLI Test Suite', () => {
+    let tmpDir: string;
+    let cliPath: string;
+
+    suiteSetup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dw-cli-test-'));
+        fs.mkdirSync(path.join(tmpDir, 'bin'));
+        cliPath = path.join(tmpDir, 'bin', 'dw');
+        fs.writeFileSync(cliPath, FAKE_CLI, { mode: 0o755 });
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('should map mime types to the file extensions the CLI reads', () => {
+        assert.strictEqual(extensionForMimeType('application/json'), 'json');
+        assert.strictEqual(extensionForMimeType('application/xml; charset=UTF-8'), 'xml');
+        assert.strictEqual(extensionForMimeType('text/csv'), 'csv');
+        assert.strictEqual(extensionForMimeType('application/x-yaml'), 'yaml');
+        assert.strictEqual(extensionForMimeType('application/x-www-form-urlencoded'), 'urlencoded');
+        assert.strictEqual(extensionForMimeType('application/vnd.api+json'), 'json');
+        assert.strictEqual(extensionForMimeType('application/octet-stream'), 'txt');
+    });
+
+    test('should build run arguments with one -i per named input', () => {
+        assert.deepStrictEqual(
+            buildDwRunArgs('/w/main.dwl', [{ name: 'payload', file: '/w/payload.json' }, { name: 'vars', file: '/w/vars.json' }]),
+            ['run', '-i', 'payload=/w/payload.json', '-i', 'vars=/w/vars.json', '-f', '/w/main.dwl']
+        );
+    });
+
+    test('should map each CLI location to a line, column and message', () => {
+        assert.deepStrictEqual(parseDwErrors(COMPILE_ERROR), [
+            { line: 4, column: 1, message: 'Unable to resolve reference of: `paylod`.', source: 'main' },
+            { line: 7, column: 5, message: 'Invalid input "}", expected Expression', source: 'main' }
+        ]);
+        assert.deepStrictEqual(parseDwErrors('Exception in thread main'), []);
+    });
+
+    test('should only consider the configured path when one is set', () => {
+        const env = { HOME: '/home/u', DW_HOME: '/opt/dw', PATH: ['/usr/bin', '/usr/local/bin'].join(path.delimiter) };
+        assert.deepStrictEqual(dwCliCandidates('/custom/dw', env, 'linux'), ['/custom/dw']);
+        assert.deepStrictEqual(dwCliCandidates('', env, 'linux'), [
+            path.join('/opt/dw', 'bin', 'dw'),
+            path.join('/usr/bin', 'dw'),
+            path.join('/usr/local/bin', 'dw'),
+            path.join('/home/u', '.dw', 'bin', 'dw')
+        ]);
+    });
+
+    test('should find an executable dw on PATH and skip non-executable files', async () => {
+        const nonExecDir = path.join(tmpDir, 'plain');
+        fs.mkdirSync(nonExecDir, { recursive: true });
+        fs.writeFileSync(path.join(nonExecDir, 'dw'), 'not executable', { mode: 0o644 });
+        const env = { HOME: tmpDir, PATH: [nonExecDir, path.join(tmpDir, 'bin')].join(path.delimiter) };
+
+        if (process.platform !== 'win32') {
+            assert.strictEqual(await findDwCli('', env, process.platform), cliPath);
+        }
+        assert.strictEqual(await findDwCli(path.join(tmpDir, 'missing-dw'), env, process.platform), undefined);
+    });
+
+    test('should pass named inputs as files with mime-typed extensions', async function () {
+        if (process.platform === 'win32') { this.skip(); }
+        const result = await runDwCli(cliPath, 'output json --- payload', [
+            { name: 'payload', content: '<order id="1"/>', mimeType: 'application/xml' },
+            { name: 'vars', content: '{"region":"eu"}', mimeType: 'application/json' },
+            { name: 'attributes', content: 'a=1&b=2', mimeType: 'application/x-www-form-urlencoded' }
+        ], 10000);
+
+        assert.strictEqual(result.exitCode, 0);
+        assert.strictEqual(result.timedOut, false);
+        const echoed = JSON.parse(result.stdout);
+        assert.strictEqual(echoed.command, 'run');
+        assert.deepStrictEqual(echoed.inputs, {
+            payload: { ext: 'xml', content: '<order id="1"/>' },
+            vars: { ext: 'json', content: '{"region":"eu"}' },
+            attributes: { ext: 'urlencoded', content: 'a=1&b=2' }
+        });
+    });
+
+    test('should capture stderr and parse errors when the CLI fails', async function () {
+        if (process.platform === 'win32') { this.skip(); }
+        const result = await runDwCli(cliPath, 'FAIL', [], 10000);
+
+        assert.notStrictEqual(result.exitCode, 0);
+        assert.strictEqual(result.errors.length, 2);
+        assert.strictEqual(result.errors[0].line, 4);
+    });
+
+    test('should stop the CLI when it exceeds the timeout', async function () {
+        if (process.platform === 'win32') { this.skip(); }
+        this.timeout(10000);
+        const result = await runDwCli(cliPath, 'HANG', [], 500);
+
+        assert.strictEqual(result.timedOut, true);
+        assert.ok(result.durationMs < 5000);
+    });
+
+    test('should reject invalid or duplicate input names', async () => {
+        await assert.rejects(
+            runDwCli(cliPath, 'payload', [{ name: 'my-input', content: '', mimeType: 'text/plain' }], 1000),
+            (err: any) => err instanceof DataWeaveCliError && err.code === 'INVALID_INPUT'
+        );
+        await assert.rejects(
+            runDwCli(cliPath, 'payload', [
+                { name: 'payload', content: '', mimeType: 'text/plain' },
+                { name: 'payload', content: '', mimeType: 'text/plain' }
+            ], 1000),
+            /Duplicate input name/
+        );
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { normalizeSession, sessionFileName } from '../../anypoint/dataweaveSessions';
+import { validateInputNames } from '../../controllers/dataweaveCli';
+
+suite('DataWeave Sessions Test Suite', () => {
+
+    test('should derive a file name from the session name', () => {
+        assert.strictEqual(sessionFileName('Order to SAP IDoc'), 'order-to-sap-idoc.json');
+        assert.strictEqual(sessionFileName('  --vars & attributes!  '), 'vars-attributes.json');
+        assert.strictEqual(sessionFileName('***'), 'session.json');
+    });
+
+    test('should keep named inputs with their mime types', () => {
+        const session = normalizeSession({
+            name: 'Headers',
+            script: 'output json --- attributes.headers',
+            inputs: [
+                { name: 'payload', mimeType: 'application/xml', content: '<a/>' },
+                { name: 'attributes', mimeType: 'application/json', content: { headers: { host: 'x' } } },
+                { name: 'form', mimeType: 'application/x-www-form-urlencoded', content: 'a=1' }
+            ],
+            savedAt: '2026-10-01T10:00:00.000Z'
+        });
+
+        assert.ok(session);
+        assert.strictEqual(session.name, 'Headers');
+        assert.deepStrictEqual(session.inputs.map(i => [i.name, i.mimeType]), [
+            ['payload', 'application/xml'],
+            ['attributes', 'application/json'],
+            ['form', 'application/x-www-form-urlencoded']
+        ]);
+        assert.deepStrictEqual(JSON.parse(session.inputs[1].content), { headers: { host: 'x' } });
+        assert.strictEqual(session.savedAt, '2026-10-01T10:00:00.000Z');
+    });
+
+    test('should drop malformed and duplicate inputs', () => {
+        const session = normalizeSession({
+            script: 'payload',
+            inputs: [
+                { name: 'payload', content: '{}' },
+                { name: 'payload', content: '[]' },
+                { name: 'bad-name', content: '' },
+                null,
+                { content: 'no name' }
+            ]
+        }, 'from-file');
+
+        assert.ok(session);
+        assert.strictEqual(session.name, 'from-file');
+        assert.deepStrictEqual(session.inputs, [{ name: 'payload', content: '{}', mimeType: 'application/json' }]);
+    });
+
+    test('should reject files without a script', () => {
+        assert.strictEqual(normalizeSession({ name: 'x', inputs: [] }), undefined);
+        assert.strictEqual(normalizeSession(null), undefined);
+        assert.strictEqual(normalizeSession([]), undefined);
+    });
+
+    test('should report invalid and duplicate input names', () => {
+        assert.strictEqual(validateInputNames([{ name: 'payload' }, { name: 'vars' }, { name: 'attributes' }]), undefined);
+        assert.match(validateInputNames([{ name: '1st' }]) || '', /Invalid input name "1st"/);
+        assert.match(validateInputNames([{ name: 'vars' }, { name: 'vars' }]) || '', /Duplicate input name "vars"/);
+    });
+});
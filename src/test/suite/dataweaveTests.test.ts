@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import {
+    compareOutputs,
+    declaredOutputMimeType,
+    diffValues,
+    normalizeTestFile,
+    summarizeTestResults,
+    testFileNameFor,
+    upsertTestCase
+} from '../../anypoint/dataweaveTests';
+
+suite('DataWeave Tests Test Suite', () => {
+
+    test('should name the test file after the script', () => {
+        assert.strictEqual(testFileNameFor('order-to-sap.dwl'), 'order-to-sap.dwtest.json');
+        assert.strictEqual(testFileNameFor('Mapping.DWL'), 'Mapping.dwtest.json');
+    });
+
+    test('should read the output mime type from the script header', () => {
+        assert.strictEqual(declaredOutputMimeType('%dw 2.0\noutput application/xml\n---\npayload'), 'application/xml');
+        assert.strictEqual(declaredOutputMimeType('%dw 2.0\noutput json\n---\npayload'), 'application/json');
+        assert.strictEqual(declaredOutputMimeType('%dw 2.0\noutput csv separator=";"\n---\npayload'), 'application/csv');
+        assert.strictEqual(declaredOutputMimeType('%dw 2.0\n---\n{ output: 1 }'), 'application/json');
+    });
+
+    test('should ignore JSON formatting and key order', () => {
+        assert.deepStrictEqual(compareOutputs('{"a":1,"b":[1,2]}', '{\n  "b": [1, 2],\n  "a": 1\n}', 'application/json'), []);
+    });
+
+    test('should report changed, added and removed JSON paths', () => {
+        const diffs = compareOutputs(
+            JSON.stringify({ order: { id: 'A1', total: 10, lines: [{ sku: 'X' }, { sku: 'Y' }] } }),
+            JSON.stringify({ order: { id: 'A1', total: '10', lines: [{ sku: 'X' }], currency: 'EUR' } }),
+            'application/json'
+        );
+        assert.deepStrictEqual(diffs, [
+            { path: 'order.total', kind: 'changed', expected: '10', actual: '"10"' },
+            { path: 'order.lines[1]', kind: 'removed', expected: '{"sku":"Y"}' },
+            { path: 'order.currency', kind: 'added', actual: '"EUR"' }
+        ]);
+    });
+
+    test('should compare XML structurally including attributes', () => {
+        const expected = '<order id="1">\n  <line sku="X">2</line>\n  <line sku="Y">1</line>\n</order>';
+        assert.deepStrictEqual(compareOutputs(expected, '<order id="1"><line sku="X">2</line><line sku="Y">1</line></order>', 'application/xml'), []);
+
+        const diffs = compareOutputs(expected, '<order id="2"><line sku="X">3</line><line sku="Y">1</line></order>', 'application/xml');
+        assert.deepStrictEqual(diffs, [
+            { path: 'order.line[0].#text', kind: 'changed', expected: '"2"', actual: '"3"' },
+            { path: 'order.@id', kind: 'changed', expected: '"1"', actual: '"2"' }
+        ]);
+    });
+
+    test('should fall back to a line diff for text and unparseable output', () => {
+        assert.deepStrictEqual(compareOutputs('a,b\n1,2\n', 'a,b\r\n1,3', 'application/csv'), [
+            { path: 'line 2', kind: 'changed', expected: '1,2', actual: '1,3' }
+        ]);
+        assert.deepStrictEqual(compareOutputs('{"a":1}', 'not json', 'application/json'), [
+            { path: 'line 1', kind: 'changed', expected: '{"a":1}', actual: 'not json' }
+        ]);
+    });
+
+    test('should treat a scalar replaced by an object as a change', () => {
+        assert.deepStrictEqual(diffValues({ a: 1 }, { a: { b: 1 } }), [
+            { path: 'a', kind: 'changed', expected: '1', actual: '{"b":1}' }
+        ]);
+    });
+
+    test('should normalize test files and upsert cases by name', () => {
+        const file = normalizeTestFile({
+            cases: [
+                { name: 'happy path', inputs: [{ name: 'payload', content: { id: 1 } }], expected: { ok: true } },
+                { inputs: [] }
+            ]
+        }, 'mapping.dwl');
+
+        assert.strictEqual(file.script, 'mapping.dwl');
+        assert.strictEqual(file.cases.length, 1);
+        assert.deepStrictEqual(file.cases[0].inputs[0], { name: 'payload', content: '{\n  "id": 1\n}', mimeType: 'application/json' });
+        assert.strictEqual(file.cases[0].expected, '{\n  "ok": true\n}');
+
+        const replaced = upsertTestCase(file, { name: 'happy path', inputs: [], expected: '{}' });
+        assert.strictEqual(replaced.cases.length, 1);
+        assert.strictEqual(replaced.cases[0].expected, '{}');
+        assert.strictEqual(upsertTestCase(file, { name: 'empty order', inputs: [], expected: '{}' }).cases.length, 2);
+    });
+
+    test('should count passed, failed and errored cases', () => {
+        assert.deepStrictEqual(summarizeTestResults([
+            { file: 'a', script: 'a.dwl', cases: [{ name: '1', status: 'passed', diffs: [] }, { name: '2', status: 'failed', diffs: [] }] },
+            { file: 'b', script: 'b.dwl', cases: [{ name: '3', status: 'error', diffs: [] }] }
+        ]), { passed: 1, failed: 1, errors: 1 });
+    });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import {
+    diffDependencyMaps,
+    isDependencyDiffEmpty,
+    isProductionEnvironment,
+    findUndeclaredDependencies,
+    renderDependencyMapDiffMarkdown
+} from '../../warroom/dependencyDrift';
+import { createDependencyMap } from '../mocks/warRoomMocks';
+import { DependencyEntry } from '../../warroom/types';
+
+function dep(sourceApp: string, targetApp: string, overrides?: Partial<DependencyEntry>): DependencyEntry {
+    return {
+        sourceApp,
+        targetApp,
+        targetUrl: `https://${targetApp}.cloudhub.io`,
+        discoveryMethod: 'property_file',
+        confidence: 'high',
+        isExternal: false,
+        ...overrides
+    };
+}
+
+suite('DependencyDrift Test Suite', () => {
+
+    suite('diffDependencyMaps', () => {
+
+        test('should report no changes for identical maps', () => {
+            const map = createDependencyMap();
+            assert.ok(isDependencyDiffEmpty(diffDependencyMaps(map, map)));
+        });
+
+        test('should detect added and removed edges', () => {
+            const from = createDependencyMap({ dependencies: [dep('order-api', 'payment-sapi'), dep('order-api', 'inventory-sapi')] });
+            const to = createDependencyMap({ dependencies: [dep('order-api', 'payment-sapi'), dep('order-api', 'auth-service')] });
+            const diff = diffDependencyMaps(from, to);
+
+            assert.deepStrictEqual(diff.addedEdges.map(d => d.targetApp), ['auth-service']);
+            assert.deepStrictEqual(diff.removedEdges.map(d => d.targetApp), ['inventory-sapi']);
+        });
+
+        test('should detect changed target URLs for the same pair', () => {
+            const from = createDependencyMap({ dependencies: [dep('order-api', 'payment-sapi')] });
+            const to = createDependencyMap({
+                dependencies: [dep('order-api', 'payment-sapi', { targetUrl: 'https://payment-sapi-v2.cloudhub.io' })]
+            });
+            const diff = diffDependencyMaps(from, to);
+
+            assert.strictEqual(diff.addedEdges.length, 0);
+            assert.deepStrictEqual(diff.changedUrls, [{
+                sourceApp: 'order-api',
+                targetApp: 'payment-sapi',
+                before: ['https://payment-sapi.cloudhub.io'],
+                after: ['https://payment-sapi-v2.cloudhub.io']
+            }]);
+        });
+
+        test('should list new external services once', () => {
+            const from = createDependencyMap({ dependencies: [dep('order-api', 'api.stripe.com', { isExternal: true })] });
+            const to = createDependencyMap({
+                dependencies: [
+                    dep('order-api', 'api.stripe.com', { isExternal: true }),
+                    dep('order-api', 'login.salesforce.com', { isExternal: true }),
+                    dep('payment-sapi', 'login.salesforce.com', { isExternal: true })
+                ]
+            });
+
+            assert.deepStrictEqual(diffDependencyMaps(from, to).newExternalServices, ['login.salesforce.com']);
+        });
+    });
+
+    suite('findUndeclaredDependencies', () => {
+
+        test('should skip manual edges and pairs declared in the manual file', () => {
+            const from = createDependencyMap({ dependencies: [] });
+            const to = createDependencyMap({
+                dependencies: [
+                    dep('order-api', 'payment-sapi'),
+                    dep('order-api', 'inventory-sapi'),
+                    dep('auth-service', 'order-api', { discoveryMethod: 'manual' })
+                ]
+            });
+            const undeclared = findUndeclaredDependencies(
+                diffDependencyMaps(from, to),
+                [{ sourceApp: 'order-api', targetApp: 'inventory-sapi' }]
+            );
+
+            assert.deepStrictEqual(undeclared.map(d => d.targetApp), ['payment-sapi']);
+        });
+    });
+
+    suite('isProductionEnvironment', () => {
+
+        test('should match prod and prd environment names', () => {
+            assert.ok(isProductionEnvironment('Production'));
+            assert.ok(isProductionEnvironment('eu-PRD'));
+            assert.ok(!isProductionEnvironment('Sandbox'));
+        });
+    });
+
+    suite('renderDependencyMapDiffMarkdown', () => {
+
+        test('should render sections only for non-empty changes', () => {
+            const from = createDependencyMap({ dependencies: [] });
+            const to = createDependencyMap({ dependencies: [dep('order-api', 'payment-sapi')] });
+            const md = renderDependencyMapDiffMarkdown(diffDependencyMaps(from, to), 'Production');
+
+            assert.ok(md.startsWith('# Dependency Map Drift — Production'));
+            assert.ok(md.includes('## New Dependencies (1)'));
+            assert.ok(md.includes('| order-api | payment-sapi | https://payment-sapi.cloudhub.io | property file | high |'));
+            assert.ok(!md.includes('## Removed Dependencies'));
+        });
+    });
+});
@@ -0,0 +1,143 @@
+// src/test/suite/fire.customHypothesisRules.test.ts
+// Unit tests for workspace-defined hypothesis rules (.fire/rules).
+// Pure logic — no VS Code API required.
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  compileHypothesisRule,
+  loadWorkspaceHypothesisRules,
+  parseHypothesisRuleFile,
+  validateHypothesisRuleDefinition,
+} from '../../fire/customHypothesisRules.js';
+import { generateHypotheses, setWorkspaceHypothesisRules } from '../../fire/hypothesisEngine.js';
+import { HypothesisRuleDefinition, ParsedMuleError } from '../../fire/types.js';
+
+function makeError(overrides: Partial<ParsedMuleError> = {}): ParsedMuleError {
+  return {
+    errorType:     'APP:CREDIT_BLOCKED',
+    flowName:      'sap-create-order-flow',
+    processorPath: 'processors/4',
+    elementPath:   null,
+    threadName:    null,
+    errorMessage:  'Credit limit of 5000 exceeded for customer C-1042',
+    category:      'unknown',
+    confidence:    0.9,
+    ...overrides,
+  };
+}
+
+const CREDIT_RULE: HypothesisRuleDefinition = {
+  id: 'sap-credit-block',
+  match: {
+    errorType: 'APP:*',
+    message: 'credit limit of (\\d+) exceeded for customer (?<customer>[\\w-]+)',
+    flowName: '^sap-',
+  },
+  title: 'Customer {customer} is over the {1} credit limit',
+  explanation: 'SAP rejected the order raised in {flowName} ({errorType}).',
+  suggestion: 'Ask finance to raise the limit for {customer} or route the order to manual review.',
+  confidence: 0.93,
+};
+
+suite('FIRE › customHypothesisRules', () => {
+
+  teardown(() => setWorkspaceHypothesisRules([]));
+
+  test('parses a YAML file with a rules list', () => {
+    const yaml = [
+      'rules:',
+      '  - id: vendor-rate-limit',
+      '    match:',
+      '      message: "VND-429"',
+      '      category: connectivity',
+      '    title: Vendor API rate limit reached',
+      '    explanation: The vendor returned VND-429.',
+      '    suggestion: Add a until-successful scope with backoff.',
+    ].join('\n');
+
+    const { definitions, errors } = parseHypothesisRuleFile(yaml, 'vendor.yaml');
+    assert.deepStrictEqual(errors, []);
+    assert.strictEqual(definitions.length, 1);
+    assert.strictEqual(definitions[0].match.category, 'connectivity');
+  });
+
+  test('reports invalid rules and keeps the valid ones', () => {
+    const json = JSON.stringify([
+      CREDIT_RULE,
+      { id: 'broken', match: { message: '(' , category: 'database' }, title: 'x' },
+    ]);
+
+    const { definitions, errors } = parseHypothesisRuleFile(json, 'rules.json');
+    assert.deepStrictEqual(definitions.map(d => d.id), ['sap-credit-block']);
+    assert.ok(errors.some(e => e.startsWith('rules.json rule "broken": "explanation" is required')));
+    assert.ok(errors.some(e => e.includes('"match.message" is not a valid regular expression')));
+    assert.ok(errors.some(e => e.includes('"match.category" must be one of')));
+  });
+
+  test('rejects rules without conditions or with an out-of-range confidence', () => {
+    const { errors } = validateHypothesisRuleDefinition({ ...CREDIT_RULE, match: {}, confidence: 3 });
+    assert.deepStrictEqual(errors, [
+      '"confidence" must be a number between 0 and 1',
+      '"match" needs at least one of errorType, message, flowName, category',
+    ]);
+    assert.deepStrictEqual(parseHypothesisRuleFile('{"rules": 1}', 'x.json').errors, [
+      'x.json: expected a list of rules or an object with a "rules" list',
+    ]);
+  });
+
+  test('matches on every condition and fills templates from captured groups', () => {
+    const rule = compileHypothesisRule(CREDIT_RULE);
+
+    assert.ok(rule.matches(makeError(), null));
+    assert.ok(!rule.matches(makeError({ errorType: 'HTTP:CONNECTIVITY' }), null));
+    assert.ok(!rule.matches(makeError({ flowName: 'order-api-main' }), null));
+
+    const hypothesis = rule.produce(makeError(), null);
+    assert.strictEqual(hypothesis.title, 'Customer C-1042 is over the 5000 credit limit');
+    assert.strictEqual(hypothesis.explanation, 'SAP rejected the order raised in sap-create-order-flow (APP:CREDIT_BLOCKED).');
+    assert.strictEqual(hypothesis.confidence, 0.93);
+  });
+
+  test('workspace rules are ranked alongside built-in rules', () => {
+    setWorkspaceHypothesisRules([
+      compileHypothesisRule({ ...CREDIT_RULE, match: { category: 'connectivity' }, confidence: 0.95 }),
+    ]);
+
+    const results = generateHypotheses(makeError({
+      errorType: 'HTTP:CONNECTIVITY',
+      errorMessage: 'Connection refused',
+      category: 'connectivity',
+    }), null);
+
+    assert.strictEqual(results[0].ruleId, 'sap-credit-block');
+    assert.strictEqual(results[0].source, 'workspace');
+    assert.strictEqual(results[1].source, 'builtin');
+  });
+
+  test('loads rule files from .fire/rules and skips duplicate ids', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'fire-rules-test-'));
+    try {
+      const dir = path.join(root, '.fire', 'rules');
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify({ rules: [CREDIT_RULE] }));
+      fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify([{ ...CREDIT_RULE }, { ...CREDIT_RULE, id: 'http-timeout' }]));
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+      const { rules, errors } = loadWorkspaceHypothesisRules(root, ['http-timeout']);
+      assert.deepStrictEqual(rules.map(r => r.id), ['sap-credit-block']);
+      assert.deepStrictEqual(errors, [
+        'b.json: duplicate rule id "sap-credit-block"',
+        'b.json: duplicate rule id "http-timeout"',
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('returns no rules when the workspace has no .fire/rules folder', () => {
+    assert.deepStrictEqual(loadWorkspaceHypothesisRules(os.tmpdir()), { rules: [], errors: [] });
+  });
+});
@@ -0,0 +1,161 @@
+// src/test/suite/fire.elementResolver.test.ts
+// Unit tests for the FIRE element resolver.
+// Pure logic — no VS Code API required.
+
+import * as assert from 'assert';
+import { resolveElementLocation, splitComponentPath } from '../../fire/elementResolver.js';
+import { ParsedMuleError } from '../../fire/types.js';
+
+// ─── Test fixtures ────────────────────────────────────────────────────────────
+
+const ORDERS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<mule xmlns="http://www.mulesoft.org/schema/mule/core"
+      xmlns:ee="http://www.mulesoft.org/schema/mule/ee/core"
+      xmlns:http="http://www.mulesoft.org/schema/mule/http">
+  <flow name="order-flow">
+    <http:listener config-ref="api" path="/orders" doc:id="src-1"/>
+    <logger level="INFO" message="received" doc:id="log-1"/>
+    <choice doc:name="Route by region">
+      <when expression="#[vars.region == 'EU']">
+        <ee:transform doc:name="Map EU order" doc:id="tx-eu">
+          <ee:message>
+            <ee:set-payload><![CDATA[%dw 2.0
+output application/json
+---
+{ total: payload.total as Number, note: "<not a tag>" }]]></ee:set-payload>
+          </ee:message>
+        </ee:transform>
+      </when>
+      <otherwise>
+        <!-- <ee:transform doc:name="commented out"/> -->
+        <ee:transform doc:name="Map order" doc:id="tx-default"/>
+      </otherwise>
+    </choice>
+    <error-handler>
+      <on-error-propagate type="MULE:EXPRESSION">
+        <logger level="ERROR" message="mapping failed" doc:id="log-err"/>
+      </on-error-propagate>
+    </error-handler>
+  </flow>
+</mule>`;
+
+function makeError(overrides: Partial<ParsedMuleError> = {}): ParsedMuleError {
+  return {
+    errorType:     'MULE:EXPRESSION',
+    flowName:      'order-flow',
+    processorPath: null,
+    elementPath:   null,
+    threadName:    null,
+    errorMessage:  null,
+    category:      'expression',
+    confidence:    0.9,
+    ...overrides,
+  };
+}
+
+/** 0-based line of the first line containing `needle` */
+function lineOf(needle: string): number {
+  return ORDERS_XML.split('\n').findIndex(line => line.includes(needle));
+}
+
+// ─── resolveElementLocation ───────────────────────────────────────────────────
+
+suite('FIRE › elementResolver › resolveElementLocation', () => {
+
+  test('resolves a nested route processor by component location', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      componentPath: 'order-flow/processors/1/route/0/processors/0',
+    }));
+    assert.ok(result, 'Expected a match');
+    assert.strictEqual(result!.matchMethod, 'element-path');
+    assert.strictEqual(result!.lineNumber, lineOf('Map EU order'));
+    assert.strictEqual(result!.columnNumber, 8);
+    assert.strictEqual(result!.processorName, 'Map EU order');
+  });
+
+  test('ignores elements inside comments and CDATA when counting tags', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      componentPath: 'order-flow/processors/1/route/1/processors/0',
+    }));
+    assert.strictEqual(result!.lineNumber, lineOf('doc:id="tx-default"'));
+  });
+
+  test('prefers doc:id over the component location', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      componentPath: 'order-flow/processors/0',
+      docId:         'tx-default',
+    }));
+    assert.strictEqual(result!.matchMethod, 'doc-id');
+    assert.strictEqual(result!.lineNumber, lineOf('doc:id="tx-default"'));
+  });
+
+  test('resolves processors in the flow error handler', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      componentPath: 'order-flow/errorHandler/0/processors/0',
+    }));
+    assert.strictEqual(result!.lineNumber, lineOf('mapping failed'));
+  });
+
+  test('uses the error flow name for paths logged without one', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      flowName:    'order_flow',
+      elementPath: 'processors/0',
+    }));
+    assert.strictEqual(result!.matchMethod, 'element-path');
+    assert.strictEqual(result!.flowName, 'order-flow');
+    assert.strictEqual(result!.lineNumber, lineOf('doc:id="log-1"'));
+  });
+
+  test('returns null when the path does not exist in the file', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      componentPath: 'order-flow/processors/7',
+    }));
+    assert.strictEqual(result, null);
+  });
+
+  test('returns null for a label-style element path so the fuzzy scan can run', () => {
+    const result = resolveElementLocation('orders.xml', ORDERS_XML, makeError({
+      elementPath: 'transform-message:Transform Message',
+    }));
+    assert.strictEqual(result, null);
+  });
+
+  test('returns null for malformed XML', () => {
+    const result = resolveElementLocation('broken.xml', '<mule><flow name="order-flow"><logger/></flow></mule', makeError({
+      componentPath: 'order-flow/processors/0',
+    }));
+    assert.strictEqual(result, null);
+  });
+});
+
+// ─── splitComponentPath ───────────────────────────────────────────────────────
+
+suite('FIRE › elementResolver › splitComponentPath', () => {
+
+  test('splits the flow name from the location below it', () => {
+    assert.deepStrictEqual(splitComponentPath('order-flow/processors/2/processors/0'), {
+      flowName: 'order-flow',
+      relativePath: 'processors/2/processors/0',
+    });
+  });
+
+  test('accepts paths without a flow name and trailing slashes', () => {
+    assert.deepStrictEqual(splitComponentPath('processors/1/'), {
+      flowName: null,
+      relativePath: 'processors/1',
+    });
+  });
+
+  test('accepts the message source', () => {
+    assert.deepStrictEqual(splitComponentPath('order-flow/source'), {
+      flowName: 'order-flow',
+      relativePath: 'source',
+    });
+  });
+
+  test('rejects labels and malformed paths', () => {
+    assert.strictEqual(splitComponentPath('transform-message:Transform Message'), null);
+    assert.strictEqual(splitComponentPath('order-flow'), null);
+    assert.strictEqual(splitComponentPath('order-flow/processors/two'), null);
+  });
+});
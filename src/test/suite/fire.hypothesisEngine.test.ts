@@ -283,6 +283,32 @@ suite('FIRE › hypothesisEngine › generateHypotheses', () => {
     assert.ok(runtimeHyp, 'Expected flow name in runtime hypothesis explanation');
   });
 
+  test('flags an error type no workspace handler catches', () => {
+    const error = makeError({
+      category:     'runtime',
+      errorType:    'APP:CREDIT_BLOCKED',
+      errorMessage: 'Credit limit exceeded',
+      handledBy:    [],
+    });
+    const results = generateHypotheses(error, null);
+    const unhandled = results.find(h => h.ruleId === 'unhandled-error-type');
+    assert.ok(unhandled, 'Expected unhandled-error-type hypothesis');
+    assert.ok(unhandled!.title.includes('APP:CREDIT_BLOCKED'));
+  });
+
+  test('does not flag handled errors or errors with unknown handling', () => {
+    for (const handledBy of [['on-error-continue in process-order-flow'], null, undefined]) {
+      const error = makeError({
+        category:     'runtime',
+        errorType:    'APP:CREDIT_BLOCKED',
+        errorMessage: 'Credit limit exceeded',
+        handledBy,
+      });
+      const results = generateHypotheses(error, null);
+      assert.ok(!results.some(h => h.ruleId === 'unhandled-error-type'));
+    }
+  });
+
   // ── Unknown / edge cases ────────────────────────────────────────────────────
 
   test('returns empty array for unknown category with no message', () => {
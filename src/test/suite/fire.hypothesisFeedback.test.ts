@@ -0,0 +1,173 @@
+// src/test/suite/fire.hypothesisFeedback.test.ts
+// Unit tests for feedback-driven hypothesis ranking.
+// Pure logic — no VS Code API required.
+
+import * as assert from 'assert';
+import { generateHypotheses } from '../../fire/hypothesisEngine.js';
+import {
+  countVotes,
+  emptyFeedbackStore,
+  errorSignature,
+  feedbackAdjustment,
+  hideHypothesis,
+  mergeFeedbackStores,
+  normalizeFeedbackStore,
+  recordFeedback,
+  unhideHypothesis,
+} from '../../fire/hypothesisFeedback.js';
+import { HypothesisFeedbackStore, ParsedMuleError } from '../../fire/types.js';
+
+function makeError(overrides: Partial<ParsedMuleError> = {}): ParsedMuleError {
+  return {
+    errorType:     'HTTP:CONNECTIVITY',
+    flowName:      'sync-orders-flow',
+    processorPath: 'processors/3',
+    elementPath:   null,
+    threadName:    null,
+    errorMessage:  'Connection refused: connect timed out after 30000 ms',
+    category:      'connectivity',
+    confidence:    0.9,
+    ...overrides,
+  };
+}
+
+function vote(store: HypothesisFeedbackStore, ruleId: string, errorType: string | null, helpful: boolean, times: number) {
+  for (let i = 0; i < times; i++) {
+    store = recordFeedback(store, ruleId, errorType, helpful);
+  }
+  return store;
+}
+
+suite('FIRE › hypothesisFeedback', () => {
+
+  test('static ranking tags each hypothesis with its rule', () => {
+    const ids = generateHypotheses(makeError(), null).map(h => h.ruleId);
+    assert.deepStrictEqual(ids, ['http-connection-refused', 'http-timeout', 'general-connectivity']);
+  });
+
+  test('votes on the same error type re-rank hypotheses', () => {
+    let store = emptyFeedbackStore();
+    store = vote(store, 'http-timeout', 'HTTP:CONNECTIVITY', true, 6);
+    store = vote(store, 'http-connection-refused', 'HTTP:CONNECTIVITY', false, 3);
+
+    const ranked = generateHypotheses(makeError(), null, store);
+    assert.strictEqual(ranked[0].ruleId, 'http-timeout');
+    assert.ok(ranked[0].confidence > 0.88);
+    assert.ok(ranked.find(h => h.ruleId === 'http-connection-refused')!.confidence < 0.90);
+  });
+
+  test('votes on other error types weigh less than votes on this one', () => {
+    const sameType = vote(emptyFeedbackStore(), 'http-timeout', 'HTTP:CONNECTIVITY', true, 4);
+    const otherType = vote(emptyFeedbackStore(), 'http-timeout', 'HTTP:TIMEOUT', true, 4);
+
+    const same = feedbackAdjustment(sameType, 'http-timeout', 'HTTP:CONNECTIVITY');
+    const other = feedbackAdjustment(otherType, 'http-timeout', 'HTTP:CONNECTIVITY');
+    assert.ok(other > 0);
+    assert.ok(same > other);
+    assert.strictEqual(feedbackAdjustment(emptyFeedbackStore(), 'http-timeout', null), 0);
+  });
+
+  test('hidden hypotheses are dropped only for the same error signature', () => {
+    const error = makeError();
+    const store = hideHypothesis(emptyFeedbackStore(), errorSignature(error), 'http-timeout');
+
+    assert.ok(!generateHypotheses(error, null, store).some(h => h.ruleId === 'http-timeout'));
+    assert.ok(generateHypotheses(
+      makeError({ errorMessage: 'Read timeout while waiting for response' }), null, store
+    ).some(h => h.ruleId === 'http-timeout'));
+  });
+
+  test('error signatures ignore numbers and quoted values', () => {
+    assert.strictEqual(
+      errorSignature(makeError({ errorMessage: "Field 'customerId' missing in order 1234" })),
+      errorSignature(makeError({ errorMessage: "Field 'orderId' missing in order 98" }))
+    );
+    assert.notStrictEqual(
+      errorSignature(makeError()),
+      errorSignature(makeError({ errorType: 'HTTP:TIMEOUT' }))
+    );
+  });
+
+  test('merging adds votes and unions hidden rules', () => {
+    const a = hideHypothesis(vote({ ...emptyFeedbackStore(), origin: 'alice' }, 'db-connectivity', 'DB:CONNECTIVITY', true, 2), 'sig', 'a');
+    const b = hideHypothesis(vote({ ...emptyFeedbackStore(), origin: 'bob' }, 'db-connectivity', 'DB:CONNECTIVITY', false, 1), 'sig', 'b');
+
+    const merged = mergeFeedbackStores(a, b);
+    assert.deepStrictEqual(merged.rules['db-connectivity'], { helpful: 2, notHelpful: 0 });
+    assert.deepStrictEqual(merged.sources['bob'].byErrorType['DB:CONNECTIVITY']['db-connectivity'], { helpful: 0, notHelpful: 1 });
+    assert.strictEqual(countVotes(merged), 3);
+    assert.deepStrictEqual(merged.hidden['sig'], ['a', 'b']);
+  });
+
+  test('importing the same export twice does not count its votes twice', () => {
+    const local = vote({ ...emptyFeedbackStore(), origin: 'alice' }, 'http-timeout', 'HTTP:CONNECTIVITY', true, 1);
+    const exported = vote({ ...emptyFeedbackStore(), origin: 'bob' }, 'http-timeout', 'HTTP:CONNECTIVITY', true, 3);
+
+    const once = mergeFeedbackStores(local, exported);
+    const twice = mergeFeedbackStores(once, exported);
+    assert.deepStrictEqual(twice, once);
+    assert.strictEqual(countVotes(twice), 4);
+
+    // A newer export from the same teammate replaces the older votes
+    const updated = mergeFeedbackStores(twice, vote(exported, 'http-timeout', 'HTTP:CONNECTIVITY', false, 1));
+    assert.deepStrictEqual(updated.sources['bob'].rules['http-timeout'], { helpful: 3, notHelpful: 1 });
+    assert.strictEqual(countVotes(updated), 5);
+  });
+
+  test('votes imported from an export are not re-imported through a teammate', () => {
+    const alice = vote({ ...emptyFeedbackStore(), origin: 'alice' }, 'http-timeout', null, true, 2);
+    const bob = mergeFeedbackStores(vote({ ...emptyFeedbackStore(), origin: 'bob' }, 'http-timeout', null, true, 1), alice);
+
+    const merged = mergeFeedbackStores(alice, bob);
+    assert.deepStrictEqual(Object.keys(merged.sources), ['bob']);
+    assert.strictEqual(countVotes(merged), 3);
+  });
+
+  test('exports without an origin are recognised when imported again', () => {
+    const legacy = normalizeFeedbackStore({ version: 1, rules: { 'http-timeout': { helpful: 2 } }, byErrorType: {}, hidden: {} });
+    const once = mergeFeedbackStores(emptyFeedbackStore(), legacy);
+    assert.deepStrictEqual(mergeFeedbackStores(once, legacy), once);
+    assert.strictEqual(countVotes(once), 2);
+  });
+
+  test('imported votes re-rank hypotheses like local ones', () => {
+    const exported = vote({ ...emptyFeedbackStore(), origin: 'bob' }, 'http-timeout', 'HTTP:CONNECTIVITY', true, 4);
+    const merged = mergeFeedbackStores({ ...emptyFeedbackStore(), origin: 'alice' }, exported);
+    assert.strictEqual(
+      feedbackAdjustment(merged, 'http-timeout', 'HTTP:CONNECTIVITY'),
+      feedbackAdjustment(exported, 'http-timeout', 'HTTP:CONNECTIVITY')
+    );
+  });
+
+  test('unhiding shows a hypothesis again', () => {
+    const error = makeError();
+    const hidden = hideHypothesis(emptyFeedbackStore(), errorSignature(error), 'http-timeout');
+    const store = unhideHypothesis(hidden, errorSignature(error), 'http-timeout');
+
+    assert.ok(generateHypotheses(error, null, store).some(h => h.ruleId === 'http-timeout'));
+    assert.deepStrictEqual(store.hidden, {});
+    assert.strictEqual(unhideHypothesis(store, 'sig', 'http-timeout'), store);
+  });
+
+  test('normalizes imported data and drops the legacy title-keyed format', () => {
+    assert.deepStrictEqual(normalizeFeedbackStore({ 'hypothesis.http_request_timed_out': 3 }), emptyFeedbackStore());
+    assert.deepStrictEqual(normalizeFeedbackStore(null), emptyFeedbackStore());
+
+    const store = normalizeFeedbackStore({
+      version: 1,
+      rules: { 'http-timeout': { helpful: 2.7, notHelpful: -1 }, broken: 'x' },
+      byErrorType: { 'HTTP:TIMEOUT': { 'http-timeout': { helpful: 1 } }, bad: [] },
+      hidden: { sig: ['http-timeout', 'http-timeout', 7] },
+      origin: 'alice',
+      sources: { bob: { rules: { 'http-timeout': { notHelpful: 1 } } }, broken: 3 },
+    });
+    assert.deepStrictEqual(store, {
+      version: 1,
+      origin: 'alice',
+      rules: { 'http-timeout': { helpful: 2, notHelpful: 0 }, broken: { helpful: 0, notHelpful: 0 } },
+      byErrorType: { 'HTTP:TIMEOUT': { 'http-timeout': { helpful: 1, notHelpful: 0 } } },
+      hidden: { sig: ['http-timeout'] },
+      sources: { bob: { rules: { 'http-timeout': { helpful: 0, notHelpful: 1 } }, byErrorType: {} } },
+    });
+  });
+});
@@ -10,6 +10,8 @@ import {
   extractVariables,
   extractAttributes,
   buildExecutionContext,
+  extractCorrelationId,
+  extractProcessorLocation,
 } from '../../fire/logParser.js';
 
 // ─── Real-world Mule log samples ─────────────────────────────────────────────
@@ -46,6 +48,14 @@ const SAMPLE_INFO_ONLY =
   `INFO 2024-03-15 14:30:00.000 [MuleRuntime].uber-3 ` +
   `Processing request for customer CUST-4471`;
 
+const SAMPLE_STRUCTURED_ERROR = [
+  `ERROR 2024-03-15 14:36:12.310 [[MuleRuntime].uber.05: [order-api].order-flow.CPU_INTENSIVE @4f1e2d]`,
+  `Message               : "Unable to parse total" evaluating expression: "payload.total as Number"`,
+  `Element               : order-flow/processors/1/route/0/processors/0 @ order-api:orders.xml:25 (Transform Message)`,
+  `Element DSL           : <ee:transform doc:name="Transform Message" doc:id="6d5a0c1e-21f3-4b8a-9a1e-0c8c2f0f9b11">`,
+  `Error type            : MULE:EXPRESSION`,
+].join('\n');
+
 const SAMPLE_EMPTY = ``;
 
 // ─── parseLogEntry ────────────────────────────────────────────────────────────
@@ -120,6 +130,18 @@ suite('FIRE › logParser › parseLogEntry', () => {
     );
   });
 
+  test('extracts the full component location and doc:id from the Element block', () => {
+    const result = parseLogEntry(SAMPLE_STRUCTURED_ERROR);
+    assert.strictEqual(result.componentPath, 'order-flow/processors/1/route/0/processors/0');
+    assert.strictEqual(result.docId, '6d5a0c1e-21f3-4b8a-9a1e-0c8c2f0f9b11');
+  });
+
+  test('leaves component location and doc:id null for a label-style element', () => {
+    const result = parseLogEntry(SAMPLE_WITH_FLOW_LABEL);
+    assert.strictEqual(result.componentPath, null);
+    assert.strictEqual(result.docId, null);
+  });
+
   test('never throws on empty string', () => {
     assert.doesNotThrow(() => parseLogEntry(SAMPLE_EMPTY));
   });
@@ -321,4 +343,42 @@ suite('FIRE › logParser › buildExecutionContext', () => {
   test('returns null for empty entries array', () => {
     assert.strictEqual(buildExecutionContext([], 'my-api'), null);
   });
-});
\ No newline at end of file
+});
+
+suite('FIRE › logParser › Mule 4 logger location', () => {
+
+  const MULE4_LOGGER =
+    `INFO  2024-03-15 10:23:41,100 [[MuleRuntime].uber.03: [order-api].order-flow.CPU_LITE @1a2b3c] ` +
+    `org.mule.runtime.core.internal.processor.LoggerMessageProcessor: ` +
+    `[processor: order-flow/processors/2; event: 0-6ed6bd10-3c4f-11ee-9b1c-06a5b2c4d7e8] Order received`;
+
+  test('falls back to the Mule 4 event ID as correlation ID', () => {
+    assert.strictEqual(extractCorrelationId(MULE4_LOGGER), '0-6ed6bd10-3c4f-11ee-9b1c-06a5b2c4d7e8');
+  });
+
+  test('prefers an explicit correlation ID over the event ID', () => {
+    assert.strictEqual(
+      extractCorrelationId(`${MULE4_LOGGER} correlationId=abc-123-def`),
+      'abc-123-def'
+    );
+  });
+
+  test('extracts flow name and processor path', () => {
+    assert.deepStrictEqual(extractProcessorLocation(MULE4_LOGGER), {
+      flowName: 'order-flow',
+      processorPath: 'processors/2',
+    });
+  });
+
+  test('returns a flow without processor path when only the flow is logged', () => {
+    assert.deepStrictEqual(extractProcessorLocation('[processor: order-flow; event: 0-abcdef]'), {
+      flowName: 'order-flow',
+      processorPath: null,
+    });
+  });
+
+  test('returns null without a location block', () => {
+    assert.strictEqual(extractProcessorLocation(SAMPLE_INFO_ONLY), null);
+    assert.strictEqual(extractProcessorLocation(''), null);
+  });
+});
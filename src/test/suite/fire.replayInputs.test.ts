@@ -0,0 +1,69 @@
+// src/test/suite/fire.replayInputs.test.ts
+// Unit tests for building DataWeave replay inputs from a FIRE execution context.
+// Pure logic — no VS Code API required.
+
+import * as assert from 'assert';
+import { buildReplayInputs, coerceLogValue, detectPayloadMimeType } from '../../fire/replayInputs.js';
+import { ExecutionContext } from '../../fire/types.js';
+
+function makeCtx(overrides: Partial<ExecutionContext> = {}): ExecutionContext {
+  return {
+    error: {
+      errorType:     'MULE:EXPRESSION',
+      flowName:      'process-order-flow',
+      processorPath: null,
+      elementPath:   null,
+      threadName:    null,
+      errorMessage:  'Unable to resolve field customerId',
+      category:      'expression',
+      confidence:    0.9,
+    },
+    rawPayload:        '{"orderId":"ORD-001"}',
+    variables:         { customerId: 'CUST-001', retries: '3' },
+    attributes:        { method: 'POST', secure: 'true' },
+    threadName:        'MuleRuntime.uber-3',
+    timestamp:         1700000000000,
+    applicationDomain: 'order-api',
+    ...overrides,
+  };
+}
+
+suite('FIRE Replay Inputs', () => {
+
+  test('detects payload mime type from captured content', () => {
+    assert.strictEqual(detectPayloadMimeType('{"a":1}'), 'application/json');
+    assert.strictEqual(detectPayloadMimeType('<?xml version="1.0"?><order/>'), 'application/xml');
+    assert.strictEqual(detectPayloadMimeType('plain text body'), 'text/plain');
+  });
+
+  test('coerces scraped log values to their likely runtime types', () => {
+    assert.strictEqual(coerceLogValue('42'), 42);
+    assert.strictEqual(coerceLogValue('true'), true);
+    assert.strictEqual(coerceLogValue('null'), null);
+    assert.deepStrictEqual(coerceLogValue('{"a":1}'), { a: 1 });
+    assert.strictEqual(coerceLogValue("'quoted'"), 'quoted');
+    assert.strictEqual(coerceLogValue('CUST-001'), 'CUST-001');
+    assert.strictEqual(coerceLogValue('{broken'), '{broken');
+  });
+
+  test('binds payload, vars and attributes from the execution context', () => {
+    const inputs = buildReplayInputs(makeCtx());
+
+    assert.deepStrictEqual(inputs.map(i => [i.name, i.mimeType]), [
+      ['payload', 'application/json'],
+      ['vars', 'application/json'],
+      ['attributes', 'application/json'],
+    ]);
+    assert.strictEqual(inputs[0].content, '{"orderId":"ORD-001"}');
+    assert.deepStrictEqual(JSON.parse(inputs[1].content), { customerId: 'CUST-001', retries: 3 });
+    assert.deepStrictEqual(JSON.parse(inputs[2].content), { method: 'POST', secure: true });
+  });
+
+  test('uses a null payload when none was captured', () => {
+    const inputs = buildReplayInputs(makeCtx({ rawPayload: null, variables: {}, attributes: {} }));
+
+    assert.deepStrictEqual(inputs[0], { name: 'payload', content: 'null', mimeType: 'application/json' });
+    assert.strictEqual(inputs[1].content, '{}');
+    assert.strictEqual(inputs[2].content, '{}');
+  });
+});
@@ -0,0 +1,98 @@
+// src/test/suite/fire.replayPanel.test.ts
+// Renders the FIRE replay panel and checks that its webview scripts parse.
+// Imports the panel module, so it runs in the VS Code test host.
+
+import * as assert from 'assert';
+import { getReplayPanelHtml, replayOutcome } from '../../fire/replayPanel.js';
+import { FailureHypothesis, ReplaySession } from '../../fire/types.js';
+
+function makeSession(overrides: Partial<ReplaySession> = {}): ReplaySession {
+  return {
+    sessionId: 'order-api-1700000000000',
+    context: {
+      error: {
+        errorType:     'MULE:EXPRESSION',
+        flowName:      'process-order-flow',
+        processorPath: 'process-order-flow/processors/2',
+        elementPath:   'processors/2',
+        threadName:    'MuleRuntime.uber-3',
+        errorMessage:  'Unable to resolve field customerId',
+        category:      'expression',
+        confidence:    0.9,
+        handledBy:     [],
+      },
+      rawPayload:        '{"orderId":"ORD-001","customerId":"CUST-001"}',
+      variables:         { retries: '3' },
+      attributes:        { method: 'POST' },
+      threadName:        'MuleRuntime.uber-3',
+      timestamp:         1700000000000,
+      applicationDomain: 'order-api',
+    },
+    sourceLocation: {
+      filePath:      '/workspace/src/main/mule/orders.xml',
+      lineNumber:    12,
+      columnNumber:  8,
+      flowName:      'process-order-flow',
+      processorName: 'Transform Message',
+      matchMethod:   'element-path',
+    },
+    dataWeaveScript: '%dw 2.0\noutput application/json\n---\n{ id: payload.customerId, note: "</script>" }',
+    createdAt:       '2024-03-15T14:32:01.442Z',
+    requestTrace:    null,
+    ...overrides,
+  };
+}
+
+const HYPOTHESES: FailureHypothesis[] = [{
+  title:       "Field 'customerId' not found",
+  explanation: 'The payload does not contain the field.',
+  suggestion:  'Use the default operator.',
+  confidence:  0.9,
+  ruleId:      'dw-field-not-found',
+  source:      'builtin',
+}];
+
+function scriptBlocks(html: string): string[] {
+  return Array.from(html.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/g), m => m[1]);
+}
+
+suite('FIRE › replayPanel › webview scripts', () => {
+
+  test('every script block in the rendered panel is valid JavaScript', () => {
+    const sessions = [makeSession(), makeSession({ dataWeaveScript: null, sourceLocation: null })];
+    for (const session of sessions) {
+      const blocks = scriptBlocks(getReplayPanelHtml(session, HYPOTHESES));
+      assert.ok(blocks.length > 0, 'Expected at least one script block');
+      for (const code of blocks) {
+        // Compiles without running; throws SyntaxError on a broken script
+        assert.doesNotThrow(() => new Function(code), SyntaxError);
+      }
+    }
+  });
+});
+
+suite('FIRE › replayPanel › replayOutcome', () => {
+
+  test('a successful run on a real backend counts as ran', () => {
+    assert.strictEqual(replayOutcome({ success: true, backend: 'local', output: '{}' }), 'ran');
+    assert.strictEqual(replayOutcome({ success: true, backend: 'online', output: '{}' }), 'ran');
+  });
+
+  test('a heuristic preview never passes or reproduces', () => {
+    assert.strictEqual(replayOutcome({ success: true, backend: 'heuristic', output: '{}' }), 'not-run');
+  });
+
+  test('only a failure of the script itself reproduces the error', () => {
+    assert.strictEqual(replayOutcome({
+      success: false, backend: 'local', error: 'Unable to resolve field', scriptError: true,
+    }), 'script-error');
+    assert.strictEqual(replayOutcome({
+      success: false, backend: 'local', errors: [{ line: 4, column: 7, message: 'Unable to resolve reference' }],
+    }), 'script-error');
+  });
+
+  test('setup and transport errors mean the script did not run', () => {
+    assert.strictEqual(replayOutcome({ success: false, backend: 'local', error: 'DataWeave CLI (dw) not found.' }), 'not-run');
+    assert.strictEqual(replayOutcome({ success: false, backend: 'online', error: 'DataWeave execution currently requires an active internet connection' }), 'not-run');
+  });
+});
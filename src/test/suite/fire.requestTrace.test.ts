@@ -0,0 +1,81 @@
+// src/test/suite/fire.requestTrace.test.ts
+// Unit tests for reconstructing the failing request from the log buffer.
+// Pure logic — no VS Code API required.
+
+import * as assert from 'assert';
+import { diffPayloadShapes, payloadShape, reconstructRequestTrace } from '../../fire/requestTrace.js';
+
+const EVENT_A = '0-6ed6bd10-3c4f-11ee-9b1c-06a5b2c4d7e8';
+const EVENT_B = '0-7fe7ce21-3c4f-11ee-9b1c-06a5b2c4d7e8';
+
+function logger(flow: string, event: string, text: string): string {
+  return `org.mule.runtime.core.internal.processor.LoggerMessageProcessor: [processor: ${flow}; event: ${event}] ${text}`;
+}
+
+const ENTRIES = [
+  { priority: 'INFO',  timestamp: 1000, message: logger('order-api-main/processors/0', EVENT_A, 'Received {"orderId":"ORD-1","total":"10"}') },
+  { priority: 'INFO',  timestamp: 1001, message: logger('order-api-main/processors/0', EVENT_B, 'Received {"orderId":"ORD-2"}') },
+  { priority: 'INFO',  timestamp: 1005, message: logger('process-order-flow/processors/1', EVENT_A, 'Mapped {"orderId":"ORD-1","total":10,"currency":"EUR"}') },
+  { priority: 'DEBUG', timestamp: 1003, message: logger('process-order-flow/processors/0', EVENT_A, 'Validating order') },
+  { priority: 'INFO',  timestamp: 1006, message: 'Heartbeat without any correlation' },
+  {
+    priority: 'ERROR',
+    timestamp: 1010,
+    message: `Message : Unable to resolve field sku\nError type : MULE:EXPRESSION\nElement : sap-sync-flow/processors/2 @ order-api:sap.xml:42\n` +
+             `[processor: sap-sync-flow/processors/2; event: ${EVENT_A}]`,
+  },
+];
+
+suite('FIRE › requestTrace', () => {
+
+  test('collects every line of the failing request in time order', () => {
+    const trace = reconstructRequestTrace(ENTRIES, 5);
+
+    assert.ok(trace);
+    assert.strictEqual(trace.correlationId, EVENT_A);
+    assert.deepStrictEqual(trace.steps.map(s => s.index), [0, 3, 2, 5]);
+    assert.deepStrictEqual(trace.steps.map(s => s.isFailure), [false, false, false, true]);
+  });
+
+  test('records the flow path with consecutive repeats collapsed', () => {
+    const trace = reconstructRequestTrace(ENTRIES, 5);
+    assert.deepStrictEqual(trace?.flowPath, ['order-api-main', 'process-order-flow', 'sap-sync-flow']);
+    assert.strictEqual(trace?.steps[1].processorPath, 'processors/0');
+  });
+
+  test('flags the step where the payload changed shape', () => {
+    const trace = reconstructRequestTrace(ENTRIES, 5);
+
+    assert.strictEqual(trace?.steps[0].shapeChange, null, 'the first payload has nothing to compare against');
+    assert.deepStrictEqual(trace?.steps[2].shapeChange, {
+      added: ['currency'],
+      removed: [],
+      retyped: ['total: string → number'],
+    });
+  });
+
+  test('returns null when the failing line has no correlation ID', () => {
+    assert.strictEqual(reconstructRequestTrace(ENTRIES, 4), null);
+    assert.strictEqual(reconstructRequestTrace(ENTRIES, 99), null);
+  });
+
+  test('describes nested JSON and XML payload shapes', () => {
+    assert.deepStrictEqual(payloadShape('{"order":{"lines":[{"sku":"X"}]}}'), {
+      format: 'json',
+      fields: { order: 'object', 'order.lines': 'array', 'order.lines[]': 'object', 'order.lines[].sku': 'string' },
+    });
+    assert.deepStrictEqual(payloadShape('<order id="1"><line/></order>'), {
+      format: 'xml',
+      fields: { order: 'element', line: 'element' },
+    });
+    assert.strictEqual(payloadShape('plain').format, 'text');
+  });
+
+  test('reports a format switch and no change for identical shapes', () => {
+    const json = payloadShape('{"a":1}');
+    assert.strictEqual(diffPayloadShapes(json, payloadShape('{"a":2}')), null);
+    assert.deepStrictEqual(diffPayloadShapes(json, payloadShape('<a>1</a>')), {
+      added: [], removed: [], retyped: [], format: 'json → xml',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import { serializeReport, deserializeReport, diffReports, isDiffEmpty } from '../../warroom/incidentDiff';
+import {
+    createWarRoomReport,
+    createAppWarRoomData,
+    createLogGroup,
+    createDeploymentRecord,
+    createAnomaly
+} from '../mocks/warRoomMocks';
+import { AppWarRoomData } from '../../warroom/types';
+
+function appsOf(entries: Array<[string, AppWarRoomData]>): Map<string, AppWarRoomData> {
+    return new Map(entries);
+}
+
+suite('IncidentDiff Test Suite', () => {
+
+    suite('serializeReport / deserializeReport', () => {
+
+        test('should convert the apps Map to a plain object', () => {
+            const report = createWarRoomReport();
+            const serialized = serializeReport(report);
+
+            assert.ok(!(serialized.apps instanceof Map));
+            assert.ok(serialized.apps['order-api'], 'order-api should be a key of the serialized apps');
+        });
+
+        test('should survive a JSON round trip', () => {
+            const report = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    logs: { groups: [createLogGroup()], totalEntries: 5, errors: 5, warnings: 0 }
+                })]])
+            });
+
+            const restored = deserializeReport(JSON.parse(JSON.stringify(serializeReport(report))));
+
+            assert.ok(restored.apps instanceof Map);
+            assert.strictEqual(restored.apps.get('order-api')?.logs.groups.length, 1);
+            assert.ok(restored.config.timeWindow.start instanceof Date);
+            assert.strictEqual(restored.config.timeWindow.start.getTime(), report.config.timeWindow.start.getTime());
+            assert.strictEqual(restored.generatedAt, report.generatedAt);
+        });
+    });
+
+    suite('diffReports', () => {
+
+        test('should report no changes for identical snapshots', () => {
+            const report = createWarRoomReport();
+            const diff = diffReports(report, report);
+
+            assert.ok(isDiffEmpty(diff));
+        });
+
+        test('should detect new and resolved log groups', () => {
+            const previous = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    logs: { groups: [createLogGroup({ pattern: 'Timeout calling payment-sapi' })], totalEntries: 1, errors: 1, warnings: 0 }
+                })]])
+            });
+            const current = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    logs: { groups: [createLogGroup({ pattern: 'Connection refused' })], totalEntries: 1, errors: 1, warnings: 0 }
+                })]])
+            });
+
+            const diff = diffReports(previous, current);
+
+            assert.deepStrictEqual(diff.newLogGroups.map(g => g.pattern), ['Connection refused']);
+            assert.deepStrictEqual(diff.resolvedLogGroups.map(g => g.pattern), ['Timeout calling payment-sapi']);
+        });
+
+        test('should detect resolved and new anomalies by metric', () => {
+            const previous = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    metrics: {
+                        current: { cpu: 95, memory: null, messageCount: null, responseTime: null, timestamp: '' },
+                        baseline: { cpu: 40, memory: null, messageCount: null, responseTime: null, timestamp: '' },
+                        anomalies: [createAnomaly({ metric: 'CPU' })]
+                    }
+                })]])
+            });
+            const current = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    metrics: {
+                        current: { cpu: 40, memory: 900, messageCount: null, responseTime: null, timestamp: '' },
+                        baseline: { cpu: 40, memory: 300, messageCount: null, responseTime: null, timestamp: '' },
+                        anomalies: [createAnomaly({ metric: 'Memory' })]
+                    }
+                })]])
+            });
+
+            const diff = diffReports(previous, current);
+
+            assert.deepStrictEqual(diff.resolvedAnomalies.map(a => a.anomaly.metric), ['CPU']);
+            assert.deepStrictEqual(diff.newAnomalies.map(a => a.anomaly.metric), ['Memory']);
+        });
+
+        test('should detect new deployments only', () => {
+            const previous = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    deployments: [createDeploymentRecord({ deploymentId: 'dep-001' })]
+                })]])
+            });
+            const current = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    deployments: [
+                        createDeploymentRecord({ deploymentId: 'dep-001' }),
+                        createDeploymentRecord({ deploymentId: 'dep-002', version: '2.1.1' })
+                    ]
+                })]])
+            });
+
+            const diff = diffReports(previous, current);
+
+            assert.strictEqual(diff.newDeployments.length, 1);
+            assert.strictEqual(diff.newDeployments[0].deploymentId, 'dep-002');
+        });
+
+        test('should detect status changes', () => {
+            const previous = createWarRoomReport({
+                apps: appsOf([['order-api', createAppWarRoomData({
+                    status: { name: 'order-api', status: 'FAILED', workerCount: 1, lastRestart: null, region: null, runtimeVersion: null }
+                })]])
+            });
+            const current = createWarRoomReport();
+
+            const diff = diffReports(previous, current);
+
+            assert.deepStrictEqual(diff.statusChanges, [{ app: 'order-api', from: 'FAILED', to: 'RUNNING' }]);
+        });
+    });
+});
@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import { mergeAppData, timelineEventKey, correlationKey, findNewKeys, createLivePoller } from '../../warroom/liveMerge';
+import {
+    createAppWarRoomData,
+    createLogGroup,
+    createDeploymentRecord,
+    createAnomaly,
+    createWarRoomData
+} from '../mocks/warRoomMocks';
+import { TimelineEvent, CorrelationResult, WarRoomData } from '../../warroom/types';
+
+suite('LiveMerge Test Suite', () => {
+
+    suite('mergeAppData', () => {
+
+        test('should combine log groups with the same level and pattern', () => {
+            const existing = createAppWarRoomData({
+                logs: { groups: [createLogGroup({ count: 5, firstSeen: '2026-02-27T09:15:00Z', lastSeen: '2026-02-27T09:25:00Z' })], totalEntries: 10, errors: 5, warnings: 0 }
+            });
+            const delta = createAppWarRoomData({
+                logs: { groups: [createLogGroup({ count: 3, firstSeen: '2026-02-27T09:31:00Z', lastSeen: '2026-02-27T09:32:00Z' })], totalEntries: 4, errors: 3, warnings: 0 }
+            });
+
+            const merged = mergeAppData(existing, delta);
+
+            assert.strictEqual(merged.logs.groups.length, 1);
+            assert.strictEqual(merged.logs.groups[0].count, 8);
+            assert.strictEqual(merged.logs.groups[0].firstSeen, '2026-02-27T09:15:00Z');
+            assert.strictEqual(merged.logs.groups[0].lastSeen, '2026-02-27T09:32:00Z');
+            assert.strictEqual(merged.logs.errors, 8);
+            assert.strictEqual(merged.logs.totalEntries, 14);
+        });
+
+        test('should not mutate the existing log groups', () => {
+            const group = createLogGroup({ count: 5 });
+            const existing = createAppWarRoomData({ logs: { groups: [group], totalEntries: 5, errors: 5, warnings: 0 } });
+            const delta = createAppWarRoomData({ logs: { groups: [createLogGroup({ count: 1 })], totalEntries: 1, errors: 1, warnings: 0 } });
+
+            mergeAppData(existing, delta);
+
+            assert.strictEqual(group.count, 5);
+        });
+
+        test('should add new patterns and deduplicate deployments', () => {
+            const existing = createAppWarRoomData({
+                logs: { groups: [createLogGroup()], totalEntries: 5, errors: 5, warnings: 0 },
+                deployments: [createDeploymentRecord()]
+            });
+            const delta = createAppWarRoomData({
+                logs: { groups: [createLogGroup({ pattern: 'Connection refused', count: 2 })], totalEntries: 2, errors: 2, warnings: 0 },
+                deployments: [createDeploymentRecord(), createDeploymentRecord({ deploymentId: 'dep-002' })]
+            });
+
+            const merged = mergeAppData(existing, delta);
+
+            assert.strictEqual(merged.logs.groups.length, 2);
+            assert.strictEqual(merged.deployments.length, 2);
+        });
+
+        test('should keep the baseline and take the latest current metrics and anomalies', () => {
+            const existing = createAppWarRoomData({
+                metrics: {
+                    current: { cpu: 50, memory: 400, messageCount: null, responseTime: null, timestamp: 't1' },
+                    baseline: { cpu: 40, memory: 300, messageCount: null, responseTime: null, timestamp: '' },
+                    anomalies: []
+                }
+            });
+            const delta = createAppWarRoomData({
+                metrics: {
+                    current: { cpu: 95, memory: null, messageCount: null, responseTime: null, timestamp: 't2' },
+                    baseline: { cpu: 10, memory: 10, messageCount: null, responseTime: null, timestamp: '' },
+                    anomalies: [createAnomaly()]
+                }
+            });
+
+            const merged = mergeAppData(existing, delta);
+
+            assert.strictEqual(merged.metrics.current.cpu, 95);
+            assert.strictEqual(merged.metrics.current.memory, 400, 'missing delta values should keep the previous reading');
+            assert.strictEqual(merged.metrics.baseline.cpu, 40);
+            assert.strictEqual(merged.metrics.anomalies.length, 1);
+        });
+
+        test('should keep the previous status when the poll returns UNKNOWN', () => {
+            const existing = createAppWarRoomData();
+            const delta = createAppWarRoomData({
+                status: { name: 'test-app', status: 'UNKNOWN', workerCount: null, lastRestart: null, region: null, runtimeVersion: null }
+            });
+
+            const merged = mergeAppData(existing, delta);
+
+            assert.strictEqual(merged.status.status, 'RUNNING');
+        });
+    });
+
+    suite('findNewKeys', () => {
+
+        test('should treat error spikes with a changed count as the same event', () => {
+            const before: TimelineEvent = {
+                timestamp: '2026-02-27T09:15:00Z', type: 'error_spike', app: 'order-api',
+                description: 'Error pattern (5x): Timeout', severity: 'warning', data: { count: 5, pattern: 'Timeout' }
+            };
+            const after: TimelineEvent = { ...before, description: 'Error pattern (9x): Timeout', data: { count: 9, pattern: 'Timeout' } };
+
+            const fresh = findNewKeys([before], [after], timelineEventKey);
+
+            assert.strictEqual(fresh.size, 0);
+        });
+
+        test('should flag correlations that were not present before', () => {
+            const existing: CorrelationResult = { probableCause: 'A', confidence: 'medium', evidence: [], category: 'shared_dependency' };
+            const added: CorrelationResult = { probableCause: 'B', confidence: 'high', evidence: [], category: 'resource_exhaustion' };
+
+            const fresh = findNewKeys([existing], [existing, added], correlationKey);
+
+            assert.deepStrictEqual([...fresh], [correlationKey(added)]);
+        });
+
+        test('should treat a correlation whose counts changed as the same correlation', () => {
+            const before: CorrelationResult = {
+                probableCause: 'Rate Limiting: order-api, payment-sapi receiving HTTP 429 / policy violations (12 occurrences)',
+                confidence: 'high', evidence: [], category: 'rate_limiting',
+                ruleId: 'rate-limiting', subjects: ['order-api', 'payment-sapi']
+            };
+            const after: CorrelationResult = {
+                ...before,
+                probableCause: 'Rate Limiting: payment-sapi, order-api receiving HTTP 429 / policy violations (31 occurrences)',
+                subjects: ['payment-sapi', 'order-api']
+            };
+            const spread: CorrelationResult = { ...after, subjects: ['order-api', 'payment-sapi', 'inventory-sapi'] };
+
+            assert.strictEqual(findNewKeys([before], [after], correlationKey).size, 0);
+            assert.strictEqual(findNewKeys([before], [spread], correlationKey).size, 1);
+        });
+
+        test('should ignore counts in correlations saved without subjects', () => {
+            const before: CorrelationResult = {
+                probableCause: 'Shared Dependency or Infrastructure Issue: 3 apps failing simultaneously',
+                confidence: 'medium', evidence: [], category: 'shared_dependency'
+            };
+            const after: CorrelationResult = { ...before, probableCause: before.probableCause.replace('3', '4') };
+
+            assert.strictEqual(findNewKeys([before], [after], correlationKey).size, 0);
+        });
+    });
+
+    suite('createLivePoller', () => {
+
+        test('should fetch the interval of a failed poll again on the next poll', async () => {
+            const windowEnd = new Date('2026-02-27T09:30:00Z');
+            const clock = [new Date('2026-02-27T09:31:00Z'), new Date('2026-02-27T09:32:00Z'), new Date('2026-02-27T09:33:00Z')];
+            const requested: string[] = [];
+            let fail = true;
+            const poll = createLivePoller(async (data: WarRoomData, since: Date) => {
+                requested.push(since.toISOString());
+                if (fail) { throw new Error('429 Too Many Requests'); }
+                return data;
+            }, windowEnd, () => clock.shift()!);
+
+            const data = createWarRoomData();
+            await assert.rejects(poll(data), /429/);
+            fail = false;
+            await poll(data);
+            await poll(data);
+
+            assert.deepStrictEqual(requested, [
+                '2026-02-27T09:30:00.000Z',
+                '2026-02-27T09:30:00.000Z',
+                '2026-02-27T09:32:00.000Z'
+            ]);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import {
+    applyManualDependencies,
+    applyManualDependencyAction,
+    buildDependencyEditorRows,
+    normalizeManualDependencyFile
+} from '../../warroom/manualDependencies';
+import { createDependencyMap } from '../mocks/warRoomMocks';
+import { ManualDependencyFile } from '../../warroom/types';
+
+suite('ManualDependencies Test Suite', () => {
+
+    suite('applyManualDependencies', () => {
+
+        test('should drop rejected pairs, keep discovered entries for manual pairs and add undiscovered ones', () => {
+            const map = createDependencyMap();
+            map.dependencies.push({ ...map.dependencies[0], targetUrl: 'https://payment-sapi.cloudhub.io/v2', confidence: 'low' });
+            const manual: ManualDependencyFile = {
+                dependencies: [
+                    { sourceApp: 'order-api', targetApp: 'payment-sapi', confirmed: true },
+                    { sourceApp: 'order-api', targetApp: 'fraud-check.example.com' }
+                ],
+                rejected: [{ sourceApp: 'auth-service', targetApp: 'order-api' }]
+            };
+
+            const merged = applyManualDependencies(map.dependencies, manual, map.apps.map(a => a.name));
+            const pairs = (source: string, target: string) => merged.filter(d => d.sourceApp === source && d.targetApp === target);
+
+            assert.strictEqual(pairs('auth-service', 'order-api').length, 0);
+            assert.deepStrictEqual(pairs('order-api', 'payment-sapi').map(d => d.discoveryMethod), ['property_file', 'property_file']);
+            assert.deepStrictEqual(pairs('order-api', 'payment-sapi').map(d => d.targetUrl), [
+                'https://payment-sapi.cloudhub.io',
+                'https://payment-sapi.cloudhub.io/v2'
+            ]);
+            assert.deepStrictEqual(pairs('order-api', 'payment-sapi').map(d => d.confidence), ['high', 'high']);
+            assert.strictEqual(pairs('order-api', 'fraud-check.example.com')[0].discoveryMethod, 'manual');
+            assert.strictEqual(pairs('order-api', 'fraud-check.example.com')[0].isExternal, true);
+            assert.strictEqual(pairs('order-api', 'inventory-sapi').length, 1);
+        });
+
+        test('should be idempotent on an already merged map', () => {
+            const map = createDependencyMap();
+            const manual: ManualDependencyFile = {
+                dependencies: [
+                    { sourceApp: 'order-api', targetApp: 'payment-sapi' },
+                    { sourceApp: 'order-api', targetApp: 'ledger-sapi' }
+                ]
+            };
+            const once = applyManualDependencies(map.dependencies, manual, map.apps.map(a => a.name));
+            const twice = applyManualDependencies(once, manual, map.apps.map(a => a.name));
+
+            assert.deepStrictEqual(twice, once);
+        });
+    });
+
+    suite('buildDependencyEditorRows', () => {
+
+        test('should show rejected and newly added pairs alongside inferred ones', () => {
+            const rows = buildDependencyEditorRows(createDependencyMap(), {
+                dependencies: [{ sourceApp: 'order-api', targetApp: 'ledger-sapi', note: 'Nightly settlement' }],
+                rejected: [{ sourceApp: 'legacy-api', targetApp: 'order-api' }]
+            });
+            const status = (source: string, target: string) =>
+                rows.find(r => r.sourceApp === source && r.targetApp === target)?.status;
+
+            assert.strictEqual(rows.length, 7);
+            assert.strictEqual(status('order-api', 'payment-sapi'), 'inferred');
+            assert.strictEqual(status('order-api', 'ledger-sapi'), 'manual');
+            assert.strictEqual(status('legacy-api', 'order-api'), 'rejected');
+            assert.deepStrictEqual(rows.find(r => r.targetApp === 'payment-sapi')?.discoveredBy, ['property_file']);
+        });
+    });
+
+    suite('applyManualDependencyAction', () => {
+
+        test('should move a pair between confirmed and rejected, keeping its note', () => {
+            let manual: ManualDependencyFile = { dependencies: [] };
+            manual = applyManualDependencyAction(manual, { action: 'confirm', sourceApp: 'order-api', targetApp: 'payment-sapi', note: 'Checkout' });
+            manual = applyManualDependencyAction(manual, { action: 'reject', sourceApp: 'order-api', targetApp: 'payment-sapi' });
+
+            assert.deepStrictEqual(manual, {
+                dependencies: [],
+                rejected: [{ sourceApp: 'order-api', targetApp: 'payment-sapi', note: 'Checkout' }]
+            });
+        });
+
+        test('should reset a pair back to inferred and ignore self edges', () => {
+            const manual: ManualDependencyFile = { dependencies: [{ sourceApp: 'order-api', targetApp: 'payment-sapi', confirmed: true }] };
+
+            assert.deepStrictEqual(applyManualDependencyAction(manual, { action: 'reset', sourceApp: 'order-api', targetApp: 'payment-sapi' }), { dependencies: [] });
+            assert.strictEqual(applyManualDependencyAction(manual, { action: 'add', sourceApp: 'order-api', targetApp: 'order-api' }), manual);
+        });
+
+        test('should only store notes for declared or rejected pairs', () => {
+            const manual: ManualDependencyFile = { dependencies: [{ sourceApp: 'order-api', targetApp: 'payment-sapi', note: 'old' }] };
+
+            const updated = applyManualDependencyAction(manual, { action: 'note', sourceApp: 'order-api', targetApp: 'payment-sapi', note: '' });
+            assert.deepStrictEqual(updated.dependencies, [{ sourceApp: 'order-api', targetApp: 'payment-sapi' }]);
+            assert.strictEqual(applyManualDependencyAction(manual, { action: 'note', sourceApp: 'a', targetApp: 'b', note: 'x' }), manual);
+        });
+    });
+
+    suite('normalizeManualDependencyFile', () => {
+
+        test('should tolerate missing arrays and malformed entries', () => {
+            assert.deepStrictEqual(normalizeManualDependencyFile({}), { dependencies: [] });
+            assert.deepStrictEqual(normalizeManualDependencyFile({
+                dependencies: [{ sourceApp: ' order-api ', targetApp: 'payment-sapi', note: ' ' }, { sourceApp: 'x' }, null],
+                rejected: [{ sourceApp: 'a', targetApp: 'b', confirmed: true }]
+            }), {
+                dependencies: [{ sourceApp: 'order-api', targetApp: 'payment-sapi' }],
+                rejected: [{ sourceApp: 'a', targetApp: 'b' }]
+            });
+        });
+    });
+});
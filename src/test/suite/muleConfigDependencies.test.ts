@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import {
+    discoverAsyncEndpoints,
+    discoverMuleConfigDependencies,
+    linkAsyncEndpoints,
+    resolvePlaceholders
+} from '../../warroom/muleConfigDependencies';
+import { parseMuleProject, MuleProject } from '../../utils/muleProject';
+
+const NAMESPACES = [
+    'xmlns="http://www.mulesoft.org/schema/mule/core"',
+    'xmlns:http="http://www.mulesoft.org/schema/mule/http"',
+    'xmlns:db="http://www.mulesoft.org/schema/mule/db"',
+    'xmlns:kafka="http://www.mulesoft.org/schema/mule/kafka"',
+    'xmlns:sftp="http://www.mulesoft.org/schema/mule/sftp"',
+    'xmlns:anypoint-mq="http://www.mulesoft.org/schema/mule/anypoint-mq"'
+].join(' ');
+
+function project(body: string): MuleProject {
+    return parseMuleProject({
+        files: { 'src/main/mule/app.xml': `<?xml version="1.0"?><mule ${NAMESPACES}>${body}</mule>` }
+    });
+}
+
+const REQUESTER_CONFIG = `
+    <http:request-config name="Payments_Config" basePath="/api/v1">
+        <http:request-connection host="\${payments.host}" port="443" protocol="HTTPS"/>
+    </http:request-config>
+    <flow name="charge">
+        <http:request config-ref="Payments_Config" method="POST" path="/charges"/>
+    </flow>`;
+
+suite('MuleConfigDependencies Test Suite', () => {
+
+    test('should build exact requester URLs and resolve internal targets', () => {
+        const deps = discoverMuleConfigDependencies(
+            'order-api',
+            project(REQUESTER_CONFIG),
+            { 'payments.host': 'payment-api.us-e2.cloudhub.io' },
+            url => url.includes('payment-api') ? 'payment-api' : null
+        );
+
+        assert.strictEqual(deps.length, 1);
+        assert.deepStrictEqual(deps[0], {
+            sourceApp: 'order-api',
+            targetApp: 'payment-api',
+            targetUrl: 'https://payment-api.us-e2.cloudhub.io/api/v1/charges',
+            discoveryMethod: 'mule_config',
+            confidence: 'high',
+            isExternal: false,
+            targetKind: 'http',
+            method: 'POST',
+            path: '/api/v1/charges'
+        });
+    });
+
+    test('should skip requesters whose host placeholder is unresolved', () => {
+        const deps = discoverMuleConfigDependencies('order-api', project(REQUESTER_CONFIG), {}, () => null);
+        assert.strictEqual(deps.length, 0);
+    });
+
+    test('should classify connector configs as typed external dependencies', () => {
+        const deps = discoverMuleConfigDependencies('order-api', project(`
+            <db:config name="Orders_DB">
+                <db:my-sql-connection host="orders-db.internal" port="3306" database="orders"/>
+            </db:config>
+            <kafka:producer-config name="Kafka_Producer">
+                <kafka:producer-plaintext-connection bootstrapServers="broker-1.kafka.example.com:9092,broker-2.kafka.example.com:9092"/>
+            </kafka:producer-config>`), {}, () => null);
+
+        const byKind = new Map(deps.map(d => [d.targetKind, d]));
+        assert.strictEqual(byKind.get('database')?.targetApp, 'orders-db.internal');
+        assert.strictEqual(byKind.get('database')?.targetUrl, 'orders-db.internal:3306');
+        assert.strictEqual(byKind.get('kafka')?.targetApp, 'broker-1.kafka.example.com');
+        assert.ok(deps.every(d => d.isExternal && d.confidence === 'high'));
+    });
+
+    test('should fall back to a low-confidence named target when the host is unknown', () => {
+        const deps = discoverMuleConfigDependencies('order-api', project(`
+            <sftp:config name="Partner_SFTP">
+                <sftp:connection host="\${sftp.host}" port="22"/>
+            </sftp:config>`), {}, () => null);
+
+        assert.strictEqual(deps.length, 1);
+        assert.strictEqual(deps[0].targetApp, 'sftp:Partner_SFTP');
+        assert.strictEqual(deps[0].confidence, 'low');
+    });
+
+    test('should find MQ publishers and Kafka listeners via consumer topic patterns', () => {
+        const endpoints = discoverAsyncEndpoints('order-api', project(`
+            <kafka:consumer-config name="Kafka_Consumer">
+                <kafka:consumer-plaintext-connection>
+                    <kafka:topic-patterns>
+                        <kafka:topic-pattern value="\${payments.topic}"/>
+                    </kafka:topic-patterns>
+                </kafka:consumer-plaintext-connection>
+            </kafka:consumer-config>
+            <flow name="publish-order">
+                <anypoint-mq:publish config-ref="MQ" destination="orders-queue"/>
+            </flow>
+            <flow name="on-payment">
+                <kafka:message-listener config-ref="Kafka_Consumer"/>
+                <logger/>
+            </flow>`), { 'payments.topic': 'payments' });
+
+        assert.deepStrictEqual(endpoints.map(e => [e.channel.kind, e.channel.destination, e.direction]).sort(), [
+            ['anypoint-mq', 'orders-queue', 'out'],
+            ['kafka', 'payments', 'in']
+        ]);
+    });
+
+    test('should link producers to consumers and keep unmatched publishes as external channels', () => {
+        const deps = linkAsyncEndpoints([
+            { app: 'order-api', channel: { kind: 'anypoint-mq', destination: 'orders-queue' }, direction: 'out' },
+            { app: 'fulfillment-worker', channel: { kind: 'anypoint-mq', destination: 'orders-queue' }, direction: 'in' },
+            { app: 'order-api', channel: { kind: 'kafka', destination: 'orders.v1' }, direction: 'out' },
+            { app: 'audit-worker', channel: { kind: 'kafka', destination: 'orders\\..*' }, direction: 'in' },
+            { app: 'order-api', channel: { kind: 'jms', destination: 'audit' }, direction: 'out' }
+        ]);
+
+        assert.deepStrictEqual(deps.map(d => [d.sourceApp, d.targetApp, d.isExternal]), [
+            ['order-api', 'fulfillment-worker', false],
+            ['order-api', 'audit-worker', false],
+            ['order-api', 'jms:audit', true]
+        ]);
+        assert.deepStrictEqual(deps[0].via, { kind: 'anypoint-mq', destination: 'orders-queue' });
+        assert.strictEqual(deps[2].confidence, 'medium');
+    });
+
+    test('should leave unknown placeholders untouched', () => {
+        assert.strictEqual(resolvePlaceholders('${a}/${b}', { a: 'x' }), 'x/${b}');
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { renderJsonExport, renderPostmortem, REPORT_EXPORT_SCHEMA_VERSION } from '../../warroom/reportExporter';
+import { deserializeReport } from '../../warroom/incidentDiff';
+import {
+    createWarRoomReport,
+    createAppWarRoomData,
+    createLogGroup,
+    createDeploymentRecord
+} from '../mocks/warRoomMocks';
+import { AppWarRoomData, CorrelationResult, WarRoomReportExport } from '../../warroom/types';
+
+function createDeploymentReport() {
+    const apps = new Map<string, AppWarRoomData>();
+    apps.set('order-api', createAppWarRoomData({
+        logs: { groups: [createLogGroup({ count: 12 })], totalEntries: 40, errors: 12, warnings: 0 },
+        deployments: [createDeploymentRecord()]
+    }));
+    const correlations: CorrelationResult[] = [
+        {
+            probableCause: 'Deployment of order-api v2.1.0 10 minutes before errors',
+            confidence: 'high',
+            category: 'recent_deployment',
+            evidence: ['order-api deployed at 09:05', 'Errors started at 09:15']
+        },
+        {
+            probableCause: 'Elevated CPU on order-api',
+            confidence: 'low',
+            category: 'resource_exhaustion',
+            evidence: ['CPU at 80%']
+        }
+    ];
+    return createWarRoomReport({
+        apps,
+        correlations,
+        timeline: [
+            { timestamp: '2026-02-27T09:05:00Z', app: 'order-api', type: 'deployment', description: 'Deployed v2.1.0', severity: 'warning' },
+            { timestamp: '2026-02-27T09:15:00Z', app: 'order-api', type: 'error_spike', description: 'NullPointerException x12', severity: 'critical' }
+        ]
+    });
+}
+
+suite('ReportExporter Test Suite', () => {
+
+    suite('renderJsonExport', () => {
+
+        test('should wrap the serialized report in a versioned envelope', () => {
+            const parsed = JSON.parse(renderJsonExport(createWarRoomReport())) as WarRoomReportExport;
+
+            assert.strictEqual(parsed.schema, 'anypoint-monitor/war-room-report');
+            assert.strictEqual(parsed.schemaVersion, REPORT_EXPORT_SCHEMA_VERSION);
+            assert.ok(!isNaN(Date.parse(parsed.exportedAt)));
+            assert.strictEqual(parsed.report.generatedAt, '2026-02-27T09:31:00Z');
+        });
+
+        test('should round-trip through deserializeReport', () => {
+            const report = createDeploymentReport();
+            const parsed = JSON.parse(renderJsonExport(report)) as WarRoomReportExport;
+            const restored = deserializeReport(parsed.report);
+
+            assert.strictEqual(restored.apps.get('order-api')?.logs.errors, 12);
+            assert.strictEqual(restored.config.timeWindow.start.getTime(), report.config.timeWindow.start.getTime());
+            assert.strictEqual(restored.correlations.length, 2);
+        });
+    });
+
+    suite('renderPostmortem', () => {
+
+        test('should title the postmortem after the primary correlation', () => {
+            const md = renderPostmortem(createDeploymentReport());
+            assert.ok(md.startsWith('# Postmortem: Deployment of order-api v2.1.0'));
+        });
+
+        test('should include impact, timeline and root cause evidence', () => {
+            const md = renderPostmortem(createDeploymentReport());
+
+            assert.ok(md.includes('## Impact'));
+            assert.ok(md.includes('**order-api**: 12 errors'));
+            assert.ok(md.includes('2026-02-27 09:15:00** — [order-api] NullPointerException x12'));
+            assert.ok(md.includes('- Errors started at 09:15'));
+        });
+
+        test('should list secondary correlations as contributing factors', () => {
+            const md = renderPostmortem(createDeploymentReport());
+            assert.ok(md.includes('## Contributing Factors'));
+            assert.ok(md.includes('- Elevated CPU on order-api (confidence: low)'));
+        });
+
+        test('should turn recommendations into action items', () => {
+            const md = renderPostmortem(createDeploymentReport());
+            assert.ok(md.includes('| **Rollback order-api** to previous version'));
+        });
+
+        test('should leave a root cause placeholder when nothing correlated', () => {
+            const md = renderPostmortem(createWarRoomReport());
+            assert.ok(md.startsWith('# Postmortem: SEV2 incident in Production'));
+            assert.ok(md.includes('No correlation patterns detected'));
+            assert.ok(!md.includes('## Contributing Factors'));
+        });
+    });
+});
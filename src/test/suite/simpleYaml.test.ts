@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { parseYaml, YamlParseError } from '../../utils/simpleYaml';
+
+suite('SimpleYaml Test Suite', () => {
+
+    test('should parse nested mappings and scalars', () => {
+        const parsed = parseYaml([
+            'name: db-pool',
+            'enabled: true',
+            'threshold: 2.5',
+            'owner: ~',
+            'match:',
+            '  logLevel: ERROR  # trailing comment',
+            '  minCount: 3'
+        ].join('\n'));
+
+        assert.deepStrictEqual(parsed, {
+            name: 'db-pool',
+            enabled: true,
+            threshold: 2.5,
+            owner: null,
+            match: { logLevel: 'ERROR', minCount: 3 }
+        });
+    });
+
+    test('should parse sequences of mappings', () => {
+        const parsed = parseYaml([
+            'rules:',
+            '  - id: one',
+            '    tags: [a, "b c"]',
+            '  - id: two',
+            '    evidence:',
+            '      - first',
+            '      - second'
+        ].join('\n'));
+
+        assert.deepStrictEqual(parsed, {
+            rules: [
+                { id: 'one', tags: ['a', 'b c'] },
+                { id: 'two', evidence: ['first', 'second'] }
+            ]
+        });
+    });
+
+    test('should accept sequences at the same indentation as their key', () => {
+        const parsed = parseYaml('items:\n- a\n- b\nnext: 1');
+        assert.deepStrictEqual(parsed, { items: ['a', 'b'], next: 1 });
+    });
+
+    test('should keep regular expressions intact in single quotes', () => {
+        const parsed = parseYaml("pattern: 'INVALID_SESSION_ID|\\d+ ''expired'''") as Record<string, string>;
+        assert.strictEqual(parsed.pattern, "INVALID_SESSION_ID|\\d+ 'expired'");
+    });
+
+    test('should not treat colons inside values as keys', () => {
+        const parsed = parseYaml('title: Salesforce: token expired\nurl: https://example.com') as Record<string, string>;
+        assert.strictEqual(parsed.title, 'Salesforce: token expired');
+        assert.strictEqual(parsed.url, 'https://example.com');
+    });
+
+    test('should report the line of a malformed entry', () => {
+        assert.throws(
+            () => parseYaml('a: 1\n  b: 2'),
+            (err: unknown) => err instanceof YamlParseError && err.line === 2
+        );
+    });
+
+    test('should reject unsupported block scalars', () => {
+        assert.throws(() => parseYaml('text: |\n  line'), YamlParseError);
+    });
+
+    test('should return null for an empty document', () => {
+        assert.strictEqual(parseYaml('# only a comment\n\n'), null);
+    });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { buildSwimlaneModel, renderSwimlaneHtml, axisTicks, correlationApps } from '../../warroom/swimlaneChart';
+import {
+    createWarRoomReport,
+    createAppWarRoomData,
+    createLogGroup,
+    createDeploymentRecord,
+    createAnomaly
+} from '../mocks/warRoomMocks';
+import { AppWarRoomData } from '../../warroom/types';
+
+function createSwimlaneReport() {
+    const apps = new Map<string, AppWarRoomData>();
+    apps.set('order-api', createAppWarRoomData({
+        logs: {
+            groups: [
+                createLogGroup(),
+                createLogGroup({ level: 'WARN', pattern: 'Slow response from inventory', firstSeen: '2026-02-27T09:10:00Z', lastSeen: '2026-02-27T09:12:00Z' })
+            ],
+            totalEntries: 10, errors: 5, warnings: 1
+        },
+        deployments: [createDeploymentRecord()],
+        metrics: {
+            current: { cpu: 92, memory: null, messageCount: null, responseTime: null, timestamp: '2026-02-27T09:30:00Z' },
+            baseline: { cpu: 45, memory: null, messageCount: null, responseTime: null, timestamp: '' },
+            anomalies: [createAnomaly()]
+        }
+    }));
+    apps.set('payment-api', createAppWarRoomData());
+    return createWarRoomReport({
+        apps,
+        blastRadius: {
+            seedApps: ['order-api'],
+            upstream: [],
+            downstream: [{ app: 'payment-api', hops: 1 }],
+            allAffected: ['order-api', 'payment-api']
+        }
+    });
+}
+
+suite('SwimlaneChart Test Suite', () => {
+
+    suite('buildSwimlaneModel', () => {
+
+        test('should create one lane per blast radius app in order', () => {
+            const model = buildSwimlaneModel(createSwimlaneReport());
+
+            assert.deepStrictEqual(model.lanes.map(l => [l.app, l.direction]), [
+                ['order-api', 'SEED'],
+                ['payment-api', 'DOWNSTREAM']
+            ]);
+        });
+
+        test('should map log groups, deployments and anomalies to lane items', () => {
+            const lane = buildSwimlaneModel(createSwimlaneReport()).lanes[0];
+            const kinds = lane.items.map(i => i.kind).sort();
+
+            assert.deepStrictEqual(kinds, ['anomaly', 'deployment', 'error', 'warn']);
+            const error = lane.items.find(i => i.kind === 'error')!;
+            assert.strictEqual(error.t0, Date.parse('2026-02-27T09:15:00Z'));
+            assert.strictEqual(error.t1, Date.parse('2026-02-27T09:25:00Z'));
+            assert.ok(error.label.startsWith('09:15:00Z — ERROR 5x'));
+        });
+
+        test('should extend the domain to earlier deployments but clamp long lead-ins', () => {
+            const report = createSwimlaneReport();
+            report.apps.get('order-api')!.deployments = [
+                createDeploymentRecord({ timestamp: '2026-02-27T08:45:00Z' }),
+                createDeploymentRecord({ deploymentId: 'dep-000', timestamp: '2026-02-26T09:00:00Z' })
+            ];
+            const model = buildSwimlaneModel(report);
+
+            // 30 minute window → at most 30 minutes of lead-in
+            assert.strictEqual(model.start, Date.parse('2026-02-27T08:30:00Z'));
+            assert.strictEqual(model.end, Date.parse('2026-02-27T09:30:00Z'));
+            const deployments = model.lanes[0].items.filter(i => i.kind === 'deployment');
+            assert.ok(deployments.every(d => d.t0 >= model.start));
+        });
+    });
+
+    suite('renderSwimlaneHtml', () => {
+
+        test('should render spans and markers with brushing data attributes', () => {
+            const html = renderSwimlaneHtml(buildSwimlaneModel(createSwimlaneReport()), true);
+
+            assert.ok(html.includes('id="war-swimlanes"'));
+            assert.ok(html.includes(`data-app="order-api" data-t0="${Date.parse('2026-02-27T09:15:00Z')}"`));
+            assert.ok(html.includes('war-sw-marker war-sw-deployment'));
+            assert.ok(html.includes('id="war-sw-reset"'));
+        });
+
+        test('should omit zoom controls when not interactive', () => {
+            const html = renderSwimlaneHtml(buildSwimlaneModel(createSwimlaneReport()), false);
+            assert.ok(html.includes('<svg'));
+            assert.ok(!html.includes('war-sw-reset'));
+        });
+    });
+
+    suite('axisTicks', () => {
+
+        test('should pick a minute-aligned step with at most 8 ticks', () => {
+            const start = Date.parse('2026-02-27T09:00:00Z');
+            const ticks = axisTicks(start, start + 30 * 60000);
+
+            assert.strictEqual(ticks.length, 7);
+            assert.strictEqual(ticks[1] - ticks[0], 5 * 60000);
+        });
+    });
+
+    suite('correlationApps', () => {
+
+        test('should match whole app names only', () => {
+            const apps = correlationApps(['order-api-v2 timed out calling payment-api'], ['order-api', 'payment-api']);
+            assert.deepStrictEqual(apps, ['payment-api']);
+        });
+    });
+});
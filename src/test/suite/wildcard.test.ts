@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { wildcardToRegExp } from '../../utils/wildcard';
+
+suite('Wildcard Test Suite', () => {
+
+    test('should match whole values case-insensitively', () => {
+        assert.ok(wildcardToRegExp('order-api').test('Order-API'));
+        assert.ok(!wildcardToRegExp('order-api').test('order-api-v2'));
+    });
+
+    test('should treat * as any run of characters', () => {
+        assert.ok(wildcardToRegExp('APP:*').test('app:stock'));
+        assert.ok(wildcardToRegExp('*-prod').test('orders-prod'));
+        assert.ok(wildcardToRegExp('*').test(''));
+        assert.ok(!wildcardToRegExp('APP:*').test('HTTP:TIMEOUT'));
+    });
+
+    test('should escape regular expression characters', () => {
+        assert.ok(wildcardToRegExp('orders.v1 (eu)').test('orders.v1 (eu)'));
+        assert.ok(!wildcardToRegExp('orders.v1').test('ordersXv1'));
+    });
+});
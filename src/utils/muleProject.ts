@@ -97,6 +97,13 @@ export interface ConnectorConfig {
     filePath: string;
     /** Resolved attributes (placeholders kept verbatim, e.g. "${db.host}") */
     attributes: Record<string, string>;
+    /**
+     * First nested `*-connection` / `connection` element, e.g. `<db:my-sql-connection host=".."/>`
+     * or `<http:request-connection host=".." port=".."/>`. Placeholders kept verbatim.
+     */
+    connection?: { localName: string; attributes: Record<string, string> };
+    /** Kafka consumer configs: `<kafka:topic-pattern value=".."/>` entries anywhere under the config */
+    topicPatterns?: string[];
 }
 
 export interface ConnectorOperation {
@@ -112,6 +119,8 @@ export interface ConnectorOperation {
     detail?: string;
     /** If this operation publishes/sends, true; subscriber/listen handled separately */
     direction?: 'in' | 'out';
+    /** Queue, exchange, topic or JMS destination the operation publishes to or consumes from */
+    destination?: string;
 }
 
 export interface ApiKitRoute {
@@ -185,6 +194,84 @@ export interface ProjectSummary {
     propertyFiles: { yaml: number; properties: number; keys: number };
 }
 
+/** A `<raise-error>` found in a flow or sub-flow */
+export interface RaisedError {
+    type: string;
+    description?: string;
+    flowName: string;
+    filePath: string;
+    /**
+     * Where the raise-error sits: the flow body (or a try scope's error
+     * handler), inside a try scope, or inside the flow's own error handler —
+     * errors raised there leave the flow.
+     */
+    location: 'flow' | 'try' | 'error-handler';
+    /** Try scopes around the raise-error, innermost first (see ErrorHandlerEntry.tryId) */
+    enclosingTries: string[];
+}
+
+/** An `<on-error-propagate>` or `<on-error-continue>` */
+export interface ErrorHandlerEntry {
+    kind: 'on-error-propagate' | 'on-error-continue';
+    /** Error types from `type`, as written; empty when the handler catches any error */
+    types: string[];
+    when?: string;
+    /** Declared in a flow's error handler, a try scope's, or a global error handler */
+    scope: 'flow' | 'try' | 'global';
+    /** Owning flow for `flow` and `try` scopes */
+    flowName?: string;
+    /** Identifies the try scope for the `try` scope, e.g. "order-flow/try-2" */
+    tryId?: string;
+    /** Global error handler name for the `global` scope */
+    handlerName?: string;
+    filePath: string;
+    /** Flows whose errors reach this handler */
+    coversFlows: string[];
+}
+
+export interface ErrorTypeCoverage {
+    type: string;
+    /** Flows containing a raise-error of this type */
+    raisedIn: string[];
+    /** Handlers catching it, e.g. "on-error-continue in order-flow" */
+    handledBy: string[];
+    /** Raising flows where no handler catches it */
+    unhandledIn: string[];
+}
+
+export interface ErrorCatalog {
+    raised: RaisedError[];
+    handlers: ErrorHandlerEntry[];
+    /** Global error handler from `<configuration defaultErrorHandler-ref>` */
+    defaultErrorHandler?: string;
+    /**
+     * Handlers that receive an error escaping each flow's body: its own error
+     * handler, else the default global handler, else (like sub-flows) the
+     * handlers of the flows that call it through flow-ref.
+     */
+    flowHandlers: Record<string, ErrorHandlerEntry[]>;
+    /** Every error type raised or named in a handler, sorted */
+    types: ErrorTypeCoverage[];
+}
+
+/**
+ * A flow, sub-flow or processor with its Mule component location and the
+ * position of its opening tag in the config file.
+ */
+export interface MuleElementLocation {
+    /** Flow or sub-flow containing the element */
+    flowName: string;
+    /** Component location as logged by the runtime, e.g. "order-flow/processors/1/route/0/processors/0" */
+    path: string;
+    tagName: string;
+    docName?: string;
+    docId?: string;
+    /** 0-based line of the opening tag */
+    line: number;
+    /** 0-based column of the opening tag's "<" */
+    column: number;
+}
+
 export interface MuleProject {
     artifact: MuleArtifactInfo;
     pomDependencies: PomDependency[];
@@ -200,6 +287,7 @@ export interface MuleProject {
     dataweaveFiles: DataWeaveFile[];
     properties: PropertiesInventory;
     errorHandlers: Array<{ name: string; filePath: string }>;
+    errorCatalog: ErrorCatalog;
     edges: MuleFlowEdge[];
     summary: ProjectSummary;
     /** Map of normalized JAR-relative path -> raw file content (xml/properties/yaml/dwl/raml/oas/pom). */
@@ -254,6 +342,7 @@ export function parseMuleProject(input: ParseInput): MuleProject {
     const connectorOperations: ConnectorOperation[] = [];
     const apiKitRoutes: ApiKitRoute[] = [];
     const errorHandlers: Array<{ name: string; filePath: string }> = [];
+    const errorDeclarations = emptyErrorDeclarations();
     const edges: MuleFlowEdge[] = [];
 
     // Track flow id assignment; consistent with legacy graph
@@ -292,6 +381,8 @@ export function parseMuleProject(input: ParseInput): MuleProject {
             edges,
             allocId,
         });
+
+        ctx.collectErrorDeclarations(errorDeclarations);
     }
 
     // Build a name -> flow id map to fix flow-ref edges that pointed at
@@ -311,6 +402,8 @@ export function parseMuleProject(input: ParseInput): MuleProject {
         properties,
     });
 
+    const errorCatalog = buildErrorCatalog(errorDeclarations);
+
     const summary = buildSummary({
         artifact,
         flows,
@@ -341,6 +434,7 @@ export function parseMuleProject(input: ParseInput): MuleProject {
         dataweaveFiles,
         properties,
         errorHandlers,
+        errorCatalog,
         edges,
         summary,
         rawFiles: files,
@@ -373,6 +467,26 @@ interface FlowAccumulator {
     allocId: (raw: string) => string;
 }
 
+interface ErrorDeclarations {
+    raised: RaisedError[];
+    /** Handlers with empty `coversFlows`, filled in by buildErrorCatalog */
+    handlers: ErrorHandlerEntry[];
+    /** Named top-level on-error elements, for `<on-error ref="...">` */
+    namedOnErrors: Map<string, ErrorHandlerEntry>;
+    onErrorRefs: Array<{ ref: string; owner: Omit<ErrorHandlerEntry, 'kind' | 'types' | 'when' | 'coversFlows'> }>;
+    defaultErrorHandler?: string;
+    /** Flow name -> global error handler it references */
+    flowHandlerRefs: Map<string, string>;
+    /** Flows declaring an inline error handler */
+    flowsWithHandler: Set<string>;
+    subFlows: Set<string>;
+    flows: Set<string>;
+    /** Callee name -> caller flow names, from flow-ref */
+    callers: Map<string, Set<string>>;
+    /** Try scopes seen so far, for numbering tryId */
+    tryCount: number;
+}
+
 interface GlobalAccumulator {
     connectorConfigs: ConnectorConfig[];
     errorHandlers: Array<{ name: string; filePath: string }>;
@@ -436,6 +550,8 @@ class FileParseContext {
                     name: attrs.name,
                     filePath: this.filePath,
                     attributes: attrs,
+                    connection: findConnectionElement(child[tag]),
+                    topicPatterns: findTopicPatterns(child[tag]),
                 });
                 continue;
             }
@@ -513,6 +629,127 @@ class FileParseContext {
         }
     }
 
+    /**
+     * Record raise-error types, on-error handlers and how flows reach them.
+     * Walks every element, not just known containers, so raise-error nested
+     * anywhere (choice, foreach, batch steps, ...) is found.
+     */
+    collectErrorDeclarations(out: ErrorDeclarations): void {
+        for (const child of this.rootChildren()) {
+            const tag = elementTagName(child);
+            const attrs = elementAttrs(child);
+            const children = (child[tag] as any[]) || [];
+
+            if (tag === 'configuration' && attrs['defaultErrorHandler-ref']) {
+                out.defaultErrorHandler = attrs['defaultErrorHandler-ref'];
+            } else if (tag === 'error-handler' && attrs.name) {
+                this.collectOnErrors(children, { scope: 'global', handlerName: attrs.name, filePath: this.filePath }, out);
+            } else if ((tag === 'on-error-propagate' || tag === 'on-error-continue') && attrs.name) {
+                out.namedOnErrors.set(attrs.name, {
+                    ...onErrorEntry(tag, attrs),
+                    scope: 'global',
+                    handlerName: attrs.name,
+                    filePath: this.filePath,
+                    coversFlows: [],
+                });
+            } else if ((tag === 'flow' || tag === 'sub-flow') && attrs.name?.trim()) {
+                const flowName = attrs.name.trim();
+                (tag === 'flow' ? out.flows : out.subFlows).add(flowName);
+                this.walkErrorScopes(children, flowName, 'flow', [], out);
+            }
+        }
+    }
+
+    /** `tries` holds the ids of the try scopes around `nodes`, innermost first */
+    private walkErrorScopes(
+        nodes: any[],
+        flowName: string,
+        location: RaisedError['location'],
+        tries: string[],
+        out: ErrorDeclarations
+    ): void {
+        for (const node of nodes) {
+            const tag = elementTagName(node);
+            if (!tag) {
+                continue;
+            }
+            const attrs = elementAttrs(node);
+            const children = (node[tag] as any[]) || [];
+
+            if (tag === 'raise-error' && attrs.type) {
+                out.raised.push({
+                    type: attrs.type.trim(),
+                    description: attrs.description || undefined,
+                    flowName,
+                    filePath: this.filePath,
+                    location,
+                    enclosingTries: tries,
+                });
+            } else if (tag === 'flow-ref' && attrs.name) {
+                const callers = out.callers.get(attrs.name) || new Set<string>();
+                callers.add(flowName);
+                out.callers.set(attrs.name, callers);
+            } else if (tag === 'try') {
+                out.tryCount += 1;
+                const tryId = `${flowName}/try-${out.tryCount}`;
+                for (const inner of children) {
+                    const innerTag = elementTagName(inner);
+                    if (innerTag === 'error-handler') {
+                        const handlerChildren = (inner[innerTag] as any[]) || [];
+                        this.collectOnErrors(handlerChildren, { scope: 'try', flowName, tryId, filePath: this.filePath }, out);
+                        // Errors raised in a try's handler escape to the enclosing scope
+                        this.walkOnErrorBodies(handlerChildren, flowName, location, tries, out);
+                    } else {
+                        this.walkErrorScopes([inner], flowName, 'try', [tryId, ...tries], out);
+                    }
+                }
+                continue;
+            } else if (tag === 'error-handler' && location === 'flow') {
+                if (attrs.ref) {
+                    out.flowHandlerRefs.set(flowName, attrs.ref);
+                } else {
+                    out.flowsWithHandler.add(flowName);
+                    this.collectOnErrors(children, { scope: 'flow', flowName, filePath: this.filePath }, out);
+                }
+                this.walkOnErrorBodies(children, flowName, 'error-handler', tries, out);
+                continue;
+            }
+
+            this.walkErrorScopes(children, flowName, location, tries, out);
+        }
+    }
+
+    private walkOnErrorBodies(
+        onErrors: any[],
+        flowName: string,
+        location: RaisedError['location'],
+        tries: string[],
+        out: ErrorDeclarations
+    ): void {
+        for (const onError of onErrors) {
+            const tag = elementTagName(onError);
+            if (tag) {
+                this.walkErrorScopes((onError[tag] as any[]) || [], flowName, location, tries, out);
+            }
+        }
+    }
+
+    private collectOnErrors(
+        nodes: any[],
+        owner: Omit<ErrorHandlerEntry, 'kind' | 'types' | 'when' | 'coversFlows'>,
+        out: ErrorDeclarations
+    ): void {
+        for (const node of nodes) {
+            const tag = elementTagName(node);
+            const attrs = elementAttrs(node);
+            if (tag === 'on-error-propagate' || tag === 'on-error-continue') {
+                out.handlers.push({ ...onErrorEntry(tag, attrs), ...owner, coversFlows: [] });
+            } else if (tag === 'on-error' && attrs.ref) {
+                out.onErrorRefs.push({ ref: attrs.ref, owner });
+            }
+        }
+    }
+
     private walkComponent(
         node: any,
         siblings: MuleComponent[],
@@ -594,6 +831,7 @@ class FileParseContext {
                 configRef: component.configRef,
                 detail: extractOperationDetail(tag, attrs, node),
                 direction: deriveOperationDirection(local),
+                destination: attrs['destination'] || attrs['queueName'] || attrs['topic'] || attrs['topicName'] || undefined,
             });
         }
 
@@ -631,6 +869,47 @@ function elementTagName(node: any): string {
     return '';
 }
 
+function findConnectionElement(children: any): ConnectorConfig['connection'] {
+    if (!Array.isArray(children)) {
+        return undefined;
+    }
+    for (const child of children) {
+        const tag = elementTagName(child);
+        if (!tag) {
+            continue;
+        }
+        const local = getLocalName(tag);
+        if (local === 'connection' || local.endsWith('-connection')) {
+            return { localName: local, attributes: elementAttrs(child) };
+        }
+    }
+    return undefined;
+}
+
+function findTopicPatterns(children: any): string[] | undefined {
+    const patterns: string[] = [];
+    const visit = (nodes: any) => {
+        if (!Array.isArray(nodes)) {
+            return;
+        }
+        for (const child of nodes) {
+            const tag = elementTagName(child);
+            if (!tag) {
+                continue;
+            }
+            if (getLocalName(tag) === 'topic-pattern') {
+                const value = elementAttrs(child)['value'];
+                if (value) {
+                    patterns.push(value);
+                }
+            }
+            visit(child[tag]);
+        }
+    };
+    visit(children);
+    return patterns.length > 0 ? patterns : undefined;
+}
+
 function elementAttrs(node: any): Record<string, string> {
     const raw = (node?.[':@'] as Record<string, string>) || {};
     const out: Record<string, string> = {};
@@ -727,10 +1006,10 @@ function isContainerByConvention(tag: string, local: string): boolean {
 }
 
 function deriveOperationDirection(local: string): 'in' | 'out' | undefined {
-    if (local === 'publish' || local === 'send' || local === 'request' || local === 'put' || local === 'post' || local === 'send-email') {
+    if (local === 'publish' || local === 'publish-consume' || local === 'send' || local === 'request' || local === 'put' || local === 'post' || local === 'send-email') {
         return 'out';
     }
-    if (local === 'consume' || local === 'subscriber' || local === 'listen' || local === 'listener' || local === 'on-new-file' || local === 'on-new-or-updated-file') {
+    if (local === 'consume' || local === 'subscriber' || local === 'listen' || local === 'listener' || local === 'message-listener' || local === 'batch-message-listener' || local === 'on-new-file' || local === 'on-new-or-updated-file') {
         return 'in';
     }
     return undefined;
@@ -851,6 +1130,372 @@ function looksLikeMuleConfig(content: string): boolean {
         || /<sub-flow\b/i.test(content);
 }
 
+// ---------------------------------------------------------------------------
+// Error catalog
+// ---------------------------------------------------------------------------
+
+function emptyErrorDeclarations(): ErrorDeclarations {
+    return {
+        raised: [],
+        handlers: [],
+        namedOnErrors: new Map(),
+        onErrorRefs: [],
+        flowHandlerRefs: new Map(),
+        flowsWithHandler: new Set(),
+        subFlows: new Set(),
+        flows: new Set(),
+        callers: new Map(),
+        tryCount: 0,
+    };
+}
+
+function onErrorEntry(tag: string, attrs: Record<string, string>): Pick<ErrorHandlerEntry, 'kind' | 'types' | 'when'> {
+    return {
+        kind: tag === 'on-error-continue' ? 'on-error-continue' : 'on-error-propagate',
+        types: (attrs.type || '').split(',').map(t => t.trim()).filter(Boolean),
+        when: attrs.when || undefined,
+    };
+}
+
+/**
+ * Whether a handler `type` entry catches an error type. Types without a
+ * namespace are MULE types, `*` matches any namespace or identifier, ANY
+ * catches everything, and a MULE type catches the connector errors mapped
+ * onto it (HTTP:CONNECTIVITY is a MULE:CONNECTIVITY).
+ */
+export function errorTypeMatches(handlerType: string, errorType: string): boolean {
+    const qualify = (t: string) => {
+        const upper = t.trim().toUpperCase();
+        return upper.includes(':') ? upper.split(':', 2) : ['MULE', upper];
+    };
+    const [handlerNs, handlerId] = qualify(handlerType);
+    const [errorNs, errorId] = qualify(errorType);
+
+    if (handlerId === 'ANY' && (handlerNs === 'MULE' || handlerNs === '*')) {
+        return true;
+    }
+    const idMatches = handlerId === '*' || handlerId === errorId;
+    return idMatches && (handlerNs === '*' || handlerNs === errorNs || handlerNs === 'MULE');
+}
+
+/** Whether the handler can catch the type; handlers without a type catch anything */
+export function handlerCatches(handler: ErrorHandlerEntry, errorType: string): boolean {
+    return handler.types.length === 0 || handler.types.some(t => errorTypeMatches(t, errorType));
+}
+
+/** "on-error-continue in order-flow", "on-error-propagate in global handler api-errors" */
+export function describeErrorHandler(handler: ErrorHandlerEntry): string {
+    const where = handler.scope === 'global'
+        ? `global handler ${handler.handlerName}`
+        : handler.scope === 'try'
+            ? `try scope of ${handler.flowName}`
+            : handler.flowName;
+    return `${handler.kind} in ${where}${handler.when ? ` (when ${handler.when})` : ''}`;
+}
+
+/**
+ * Handlers that can catch `errorType` when it is raised in the body of
+ * `flowName`: its try scopes (the catalog does not know whether the failing
+ * processor sits inside one) and the handlers its errors reach.
+ */
+export function findErrorHandlers(catalog: ErrorCatalog, errorType: string, flowName: string): ErrorHandlerEntry[] {
+    const tryHandlers = catalog.handlers.filter(h => h.scope === 'try' && h.flowName === flowName);
+    return [...tryHandlers, ...(catalog.flowHandlers[flowName] || [])].filter(h => handlerCatches(h, errorType));
+}
+
+function buildErrorCatalog(decl: ErrorDeclarations): ErrorCatalog {
+    const handlers = [...decl.handlers];
+    for (const { ref, owner } of decl.onErrorRefs) {
+        const target = decl.namedOnErrors.get(ref);
+        if (target) {
+            handlers.push({ ...target, ...owner, coversFlows: [] });
+        }
+    }
+
+    const globalHandlers = (name: string | undefined) =>
+        name ? handlers.filter(h => h.scope === 'global' && h.handlerName === name) : [];
+
+    // Flows with their own or a configured default handler stop there; the
+    // rest (and every sub-flow) hand errors to their callers.
+    const flowHandlers: Record<string, ErrorHandlerEntry[]> = {};
+    const resolve = (flowName: string, visiting: Set<string>): ErrorHandlerEntry[] => {
+        if (flowHandlers[flowName]) {
+            return flowHandlers[flowName];
+        }
+        let resolved: ErrorHandlerEntry[] = [];
+        if (!decl.subFlows.has(flowName) && decl.flowsWithHandler.has(flowName)) {
+            resolved = handlers.filter(h => h.scope === 'flow' && h.flowName === flowName);
+        } else if (!decl.subFlows.has(flowName) && decl.flowHandlerRefs.has(flowName)) {
+            resolved = globalHandlers(decl.flowHandlerRefs.get(flowName));
+        } else if (!decl.subFlows.has(flowName) && decl.defaultErrorHandler) {
+            resolved = globalHandlers(decl.defaultErrorHandler);
+        } else {
+            visiting.add(flowName);
+            const inherited = new Set<ErrorHandlerEntry>();
+            for (const caller of decl.callers.get(flowName) || []) {
+                if (!visiting.has(caller)) {
+                    resolve(caller, visiting).forEach(h => inherited.add(h));
+                }
+            }
+            visiting.delete(flowName);
+            resolved = Array.from(inherited);
+            if (visiting.size > 0) {
+                // Part of a flow-ref cycle still being resolved; don't cache a partial answer
+                return resolved;
+            }
+        }
+        flowHandlers[flowName] = resolved;
+        return resolved;
+    };
+    for (const flowName of [...decl.flows, ...decl.subFlows]) {
+        resolve(flowName, new Set());
+    }
+
+    for (const [flowName, reached] of Object.entries(flowHandlers)) {
+        for (const handler of reached) {
+            if (!handler.coversFlows.includes(flowName)) {
+                handler.coversFlows.push(flowName);
+            }
+        }
+    }
+    for (const handler of handlers) {
+        if (handler.scope === 'try' && handler.flowName && !handler.coversFlows.includes(handler.flowName)) {
+            handler.coversFlows.push(handler.flowName);
+        }
+        handler.coversFlows.sort();
+    }
+
+    // Each enclosing try, innermost first, runs its first matching handler
+    // without a `when`; an on-error-continue there stops the error, anything
+    // else passes it outwards and finally to the flow's handlers.
+    const catching = (raise: RaisedError): ErrorHandlerEntry[] => {
+        if (raise.location === 'error-handler') {
+            return [];
+        }
+        const caught: ErrorHandlerEntry[] = [];
+        for (const tryId of raise.enclosingTries) {
+            const matching = handlers.filter(h => h.tryId === tryId && handlerCatches(h, raise.type));
+            const final = matching.find(h => !h.when);
+            caught.push(...(final ? matching.slice(0, matching.indexOf(final) + 1) : matching));
+            if (final?.kind === 'on-error-continue') {
+                return caught;
+            }
+        }
+        return [...caught, ...(flowHandlers[raise.flowName] || []).filter(h => handlerCatches(h, raise.type))];
+    };
+
+    const typeNames = new Set<string>(decl.raised.map(r => r.type.toUpperCase()));
+    for (const handler of handlers) {
+        for (const t of handler.types) {
+            if (!t.includes('*') && !/^(MULE:)?ANY$/i.test(t)) {
+                typeNames.add(t.toUpperCase());
+            }
+        }
+    }
+
+    const types: ErrorTypeCoverage[] = Array.from(typeNames).sort().map(type => {
+        const raises = decl.raised.filter(r => r.type.toUpperCase() === type);
+        const handledBy = new Set<string>();
+        const unhandledIn = new Set<string>();
+        for (const raise of raises) {
+            const caught = catching(raise);
+            caught.forEach(h => handledBy.add(describeErrorHandler(h)));
+            if (caught.length === 0) {
+                unhandledIn.add(raise.flowName);
+            }
+        }
+        if (raises.length === 0) {
+            // Raised by connectors rather than raise-error: any handler naming it may receive it
+            handlers
+                .filter(h => h.types.some(t => errorTypeMatches(t, type)))
+                .forEach(h => handledBy.add(describeErrorHandler(h)));
+        }
+
+        return {
+            type,
+            raisedIn: Array.from(new Set(raises.map(r => r.flowName))).sort(),
+            handledBy: Array.from(handledBy).sort(),
+            unhandledIn: Array.from(unhandledIn).sort(),
+        };
+    });
+
+    return {
+        raised: decl.raised,
+        handlers,
+        defaultErrorHandler: decl.defaultErrorHandler,
+        flowHandlers,
+        types,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Element locations
+// ---------------------------------------------------------------------------
+
+/** Scopes whose processors are addressed as "<scope>/processors/N" */
+const SCOPE_LOCAL_NAMES = new Set([
+    'try', 'foreach', 'parallel-foreach', 'async', 'until-successful', 'cache', 'transactional',
+]);
+
+/** Routers whose branches are addressed as "<router>/route/N/processors/M" */
+const ROUTER_LOCAL_NAMES = new Set(['choice', 'scatter-gather', 'first-successful', 'round-robin']);
+
+/** Opening tags, plus the constructs that can contain "<" without being elements */
+const XML_TOKEN_RE = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^>[]|\[[\s\S]*?\])*>|<\/[^>]*>|<([A-Za-z_][\w:.-]*)/g;
+
+/**
+ * Index every flow, sub-flow and processor of one Mule config with the
+ * component location the runtime logs for it (`Element : <path>`) and the
+ * line/column of its opening tag.
+ *
+ * fast-xml-parser does not record positions, so the tree is lined up with
+ * the opening tags of the raw text, which appear in the same document order.
+ * Returns an empty list for malformed XML or when the two disagree.
+ */
+export function locateMuleElements(content: string): MuleElementLocation[] {
+    let tree: any[];
+    try {
+        tree = xmlParser.parse(content);
+    } catch {
+        return [];
+    }
+
+    const openTags: Array<{ tag: string; offset: number }> = [];
+    XML_TOKEN_RE.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = XML_TOKEN_RE.exec(content)) !== null) {
+        if (match[1]) {
+            openTags.push({ tag: match[1], offset: match.index });
+        }
+    }
+
+    // Document-order index of every element node in the tree
+    const ordinals = new Map<any, number>();
+    const assignOrdinals = (nodes: any[]): boolean => {
+        for (const node of nodes) {
+            const tag = elementTagName(node);
+            if (!tag || tag.startsWith('?') || tag === '#comment') {
+                continue;
+            }
+            const ordinal = ordinals.size;
+            if (openTags[ordinal]?.tag !== tag) {
+                return false;
+            }
+            ordinals.set(node, ordinal);
+            if (Array.isArray(node[tag]) && !assignOrdinals(node[tag])) {
+                return false;
+            }
+        }
+        return true;
+    };
+    if (!assignOrdinals(tree) || ordinals.size !== openTags.length) {
+        return [];
+    }
+
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+
+    const out: MuleElementLocation[] = [];
+    const record = (node: any, flowName: string, elementPath: string): void => {
+        const offset = openTags[ordinals.get(node)!].offset;
+        let line = 0;
+        let high = lineStarts.length - 1;
+        while (line < high) {
+            const mid = Math.ceil((line + high) / 2);
+            if (lineStarts[mid] <= offset) {
+                line = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        const attrs = elementAttrs(node);
+        out.push({
+            flowName,
+            path: elementPath,
+            tagName: elementTagName(node),
+            docName: attrs['doc:name'] || undefined,
+            docId: attrs['doc:id'] || undefined,
+            line,
+            column: offset - lineStarts[line],
+        });
+    };
+
+    const root = findFirstElement(tree);
+    for (const child of (root?.[elementTagName(root)] as any[]) || []) {
+        const tag = elementTagName(child);
+        const name = elementAttrs(child).name?.trim();
+        if ((tag !== 'flow' && tag !== 'sub-flow') || !name) {
+            continue;
+        }
+        record(child, name, name);
+        locateProcessors((child[tag] as any[]) || [], name, name, tag === 'flow', record);
+    }
+    return out;
+}
+
+function locateProcessors(
+    nodes: any[],
+    flowName: string,
+    basePath: string,
+    allowSource: boolean,
+    record: (node: any, flowName: string, elementPath: string) => void
+): void {
+    let index = 0;
+    let first = true;
+    for (const node of nodes) {
+        const tag = elementTagName(node);
+        if (!tag || tag.startsWith('#') || getPrefix(tag) === 'doc') {
+            continue;
+        }
+        const children = (node[tag] as any[]) || [];
+        const local = getLocalName(tag);
+
+        if (first && allowSource && isMessageSourceTag(tag, local)) {
+            record(node, flowName, `${basePath}/source`);
+        } else if (tag === 'error-handler') {
+            let handlerIndex = 0;
+            for (const onError of children) {
+                const onErrorTag = elementTagName(onError);
+                if (!onErrorTag || onErrorTag.startsWith('#')) {
+                    continue;
+                }
+                const onErrorPath = `${basePath}/errorHandler/${handlerIndex++}`;
+                record(onError, flowName, onErrorPath);
+                locateProcessors((onError[onErrorTag] as any[]) || [], flowName, onErrorPath, false, record);
+            }
+        } else {
+            const processorPath = `${basePath}/processors/${index++}`;
+            record(node, flowName, processorPath);
+            if (SCOPE_LOCAL_NAMES.has(local)) {
+                locateProcessors(children, flowName, processorPath, false, record);
+            } else if (ROUTER_LOCAL_NAMES.has(local)) {
+                let routeIndex = 0;
+                for (const route of children) {
+                    const routeTag = elementTagName(route);
+                    if (!routeTag || routeTag.startsWith('#') || getPrefix(routeTag) === 'doc') {
+                        continue;
+                    }
+                    const routePath = `${processorPath}/route/${routeIndex++}`;
+                    record(route, flowName, routePath);
+                    locateProcessors((route[routeTag] as any[]) || [], flowName, routePath, false, record);
+                }
+            }
+        }
+        first = false;
+    }
+}
+
+function isMessageSourceTag(tag: string, local: string): boolean {
+    return tag === 'scheduler'
+        || /listener$/.test(local)
+        || local === 'subscriber'
+        || /^on-(?:new|updated|modified|deleted)/.test(local);
+}
+
 // ---------------------------------------------------------------------------
 // Cross-flow edge resolution
 // ---------------------------------------------------------------------------
@@ -1517,5 +2162,6 @@ function resolvePlaceholdersOnArtifacts(args: {
     }
     for (const op of args.connectorOperations) {
         op.detail = resolve(op.detail);
+        op.destination = resolve(op.destination);
     }
 }
@@ -0,0 +1,237 @@
+/**
+ * Minimal YAML reader for small, hand-written config files (rule definitions).
+ *
+ * Supports block mappings, block sequences (including `- key: value` items),
+ * flow sequences (`[a, b]`), quoted and plain scalars, booleans, numbers,
+ * null and `#` comments. Anchors, tags, multi-line block scalars (`|`, `>`)
+ * and flow mappings are NOT supported and raise a {@link YamlParseError}.
+ * NOT a general YAML implementation.
+ */
+
+export class YamlParseError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`Line ${line}: ${message}`);
+        this.name = 'YamlParseError';
+    }
+}
+
+interface YamlLine {
+    indent: number;
+    text: string;
+    lineNo: number;
+}
+
+export function parseYaml(text: string): unknown {
+    const lines = tokenize(text);
+    if (lines.length === 0) { return null; }
+
+    const [value, next] = parseBlock(lines, 0, lines[0].indent);
+    if (next < lines.length) {
+        throw new YamlParseError('Unexpected indentation', lines[next].lineNo);
+    }
+    return value;
+}
+
+function tokenize(text: string): YamlLine[] {
+    const lines: YamlLine[] = [];
+    text.split(/\r?\n/).forEach((raw, idx) => {
+        const trimmed = raw.trim();
+        if (!trimmed || trimmed.startsWith('#') || trimmed === '---') { return; }
+        const leading = raw.match(/^[ \t]*/)?.[0] ?? '';
+        if (leading.includes('\t')) {
+            throw new YamlParseError('Tabs are not allowed for indentation', idx + 1);
+        }
+        lines.push({ indent: leading.length, text: raw.slice(leading.length).trimEnd(), lineNo: idx + 1 });
+    });
+    return lines;
+}
+
+function isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+function parseBlock(lines: YamlLine[], i: number, indent: number): [unknown, number] {
+    return isSequenceItem(lines[i].text)
+        ? parseSequence(lines, i, indent)
+        : parseMapping(lines, i, indent);
+}
+
+function parseSequence(lines: YamlLine[], i: number, indent: number): [unknown[], number] {
+    const items: unknown[] = [];
+
+    while (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].text)) {
+        const line = lines[i];
+        const rest = line.text.slice(1).trimStart();
+
+        if (rest === '') {
+            const next = lines[i + 1];
+            if (next && next.indent > indent) {
+                const [value, after] = parseBlock(lines, i + 1, next.indent);
+                items.push(value);
+                i = after;
+            } else {
+                items.push(null);
+                i++;
+            }
+        } else if (splitKeyValue(rest)) {
+            // "- key: value" starts a mapping whose keys align with "key"
+            const itemIndent = indent + (line.text.length - rest.length);
+            lines[i] = { indent: itemIndent, text: rest, lineNo: line.lineNo };
+            const [value, after] = parseMapping(lines, i, itemIndent);
+            items.push(value);
+            i = after;
+        } else {
+            items.push(parseScalar(rest, line.lineNo));
+            i++;
+        }
+    }
+
+    return [items, i];
+}
+
+function parseMapping(lines: YamlLine[], i: number, indent: number): [Record<string, unknown>, number] {
+    const result: Record<string, unknown> = {};
+
+    while (i < lines.length && lines[i].indent === indent) {
+        const line = lines[i];
+        if (isSequenceItem(line.text)) {
+            throw new YamlParseError('Unexpected sequence item inside a mapping', line.lineNo);
+        }
+        const entry = splitKeyValue(line.text);
+        if (!entry) {
+            throw new YamlParseError(`Expected "key: value", got "${line.text}"`, line.lineNo);
+        }
+        if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+            throw new YamlParseError(`Duplicate key "${entry.key}"`, line.lineNo);
+        }
+
+        if (entry.value === '') {
+            const next = lines[i + 1];
+            if (next && next.indent > indent) {
+                const [value, after] = parseBlock(lines, i + 1, next.indent);
+                result[entry.key] = value;
+                i = after;
+            } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+                // Sequences may sit at the same indentation as their key
+                const [value, after] = parseSequence(lines, i + 1, indent);
+                result[entry.key] = value;
+                i = after;
+            } else {
+                result[entry.key] = null;
+                i++;
+            }
+        } else {
+            result[entry.key] = parseScalar(entry.value, line.lineNo);
+            i++;
+        }
+    }
+
+    if (i < lines.length && lines[i].indent > indent) {
+        throw new YamlParseError('Unexpected indentation', lines[i].lineNo);
+    }
+
+    return [result, i];
+}
+
+function splitKeyValue(text: string): { key: string; value: string } | null {
+    const quoted = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+(.*))?$/);
+    if (quoted) {
+        return { key: unquote(quoted[1]), value: (quoted[2] ?? '').trim() };
+    }
+    const plain = text.match(/^([^\s#'"[\]{},][^:#]*?)\s*:(?:\s+(.*))?$/);
+    if (plain) {
+        return { key: plain[1], value: (plain[2] ?? '').trim() };
+    }
+    return null;
+}
+
+function parseScalar(raw: string, lineNo: number): unknown {
+    const value = raw.trim();
+
+    if (value.startsWith('"') || value.startsWith("'")) {
+        const end = findClosingQuote(value);
+        if (end === -1) { throw new YamlParseError('Unterminated quoted string', lineNo); }
+        const trailing = value.slice(end + 1).trim();
+        if (trailing && !trailing.startsWith('#')) {
+            throw new YamlParseError(`Unexpected text after quoted string: "${trailing}"`, lineNo);
+        }
+        try {
+            return unquote(value.slice(0, end + 1));
+        } catch {
+            throw new YamlParseError(`Invalid escape sequence in ${value.slice(0, end + 1)} (use single quotes for regular expressions)`, lineNo);
+        }
+    }
+
+    if (value.startsWith('[')) {
+        const close = value.lastIndexOf(']');
+        if (close === -1) { throw new YamlParseError('Unterminated flow sequence', lineNo); }
+        const inner = value.slice(1, close).trim();
+        if (!inner) { return []; }
+        return splitFlowItems(inner).map(item => parseScalar(item, lineNo));
+    }
+
+    if (value.startsWith('{')) {
+        if (/^\{\s*\}$/.test(value)) { return {}; }
+        throw new YamlParseError('Flow mappings ({...}) are not supported', lineNo);
+    }
+
+    if (value.startsWith('|') || value.startsWith('>')) {
+        throw new YamlParseError('Block scalars (| and >) are not supported', lineNo);
+    }
+
+    if (value.startsWith('&') || value.startsWith('*') || value.startsWith('!')) {
+        throw new YamlParseError('Anchors, aliases and tags are not supported', lineNo);
+    }
+
+    const plain = value.replace(/\s+#.*$/, '');
+    if (plain === 'true' || plain === 'True' || plain === 'TRUE') { return true; }
+    if (plain === 'false' || plain === 'False' || plain === 'FALSE') { return false; }
+    if (plain === 'null' || plain === 'Null' || plain === 'NULL' || plain === '~') { return null; }
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(plain)) { return Number(plain); }
+    return plain;
+}
+
+function findClosingQuote(value: string): number {
+    const quote = value[0];
+    for (let i = 1; i < value.length; i++) {
+        if (quote === '"' && value[i] === '\\') { i++; continue; }
+        if (value[i] === quote) {
+            if (quote === "'" && value[i + 1] === "'") { i++; continue; }
+            return i;
+        }
+    }
+    return -1;
+}
+
+function unquote(value: string): string {
+    if (value.startsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    // YAML double-quoted escapes are a superset of JSON's for everything we accept
+    return JSON.parse(value);
+}
+
+function splitFlowItems(inner: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < inner.length; i++) {
+        const ch = inner[i];
+        if (quote) {
+            current += ch;
+            if (quote === '"' && ch === '\\') { current += inner[++i] ?? ''; continue; }
+            if (ch === quote) { quote = null; }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+            current += ch;
+        } else if (ch === ',') {
+            items.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) { items.push(current.trim()); }
+    return items;
+}
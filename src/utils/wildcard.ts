@@ -0,0 +1,11 @@
+/**
+ * Case-insensitive match of a whole string against a pattern where `*`
+ * stands for any run of characters and everything else is literal, as used
+ * for app, environment and error-type patterns in rule files.
+ *
+ *   "APP:*" → /^APP:.*$/i
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${escaped}$`, 'i');
+}
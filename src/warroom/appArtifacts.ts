@@ -0,0 +1,250 @@
+import axios from 'axios';
+import JSZip from 'jszip';
+import { ApiHelper } from '../controllers/apiHelper';
+import { parseMuleProject, MuleProject } from '../utils/muleProject';
+import type { AppInfo } from './dependencyMapper';
+
+export type ArtifactLogger = (message: string) => void;
+
+/** Text files the Mule project parser reads; class files and other binaries are skipped */
+const PROJECT_FILE_PATTERN = /\.(xml|properties|ya?ml|json|raml|dwl)$/i;
+
+/**
+ * Download the deployed JAR of a CloudHub 1.0 or 2.0 app. CH1 apps are fetched
+ * from the CloudHub download endpoints (falling back to Exchange); CH2 apps via
+ * the Exchange asset referenced by the deployment. Returns undefined when no
+ * strategy succeeds.
+ */
+export async function downloadAppJar(
+    app: AppInfo,
+    apiHelper: ApiHelper,
+    baseUrl: string,
+    organizationId: string,
+    environmentId: string,
+    log: ArtifactLogger = () => undefined
+): Promise<ArrayBuffer | undefined> {
+    const isCH1 = !!app.rawData?.fullDomain;
+    let jarData: ArrayBuffer | undefined;
+
+    if (isCH1) {
+        const domain = app.rawData?.domain || app.name;
+        const encodedDomain = encodeURIComponent(domain);
+        // CH1 API returns "filename" (lowercase n)
+        const fileName = app.rawData?.filename || app.rawData?.fileName;
+        log(`CH1 filename for "${app.name}": ${fileName}`);
+
+        // Strategy 1: CloudHub download endpoint (the correct CH1 pattern)
+        // /cloudhub/api/organizations/{orgId}/environments/{envId}/applications/{domain}/download/{fileName}
+        if (fileName && typeof fileName === 'string') {
+            const downloadUrl = `${baseUrl}/cloudhub/api/organizations/${organizationId}/environments/${environmentId}/applications/${encodedDomain}/download/${encodeURIComponent(fileName)}`;
+            log(`Trying CH1 direct download for "${app.name}": ${downloadUrl}`);
+            jarData = await tryDownloadJar(apiHelper, downloadUrl, environmentId, organizationId, log);
+            if (jarData) {
+                log(`CH1 JAR downloaded for "${app.name}" via direct download (${(jarData as any).byteLength || 0} bytes)`);
+            }
+        }
+
+        // Strategy 2: Fallback URL patterns
+        if (!jarData) {
+            const candidateUrls = [
+                `${baseUrl}/cloudhub/api/organizations/${organizationId}/environments/${environmentId}/applications/${encodedDomain}/download`,
+                `${baseUrl}/cloudhub/api/v2/applications/${encodedDomain}/artifact`,
+                `${baseUrl}/cloudhub/api/applications/${encodedDomain}/artifact`,
+            ];
+
+            for (const artifactUrl of candidateUrls) {
+                log(`Trying CH1 JAR download for "${app.name}": ${artifactUrl}`);
+                jarData = await tryDownloadJar(apiHelper, artifactUrl, environmentId, organizationId, log);
+                if (jarData) {
+                    log(`CH1 JAR downloaded for "${app.name}" (${(jarData as any).byteLength || 0} bytes) from ${artifactUrl}`);
+                    break;
+                }
+            }
+        }
+
+        // Strategy 3: Try Exchange/GraphQL if fileName has coordinates
+        if (!jarData && fileName && typeof fileName === 'string') {
+            const coords = parseFileNameCoordinates(fileName, organizationId);
+            if (coords) {
+                log(`CH1 Exchange coordinates from fileName "${fileName}": ${coords.groupId}/${coords.artifactId}/${coords.version}`);
+                jarData = await downloadJarFromExchange(apiHelper, baseUrl, coords.groupId, coords.artifactId, coords.version, log);
+                if (jarData) {
+                    log(`CH1 JAR downloaded via Exchange for "${app.name}" (${(jarData as any).byteLength || 0} bytes)`);
+                }
+            }
+        }
+    } else {
+        // CH2: try GraphQL → S3 download for the artifact
+        const ref = app.rawData?.application?.ref;
+        if (ref?.groupId && ref?.artifactId && ref?.version) {
+            log(`Downloading CH2 JAR for "${app.name}" via GraphQL (${ref.groupId}/${ref.artifactId}/${ref.version})`);
+            try {
+                const gqlResp = await apiHelper.post(`${baseUrl}/graph/api/v2/graphql`, {
+                    query: `query asset { asset(groupId:"${ref.groupId}", assetId:"${ref.artifactId}", version:"${ref.version}") { files { classifier packaging externalLink } } }`
+                });
+                if (gqlResp.status === 200) {
+                    const files = gqlResp.data?.data?.asset?.files || [];
+                    const jarFile = files.find((f: any) => f.packaging === 'jar' && f.externalLink);
+                    if (jarFile?.externalLink) {
+                        const s3Resp = await axios.get(jarFile.externalLink, {
+                            responseType: 'arraybuffer',
+                            timeout: 30000,
+                            validateStatus: (status: number) => (status ?? 0) < 500,
+                        });
+                        if (s3Resp.status === 200 && s3Resp.data) {
+                            jarData = s3Resp.data;
+                            log(`CH2 JAR downloaded for "${app.name}" (${(s3Resp.data as any).byteLength || 'unknown'} bytes)`);
+                        }
+                    }
+                }
+            } catch (gqlErr: any) {
+                log(`CH2 GraphQL JAR fetch failed for "${app.name}": ${gqlErr.message}`);
+            }
+        }
+    }
+
+    return jarData;
+}
+
+/** Read the text files of a Mule application JAR and parse them into a project model */
+export async function loadMuleProjectFromJar(jarData: ArrayBuffer): Promise<MuleProject> {
+    const zip = await JSZip.loadAsync(jarData);
+    const files: Record<string, string> = {};
+    await Promise.all(Object.entries(zip.files).map(async ([filePath, file]) => {
+        if (file.dir || !PROJECT_FILE_PATTERN.test(filePath)) { return; }
+        try {
+            files[filePath] = await file.async('string');
+        } catch {
+            // Skip unreadable entries
+        }
+    }));
+    return parseMuleProject({ files });
+}
+
+async function tryDownloadJar(
+    apiHelper: ApiHelper,
+    url: string,
+    environmentId: string,
+    organizationId: string,
+    log: ArtifactLogger
+): Promise<ArrayBuffer | undefined> {
+    try {
+        const resp = await apiHelper.get(url, {
+            headers: {
+                'X-ANYPNT-ENV-ID': environmentId,
+                'X-ANYPNT-ORG-ID': organizationId,
+                'Accept': 'application/java-archive, application/zip, application/octet-stream',
+            },
+            responseType: 'arraybuffer',
+            timeout: 30000,
+            validateStatus: (status: number) => (status ?? 0) < 500,
+        });
+        if (resp.status === 200 && resp.data) {
+            const size = (resp.data as any).byteLength || 0;
+            const contentType = resp.headers?.['content-type'] || '';
+            if (size > 1000 && !contentType.includes('text/html')) {
+                return resp.data;
+            }
+            log(`JAR response too small (${size} bytes) or HTML from ${url}`);
+        } else {
+            log(`JAR download returned status ${resp.status} from ${url}`);
+        }
+    } catch (e: any) {
+        log(`JAR download failed: ${e.message}`);
+    }
+    return undefined;
+}
+
+function parseFileNameCoordinates(fileName: string, fallbackGroupId: string): { groupId: string; artifactId: string; version: string } | undefined {
+    // CH1 fileName formats:
+    //   "bonfire-1.0.0-mule-application.jar"
+    //   "cisco-meraki-nx-am-papi-2.3.1-mule-application.jar"
+    //   Coordinates: groupId = orgId, artifactId = name part, version = version part
+    const match = fileName.match(/^(.+?)-(\d+\.\d+\.\d+(?:-SNAPSHOT)?)-mule-application\.jar$/i);
+    if (match) {
+        return { groupId: fallbackGroupId, artifactId: match[1], version: match[2] };
+    }
+    return undefined;
+}
+
+async function downloadJarFromExchange(
+    apiHelper: ApiHelper,
+    baseUrl: string,
+    groupId: string,
+    artifactId: string,
+    version: string,
+    log: ArtifactLogger
+): Promise<ArrayBuffer | undefined> {
+    // Strategy A: GraphQL to get S3 presigned URL
+    try {
+        log(`Exchange download: trying GraphQL for ${groupId}/${artifactId}/${version}`);
+        const gqlResp = await apiHelper.post(`${baseUrl}/graph/api/v2/graphql`, {
+            query: `query asset { asset(groupId:"${groupId}", assetId:"${artifactId}", version:"${version}") { files { classifier packaging externalLink } } }`
+        });
+        if (gqlResp.status === 200) {
+            const files = gqlResp.data?.data?.asset?.files || [];
+            const jarFile = files.find((f: any) => f.packaging === 'jar' && f.externalLink);
+            if (jarFile?.externalLink) {
+                log(`Exchange download: found S3 link for ${artifactId}`);
+                const s3Resp = await axios.get(jarFile.externalLink, {
+                    responseType: 'arraybuffer',
+                    timeout: 30000,
+                    validateStatus: (status: number) => (status ?? 0) < 500,
+                });
+                if (s3Resp.status === 200 && s3Resp.data) {
+                    return s3Resp.data;
+                }
+                log(`Exchange download: S3 returned status ${s3Resp.status}`);
+            } else {
+                log(`Exchange download: no JAR with externalLink found (${files.length} files)`);
+            }
+        }
+    } catch (e: any) {
+        log(`Exchange download: GraphQL failed: ${e.message}`);
+    }
+
+    // Strategy B: Maven Facade API
+    try {
+        const groupPath = groupId.replace(/\./g, '/');
+        const mavenUrl = `https://maven.anypoint.mulesoft.com/api/v3/organizations/${groupId}/maven/${groupPath}/${artifactId}/${version}/${artifactId}-${version}-mule-application.jar`;
+        log(`Exchange download: trying Maven Facade ${mavenUrl}`);
+        const mvnResp = await apiHelper.get(mavenUrl, {
+            responseType: 'arraybuffer',
+            timeout: 30000,
+            validateStatus: (status: number) => (status ?? 0) < 500,
+        });
+        if (mvnResp.status === 200 && mvnResp.data) {
+            const size = (mvnResp.data as any).byteLength || 0;
+            if (size > 1000) {
+                log(`Exchange download: Maven Facade success (${size} bytes)`);
+                return mvnResp.data;
+            }
+        }
+        log(`Exchange download: Maven Facade returned status ${mvnResp.status}`);
+    } catch (e: any) {
+        log(`Exchange download: Maven Facade failed: ${e.message}`);
+    }
+
+    // Strategy C: Exchange API
+    try {
+        const exchangeUrl = `${baseUrl}/exchange/api/v2/assets/${groupId}/${artifactId}/${version}/artifact`;
+        log(`Exchange download: trying Exchange API ${exchangeUrl}`);
+        const exResp = await apiHelper.get(exchangeUrl, {
+            responseType: 'arraybuffer',
+            timeout: 30000,
+            validateStatus: (status: number) => (status ?? 0) < 500,
+        });
+        if (exResp.status === 200 && exResp.data) {
+            const size = (exResp.data as any).byteLength || 0;
+            if (size > 1000) {
+                log(`Exchange download: Exchange API success (${size} bytes)`);
+                return exResp.data;
+            }
+        }
+        log(`Exchange download: Exchange API returned status ${exResp.status}`);
+    } catch (e: any) {
+        log(`Exchange download: Exchange API failed: ${e.message}`);
+    }
+
+    return undefined;
+}
@@ -0,0 +1,76 @@
+import { BaselineMethod } from './types';
+
+/** Scale factor making MAD a consistent estimator of the standard deviation for normal data */
+const MAD_SCALE = 1.4826;
+
+/** Score at or above which a departure from the baseline is reported */
+export const ANOMALY_SCORE_MEDIUM = 3;
+export const ANOMALY_SCORE_HIGH = 5;
+
+/** Shortest window compared week-over-week, so short live polls still get enough samples */
+const MIN_SEASONAL_WINDOW_MINUTES = 30;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface BaselineStats {
+    method: BaselineMethod;
+    /** Mean (zscore) or median (mad) of the samples */
+    center: number;
+    /** Standard deviation (zscore) or scaled median absolute deviation (mad) */
+    spread: number;
+    samples: number;
+}
+
+/**
+ * The incident window shifted back by 1..weeks whole weeks, so each range covers
+ * the same hour-of-day and day-of-week. Windows shorter than 30 minutes are
+ * widened backwards from `end`.
+ */
+export function seasonalWindows(start: Date, end: Date, weeks: number): Array<{ start: Date; end: Date }> {
+    const durationMs = Math.max(end.getTime() - start.getTime(), MIN_SEASONAL_WINDOW_MINUTES * 60000);
+    const windows: Array<{ start: Date; end: Date }> = [];
+    for (let week = 1; week <= weeks; week++) {
+        const shiftedEnd = end.getTime() - week * WEEK_MS;
+        windows.push({ start: new Date(shiftedEnd - durationMs), end: new Date(shiftedEnd) });
+    }
+    return windows;
+}
+
+export function computeBaselineStats(samples: number[], method: BaselineMethod): BaselineStats | null {
+    const values = samples.filter(v => Number.isFinite(v));
+    if (values.length === 0) { return null; }
+
+    if (method === 'mad') {
+        const center = median(values);
+        const mad = median(values.map(v => Math.abs(v - center)));
+        return { method, center, spread: mad * MAD_SCALE, samples: values.length };
+    }
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return { method, center: mean, spread: Math.sqrt(variance), samples: values.length };
+}
+
+/**
+ * Standardized distance of `value` above or below the baseline. `minSpread`
+ * keeps perfectly flat baselines from turning tiny changes into huge scores.
+ */
+export function deviationScore(value: number, stats: BaselineStats, minSpread: number = 0): number {
+    const spread = Math.max(stats.spread, minSpread);
+    if (spread === 0) {
+        return value === stats.center ? 0 : Math.sign(value - stats.center) * Infinity;
+    }
+    return (value - stats.center) / spread;
+}
+
+/** Severity for an upward departure, or null when within normal variation */
+export function scoreSeverity(score: number): 'high' | 'medium' | null {
+    if (score >= ANOMALY_SCORE_HIGH) { return 'high'; }
+    if (score >= ANOMALY_SCORE_MEDIUM) { return 'medium'; }
+    return null;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
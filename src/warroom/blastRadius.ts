@@ -1,44 +1,74 @@
-import { BlastRadius, DependencyMap } from './types';
+import { BlastRadius, BlastRadiusEntry, BlastRadiusOptions, DependencyEntry, DependencyMap } from './types';
+import { formatAsyncChannel } from './muleConfigDependencies';
 
 const MAX_HOPS = 2;
 
+/** Weight of an edge by discovery confidence; manual edges are user-declared and count as certain */
+const CONFIDENCE_WEIGHTS: Record<DependencyEntry['confidence'], number> = {
+    high: 1,
+    medium: 0.6,
+    low: 0.3
+};
+
+const CONFIDENCE_RANK: Record<DependencyEntry['confidence'], number> = { low: 0, medium: 1, high: 2 };
+
+interface Edge {
+    weight: number;
+    /** Message channel label for asynchronous edges */
+    via?: string;
+}
+
+interface Reach {
+    hops: number;
+    confidence: number;
+    /** Best confidence / hops over all paths, before traffic weighting */
+    score: number;
+    via?: string;
+}
+
 export function calculateBlastRadius(
     seedApps: string[],
-    dependencyMap: DependencyMap
+    dependencyMap: DependencyMap,
+    options: BlastRadiusOptions = {}
 ): BlastRadius {
-    const upstream: Map<string, number> = new Map();
-    const downstream: Map<string, number> = new Map();
+    const upstream: Map<string, Reach> = new Map();
+    const downstream: Map<string, Reach> = new Map();
     const seedSet = new Set(seedApps);
+    const minRank = CONFIDENCE_RANK[options.minConfidence || 'low'];
+    let prunedEdges = 0;
 
-    // Build adjacency lists from the dependency map
+    // Build weighted adjacency lists from the dependency map
     // sourceApp -> targetApp means sourceApp CALLS targetApp
     // So targetApp's upstream includes sourceApp
     // And sourceApp's downstream includes targetApp
-    const callsTo: Map<string, Set<string>> = new Map(); // app -> apps it calls (downstream)
-    const calledBy: Map<string, Set<string>> = new Map(); // app -> apps that call it (upstream)
+    const callsTo: Map<string, Map<string, Edge>> = new Map(); // app -> apps it calls (downstream)
+    const calledBy: Map<string, Map<string, Edge>> = new Map(); // app -> apps that call it (upstream)
 
     for (const dep of dependencyMap.dependencies) {
         if (dep.isExternal) { continue; }
 
-        if (!callsTo.has(dep.sourceApp)) {
-            callsTo.set(dep.sourceApp, new Set());
+        const manual = dep.discoveryMethod === 'manual';
+        if (!manual && CONFIDENCE_RANK[dep.confidence] < minRank) {
+            prunedEdges++;
+            continue;
         }
-        callsTo.get(dep.sourceApp)!.add(dep.targetApp);
+        const edge: Edge = {
+            weight: manual ? 1 : CONFIDENCE_WEIGHTS[dep.confidence],
+            via: dep.via ? formatAsyncChannel(dep.via) : undefined
+        };
 
-        if (!calledBy.has(dep.targetApp)) {
-            calledBy.set(dep.targetApp, new Set());
-        }
-        calledBy.get(dep.targetApp)!.add(dep.sourceApp);
+        addEdge(callsTo, dep.sourceApp, dep.targetApp, edge);
+        addEdge(calledBy, dep.targetApp, dep.sourceApp, edge);
     }
 
     // Walk downstream (apps that seed apps call, and their callees)
     for (const seed of seedApps) {
-        walkGraph(seed, callsTo, downstream, seedSet, 0);
+        walkGraph(seed, callsTo, downstream, seedSet, new Set([seed]), 0, 1);
     }
 
     // Walk upstream (apps that call seed apps, and their callers)
     for (const seed of seedApps) {
-        walkGraph(seed, calledBy, upstream, seedSet, 0);
+        walkGraph(seed, calledBy, upstream, seedSet, new Set([seed]), 0, 1);
     }
 
     const allAffected = new Set<string>([
@@ -47,39 +77,116 @@ export function calculateBlastRadius(
         ...downstream.keys()
     ]);
 
+    const trafficShare = trafficShares([...upstream.keys(), ...downstream.keys()], options.traffic);
+
     return {
         seedApps,
-        upstream: Array.from(upstream.entries())
-            .map(([app, hops]) => ({ app, hops }))
-            .sort((a, b) => a.hops - b.hops),
-        downstream: Array.from(downstream.entries())
-            .map(([app, hops]) => ({ app, hops }))
-            .sort((a, b) => a.hops - b.hops),
-        allAffected: Array.from(allAffected)
+        upstream: rankEntries(upstream, trafficShare),
+        downstream: rankEntries(downstream, trafficShare),
+        allAffected: Array.from(allAffected),
+        prunedEdges
     };
 }
 
+function addEdge(adjacency: Map<string, Map<string, Edge>>, from: string, to: string, edge: Edge): void {
+    if (!adjacency.has(from)) {
+        adjacency.set(from, new Map());
+    }
+    const edges = adjacency.get(from)!;
+    // Several discovery methods may report the same edge; trust the strongest,
+    // and prefer a direct call over a message channel when they tie
+    const existing = edges.get(to);
+    if (!existing || edge.weight > existing.weight || (edge.weight === existing.weight && existing.via && !edge.via)) {
+        edges.set(to, edge);
+    }
+}
+
+/**
+ * Visit every simple path up to MAX_HOPS, recording the shortest hop count and
+ * the path with the best confidence-per-hop for each app reached.
+ */
 function walkGraph(
     current: string,
-    adjacency: Map<string, Set<string>>,
-    visited: Map<string, number>,
+    adjacency: Map<string, Map<string, Edge>>,
+    visited: Map<string, Reach>,
     seedSet: Set<string>,
-    currentHop: number
+    onPath: Set<string>,
+    currentHop: number,
+    pathConfidence: number
 ): void {
     if (currentHop >= MAX_HOPS) { return; }
 
     const neighbors = adjacency.get(current);
     if (!neighbors) { return; }
 
-    for (const neighbor of neighbors) {
-        if (seedSet.has(neighbor)) { continue; }
+    for (const [neighbor, edge] of neighbors) {
+        if (seedSet.has(neighbor) || onPath.has(neighbor)) { continue; }
 
         const nextHop = currentHop + 1;
-        const existingHops = visited.get(neighbor);
+        const confidence = pathConfidence * edge.weight;
+        const score = confidence / nextHop;
+        const existing = visited.get(neighbor);
 
-        if (existingHops === undefined || nextHop < existingHops) {
-            visited.set(neighbor, nextHop);
-            walkGraph(neighbor, adjacency, visited, seedSet, nextHop);
+        if (!existing) {
+            visited.set(neighbor, { hops: nextHop, confidence, score, via: edge.via });
+        } else {
+            existing.hops = Math.min(existing.hops, nextHop);
+            if (score > existing.score) {
+                existing.score = score;
+                existing.confidence = confidence;
+                existing.via = edge.via;
+            }
         }
+
+        onPath.add(neighbor);
+        walkGraph(neighbor, adjacency, visited, seedSet, onPath, nextHop, confidence);
+        onPath.delete(neighbor);
     }
 }
+
+interface TrafficShare {
+    share: number;
+    /** False when the app had no traffic sample and got the neutral share */
+    measured: boolean;
+}
+
+/**
+ * Each app's share of the inbound requests across all non-seed affected apps.
+ * Apps without a sample (async consumers, schedulers, CH1 apps, failed
+ * queries) get the mean of the measured shares, so unknown traffic is not
+ * ranked as no traffic. Without any traffic data every app gets a neutral
+ * share of 1 so the ranking falls back to hops and confidence.
+ */
+function trafficShares(apps: string[], traffic?: Map<string, number>): (app: string) => TrafficShare {
+    if (!traffic) { return () => ({ share: 1, measured: true }); }
+
+    const measured = [...new Set(apps)].filter(app => traffic.has(app));
+    const total = measured.reduce((sum, app) => sum + (traffic.get(app) || 0), 0);
+    if (total <= 0) {
+        return app => ({ share: 1, measured: traffic.has(app) });
+    }
+    const neutral = 1 / measured.length;
+    return app => traffic.has(app)
+        ? { share: (traffic.get(app) || 0) / total, measured: true }
+        : { share: neutral, measured: false };
+}
+
+function rankEntries(reached: Map<string, Reach>, trafficShare: (app: string) => TrafficShare): BlastRadiusEntry[] {
+    return Array.from(reached.entries())
+        .map(([app, reach]) => {
+            const { share, measured } = trafficShare(app);
+            return {
+                app,
+                hops: reach.hops,
+                confidence: round(reach.confidence),
+                impact: round(reach.score * share),
+                ...(measured ? {} : { noTrafficData: true }),
+                ...(reach.via ? { via: reach.via } : {})
+            };
+        })
+        .sort((a, b) => b.impact - a.impact || a.hops - b.hops || a.app.localeCompare(b.app));
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
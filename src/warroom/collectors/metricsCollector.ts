@@ -1,11 +1,28 @@
 import * as vscode from 'vscode';
-import { MetricSnapshot, Anomaly, CollectionError } from '../types';
+import { MetricSnapshot, Anomaly, CollectionError, BaselineMethod } from '../types';
 import { ApiHelper } from '../../controllers/apiHelper';
+import { AccountService } from '../../controllers/accountService';
 import { getBaseUrl } from '../../constants';
+import {
+    BaselineStats,
+    seasonalWindows,
+    computeBaselineStats,
+    deviationScore,
+    scoreSeverity
+} from '../baseline';
+import { fetchMetricsForApps } from '../../premium/dependencyViz/inboundMetrics';
 
 const COLLECTOR_TIMEOUT = 30000;
 const METRICS_QUERY_TIMEOUT = 8000;
 
+const DEFAULT_BASELINE_WEEKS = 4;
+const MAX_BASELINE_WEEKS = 12;
+/** Minimum 1-minute samples across all baseline weeks before the seasonal baseline is trusted */
+const MIN_SEASONAL_SAMPLES = 10;
+/** Spread floors so flat baselines don't flag trivial changes (CPU percentage points / heap MB) */
+const CPU_MIN_SPREAD = 2;
+const MEMORY_MIN_SPREAD_MB = 25;
+
 export interface MetricsCollectorResult {
     current: MetricSnapshot;
     baseline: MetricSnapshot;
@@ -103,6 +120,91 @@ function extractMeanValue(data: any, scale: number = 1): number | null {
     return null;
 }
 
+function extractValues(data: any, scale: number = 1): number[] {
+    const out: number[] = [];
+    try {
+        const values = data?.results?.[0]?.series?.[0]?.values;
+        if (!values) { return out; }
+        for (const row of values) {
+            if (row[1] !== null && row[1] !== undefined) {
+                out.push(row[1] * scale);
+            }
+        }
+    } catch { /* ignore */ }
+    return out;
+}
+
+function getBaselineWeeks(): number {
+    const weeks = vscode.workspace
+        .getConfiguration('anypointMonitor')
+        .get<number>('warRoom.baselineWeeks', DEFAULT_BASELINE_WEEKS);
+    return Math.max(0, Math.min(MAX_BASELINE_WEEKS, Math.floor(weeks || 0)));
+}
+
+function getBaselineMethod(): BaselineMethod {
+    const method = vscode.workspace
+        .getConfiguration('anypointMonitor')
+        .get<string>('warRoom.baselineMethod', 'mad');
+    return method === 'zscore' ? 'zscore' : 'mad';
+}
+
+/**
+ * Pool 1-minute CPU and heap samples from the same window in each of the
+ * previous `weeks` weeks. InfluxQL cannot OR time ranges, so each week is
+ * queried separately; weeks that fail or have no data are skipped.
+ */
+async function fetchSeasonalBaseline(
+    apiHelper: ApiHelper,
+    datasource: VisualizerDatasource,
+    condition: string,
+    timezone: string,
+    timeWindow: { start: Date; end: Date },
+    weeks: number,
+    method: BaselineMethod
+): Promise<{ cpu: BaselineStats | null; memory: BaselineStats | null }> {
+    const windows = seasonalWindows(timeWindow.start, timeWindow.end, weeks);
+    const range = (w: { start: Date; end: Date }) => `time >= ${w.start.getTime()}ms AND time <= ${w.end.getTime()}ms`;
+
+    const [cpuResults, memResults] = await Promise.all([
+        Promise.allSettled(windows.map(w => queryInflux(apiHelper, datasource,
+            `SELECT mean("cpu") FROM "jvm.cpu.operatingsystem" WHERE ${condition} AND ${range(w)} GROUP BY time(1m) fill(none) tz('${timezone}')`
+        ))),
+        Promise.allSettled(windows.map(w => queryInflux(apiHelper, datasource,
+            `SELECT mean("heap_used") FROM "jvm.memory" WHERE ${condition} AND ${range(w)} GROUP BY time(1m) fill(none) tz('${timezone}')`
+        )))
+    ]);
+
+    const cpuSamples = cpuResults.flatMap(r => r.status === 'fulfilled' ? extractValues(r.value, 100) : []);
+    const memSamples = memResults.flatMap(r => r.status === 'fulfilled' ? extractValues(r.value, 1 / (1024 * 1024)) : []);
+
+    return {
+        cpu: cpuSamples.length >= MIN_SEASONAL_SAMPLES ? computeBaselineStats(cpuSamples, method) : null,
+        memory: memSamples.length >= MIN_SEASONAL_SAMPLES ? computeBaselineStats(memSamples, method) : null
+    };
+}
+
+function seasonalAnomaly(
+    metric: string,
+    current: number,
+    stats: BaselineStats,
+    score: number,
+    severity: 'high' | 'medium',
+    weeks: number,
+    fmt: (value: number) => string
+): Anomaly {
+    const label = stats.method === 'mad' ? 'robust z' : 'z';
+    return {
+        metric,
+        current,
+        baseline: stats.center,
+        deviation: stats.center > 0 ? current / stats.center : 0,
+        severity,
+        score,
+        method: stats.method,
+        description: `${metric} at ${fmt(current)} (normal for this hour over ${weeks} weeks: ${fmt(stats.center)} ± ${fmt(stats.spread)}, ${label}=${score.toFixed(1)})`
+    };
+}
+
 export async function collectMetrics(
     context: vscode.ExtensionContext,
     appName: string,
@@ -134,7 +236,8 @@ export async function collectMetrics(
         const condition = `("org_id" = '${organizationId}' AND "env_id" = '${environmentId}' AND "app_id" = '${appIdentifier}')`;
 
         // Time window duration in minutes for current metrics
-        const durationMinutes = Math.round((timeWindow.end.getTime() - timeWindow.start.getTime()) / 60000);
+        // (at least 1m so short live-mode polls still return a data point)
+        const durationMinutes = Math.max(1, Math.round((timeWindow.end.getTime() - timeWindow.start.getTime()) / 60000));
 
         // Fetch current metrics
         const [cpuResult, memResult] = await Promise.allSettled([
@@ -157,30 +260,49 @@ export async function collectMetrics(
 
         current.timestamp = timeWindow.end.toISOString();
 
-        // Fetch baseline metrics (past 24h, 1h before incident)
-        const baselineEndMinutes = durationMinutes + 60;
-        const baselineRangeMinutes = 24 * 60 + baselineEndMinutes;
-
-        const [cpuBaseResult, memBaseResult] = await Promise.allSettled([
-            queryInflux(apiHelper, datasource,
-                `SELECT mean("cpu") FROM "jvm.cpu.operatingsystem" WHERE ${condition} AND time >= now() - ${baselineRangeMinutes}m AND time <= now() - ${baselineEndMinutes}m GROUP BY time(1h) fill(none) tz('${timezone}')`
-            ),
-            queryInflux(apiHelper, datasource,
-                `SELECT mean("heap_used") FROM "jvm.memory" WHERE ${condition} AND time >= now() - ${baselineRangeMinutes}m AND time <= now() - ${baselineEndMinutes}m GROUP BY time(1h) fill(none) tz('${timezone}')`
-            )
-        ]);
-
-        if (cpuBaseResult.status === 'fulfilled') {
-            const val = extractMeanValue(cpuBaseResult.value, 100);
-            if (val !== null) { baseline.cpu = Math.max(0, Math.min(100, val)); }
-        }
-        if (memBaseResult.status === 'fulfilled') {
-            const val = extractMeanValue(memBaseResult.value, 1 / (1024 * 1024));
-            if (val !== null) { baseline.memory = val; }
+        // Seasonal baseline: the same hour-of-day/day-of-week over the previous N weeks
+        const baselineWeeks = getBaselineWeeks();
+        const seasonal = baselineWeeks > 0
+            ? await fetchSeasonalBaseline(apiHelper, datasource, condition, timezone, timeWindow, baselineWeeks, getBaselineMethod())
+            : { cpu: null, memory: null };
+
+        // Fall back to the mean of the past 24h (ending 1h before the incident) for
+        // metrics without enough seasonal history, e.g. recently created apps
+        if (!seasonal.cpu || !seasonal.memory) {
+            const baselineEndMinutes = durationMinutes + 60;
+            const baselineRangeMinutes = 24 * 60 + baselineEndMinutes;
+
+            const [cpuBaseResult, memBaseResult] = await Promise.allSettled([
+                queryInflux(apiHelper, datasource,
+                    `SELECT mean("cpu") FROM "jvm.cpu.operatingsystem" WHERE ${condition} AND time >= now() - ${baselineRangeMinutes}m AND time <= now() - ${baselineEndMinutes}m GROUP BY time(1h) fill(none) tz('${timezone}')`
+                ),
+                queryInflux(apiHelper, datasource,
+                    `SELECT mean("heap_used") FROM "jvm.memory" WHERE ${condition} AND time >= now() - ${baselineRangeMinutes}m AND time <= now() - ${baselineEndMinutes}m GROUP BY time(1h) fill(none) tz('${timezone}')`
+                )
+            ]);
+
+            if (cpuBaseResult.status === 'fulfilled') {
+                const val = extractMeanValue(cpuBaseResult.value, 100);
+                if (val !== null) { baseline.cpu = Math.max(0, Math.min(100, val)); }
+            }
+            if (memBaseResult.status === 'fulfilled') {
+                const val = extractMeanValue(memBaseResult.value, 1 / (1024 * 1024));
+                if (val !== null) { baseline.memory = val; }
+            }
         }
 
         // Detect anomalies
-        if (current.cpu !== null && baseline.cpu !== null && baseline.cpu > 0) {
+        if (seasonal.cpu) {
+            baseline.cpu = seasonal.cpu.center;
+            if (current.cpu !== null) {
+                const score = deviationScore(current.cpu, seasonal.cpu, CPU_MIN_SPREAD);
+                const severity = current.cpu > 90 ? 'high' : scoreSeverity(score);
+                if (severity) {
+                    anomalies.push(seasonalAnomaly('CPU', current.cpu, seasonal.cpu, score, severity, baselineWeeks,
+                        v => `${v.toFixed(1)}%`));
+                }
+            }
+        } else if (current.cpu !== null && baseline.cpu !== null && baseline.cpu > 0) {
             const deviation = current.cpu / baseline.cpu;
             if (deviation > 2 || current.cpu > 90) {
                 anomalies.push({
@@ -194,7 +316,17 @@ export async function collectMetrics(
             }
         }
 
-        if (current.memory !== null && baseline.memory !== null && baseline.memory > 0) {
+        if (seasonal.memory) {
+            baseline.memory = seasonal.memory.center;
+            if (current.memory !== null) {
+                const score = deviationScore(current.memory, seasonal.memory, MEMORY_MIN_SPREAD_MB);
+                const severity = scoreSeverity(score);
+                if (severity) {
+                    anomalies.push(seasonalAnomaly('Memory', current.memory, seasonal.memory, score, severity, baselineWeeks,
+                        v => `${v.toFixed(0)}MB`));
+                }
+            }
+        } else if (current.memory !== null && baseline.memory !== null && baseline.memory > 0) {
             const deviation = current.memory / baseline.memory;
             if (deviation > 2) {
                 anomalies.push({
@@ -213,3 +345,28 @@ export async function collectMetrics(
 
     return { result: { current, baseline, anomalies }, errors };
 }
+
+/**
+ * Total inbound requests per app over the incident window, fetched through
+ * the Live Connection Tracer's metrics query. Apps without data are left out
+ * of the map.
+ */
+export async function collectInboundTraffic(
+    context: vscode.ExtensionContext,
+    appNames: string[],
+    organizationId: string,
+    environmentId: string,
+    timeWindow: { start: Date; end: Date }
+): Promise<Map<string, number>> {
+    const traffic = new Map<string, number>();
+    const baseUrl = await getBaseUrl(context);
+    const accessToken = await new AccountService(context).getActiveAccountAccessToken();
+    if (!accessToken) { return traffic; }
+
+    const metrics = await fetchMetricsForApps(appNames, baseUrl, accessToken, organizationId, environmentId, timeWindow);
+    for (const [appName, m] of metrics) {
+        if (m.totalRequests > 0) { traffic.set(appName, m.totalRequests); }
+    }
+
+    return traffic;
+}
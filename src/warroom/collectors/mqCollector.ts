@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { MQQueueStats, CollectionError } from '../types';
+import { fetchAnypointMQQueueStats, MQRegionQueues } from '../../controllers/anypointService';
+
+const COLLECTOR_TIMEOUT = 30000;
+
+/**
+ * Collect current queue depth and in-flight counts for every Anypoint MQ queue
+ * in the environment. Returns null when Anypoint MQ is not enabled there, so
+ * environments without MQ do not produce collection errors.
+ */
+export async function collectMQStats(
+    context: vscode.ExtensionContext,
+    organizationId: string,
+    environmentId: string
+): Promise<{ result: MQQueueStats[] | null; errors: CollectionError[] }> {
+    const errors: CollectionError[] = [];
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), COLLECTOR_TIMEOUT);
+
+    try {
+        let regions: MQRegionQueues[];
+        try {
+            regions = await fetchAnypointMQQueueStats(context, organizationId, environmentId, controller.signal);
+        } catch (error: any) {
+            const status = error.response?.status;
+            if (status === 403 || status === 404) { return { result: null, errors }; }
+            throw error;
+        }
+        if (regions.length === 0) { return { result: null, errors }; }
+
+        const stats: MQQueueStats[] = [];
+        for (const region of regions) {
+            if (region.error) {
+                errors.push({ collector: 'mq', app: region.regionName, error: region.error });
+                continue;
+            }
+            for (const queue of region.queues) {
+                const queueId = queue.queueId || queue.id;
+                const stat = region.stats.find(s =>
+                    s && (s.destination === queueId || s.queueId === queueId || s.destinationId === queueId)
+                );
+                stats.push({
+                    queueId,
+                    region: region.regionName,
+                    messages: stat?.messages || 0,
+                    inflightMessages: stat?.inflightMessages || 0,
+                    fifo: !!queue.fifo,
+                    deadLetterQueueId: queue.deadLetterQueueId || null
+                });
+            }
+        }
+
+        return { result: stats, errors };
+    } catch (error: any) {
+        const message = controller.signal.aborted ? 'Timed out after 30s' : (error.message || 'Unknown error');
+        errors.push({ collector: 'mq', app: 'Anypoint MQ', error: message });
+        return { result: null, errors };
+    } finally {
+        clearTimeout(timeout);
+    }
+}
@@ -3,9 +3,21 @@ import {
     TimelineEvent,
     CorrelationResult,
     BlastRadius,
-    AppWarRoomData
+    AppWarRoomData,
+    CorrelationRule,
+    LogGroup
 } from './types';
 
+const CERTIFICATE_EXPIRY_PATTERN = /CertificateExpiredException|CertificateNotYetValidException|certificate (?:has )?expired|cert(?:ificate)?[_ ]expired|NotAfter:|PKIX path validation failed.*(?:validity|expired)|certificate is not (?:yet )?valid/i;
+const RATE_LIMIT_PATTERN = /\b429\b|Too Many Requests|TOO_MANY_REQUESTS|rate[- ]limit|throttl|quota (?:has been )?(?:exceeded|violat)|SLA (?:tier|policy|violation)|spike control/i;
+const MQ_PATTERN = /ANYPOINT[-_ ]?MQ|\bAMQ\b|anypoint\.mq|mq-(?:us|eu|ap|ca)/i;
+const MQ_LIMIT_PATTERN = /quota|limit|in-?flight|TOO_MANY_REQUESTS|\b429\b|throttl|exceeded/i;
+
+/** Anypoint MQ caps in-flight (received but unacknowledged) messages per standard queue */
+const MQ_INFLIGHT_LIMIT = 120000;
+/** Fraction of the in-flight limit at which a queue is reported as near its limit */
+const MQ_INFLIGHT_WARN_RATIO = 0.8;
+
 export function buildTimeline(data: WarRoomData): TimelineEvent[] {
     const events: TimelineEvent[] = [];
 
@@ -87,40 +99,61 @@ export function buildTimeline(data: WarRoomData): TimelineEvent[] {
     return events;
 }
 
-export function analyzeCorrelations(
-    data: WarRoomData,
-    timeline: TimelineEvent[]
-): CorrelationResult[] {
-    const results: CorrelationResult[] = [];
+// ─── Rule registry ────────────────────────────────────────────────────────────
 
-    // Rule 1: Deployment within 15min before error spike
-    const deploymentCorrelation = checkDeploymentCorrelation(data, timeline);
-    if (deploymentCorrelation) {
-        results.push(deploymentCorrelation);
-    }
+/**
+ * Built-in correlation rules, evaluated in order. Workspace rules loaded at
+ * War Room start (see customCorrelationRules.ts) run after these.
+ */
+const BUILTIN_RULES: CorrelationRule[] = [
+    // Deployment within 15min before error spike
+    { id: 'recent-deployment', source: 'builtin', evaluate: checkDeploymentCorrelation },
+    // Resource exhaustion (CPU/memory spike preceded errors)
+    { id: 'resource-exhaustion', source: 'builtin', evaluate: (data) => checkResourceExhaustion(data) },
+    // Downstream dependency failure
+    { id: 'downstream-failure', source: 'builtin', evaluate: checkDownstreamFailure },
+    // Connectivity failure — error messages reference another app in the blast radius
+    { id: 'connectivity-failure', source: 'builtin', evaluate: (data) => checkConnectivityFailure(data) },
+    // Multiple apps failing simultaneously
+    { id: 'shared-dependency', source: 'builtin', evaluate: (data) => checkSharedDependencyFailure(data) },
+    // Expired or not-yet-valid TLS certificates
+    { id: 'certificate-expiry', source: 'builtin', evaluate: (data) => checkCertificateExpiry(data) },
+    // HTTP 429 / API Manager rate-limiting and SLA policy violations
+    { id: 'rate-limiting', source: 'builtin', evaluate: (data) => checkRateLimiting(data) },
+    // Anypoint MQ quota and in-flight limits
+    { id: 'mq-quota', source: 'builtin', evaluate: (data) => checkMQQuota(data) },
+];
+
+let workspaceRules: CorrelationRule[] = [];
 
-    // Rule 2: Resource exhaustion (CPU/memory spike preceded errors)
-    const resourceCorrelation = checkResourceExhaustion(data);
-    if (resourceCorrelation) {
-        results.push(resourceCorrelation);
-    }
+/**
+ * Replace the workspace-defined rules. Called at War Room start so edits to
+ * rule files take effect on the next run without reloading the extension.
+ */
+export function setWorkspaceCorrelationRules(rules: CorrelationRule[]): void {
+    workspaceRules = [...rules];
+}
 
-    // Rule 3: Downstream dependency failure
-    const downstreamCorrelation = checkDownstreamFailure(data, timeline);
-    if (downstreamCorrelation) {
-        results.push(downstreamCorrelation);
-    }
+export function getCorrelationRules(): CorrelationRule[] {
+    return [...BUILTIN_RULES, ...workspaceRules];
+}
 
-    // Rule 4: Connectivity failure — error messages reference another app in the blast radius
-    const connectivityCorrelation = checkConnectivityFailure(data);
-    if (connectivityCorrelation) {
-        results.push(connectivityCorrelation);
-    }
+export function analyzeCorrelations(
+    data: WarRoomData,
+    timeline: TimelineEvent[],
+    rules: CorrelationRule[] = getCorrelationRules()
+): CorrelationResult[] {
+    const results: CorrelationResult[] = [];
 
-    // Rule 5: Multiple apps failing simultaneously
-    const sharedDependencyCorrelation = checkSharedDependencyFailure(data);
-    if (sharedDependencyCorrelation) {
-        results.push(sharedDependencyCorrelation);
+    for (const rule of rules) {
+        try {
+            const result = rule.evaluate(data, timeline);
+            if (result) {
+                results.push({ ...result, ruleId: rule.id });
+            }
+        } catch {
+            // A broken rule must never crash the entire analysis
+        }
     }
 
     // Sort by confidence
@@ -140,6 +173,8 @@ export function analyzeCorrelations(
     return results;
 }
 
+// ─── Built-in rules ───────────────────────────────────────────────────────────
+
 function checkDeploymentCorrelation(
     data: WarRoomData,
     timeline: TimelineEvent[]
@@ -179,7 +214,8 @@ function checkDeploymentCorrelation(
             probableCause: `Recent Deployment: ${suspiciousDeployments.map(d => `${d.app} v${d.version}`).join(', ')} deployed shortly before incident`,
             confidence: affectedApps.length > 0 ? 'high' : 'medium',
             evidence,
-            category: 'recent_deployment'
+            category: 'recent_deployment',
+            subjects: suspiciousDeployments.map(d => `${d.app} v${d.version}`)
         };
     }
 
@@ -212,7 +248,8 @@ function checkResourceExhaustion(data: WarRoomData): CorrelationResult | null {
             probableCause: `Resource Exhaustion: ${resourceIssues.map(i => `${i.app} ${i.metric}`).join(', ')} critically high`,
             confidence: resourceIssues.length >= 2 ? 'high' : 'medium',
             evidence,
-            category: 'resource_exhaustion'
+            category: 'resource_exhaustion',
+            subjects: resourceIssues.map(i => `${i.app} ${i.metric}`)
         };
     }
 
@@ -256,7 +293,8 @@ function checkDownstreamFailure(
                 probableCause: `Downstream Dependency Failure: ${failingDownstream.join(', ')} failed before upstream apps`,
                 confidence: 'high',
                 evidence,
-                category: 'downstream_failure'
+                category: 'downstream_failure',
+                subjects: failingDownstream
             };
         }
 
@@ -264,7 +302,8 @@ function checkDownstreamFailure(
             probableCause: `Downstream Dependency Failure: ${failingDownstream.join(', ')} experiencing issues`,
             confidence: 'medium',
             evidence,
-            category: 'downstream_failure'
+            category: 'downstream_failure',
+            subjects: failingDownstream
         };
     }
 
@@ -290,7 +329,8 @@ function checkSharedDependencyFailure(data: WarRoomData): CorrelationResult | nu
             probableCause: `Shared Dependency or Infrastructure Issue: ${failingApps.length} apps failing simultaneously`,
             confidence: failingApps.length >= 5 ? 'high' : 'medium',
             evidence,
-            category: 'shared_dependency'
+            category: 'shared_dependency',
+            subjects: failingApps
         };
     }
 
@@ -398,10 +438,118 @@ function checkConnectivityFailure(data: WarRoomData): CorrelationResult | null {
         probableCause: `Connectivity Failure: ${uniqueSources.join(', ')} ${refType} reference ${uniqueTargets.join(', ')}`,
         confidence,
         evidence,
-        category: 'connectivity_failure'
+        category: 'connectivity_failure',
+        subjects: connections.map(c => `${c.sourceApp}->${c.targetApp}`)
+    };
+}
+
+/**
+ * TLS certificate expiry — handshake failures whose messages name an expired
+ * or not-yet-valid certificate.
+ */
+function checkCertificateExpiry(data: WarRoomData): CorrelationResult | null {
+    const matches = findLogGroups(data, g => CERTIFICATE_EXPIRY_PATTERN.test(`${g.pattern} ${g.sampleMessage}`));
+    if (matches.length === 0) { return null; }
+
+    const evidence = matches.map(m =>
+        `${m.app}: ${m.count}x certificate validation failure — "${m.groups[0].pattern.substring(0, 120)}"`
+    );
+    const apps = matches.map(m => m.app);
+
+    return {
+        probableCause: `TLS Certificate Expiry: ${apps.join(', ')} failing certificate validation`,
+        confidence: matches.some(m => m.hasErrors) ? 'high' : 'medium',
+        evidence,
+        category: 'certificate_expiry',
+        subjects: apps
+    };
+}
+
+/**
+ * Rate limiting — HTTP 429 responses, API Manager rate-limiting/spike control
+ * and SLA tier violations. MQ throttling is left to the MQ quota rule.
+ */
+function checkRateLimiting(data: WarRoomData): CorrelationResult | null {
+    const matches = findLogGroups(data, g => {
+        const text = `${g.pattern} ${g.sampleMessage}`;
+        return RATE_LIMIT_PATTERN.test(text) && !MQ_PATTERN.test(text);
+    });
+    if (matches.length === 0) { return null; }
+
+    const total = matches.reduce((sum, m) => sum + m.count, 0);
+    const evidence = matches.map(m =>
+        `${m.app}: ${m.count}x rate-limited requests — "${m.groups[0].pattern.substring(0, 120)}"`
+    );
+    const slaMatch = matches.some(m => m.groups.some(g => /SLA/i.test(`${g.pattern} ${g.sampleMessage}`)));
+    if (slaMatch) {
+        evidence.push('SLA tier limits are being enforced by an API Manager policy');
+    }
+
+    return {
+        probableCause: `Rate Limiting: ${matches.map(m => m.app).join(', ')} receiving HTTP 429 / policy violations (${total} occurrences)`,
+        confidence: total >= 10 && matches.some(m => m.hasErrors) ? 'high' : 'medium',
+        evidence,
+        category: 'rate_limiting',
+        subjects: matches.map(m => m.app)
+    };
+}
+
+/**
+ * Anypoint MQ quota / in-flight limits — MQ errors mentioning quota, throttling
+ * or in-flight limits, plus queues whose in-flight count is close to the cap.
+ */
+function checkMQQuota(data: WarRoomData): CorrelationResult | null {
+    const matches = findLogGroups(data, g => {
+        const text = `${g.pattern} ${g.sampleMessage}`;
+        return MQ_PATTERN.test(text) && MQ_LIMIT_PATTERN.test(text);
+    });
+    const saturatedQueues = (data.mqStats || []).filter(
+        q => q.inflightMessages >= MQ_INFLIGHT_LIMIT * MQ_INFLIGHT_WARN_RATIO
+    );
+    if (matches.length === 0 && saturatedQueues.length === 0) { return null; }
+
+    const evidence: string[] = [
+        ...matches.map(m => `${m.app}: ${m.count}x Anypoint MQ limit errors — "${m.groups[0].pattern.substring(0, 120)}"`),
+        ...saturatedQueues.map(q =>
+            `Queue ${q.queueId} (${q.region}): ${q.inflightMessages.toLocaleString()} in-flight messages ` +
+            `(${Math.round((q.inflightMessages / MQ_INFLIGHT_LIMIT) * 100)}% of the ${MQ_INFLIGHT_LIMIT.toLocaleString()} limit)`
+        )
+    ];
+
+    const subjects = [...matches.map(m => m.app), ...saturatedQueues.map(q => q.queueId)];
+
+    return {
+        probableCause: `Anypoint MQ Quota/In-Flight Limit: ${subjects.join(', ')}`,
+        confidence: matches.length > 0 && saturatedQueues.length > 0 ? 'high' : 'medium',
+        evidence,
+        category: 'mq_quota',
+        subjects
     };
 }
 
+/**
+ * ERROR/WARN log groups matching `predicate`, grouped per app with total counts.
+ */
+function findLogGroups(
+    data: WarRoomData,
+    predicate: (group: LogGroup) => boolean
+): Array<{ app: string; groups: LogGroup[]; count: number; hasErrors: boolean }> {
+    const matches: Array<{ app: string; groups: LogGroup[]; count: number; hasErrors: boolean }> = [];
+
+    for (const [appName, appData] of data.apps) {
+        const groups = appData.logs.groups.filter(g => (g.level === 'ERROR' || g.level === 'WARN') && predicate(g));
+        if (groups.length === 0) { continue; }
+        matches.push({
+            app: appName,
+            groups,
+            count: groups.reduce((sum, g) => sum + g.count, 0),
+            hasErrors: groups.some(g => g.level === 'ERROR')
+        });
+    }
+
+    return matches;
+}
+
 function getFirstErrorTimestamp(data: WarRoomData, appNames: string[]): Date | null {
     let earliest: Date | null = null;
 
@@ -0,0 +1,248 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+    CorrelationRule,
+    CorrelationRuleDefinition,
+    CorrelationRuleLoadResult,
+    CorrelationCategory,
+    CorrelationResult,
+    WarRoomData
+} from './types';
+import { parseYaml, YamlParseError } from '../utils/simpleYaml';
+
+const WARROOM_DIR = '.warroom';
+const RULES_DIR = 'rules';
+
+const CATEGORIES: CorrelationCategory[] = [
+    'recent_deployment',
+    'resource_exhaustion',
+    'downstream_failure',
+    'connectivity_failure',
+    'shared_dependency',
+    'certificate_expiry',
+    'rate_limiting',
+    'mq_quota',
+    'unknown'
+];
+const CONFIDENCES = ['high', 'medium', 'low'];
+const LOG_LEVELS = ['ERROR', 'WARN'];
+const ANOMALY_SEVERITIES = ['high', 'medium'];
+
+/**
+ * Load every rule file under `.warroom/rules/` in the given workspace folder.
+ * Invalid files or rules are skipped and reported in `errors`; valid rules in
+ * the same file are still loaded.
+ */
+export function loadWorkspaceCorrelationRules(workspaceRoot: string, reservedIds: string[] = []): CorrelationRuleLoadResult {
+    const rulesDir = path.join(workspaceRoot, WARROOM_DIR, RULES_DIR);
+    if (!fs.existsSync(rulesDir)) { return { rules: [], errors: [] }; }
+
+    const rules: CorrelationRule[] = [];
+    const errors: string[] = [];
+    const seenIds = new Set(reservedIds);
+
+    const files = fs.readdirSync(rulesDir)
+        .filter(f => /\.(json|ya?ml)$/i.test(f))
+        .sort();
+
+    for (const file of files) {
+        let content: string;
+        try {
+            content = fs.readFileSync(path.join(rulesDir, file), 'utf-8');
+        } catch (err: any) {
+            errors.push(`${file}: ${err.message || err}`);
+            continue;
+        }
+
+        const parsed = parseRuleFile(content, file);
+        errors.push(...parsed.errors);
+
+        for (const definition of parsed.definitions) {
+            if (seenIds.has(definition.id)) {
+                errors.push(`${file}: duplicate rule id "${definition.id}"`);
+                continue;
+            }
+            seenIds.add(definition.id);
+            rules.push(compileCorrelationRule(definition));
+        }
+    }
+
+    return { rules, errors };
+}
+
+/**
+ * Parse one rule file. The file holds either a list of rules or an object
+ * with a `rules` list, in JSON or YAML depending on the extension.
+ */
+export function parseRuleFile(
+    content: string,
+    fileName: string
+): { definitions: CorrelationRuleDefinition[]; errors: string[] } {
+    let raw: unknown;
+    try {
+        raw = /\.json$/i.test(fileName) ? JSON.parse(content) : parseYaml(content);
+    } catch (err: any) {
+        const detail = err instanceof YamlParseError ? err.message : `Invalid JSON: ${err.message || err}`;
+        return { definitions: [], errors: [`${fileName}: ${detail}`] };
+    }
+
+    const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(list)) {
+        return { definitions: [], errors: [`${fileName}: expected a list of rules or an object with a "rules" list`] };
+    }
+
+    const definitions: CorrelationRuleDefinition[] = [];
+    const errors: string[] = [];
+    list.forEach((entry, index) => {
+        const result = validateRuleDefinition(entry);
+        const label = `${fileName} rule ${typeof entry?.id === 'string' ? `"${entry.id}"` : `#${index + 1}`}`;
+        if (result.errors.length > 0) {
+            errors.push(...result.errors.map(e => `${label}: ${e}`));
+        } else {
+            definitions.push(result.definition);
+        }
+    });
+
+    return { definitions, errors };
+}
+
+export function validateRuleDefinition(raw: any): { definition: CorrelationRuleDefinition | null; errors: string[] } {
+    const errors: string[] = [];
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { definition: null, errors: ['rule must be an object'] };
+    }
+
+    if (typeof raw.id !== 'string' || !raw.id.trim()) { errors.push('"id" is required'); }
+    if (typeof raw.title !== 'string' || !raw.title.trim()) { errors.push('"title" is required'); }
+    if (!CATEGORIES.includes(raw.category)) {
+        errors.push(`"category" must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (!CONFIDENCES.includes(raw.confidence)) {
+        errors.push(`"confidence" must be one of ${CONFIDENCES.join(', ')}`);
+    }
+    if (raw.evidence !== undefined && (!Array.isArray(raw.evidence) || raw.evidence.some((e: unknown) => typeof e !== 'string'))) {
+        errors.push('"evidence" must be a list of strings');
+    }
+
+    const match = raw.match;
+    if (!match || typeof match !== 'object' || Array.isArray(match)) {
+        errors.push('"match" is required');
+        return { definition: null, errors };
+    }
+
+    if (match.logPattern === undefined && match.metricAnomaly === undefined && match.deploymentWithinMinutes === undefined) {
+        errors.push('"match" needs at least one of logPattern, metricAnomaly, deploymentWithinMinutes');
+    }
+    if (match.logPattern !== undefined) {
+        if (typeof match.logPattern !== 'string' || !match.logPattern) {
+            errors.push('"match.logPattern" must be a non-empty string');
+        } else {
+            try {
+                new RegExp(match.logPattern, 'i');
+            } catch (err: any) {
+                errors.push(`"match.logPattern" is not a valid regular expression: ${err.message}`);
+            }
+        }
+    }
+    if (match.logLevel !== undefined && !LOG_LEVELS.includes(match.logLevel)) {
+        errors.push(`"match.logLevel" must be one of ${LOG_LEVELS.join(', ')}`);
+    }
+    if (match.minCount !== undefined && !(typeof match.minCount === 'number' && match.minCount >= 1)) {
+        errors.push('"match.minCount" must be a number >= 1');
+    }
+    if ((match.logLevel !== undefined || match.minCount !== undefined) && match.logPattern === undefined) {
+        errors.push('"match.logLevel" and "match.minCount" require "match.logPattern"');
+    }
+    if (match.metricAnomaly !== undefined) {
+        const anomaly = match.metricAnomaly;
+        if (!anomaly || typeof anomaly.metric !== 'string' || !anomaly.metric) {
+            errors.push('"match.metricAnomaly.metric" is required');
+        } else if (anomaly.severity !== undefined && !ANOMALY_SEVERITIES.includes(anomaly.severity)) {
+            errors.push(`"match.metricAnomaly.severity" must be one of ${ANOMALY_SEVERITIES.join(', ')}`);
+        }
+    }
+    if (match.deploymentWithinMinutes !== undefined &&
+        !(typeof match.deploymentWithinMinutes === 'number' && match.deploymentWithinMinutes > 0)) {
+        errors.push('"match.deploymentWithinMinutes" must be a positive number');
+    }
+
+    if (errors.length > 0) { return { definition: null, errors }; }
+    return { definition: raw as CorrelationRuleDefinition, errors };
+}
+
+/**
+ * Turn a validated definition into a registry rule. An app matches when every
+ * condition present in `match` holds for it; the rule fires if any app matches.
+ */
+export function compileCorrelationRule(definition: CorrelationRuleDefinition): CorrelationRule {
+    const { match } = definition;
+    const regex = match.logPattern ? new RegExp(match.logPattern, 'i') : null;
+    const minCount = match.minCount ?? 1;
+
+    const evaluate = (data: WarRoomData): CorrelationResult | null => {
+        const matchedApps: string[] = [];
+        const evidence: string[] = [];
+
+        for (const [appName, appData] of data.apps) {
+            const appEvidence: string[] = [];
+            let firstMatch: number | null = null;
+
+            if (regex) {
+                const groups = appData.logs.groups.filter(g =>
+                    (match.logLevel ? g.level === match.logLevel : g.level === 'ERROR' || g.level === 'WARN') &&
+                    regex.test(`${g.pattern} ${g.sampleMessage}`)
+                );
+                const count = groups.reduce((sum, g) => sum + g.count, 0);
+                if (groups.length === 0 || count < minCount) { continue; }
+
+                for (const g of groups) {
+                    const seen = new Date(g.firstSeen).getTime();
+                    if (!isNaN(seen) && (firstMatch === null || seen < firstMatch)) { firstMatch = seen; }
+                }
+                appEvidence.push(`${appName}: ${count}x log entries matching /${match.logPattern}/ ("${groups[0].pattern.substring(0, 120)}")`);
+            }
+
+            if (match.metricAnomaly) {
+                const wanted = match.metricAnomaly;
+                const anomaly = appData.metrics.anomalies.find(a =>
+                    a.metric.toLowerCase() === wanted.metric.toLowerCase() &&
+                    (!wanted.severity || a.severity === wanted.severity)
+                );
+                if (!anomaly) { continue; }
+                appEvidence.push(`${appName}: ${anomaly.description}`);
+            }
+
+            if (match.deploymentWithinMinutes !== undefined) {
+                const reference = firstMatch ?? data.config.timeWindow.end.getTime();
+                const windowMs = match.deploymentWithinMinutes * 60000;
+                const deployment = appData.deployments.find(d => {
+                    const at = new Date(d.timestamp).getTime();
+                    return !isNaN(at) && at <= reference && reference - at <= windowMs;
+                });
+                if (!deployment) { continue; }
+                const minutes = Math.round((reference - new Date(deployment.timestamp).getTime()) / 60000);
+                appEvidence.push(`${appName} deployed v${deployment.version} ${minutes} min before ${firstMatch !== null ? 'the first matching log entry' : 'the end of the window'}`);
+            }
+
+            matchedApps.push(appName);
+            evidence.push(...appEvidence);
+        }
+
+        if (matchedApps.length === 0) { return null; }
+
+        const apps = matchedApps.join(', ');
+        return {
+            probableCause: definition.title.replace(/\{apps\}/g, apps),
+            confidence: definition.confidence,
+            evidence: [
+                ...evidence,
+                ...(definition.evidence || []).map(e => e.replace(/\{apps\}/g, apps)),
+                `Matched workspace rule "${definition.id}"`
+            ],
+            category: definition.category,
+            subjects: matchedApps
+        };
+    };
+
+    return { id: definition.id, source: 'workspace', evaluate };
+}
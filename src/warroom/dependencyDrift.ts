@@ -0,0 +1,140 @@
+import { DependencyEntry, DependencyMap, DependencyMapDiff, ManualDependencyFile } from './types';
+
+const CONFIDENCE_RANK: Record<DependencyEntry['confidence'], number> = { low: 0, medium: 1, high: 2 };
+
+function edgeKey(dep: { sourceApp: string; targetApp: string }): string {
+    return `${dep.sourceApp}->${dep.targetApp}`;
+}
+
+/** Group entries by source → target; several discovery methods may report the same pair */
+function groupEdges(map: DependencyMap): Map<string, DependencyEntry[]> {
+    const edges = new Map<string, DependencyEntry[]>();
+    for (const dep of map.dependencies) {
+        const key = edgeKey(dep);
+        if (!edges.has(key)) { edges.set(key, []); }
+        edges.get(key)!.push(dep);
+    }
+    return edges;
+}
+
+/** The most trustworthy entry for a pair, used to represent it in the diff */
+function strongest(entries: DependencyEntry[]): DependencyEntry {
+    return entries.reduce((best, dep) => CONFIDENCE_RANK[dep.confidence] > CONFIDENCE_RANK[best.confidence] ? dep : best);
+}
+
+function targetUrls(entries: DependencyEntry[]): string[] {
+    return [...new Set(entries.map(d => d.targetUrl).filter(Boolean))].sort();
+}
+
+export function diffDependencyMaps(from: DependencyMap, to: DependencyMap): DependencyMapDiff {
+    const before = groupEdges(from);
+    const after = groupEdges(to);
+
+    const addedEdges: DependencyEntry[] = [];
+    const changedUrls: DependencyMapDiff['changedUrls'] = [];
+    for (const [key, entries] of after) {
+        const previous = before.get(key);
+        if (!previous) {
+            addedEdges.push(strongest(entries));
+            continue;
+        }
+        const beforeUrls = targetUrls(previous);
+        const afterUrls = targetUrls(entries);
+        if (beforeUrls.join('\n') !== afterUrls.join('\n')) {
+            changedUrls.push({ sourceApp: entries[0].sourceApp, targetApp: entries[0].targetApp, before: beforeUrls, after: afterUrls });
+        }
+    }
+
+    const removedEdges = [...before.entries()]
+        .filter(([key]) => !after.has(key))
+        .map(([, entries]) => strongest(entries));
+
+    const knownExternal = new Set(from.dependencies.filter(d => d.isExternal).map(d => d.targetApp));
+    const newExternalServices = [...new Set(
+        to.dependencies.filter(d => d.isExternal && !knownExternal.has(d.targetApp)).map(d => d.targetApp)
+    )].sort();
+
+    return {
+        fromGeneratedAt: from.generatedAt,
+        toGeneratedAt: to.generatedAt,
+        addedEdges,
+        removedEdges,
+        changedUrls,
+        newExternalServices
+    };
+}
+
+export function isDependencyDiffEmpty(diff: DependencyMapDiff): boolean {
+    return diff.addedEdges.length === 0 &&
+        diff.removedEdges.length === 0 &&
+        diff.changedUrls.length === 0 &&
+        diff.newExternalServices.length === 0;
+}
+
+/** Same heuristic as the environment comparison badges */
+export function isProductionEnvironment(environment: string): boolean {
+    const name = environment.toLowerCase();
+    return name.includes('prod') || name.includes('prd');
+}
+
+/**
+ * Newly discovered edges that nobody declared in `.warroom/manual-dependencies.json`.
+ * Manual entries are already merged into the map, so only inferred edges qualify.
+ */
+export function findUndeclaredDependencies(
+    diff: DependencyMapDiff,
+    manual: ManualDependencyFile['dependencies']
+): DependencyEntry[] {
+    const declared = new Set(manual.map(edgeKey));
+    return diff.addedEdges.filter(d => d.discoveryMethod !== 'manual' && !declared.has(edgeKey(d)));
+}
+
+export function renderDependencyMapDiffMarkdown(diff: DependencyMapDiff, environment: string): string {
+    const lines: string[] = [];
+    lines.push(`# Dependency Map Drift — ${environment}`);
+    lines.push('');
+    lines.push(`Comparing **${diff.fromGeneratedAt}** → **${diff.toGeneratedAt}**`);
+    lines.push('');
+
+    if (isDependencyDiffEmpty(diff)) {
+        lines.push('No changes between the two versions.');
+        return lines.join('\n');
+    }
+
+    const edgeTable = (title: string, edges: DependencyEntry[]) => {
+        if (edges.length === 0) { return; }
+        lines.push(`## ${title} (${edges.length})`);
+        lines.push('');
+        lines.push('| Source | Target | URL | Discovered By | Confidence |');
+        lines.push('|--------|--------|-----|---------------|------------|');
+        for (const d of edges) {
+            lines.push(`| ${d.sourceApp} | ${d.targetApp}${d.isExternal ? ` (external${d.targetKind ? ` ${d.targetKind}` : ''})` : ''} | ${d.targetUrl || '—'} | ${d.discoveryMethod.replace(/_/g, ' ')} | ${d.confidence} |`);
+        }
+        lines.push('');
+    };
+
+    edgeTable('New Dependencies', diff.addedEdges);
+    edgeTable('Removed Dependencies', diff.removedEdges);
+
+    if (diff.changedUrls.length > 0) {
+        lines.push(`## Changed Target URLs (${diff.changedUrls.length})`);
+        lines.push('');
+        lines.push('| Source | Target | Before | After |');
+        lines.push('|--------|--------|--------|-------|');
+        for (const c of diff.changedUrls) {
+            lines.push(`| ${c.sourceApp} | ${c.targetApp} | ${c.before.join('<br>') || '—'} | ${c.after.join('<br>') || '—'} |`);
+        }
+        lines.push('');
+    }
+
+    if (diff.newExternalServices.length > 0) {
+        lines.push(`## New External Services (${diff.newExternalServices.length})`);
+        lines.push('');
+        for (const service of diff.newExternalServices) {
+            lines.push(`- ${service}`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
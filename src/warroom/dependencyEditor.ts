@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import { DependencyEditorRow, DependencyEditorStatus, DependencyMap, ManualDependencyFile } from './types';
+import { loadDependencyMap, loadManualDependencyFile, saveManualDependencyFile } from './dependencyMapper';
+import { applyManualDependencyAction, buildDependencyEditorRows, ManualDependencyAction } from './manualDependencies';
+import {
+    wrapWebviewHtml,
+    badge,
+    button,
+    emptyState,
+    escapeHtml as escHtml,
+    escapeAttr,
+    type BadgeVariant,
+} from '../webview/ui-kit';
+
+const STATUS_BADGES: Record<DependencyEditorStatus, { label: string; variant: BadgeVariant }> = {
+    inferred: { label: 'Inferred', variant: 'info' },
+    confirmed: { label: 'Confirmed', variant: 'success' },
+    manual: { label: 'Manual', variant: 'success' },
+    rejected: { label: 'Rejected', variant: 'error' }
+};
+
+let currentPanel: vscode.WebviewPanel | undefined;
+
+/**
+ * Table editor over the last dependency map build and `.warroom/manual-dependencies.json`.
+ * Edits stay in memory until saved; the next build applies them.
+ */
+export function showDependencyEditor(context: vscode.ExtensionContext): void {
+    if (currentPanel) {
+        currentPanel.reveal(vscode.ViewColumn.One);
+        return;
+    }
+
+    const map = loadDependencyMap();
+    let manual = loadManualDependencyFile();
+    let dirty = false;
+
+    const panel = vscode.window.createWebviewPanel(
+        'warRoomDependencyEditor',
+        'War Room: Dependencies',
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    currentPanel = panel;
+
+    const render = () => {
+        panel.webview.html = renderDependencyEditor(map, manual, dirty);
+    };
+
+    render();
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+        switch (message.command) {
+            case 'edit': {
+                const change = message.change as ManualDependencyAction;
+                const next = applyManualDependencyAction(manual, change);
+                if (next !== manual) {
+                    manual = next;
+                    dirty = true;
+                    render();
+                }
+                break;
+            }
+            case 'save':
+                try {
+                    await saveManualDependencyFile(manual);
+                    dirty = false;
+                    render();
+                    const action = await vscode.window.showInformationMessage(
+                        'Manual dependencies saved to .warroom/manual-dependencies.json. They apply on the next dependency map build.',
+                        'Rebuild Now'
+                    );
+                    if (action === 'Rebuild Now') {
+                        const { startBuildDependencyMap } = await import('./warRoomCommand.js');
+                        await startBuildDependencyMap(context);
+                    }
+                } catch (err: any) {
+                    vscode.window.showErrorMessage(`Failed to save manual dependencies: ${err.message || err}`);
+                }
+                break;
+            case 'revert':
+                manual = loadManualDependencyFile();
+                dirty = false;
+                render();
+                break;
+        }
+    });
+
+    panel.onDidDispose(() => {
+        currentPanel = undefined;
+        if (dirty) {
+            vscode.window.showWarningMessage('Unsaved dependency corrections were discarded.');
+        }
+    });
+}
+
+function renderDependencyEditor(map: DependencyMap | null, manual: ManualDependencyFile, dirty: boolean): string {
+    const rows = buildDependencyEditorRows(map, manual);
+    const appNames = [...new Set([
+        ...(map?.apps || []).map(a => a.name),
+        ...rows.flatMap(r => [r.sourceApp, r.targetApp])
+    ])].sort();
+    const counts = (status: DependencyEditorStatus) => rows.filter(r => r.status === status).length;
+
+    const extraStyles = `
+        .dep-toolbar { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; margin-bottom: 12px; }
+        .dep-toolbar .am-input { flex: 1; min-width: 200px; }
+        .dep-add { display: grid; grid-template-columns: 1fr 1fr 2fr auto; gap: 8px; margin-bottom: 16px; }
+        .dep-note { width: 100%; min-width: 140px; }
+        .dep-methods { font-size: 12px; color: var(--am-text-secondary); }
+        .dep-url { font-size: 11px; color: var(--am-text-muted); word-break: break-all; }
+        .dep-actions { display: flex; gap: 4px; white-space: nowrap; }
+        .dep-actions .am-btn { padding: 2px 8px; font-size: 12px; }
+        .am-table tr.dep-row-rejected td { opacity: 0.6; }
+        .am-table tr.dep-row-rejected td.dep-actions-cell { opacity: 1; }
+        .dep-dirty { color: var(--am-warning); font-size: 12px; }
+    `;
+
+    const scripts = `
+const vscode = acquireVsCodeApi();
+function edit(action, sourceApp, targetApp, note) {
+    vscode.postMessage({ command: 'edit', change: { action, sourceApp, targetApp, note } });
+}
+function rowNote(btn) {
+    const input = btn.closest('tr').querySelector('.dep-note');
+    return input ? input.value : undefined;
+}
+function rowAction(btn, action) {
+    const tr = btn.closest('tr');
+    edit(action, tr.dataset.source, tr.dataset.target, rowNote(btn));
+}
+function saveNote(input) {
+    const tr = input.closest('tr');
+    edit('note', tr.dataset.source, tr.dataset.target, input.value);
+}
+function addEdge() {
+    const source = document.getElementById('dep-add-source').value.trim();
+    const target = document.getElementById('dep-add-target').value.trim();
+    const note = document.getElementById('dep-add-note').value.trim();
+    if (!source || !target) return;
+    edit('add', source, target, note);
+}
+function save() { vscode.postMessage({ command: 'save' }); }
+function revert() { vscode.postMessage({ command: 'revert' }); }
+function applyFilter() {
+    const query = document.getElementById('dep-filter').value.toLowerCase();
+    const status = document.getElementById('dep-status').value;
+    document.querySelectorAll('tr[data-source]').forEach(tr => {
+        const text = tr.dataset.search;
+        const matches = (!query || text.includes(query)) && (!status || tr.dataset.status === status);
+        tr.style.display = matches ? '' : 'none';
+    });
+    vscode.setState({ query, status });
+}
+const saved = vscode.getState();
+if (saved) {
+    document.getElementById('dep-filter').value = saved.query || '';
+    document.getElementById('dep-status').value = saved.status || '';
+    applyFilter();
+}
+`.trim();
+
+    const body = `
+<div class="am-container">
+    <header class="am-page-header">
+        <div style="flex:1">
+            <h1>War Room Dependencies</h1>
+            <div class="am-page-header-meta">
+                ${map ? `${escHtml(map.environment)} · built ${escHtml(new Date(map.generatedAt).toLocaleString())}` : 'No dependency map built yet — manual edges can still be declared'}
+                · ${counts('inferred')} inferred · ${counts('confirmed') + counts('manual')} declared · ${counts('rejected')} rejected
+            </div>
+        </div>
+        <div class="am-page-header-right">
+            ${dirty ? '<span class="dep-dirty">● Unsaved changes</span>' : ''}
+            ${button('Revert', { variant: 'ghost', onclick: 'revert()', disabled: !dirty })}
+            ${button('Save', { variant: 'primary', onclick: 'save()', disabled: !dirty })}
+        </div>
+    </header>
+
+    <div class="dep-add">
+        <input class="am-input" id="dep-add-source" list="dep-apps" placeholder="Source app (caller / producer)">
+        <input class="am-input" id="dep-add-target" list="dep-apps" placeholder="Target app or external system">
+        <input class="am-input" id="dep-add-note" placeholder="Note (why this dependency exists)">
+        ${button('Add Dependency', { variant: 'secondary', onclick: 'addEdge()' })}
+        <datalist id="dep-apps">${appNames.map(a => `<option value="${escapeAttr(a)}"></option>`).join('')}</datalist>
+    </div>
+
+    <div class="dep-toolbar">
+        <input class="am-input" id="dep-filter" placeholder="Filter by app, URL or note" oninput="applyFilter()">
+        <select class="am-select" id="dep-status" onchange="applyFilter()">
+            <option value="">All statuses</option>
+            ${Object.entries(STATUS_BADGES).map(([status, b]) => `<option value="${status}">${b.label}</option>`).join('')}
+        </select>
+    </div>
+
+    ${rows.length === 0 ? emptyState({
+        icon: '🕸️',
+        title: 'No dependencies yet',
+        description: 'Build a dependency map from the War Room or add a manual dependency above.'
+    }) : `
+    <div class="am-table-container">
+        <table class="am-table">
+            <thead><tr>
+                <th>Source</th><th>Target</th><th>Status</th><th>Discovered By</th><th>Note</th><th>Actions</th>
+            </tr></thead>
+            <tbody>
+            ${rows.map(renderRow).join('')}
+            </tbody>
+        </table>
+    </div>`}
+</div>
+`.trim();
+
+    return wrapWebviewHtml({ title: 'War Room Dependencies', body, scripts, extraStyles });
+}
+
+function renderRow(row: DependencyEditorRow): string {
+    const status = STATUS_BADGES[row.status];
+    const search = [row.sourceApp, row.targetApp, row.note || '', ...row.targetUrls].join(' ').toLowerCase();
+    const declared = row.status === 'confirmed' || row.status === 'manual';
+
+    const actions = [
+        row.status !== 'confirmed' && row.status !== 'manual' && row.discoveredBy.length > 0
+            ? button('Confirm', { variant: 'ghost', onclick: "rowAction(this, 'confirm')" }) : '',
+        row.status !== 'rejected' ? button('Reject', { variant: 'ghost', onclick: "rowAction(this, 'reject')" }) : '',
+        row.status !== 'inferred' ? button('Reset', { variant: 'ghost', onclick: "rowAction(this, 'reset')" }) : ''
+    ].join('');
+
+    return `<tr class="am-row${row.status === 'rejected' ? ' dep-row-rejected' : ''}" data-source="${escapeAttr(row.sourceApp)}" data-target="${escapeAttr(row.targetApp)}" data-status="${row.status}" data-search="${escapeAttr(search)}">
+                <td><strong>${escHtml(row.sourceApp)}</strong></td>
+                <td>${escHtml(row.targetApp)}${row.isExternal ? ' ' + badge('external') : ''}
+                    ${row.targetUrls.map(u => `<div class="dep-url">${escHtml(u)}</div>`).join('')}</td>
+                <td>${badge(status.label, status.variant, true)}</td>
+                <td class="dep-methods">${row.discoveredBy.length > 0
+                    ? escHtml(row.discoveredBy.map(m => m.replace(/_/g, ' ')).join(', ')) + (row.confidence ? ` · ${row.confidence}` : '')
+                    : '—'}</td>
+                <td><input class="am-input dep-note" value="${escapeAttr(row.note || '')}" placeholder="${declared || row.status === 'rejected' ? 'Add a note' : 'Note saved on confirm / reject'}"${declared || row.status === 'rejected' ? ' onchange="saveNote(this)"' : ''}></td>
+                <td class="dep-actions-cell"><div class="dep-actions">${actions}</div></td>
+            </tr>`;
+}
@@ -1,7 +1,16 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { DependencyMap, DependencyEntry, ManualDependencyFile } from './types';
+import { AsyncEndpoint, DependencyMap, DependencyEntry, DependencyMapVersion, ManualDependencyFile } from './types';
+import {
+    diffDependencyMaps,
+    findUndeclaredDependencies,
+    isProductionEnvironment,
+    renderDependencyMapDiffMarkdown
+} from './dependencyDrift';
+import { applyManualDependencies, normalizeManualDependencyFile } from './manualDependencies';
+import { discoverAsyncEndpoints, discoverMuleConfigDependencies, linkAsyncEndpoints } from './muleConfigDependencies';
+import { downloadAppJar, loadMuleProjectFromJar } from './appArtifacts';
 import { ApiHelper } from '../controllers/apiHelper';
 import { AccountService } from '../controllers/accountService';
 import { getBaseUrl } from '../constants';
@@ -9,6 +18,8 @@ import { getBaseUrl } from '../constants';
 const WARROOM_DIR = '.warroom';
 const DEPENDENCY_MAP_FILE = 'dependency-map.json';
 const MANUAL_DEPS_FILE = 'manual-dependencies.json';
+const VERSIONS_DIR = 'dependency-maps';
+const MAX_DEPENDENCY_MAP_VERSIONS = 50;
 
 export async function buildDependencyMap(
     context: vscode.ExtensionContext,
@@ -69,6 +80,24 @@ export async function buildDependencyMap(
         dependencies.push(...appDeps);
     }
 
+    // Read HTTP requesters and connector configs from the deployed JARs
+    if (vscode.workspace.getConfiguration('anypointMonitor').get<boolean>('warRoom.scanMuleConfigs', true)) {
+        const asyncEndpoints: AsyncEndpoint[] = [];
+        for (let i = 0; i < allApps.length; i++) {
+            const app = allApps[i];
+            progress?.report({ message: `Reading Mule configuration of ${app.name} (${i + 1}/${allApps.length})...` });
+
+            const scan = await scanMuleConfig(
+                apiHelper, baseUrl, app, organizationId, environmentId, endpointMap
+            );
+            dependencies.push(...scan.dependencies);
+            asyncEndpoints.push(...scan.asyncEndpoints);
+        }
+
+        // Producer -> queue/topic -> consumer chains span apps, so link them once every JAR is read
+        dependencies.push(...linkAsyncEndpoints(asyncEndpoints));
+    }
+
     // Check API Manager auto-discovery bindings
     progress?.report({ message: 'Checking API Manager bindings...' });
     const apiDeps = await discoverApiManagerDependencies(
@@ -88,30 +117,13 @@ export async function buildDependencyMap(
     const namingDeps = discoverByNamingConvention(allApps);
     dependencies.push(...namingDeps);
 
-    // Merge manual dependencies
-    const manualDeps = loadManualDependencies();
-    for (const manual of manualDeps) {
-        // Remove any auto-discovered entry for the same source->target pair
-        const existingIndex = dependencies.findIndex(
-            d => d.sourceApp === manual.sourceApp && d.targetApp === manual.targetApp
-        );
-        if (existingIndex >= 0) {
-            dependencies.splice(existingIndex, 1);
-        }
-        dependencies.push({
-            sourceApp: manual.sourceApp,
-            targetApp: manual.targetApp,
-            targetUrl: '',
-            discoveryMethod: 'manual',
-            confidence: 'high',
-            isExternal: !allApps.some(a => a.name === manual.targetApp)
-        });
-    }
+    // Merge manual dependencies and drop rejected ones
+    const merged = applyManualDependencies(dependencies, loadManualDependencyFile(), allApps.map(a => a.name));
 
     // Deduplicate
     const seen = new Set<string>();
-    const uniqueDeps = dependencies.filter(dep => {
-        const key = `${dep.sourceApp}->${dep.targetApp}:${dep.targetUrl}`;
+    const uniqueDeps = merged.filter(dep => {
+        const key = `${dep.sourceApp}->${dep.targetApp}:${dep.method || ''} ${dep.targetUrl}`;
         if (seen.has(key)) { return false; }
         seen.add(key);
         return true;
@@ -128,9 +140,14 @@ export async function buildDependencyMap(
         dependencies: uniqueDeps
     };
 
-    // Save to workspace
+    // Save to workspace, keeping the previous build of this environment to diff against
+    const previous = loadLatestDependencyMapVersion(envName);
     await saveDependencyMap(depMap);
 
+    if (previous) {
+        notifyUndeclaredDependencies(previous, depMap);
+    }
+
     return depMap;
 }
 
@@ -173,26 +190,138 @@ async function saveDependencyMap(map: DependencyMap): Promise<void> {
 
     const filePath = path.join(dirPath, DEPENDENCY_MAP_FILE);
     fs.writeFileSync(filePath, JSON.stringify(map, null, 2), 'utf-8');
+
+    const versionsDir = path.join(dirPath, VERSIONS_DIR);
+    if (!fs.existsSync(versionsDir)) {
+        fs.mkdirSync(versionsDir, { recursive: true });
+    }
+    fs.writeFileSync(path.join(versionsDir, `${versionId(map)}.json`), JSON.stringify(map, null, 2), 'utf-8');
+
+    // Version ids sort chronologically; drop the oldest beyond the retention limit
+    const versionFiles = fs.readdirSync(versionsDir).filter(f => f.endsWith('.json')).sort();
+    for (const file of versionFiles.slice(0, Math.max(0, versionFiles.length - MAX_DEPENDENCY_MAP_VERSIONS))) {
+        fs.unlinkSync(path.join(versionsDir, file));
+    }
+}
+
+function versionId(map: DependencyMap): string {
+    return `dependency-map-${map.generatedAt.replace(/[:.]/g, '-')}`;
+}
+
+function getVersionsDir(): string | null {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) { return null; }
+    return path.join(workspaceFolders[0].uri.fsPath, WARROOM_DIR, VERSIONS_DIR);
+}
+
+/** Saved dependency map builds, newest first */
+export function listDependencyMapVersions(): DependencyMapVersion[] {
+    const versionsDir = getVersionsDir();
+    if (!versionsDir || !fs.existsSync(versionsDir)) { return []; }
+
+    const versions: DependencyMapVersion[] = [];
+    for (const file of fs.readdirSync(versionsDir)) {
+        if (!file.endsWith('.json')) { continue; }
+        try {
+            const map = JSON.parse(fs.readFileSync(path.join(versionsDir, file), 'utf-8')) as DependencyMap;
+            versions.push({
+                id: file.replace(/\.json$/, ''),
+                generatedAt: map.generatedAt,
+                environment: map.environment,
+                appCount: map.apps?.length || 0,
+                dependencyCount: map.dependencies?.length || 0
+            });
+        } catch {
+            // Skip unreadable version files
+        }
+    }
+
+    return versions.sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
+
+export function loadDependencyMapVersion(id: string): DependencyMap | null {
+    const versionsDir = getVersionsDir();
+    if (!versionsDir) { return null; }
+
+    const filePath = path.join(versionsDir, `${id}.json`);
+    if (!fs.existsSync(filePath)) { return null; }
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DependencyMap;
+    } catch {
+        return null;
+    }
 }
 
-function loadManualDependencies(): Array<{ sourceApp: string; targetApp: string }> {
+/**
+ * The most recent build for an environment. Workspaces created before maps were
+ * versioned only have `dependency-map.json`, which is used when it matches.
+ */
+function loadLatestDependencyMapVersion(environment: string): DependencyMap | null {
+    const latest = listDependencyMapVersions().find(v => v.environment === environment);
+    if (latest) {
+        return loadDependencyMapVersion(latest.id);
+    }
+    const current = loadDependencyMap();
+    return current && current.environment === environment ? current : null;
+}
+
+/**
+ * Warn when a production rebuild finds dependencies that are not declared in
+ * the manual dependency file. Fire-and-forget so map building is not blocked.
+ */
+function notifyUndeclaredDependencies(previous: DependencyMap, current: DependencyMap): void {
+    if (!isProductionEnvironment(current.environment)) { return; }
+
+    const diff = diffDependencyMaps(previous, current);
+    const undeclared = findUndeclaredDependencies(diff, loadManualDependencyFile().dependencies);
+    if (undeclared.length === 0) { return; }
+
+    const shown = undeclared.slice(0, 3).map(d => `${d.sourceApp} → ${d.targetApp}`).join(', ');
+    const more = undeclared.length > 3 ? ` and ${undeclared.length - 3} more` : '';
+    vscode.window.showWarningMessage(
+        `${undeclared.length} new undeclared ${undeclared.length === 1 ? 'dependency' : 'dependencies'} in ${current.environment}: ${shown}${more}`,
+        'Show Drift'
+    ).then(async choice => {
+        if (choice !== 'Show Drift') { return; }
+        const doc = await vscode.workspace.openTextDocument({
+            content: renderDependencyMapDiffMarkdown(diff, current.environment),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(doc, { preview: false });
+    });
+}
+
+export function loadManualDependencyFile(): ManualDependencyFile {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
-        return [];
+        return { dependencies: [] };
     }
 
     const filePath = path.join(workspaceFolders[0].uri.fsPath, WARROOM_DIR, MANUAL_DEPS_FILE);
     if (!fs.existsSync(filePath)) {
-        return [];
+        return { dependencies: [] };
     }
 
     try {
         const content = fs.readFileSync(filePath, 'utf-8');
-        const parsed = JSON.parse(content) as ManualDependencyFile;
-        return parsed.dependencies || [];
+        return normalizeManualDependencyFile(JSON.parse(content));
     } catch {
-        return [];
+        return { dependencies: [] };
+    }
+}
+
+export async function saveManualDependencyFile(manual: ManualDependencyFile): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        throw new Error('Open a workspace folder to save manual dependencies.');
+    }
+
+    const dirPath = path.join(workspaceFolders[0].uri.fsPath, WARROOM_DIR);
+    if (!fs.existsSync(dirPath)) {
+        fs.mkdirSync(dirPath, { recursive: true });
     }
+    fs.writeFileSync(path.join(dirPath, MANUAL_DEPS_FILE), JSON.stringify(manual, null, 2), 'utf-8');
 }
 
 async function getEnvironmentName(
@@ -479,6 +608,50 @@ function isRelevantHostname(hostname: string): boolean {
     return !INFRA_PATTERNS.some(p => lower.includes(p));
 }
 
+/**
+ * Read the app's deployed Mule configuration: exact requester URLs and typed
+ * external systems from connector configs, plus the queues and topics it
+ * publishes to or consumes from. Runtime properties override the values
+ * packaged in the JAR when resolving placeholders.
+ */
+export async function scanMuleConfig(
+    apiHelper: ApiHelper,
+    baseUrl: string,
+    app: AppInfo,
+    organizationId: string,
+    environmentId: string,
+    endpointMap: Map<string, string>
+): Promise<{ dependencies: DependencyEntry[]; asyncEndpoints: AsyncEndpoint[] }> {
+    try {
+        // The CH2 deployment list omits the artifact reference; fetch the deployment itself
+        if (!app.rawData?.fullDomain && !app.rawData?.application?.ref && app.deploymentId) {
+            const detailUrl = `${baseUrl}/amc/application-manager/api/v2/organizations/${organizationId}/environments/${environmentId}/deployments/${app.deploymentId}`;
+            const detail = await apiHelper.get(detailUrl);
+            if (detail.status === 200 && detail.data) {
+                app = { ...app, rawData: { ...app.rawData, ...detail.data } };
+            }
+        }
+
+        const jarData = await downloadAppJar(app, apiHelper, baseUrl, organizationId, environmentId);
+        if (!jarData) { return { dependencies: [], asyncEndpoints: [] }; }
+
+        const project = await loadMuleProjectFromJar(jarData);
+        const runtimeProperties = Object.fromEntries(
+            Object.entries(app.properties || {}).filter(([, v]) => typeof v === 'string')
+        );
+        const properties = { ...project.properties.values, ...runtimeProperties };
+        return {
+            dependencies: discoverMuleConfigDependencies(
+                app.name, project, properties, url => resolveUrlToApp(url, endpointMap)
+            ),
+            asyncEndpoints: discoverAsyncEndpoints(app.name, project, properties)
+        };
+    } catch (error: any) {
+        console.log(`War Room DependencyMapper: Mule config scan failed for ${app.name}:`, error.message);
+        return { dependencies: [], asyncEndpoints: [] };
+    }
+}
+
 export async function discoverApiManagerDependencies(
     apiHelper: ApiHelper,
     baseUrl: string,
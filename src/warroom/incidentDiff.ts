@@ -0,0 +1,125 @@
+import {
+    WarRoomReport,
+    SerializedWarRoomReport,
+    AppWarRoomData,
+    IncidentDiff,
+    LogGroup
+} from './types';
+
+export function serializeReport(report: WarRoomReport): SerializedWarRoomReport {
+    const apps: Record<string, AppWarRoomData> = {};
+    for (const [appName, appData] of report.apps) {
+        apps[appName] = appData;
+    }
+
+    return {
+        ...report,
+        config: {
+            ...report.config,
+            timeWindow: {
+                start: report.config.timeWindow.start.toISOString(),
+                end: report.config.timeWindow.end.toISOString()
+            }
+        },
+        apps
+    };
+}
+
+export function deserializeReport(serialized: SerializedWarRoomReport): WarRoomReport {
+    return {
+        ...serialized,
+        config: {
+            ...serialized.config,
+            timeWindow: {
+                start: new Date(serialized.config.timeWindow.start),
+                end: new Date(serialized.config.timeWindow.end)
+            }
+        },
+        timeline: serialized.timeline || [],
+        correlations: serialized.correlations || [],
+        collectionErrors: serialized.collectionErrors || [],
+        apps: new Map(Object.entries(serialized.apps || {}))
+    };
+}
+
+/**
+ * Compare two snapshots of the same incident. Log groups are keyed by app, level
+ * and normalized pattern; anomalies by app and metric; deployments by app and ID.
+ */
+export function diffReports(previous: WarRoomReport, current: WarRoomReport): IncidentDiff {
+    const diff: IncidentDiff = {
+        previousGeneratedAt: previous.generatedAt,
+        currentGeneratedAt: current.generatedAt,
+        newLogGroups: [],
+        resolvedLogGroups: [],
+        newAnomalies: [],
+        resolvedAnomalies: [],
+        newDeployments: [],
+        statusChanges: []
+    };
+
+    const previousGroups = indexLogGroups(previous);
+    const currentGroups = indexLogGroups(current);
+
+    for (const [key, group] of currentGroups) {
+        if (!previousGroups.has(key)) { diff.newLogGroups.push(group); }
+    }
+    for (const [key, group] of previousGroups) {
+        if (!currentGroups.has(key)) { diff.resolvedLogGroups.push(group); }
+    }
+
+    const appNames = new Set<string>([...previous.apps.keys(), ...current.apps.keys()]);
+
+    for (const appName of appNames) {
+        const before = previous.apps.get(appName);
+        const after = current.apps.get(appName);
+
+        const beforeAnomalies = before?.metrics.anomalies || [];
+        const afterAnomalies = after?.metrics.anomalies || [];
+
+        for (const anomaly of afterAnomalies) {
+            if (!beforeAnomalies.some(a => a.metric === anomaly.metric)) {
+                diff.newAnomalies.push({ app: appName, anomaly });
+            }
+        }
+        for (const anomaly of beforeAnomalies) {
+            if (!afterAnomalies.some(a => a.metric === anomaly.metric)) {
+                diff.resolvedAnomalies.push({ app: appName, anomaly });
+            }
+        }
+
+        const knownDeployments = new Set((before?.deployments || []).map(d => d.deploymentId || `${d.version}@${d.timestamp}`));
+        for (const dep of after?.deployments || []) {
+            if (!knownDeployments.has(dep.deploymentId || `${dep.version}@${dep.timestamp}`)) {
+                diff.newDeployments.push(dep);
+            }
+        }
+
+        const beforeStatus = before?.status.status;
+        const afterStatus = after?.status.status;
+        if (beforeStatus && afterStatus && beforeStatus !== afterStatus) {
+            diff.statusChanges.push({ app: appName, from: beforeStatus, to: afterStatus });
+        }
+    }
+
+    return diff;
+}
+
+export function isDiffEmpty(diff: IncidentDiff): boolean {
+    return diff.newLogGroups.length === 0 &&
+        diff.resolvedLogGroups.length === 0 &&
+        diff.newAnomalies.length === 0 &&
+        diff.resolvedAnomalies.length === 0 &&
+        diff.newDeployments.length === 0 &&
+        diff.statusChanges.length === 0;
+}
+
+function indexLogGroups(report: WarRoomReport): Map<string, LogGroup> {
+    const index = new Map<string, LogGroup>();
+    for (const [appName, appData] of report.apps) {
+        for (const group of appData.logs.groups) {
+            index.set(`${appName}|${group.level}|${group.pattern}`, group);
+        }
+    }
+    return index;
+}
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+    WarRoomIncident,
+    WarRoomReport,
+    SerializedWarRoomIncident
+} from './types';
+import { serializeReport, deserializeReport } from './incidentDiff';
+
+const WARROOM_DIR = '.warroom';
+const INCIDENTS_DIR = 'incidents';
+const INCIDENT_SCHEMA_VERSION = 1;
+
+export interface IncidentSummary {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    severity: string;
+    environment: string;
+    seedApps: string[];
+    snapshotCount: number;
+}
+
+export function createIncident(report: WarRoomReport): WarRoomIncident {
+    const timestamp = report.generatedAt.replace(/[:.]/g, '-');
+    return {
+        id: `incident-${timestamp}`,
+        createdAt: report.generatedAt,
+        updatedAt: report.generatedAt,
+        snapshots: [report]
+    };
+}
+
+export function appendSnapshot(incident: WarRoomIncident, report: WarRoomReport): WarRoomIncident {
+    return {
+        ...incident,
+        updatedAt: report.generatedAt,
+        snapshots: [...incident.snapshots, report]
+    };
+}
+
+export function saveIncident(incident: WarRoomIncident): string | null {
+    const incidentsDir = getIncidentsDir();
+    if (!incidentsDir) { return null; }
+    if (!fs.existsSync(incidentsDir)) { fs.mkdirSync(incidentsDir, { recursive: true }); }
+
+    const serialized: SerializedWarRoomIncident = {
+        schemaVersion: INCIDENT_SCHEMA_VERSION,
+        id: incident.id,
+        createdAt: incident.createdAt,
+        updatedAt: incident.updatedAt,
+        snapshots: incident.snapshots.map(serializeReport)
+    };
+
+    const filePath = path.join(incidentsDir, `${incident.id}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(serialized, null, 2), 'utf-8');
+    return filePath;
+}
+
+export function loadIncident(id: string): WarRoomIncident | null {
+    const incidentsDir = getIncidentsDir();
+    if (!incidentsDir) { return null; }
+
+    const filePath = path.join(incidentsDir, `${id}.json`);
+    if (!fs.existsSync(filePath)) { return null; }
+
+    try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SerializedWarRoomIncident;
+        if (!parsed.snapshots || parsed.snapshots.length === 0) { return null; }
+        return {
+            id: parsed.id || id,
+            createdAt: parsed.createdAt,
+            updatedAt: parsed.updatedAt,
+            snapshots: parsed.snapshots.map(deserializeReport)
+        };
+    } catch {
+        return null;
+    }
+}
+
+export function listIncidents(): IncidentSummary[] {
+    const incidentsDir = getIncidentsDir();
+    if (!incidentsDir || !fs.existsSync(incidentsDir)) { return []; }
+
+    const summaries: IncidentSummary[] = [];
+    for (const file of fs.readdirSync(incidentsDir)) {
+        if (!file.endsWith('.json')) { continue; }
+        try {
+            const parsed = JSON.parse(fs.readFileSync(path.join(incidentsDir, file), 'utf-8')) as SerializedWarRoomIncident;
+            const latest = parsed.snapshots?.[parsed.snapshots.length - 1];
+            if (!latest) { continue; }
+            summaries.push({
+                id: parsed.id || file.replace(/\.json$/, ''),
+                createdAt: parsed.createdAt,
+                updatedAt: parsed.updatedAt,
+                severity: latest.config.severity,
+                environment: latest.config.environment,
+                seedApps: latest.config.applications.map(a => a.name),
+                snapshotCount: parsed.snapshots.length
+            });
+        } catch {
+            // Skip unreadable incident files
+        }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function getIncidentsDir(): string | null {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) { return null; }
+    return path.join(workspaceFolders[0].uri.fsPath, WARROOM_DIR, INCIDENTS_DIR);
+}
@@ -4,8 +4,11 @@ import {
     WarRoomData,
     DependencyMap,
     BlastRadius,
+    BlastRadiusOptions,
     AppWarRoomData,
-    CollectionError
+    CollectionError,
+    WarRoomIncident,
+    LiveRefreshHandler
 } from './types';
 import { loadDependencyMap, isDependencyMapStale, buildDependencyMap } from './dependencyMapper';
 import { ApiHelper } from '../controllers/apiHelper';
@@ -13,10 +16,18 @@ import { getBaseUrl } from '../constants';
 import { calculateBlastRadius } from './blastRadius';
 import { collectLogs } from './collectors/logCollector';
 import { collectDeployments } from './collectors/deployCollector';
-import { collectMetrics } from './collectors/metricsCollector';
+import { collectMetrics, collectInboundTraffic } from './collectors/metricsCollector';
 import { collectStatus } from './collectors/statusCollector';
-import { buildTimeline, analyzeCorrelations } from './correlationEngine';
+import { collectMQStats } from './collectors/mqCollector';
+import {
+    buildTimeline,
+    analyzeCorrelations,
+    getCorrelationRules,
+    setWorkspaceCorrelationRules
+} from './correlationEngine';
+import { loadWorkspaceCorrelationRules } from './customCorrelationRules';
 import { generateReport } from './reportGenerator';
+import { mergeAppData } from './liveMerge';
 
 const COLLECTOR_BATCH_SIZE = 3;
 const COLLECTOR_BATCH_DELAY = 200;
@@ -31,10 +42,17 @@ function elapsed(startTime: number): string {
     return `${((Date.now() - startTime) / 1000).toFixed(0)}s`;
 }
 
+/**
+ * Run a full War Room collection. When `incident` is given, the new report is
+ * appended to that incident as another snapshot and diffed against the last one.
+ */
 export async function runWarRoom(
     context: vscode.ExtensionContext,
-    config: WarRoomConfig
+    config: WarRoomConfig,
+    incident?: WarRoomIncident
 ): Promise<void> {
+    loadCorrelationRules();
+
     // Resolve blast radius BEFORE showing the progress bar.
     // This avoids the dependency-map prompt being hidden behind the notification.
     let blastRadius: BlastRadius;
@@ -128,6 +146,13 @@ export async function runWarRoom(
 
         if (token.isCancellationRequested) { return; }
 
+        // Queue stats are environment-wide, so they are collected once rather than per app
+        progress.report({ message: `[${elapsed(startTime)}] Collecting Anypoint MQ queue stats...` });
+        const mq = await collectMQStats(context, config.organizationId, config.environmentId);
+        allErrors.push(...mq.errors);
+
+        if (token.isCancellationRequested) { return; }
+
         const collectionTime = Date.now() - startTime;
 
         // ── Step 3: Analyze correlations ────────────────────────────────
@@ -141,7 +166,8 @@ export async function runWarRoom(
             blastRadius,
             apps: appsData,
             collectionErrors: allErrors,
-            collectionTime
+            collectionTime,
+            mqStats: mq.result ?? undefined
         };
 
         const timeline = buildTimeline(warRoomData);
@@ -155,7 +181,10 @@ export async function runWarRoom(
             message: `[${elapsed(startTime)}] Generating markdown report...`
         });
 
-        await generateReport(warRoomData, timeline, correlations);
+        const refresh: LiveRefreshHandler = (current, since) =>
+            refreshWarRoomData(context, current, appLookup, since);
+
+        await generateReport(warRoomData, timeline, correlations, incident, refresh);
 
         const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
         vscode.window.showInformationMessage(
@@ -164,13 +193,89 @@ export async function runWarRoom(
     });
 }
 
+/**
+ * Load workspace correlation rules (.warroom/rules) into the registry. Invalid
+ * rules are skipped and reported without blocking the run.
+ */
+function loadCorrelationRules(): void {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        setWorkspaceCorrelationRules([]);
+        return;
+    }
+
+    const builtinIds = getCorrelationRules().filter(r => r.source === 'builtin').map(r => r.id);
+    const { rules, errors } = loadWorkspaceCorrelationRules(workspaceFolders[0].uri.fsPath, builtinIds);
+    setWorkspaceCorrelationRules(rules);
+
+    if (errors.length > 0) {
+        const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+        vscode.window.showWarningMessage(`War Room: skipped invalid correlation rules — ${errors[0]}${more}`);
+    }
+}
+
+/**
+ * Incremental collection for live mode: fetch only the window since the last
+ * poll for every app in the blast radius and merge it into the existing data.
+ * Collection errors are replaced with the ones from this poll.
+ */
+async function refreshWarRoomData(
+    context: vscode.ExtensionContext,
+    data: WarRoomData,
+    appLookup: Map<string, AppLookupEntry>,
+    since: Date
+): Promise<WarRoomData> {
+    const startTime = Date.now();
+    const end = new Date();
+    const deltaConfig: WarRoomConfig = { ...data.config, timeWindow: { start: since, end } };
+    const errors: CollectionError[] = [];
+    const apps = new Map(data.apps);
+    const appNames = data.blastRadius.allAffected;
+
+    for (let i = 0; i < appNames.length; i += COLLECTOR_BATCH_SIZE) {
+        const batch = appNames.slice(i, i + COLLECTOR_BATCH_SIZE);
+        const batchResults = await Promise.allSettled(
+            batch.map(appName => collectAppData(
+                context, appName, appLookup, deltaConfig, errors, data.config.timeWindow.start
+            ))
+        );
+
+        for (let j = 0; j < batch.length; j++) {
+            const result = batchResults[j];
+            if (result.status === 'fulfilled') {
+                const existing = apps.get(batch[j]) || getEmptyAppData(batch[j]);
+                apps.set(batch[j], mergeAppData(existing, result.value));
+            } else {
+                errors.push({
+                    collector: 'all',
+                    app: batch[j],
+                    error: result.reason?.message || 'Complete collection failure'
+                });
+            }
+        }
+    }
+
+    const mq = await collectMQStats(context, data.config.organizationId, data.config.environmentId);
+    errors.push(...mq.errors);
+
+    return {
+        ...data,
+        config: { ...data.config, timeWindow: { start: data.config.timeWindow.start, end } },
+        apps,
+        collectionErrors: errors,
+        collectionTime: Date.now() - startTime,
+        mqStats: mq.result ?? data.mqStats
+    };
+}
+
 /**
  * Resolve blast radius OUTSIDE of the progress bar so that any user prompts
  * are not hidden behind the notification.
  *
  * Strategy:
  * 1. Auto-build the dependency map silently (with its own progress bar)
- * 2. Use graph-based expansion (2-hop BFS) if deps found
+ * 2. Use graph-based expansion (2-hop BFS) if deps found, ranked by
+ *    confidence and inbound traffic share
  * 3. Fall back to name-prefix matching when graph finds no connections
  * 4. Always enrich the lookup with real app IDs from the environment
  */
@@ -201,10 +306,15 @@ async function resolveBlastRadius(
 
     // ── Step 2: Try graph-based expansion ──────────────────────────────
     if (depMap) {
-        const blastRadius = calculateBlastRadius(seedNames, depMap);
+        const options: BlastRadiusOptions = { minConfidence: getMinDependencyConfidence() };
+        let blastRadius = calculateBlastRadius(seedNames, depMap, options);
 
         // If the graph found upstream or downstream apps, use it
         if (blastRadius.upstream.length > 0 || blastRadius.downstream.length > 0) {
+            const traffic = await fetchBlastRadiusTraffic(context, config, blastRadius);
+            if (traffic.size > 0) {
+                blastRadius = calculateBlastRadius(seedNames, depMap, { ...options, traffic });
+            }
             return { blastRadius, depMap };
         }
     }
@@ -250,6 +360,35 @@ async function resolveBlastRadius(
     };
 }
 
+function getMinDependencyConfidence(): BlastRadiusOptions['minConfidence'] {
+    const value = vscode.workspace
+        .getConfiguration('anypointMonitor')
+        .get<string>('warRoom.minDependencyConfidence', 'low');
+    return value === 'high' || value === 'medium' ? value : 'low';
+}
+
+/**
+ * Inbound request counts for the expanded apps over the incident window.
+ * Failures only lose the traffic weighting, so they are logged, not surfaced.
+ */
+async function fetchBlastRadiusTraffic(
+    context: vscode.ExtensionContext,
+    config: WarRoomConfig,
+    blastRadius: BlastRadius
+): Promise<Map<string, number>> {
+    const expanded = [...blastRadius.upstream, ...blastRadius.downstream].map(e => e.app);
+    try {
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'War Room — Weighting Blast Radius by Traffic',
+            cancellable: false
+        }, () => collectInboundTraffic(context, expanded, config.organizationId, config.environmentId, config.timeWindow));
+    } catch (err: any) {
+        console.warn('War Room: Failed to fetch inbound traffic:', err.message);
+        return new Map();
+    }
+}
+
 /**
  * Extract name prefixes for matching related apps.
  * "meraki-ccw-sfdc-papi-prod" → tries "meraki-ccw-sfdc-papi", "meraki-ccw-sfdc", "meraki-ccw"
@@ -353,7 +492,8 @@ async function collectAppData(
     appName: string,
     appLookup: Map<string, AppLookupEntry>,
     config: WarRoomConfig,
-    allErrors: CollectionError[]
+    allErrors: CollectionError[],
+    incidentStart: Date = config.timeWindow.start
 ): Promise<AppWarRoomData> {
     const entry = appLookup.get(appName) || { name: appName, id: appName };
 
@@ -365,7 +505,7 @@ async function collectAppData(
         ),
         collectDeployments(
             context, appName, entry.id, config.organizationId,
-            config.environmentId, config.timeWindow.start, entry.deploymentId
+            config.environmentId, incidentStart, entry.deploymentId
         ),
         collectMetrics(
             context, appName, entry.id, config.organizationId,
@@ -0,0 +1,120 @@
+import {
+    AppWarRoomData,
+    LogGroup,
+    DeploymentRecord,
+    TimelineEvent,
+    CorrelationResult,
+    LiveRefreshHandler,
+    WarRoomData
+} from './types';
+
+/**
+ * Merge an incremental collection (data fetched since the last poll) into the
+ * accumulated data for an app. Log groups are combined by level + pattern,
+ * deployments are unioned, and metrics/status take the latest values.
+ */
+export function mergeAppData(existing: AppWarRoomData, delta: AppWarRoomData): AppWarRoomData {
+    const groups = new Map<string, LogGroup>();
+    for (const group of existing.logs.groups) {
+        groups.set(`${group.level}:${group.pattern}`, { ...group });
+    }
+    for (const group of delta.logs.groups) {
+        const key = `${group.level}:${group.pattern}`;
+        const current = groups.get(key);
+        if (current) {
+            current.count += group.count;
+            if (group.firstSeen < current.firstSeen) { current.firstSeen = group.firstSeen; }
+            if (group.lastSeen > current.lastSeen) {
+                current.lastSeen = group.lastSeen;
+                current.sampleMessage = group.sampleMessage;
+            }
+        } else {
+            groups.set(key, { ...group });
+        }
+    }
+
+    const deployments: DeploymentRecord[] = [...existing.deployments];
+    for (const dep of delta.deployments) {
+        const exists = deployments.some(d => d.deploymentId === dep.deploymentId && d.timestamp === dep.timestamp);
+        if (!exists) { deployments.push(dep); }
+    }
+
+    // Keep the original baseline; only replace current values the delta actually returned
+    const current = { ...existing.metrics.current };
+    const deltaCurrent = delta.metrics.current;
+    if (deltaCurrent.cpu !== null) { current.cpu = deltaCurrent.cpu; }
+    if (deltaCurrent.memory !== null) { current.memory = deltaCurrent.memory; }
+    if (deltaCurrent.messageCount !== null) { current.messageCount = deltaCurrent.messageCount; }
+    if (deltaCurrent.responseTime !== null) { current.responseTime = deltaCurrent.responseTime; }
+    if (deltaCurrent.timestamp) { current.timestamp = deltaCurrent.timestamp; }
+
+    return {
+        logs: {
+            groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+            totalEntries: existing.logs.totalEntries + delta.logs.totalEntries,
+            errors: existing.logs.errors + delta.logs.errors,
+            warnings: existing.logs.warnings + delta.logs.warnings
+        },
+        deployments,
+        metrics: {
+            current,
+            baseline: existing.metrics.baseline,
+            anomalies: delta.metrics.anomalies
+        },
+        status: delta.status.status === 'UNKNOWN' ? existing.status : delta.status
+    };
+}
+
+/**
+ * Stable identity for a timeline event across refreshes. Descriptions embed
+ * counts that change on every poll, so the key uses the underlying subject.
+ */
+export function timelineEventKey(event: TimelineEvent): string {
+    const data = event.data || {};
+    const subject = data.deploymentId ?? data.pattern ?? data.metric ?? event.description;
+    return `${event.type}|${event.app}|${String(subject)}`;
+}
+
+/**
+ * Stable identity for a correlation across refreshes: the rule and what it
+ * is about. probableCause embeds counts ("N occurrences", "N apps"), so it is
+ * only used, with digits masked, for results saved without subjects.
+ */
+export function correlationKey(correlation: CorrelationResult): string {
+    const subject = correlation.subjects
+        ? [...new Set(correlation.subjects)].sort().join(',')
+        : correlation.probableCause.replace(/\d+/g, '#');
+    return `${correlation.category}|${correlation.ruleId ?? ''}|${subject}`;
+}
+
+/**
+ * Keys present in `next` that were not present in `previous`.
+ */
+export function findNewKeys<T>(previous: T[], next: T[], keyOf: (item: T) => string): Set<string> {
+    const known = new Set(previous.map(keyOf));
+    const fresh = new Set<string>();
+    for (const item of next) {
+        const key = keyOf(item);
+        if (!known.has(key)) { fresh.add(key); }
+    }
+    return fresh;
+}
+
+/**
+ * Wrap a live refresh so each poll fetches everything since the start of the
+ * last successful one. A failed poll leaves the window start where it was, so
+ * the next poll fetches the missed interval again instead of skipping it.
+ */
+export function createLivePoller(
+    refresh: LiveRefreshHandler,
+    start: Date,
+    now: () => Date = () => new Date()
+): (data: WarRoomData) => Promise<WarRoomData> {
+    let since = start;
+    return async (data) => {
+        const pollStartedAt = now();
+        const next = await refresh(data, since);
+        since = pollStartedAt;
+        return next;
+    };
+}
@@ -0,0 +1,195 @@
+import {
+    DependencyEditorRow,
+    DependencyEditorStatus,
+    DependencyEntry,
+    DependencyMap,
+    ManualDependencyFile
+} from './types';
+
+type ManualEdge = ManualDependencyFile['dependencies'][number];
+
+export type ManualDependencyAction =
+    | { action: 'confirm'; sourceApp: string; targetApp: string; note?: string }
+    | { action: 'reject'; sourceApp: string; targetApp: string; note?: string }
+    | { action: 'add'; sourceApp: string; targetApp: string; note?: string }
+    | { action: 'note'; sourceApp: string; targetApp: string; note: string }
+    | { action: 'reset'; sourceApp: string; targetApp: string };
+
+function pairKey(edge: { sourceApp: string; targetApp: string }): string {
+    return `${edge.sourceApp}->${edge.targetApp}`;
+}
+
+function samePair(a: { sourceApp: string; targetApp: string }, b: { sourceApp: string; targetApp: string }): boolean {
+    return a.sourceApp === b.sourceApp && a.targetApp === b.targetApp;
+}
+
+/** Tolerate hand-edited files: missing arrays, blank names and stray fields */
+export function normalizeManualDependencyFile(raw: any): ManualDependencyFile {
+    const edges = (list: any) => (Array.isArray(list) ? list : [])
+        .filter((e: any) => e && typeof e.sourceApp === 'string' && typeof e.targetApp === 'string' && e.sourceApp.trim() && e.targetApp.trim())
+        .map((e: any) => ({
+            sourceApp: e.sourceApp.trim(),
+            targetApp: e.targetApp.trim(),
+            ...(typeof e.note === 'string' && e.note.trim() ? { note: e.note.trim() } : {}),
+            ...(e.confirmed === true ? { confirmed: true } : {})
+        }));
+
+    const file: ManualDependencyFile = { dependencies: edges(raw?.dependencies) };
+    const rejected = edges(raw?.rejected).map(({ confirmed: _confirmed, ...rest }: ManualEdge) => rest);
+    if (rejected.length > 0) {
+        file.rejected = rejected;
+    }
+    return file;
+}
+
+/**
+ * Apply the user's corrections to freshly discovered edges: rejected pairs are
+ * dropped, discovered entries for manual pairs are kept (URLs, method, async
+ * `via`) at high confidence, and a manual entry is added only for pairs that
+ * were never discovered.
+ * Idempotent, so applying it to an already merged map is harmless.
+ */
+export function applyManualDependencies(
+    dependencies: DependencyEntry[],
+    manual: ManualDependencyFile,
+    appNames: string[]
+): DependencyEntry[] {
+    const rejected = new Set((manual.rejected || []).map(pairKey));
+    const declared = new Set(manual.dependencies.map(pairKey));
+    const knownApps = new Set(appNames);
+
+    const merged = dependencies
+        .filter(dep => !rejected.has(pairKey(dep)))
+        // Synthetic entries from an earlier merge are rebuilt below
+        .filter(dep => !(declared.has(pairKey(dep)) && dep.discoveryMethod === 'manual'))
+        .map(dep => declared.has(pairKey(dep)) && dep.confidence !== 'high' ? { ...dep, confidence: 'high' as const } : dep);
+    const discovered = new Set(merged.map(pairKey));
+
+    for (const edge of manual.dependencies) {
+        if (rejected.has(pairKey(edge)) || discovered.has(pairKey(edge))) { continue; }
+        merged.push({
+            sourceApp: edge.sourceApp,
+            targetApp: edge.targetApp,
+            targetUrl: '',
+            discoveryMethod: 'manual',
+            confidence: 'high',
+            isExternal: !knownApps.has(edge.targetApp)
+        });
+    }
+    return merged;
+}
+
+/**
+ * Table rows for the dependency editor: every pair in the last build, plus
+ * rejected pairs (no longer in the map) and manual pairs added since the build.
+ */
+export function buildDependencyEditorRows(map: DependencyMap | null, manual: ManualDependencyFile): DependencyEditorRow[] {
+    const rows = new Map<string, DependencyEditorRow>();
+    const appNames = new Set((map?.apps || []).map(a => a.name));
+
+    for (const dep of map?.dependencies || []) {
+        const key = pairKey(dep);
+        let row = rows.get(key);
+        if (!row) {
+            row = {
+                sourceApp: dep.sourceApp,
+                targetApp: dep.targetApp,
+                status: 'inferred',
+                discoveredBy: [],
+                targetUrls: [],
+                isExternal: dep.isExternal
+            };
+            rows.set(key, row);
+        }
+        if (dep.discoveryMethod !== 'manual' && !row.discoveredBy.includes(dep.discoveryMethod)) {
+            row.discoveredBy.push(dep.discoveryMethod);
+            row.confidence = strongerConfidence(row.confidence, dep.confidence);
+        }
+        if (dep.targetUrl && !row.targetUrls.includes(dep.targetUrl)) {
+            row.targetUrls.push(dep.targetUrl);
+        }
+    }
+
+    const place = (edge: ManualEdge, status: DependencyEditorStatus) => {
+        const key = pairKey(edge);
+        const row = rows.get(key) || {
+            sourceApp: edge.sourceApp,
+            targetApp: edge.targetApp,
+            status,
+            discoveredBy: [],
+            targetUrls: [],
+            isExternal: appNames.size > 0 && !appNames.has(edge.targetApp)
+        };
+        row.status = status;
+        row.note = edge.note;
+        rows.set(key, row);
+    };
+    for (const edge of manual.dependencies) {
+        place(edge, edge.confirmed ? 'confirmed' : 'manual');
+    }
+    for (const edge of manual.rejected || []) {
+        place(edge, 'rejected');
+    }
+
+    return [...rows.values()].sort((a, b) =>
+        a.sourceApp.localeCompare(b.sourceApp) || a.targetApp.localeCompare(b.targetApp)
+    );
+}
+
+/** Return a new manual file with one editor action applied */
+export function applyManualDependencyAction(manual: ManualDependencyFile, change: ManualDependencyAction): ManualDependencyFile {
+    const edge = { sourceApp: change.sourceApp.trim(), targetApp: change.targetApp.trim() };
+    if (!edge.sourceApp || !edge.targetApp || edge.sourceApp === edge.targetApp) {
+        return manual;
+    }
+
+    const existing = manual.dependencies.find(d => samePair(d, edge)) || (manual.rejected || []).find(d => samePair(d, edge));
+    const note = change.action === 'reset' ? undefined : (change.note ?? existing?.note)?.trim() || undefined;
+    const dependencies = manual.dependencies.filter(d => !samePair(d, edge));
+    const rejected = (manual.rejected || []).filter(d => !samePair(d, edge));
+
+    switch (change.action) {
+        case 'confirm':
+            dependencies.push({ ...edge, ...(note ? { note } : {}), confirmed: true });
+            break;
+        case 'add':
+            dependencies.push({ ...edge, ...(note ? { note } : {}) });
+            break;
+        case 'reject':
+            rejected.push({ ...edge, ...(note ? { note } : {}) });
+            break;
+        case 'note': {
+            // Notes only live on manual entries; an inferred edge has nowhere to keep one
+            const target = manual.dependencies.find(d => samePair(d, edge));
+            if (target) {
+                const { note: _previous, ...rest } = target;
+                dependencies.push({ ...rest, ...(note ? { note } : {}) });
+            } else if ((manual.rejected || []).some(d => samePair(d, edge))) {
+                rejected.push({ ...edge, ...(note ? { note } : {}) });
+            } else {
+                return manual;
+            }
+            break;
+        }
+        case 'reset':
+            break;
+    }
+
+    const next: ManualDependencyFile = { dependencies: sortEdges(dependencies) };
+    if (rejected.length > 0) {
+        next.rejected = sortEdges(rejected);
+    }
+    return next;
+}
+
+function sortEdges<T extends { sourceApp: string; targetApp: string }>(edges: T[]): T[] {
+    return edges.sort((a, b) => a.sourceApp.localeCompare(b.sourceApp) || a.targetApp.localeCompare(b.targetApp));
+}
+
+function strongerConfidence(
+    current: DependencyEntry['confidence'] | undefined,
+    next: DependencyEntry['confidence']
+): DependencyEntry['confidence'] {
+    const rank = { low: 0, medium: 1, high: 2 };
+    return current && rank[current] >= rank[next] ? current : next;
+}
@@ -0,0 +1,296 @@
+import { AsyncChannel, AsyncEndpoint, DependencyEntry, DependencyTargetKind } from './types';
+import { ConnectorConfig, ConnectorKind, HttpRequester, MuleProject } from '../utils/muleProject';
+
+const PLACEHOLDER_RE = /\$\{([^}]+)\}/g;
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '0.0.0.0'];
+
+/** Connector kinds that point at a system outside the Mule app; transports and in-app stores are skipped */
+const TYPED_TARGET_KINDS: Partial<Record<ConnectorKind, DependencyTargetKind>> = {
+    'database': 'database',
+    'salesforce': 'salesforce',
+    'sap': 'sap',
+    'sftp': 'sftp',
+    'ftp': 'ftp',
+    'email': 'email',
+    'kafka': 'kafka',
+    'jms': 'jms',
+    'anypoint-mq': 'anypoint-mq',
+    'redis': 'redis',
+    'mongodb': 'mongodb',
+    'amazon-s3': 'amazon-s3',
+    'amazon-sqs': 'amazon-sqs'
+};
+
+const ASYNC_CHANNEL_LABELS: Record<AsyncChannel['kind'], string> = {
+    'anypoint-mq': 'Anypoint MQ',
+    'jms': 'JMS',
+    'kafka': 'Kafka topic'
+};
+
+/** Connection attributes that identify the target system, most specific first */
+const IDENTITY_ATTRIBUTES = [
+    'url',
+    'brokerUrl',
+    'bootstrapServers',
+    'host',
+    'applicationServerHost',
+    'messageServerHost',
+    'servers',
+    'region'
+];
+
+/**
+ * Edges from a parsed Mule project: one per HTTP requester with its exact
+ * method and path, plus one typed external dependency per connector config
+ * (database, SFTP, Salesforce, Kafka, ...). `properties` resolves `${...}`
+ * placeholders; runtime overrides should be merged over the JAR's own files.
+ */
+export function discoverMuleConfigDependencies(
+    appName: string,
+    project: MuleProject,
+    properties: Record<string, string>,
+    resolveTarget: (url: string) => string | null
+): DependencyEntry[] {
+    const deps: DependencyEntry[] = [];
+    const seen = new Set<string>();
+    const push = (dep: DependencyEntry) => {
+        const key = `${dep.targetApp}|${dep.method || ''}|${dep.targetUrl}`;
+        if (seen.has(key) || dep.targetApp === appName) { return; }
+        seen.add(key);
+        deps.push(dep);
+    };
+
+    for (const requester of project.requesters) {
+        const url = requesterUrl(requester, project.connectorConfigs, properties);
+        if (!url) { continue; }
+
+        const host = hostOf(url);
+        if (!host || LOCAL_HOSTS.includes(host)) { continue; }
+
+        const targetApp = resolveTarget(url);
+        push({
+            sourceApp: appName,
+            targetApp: targetApp || host,
+            targetUrl: url,
+            discoveryMethod: 'mule_config',
+            confidence: 'high',
+            isExternal: !targetApp,
+            targetKind: 'http',
+            method: requester.method,
+            path: pathOf(url)
+        });
+    }
+
+    for (const config of project.connectorConfigs) {
+        const targetKind = TYPED_TARGET_KINDS[config.kind];
+        if (!targetKind) { continue; }
+
+        const identity = connectorIdentity(config, properties);
+        if (identity && LOCAL_HOSTS.includes(identity.target)) { continue; }
+
+        push({
+            sourceApp: appName,
+            targetApp: identity?.target || `${targetKind}:${config.name || config.modulePrefix}`,
+            targetUrl: identity?.url || '',
+            discoveryMethod: 'mule_config',
+            confidence: identity ? 'high' : 'low',
+            isExternal: true,
+            targetKind
+        });
+    }
+
+    return deps;
+}
+
+/**
+ * Destinations an app publishes to (`out`) or consumes from (`in`) over
+ * Anypoint MQ, JMS and Kafka. Kafka message listeners take their topics from
+ * the consumer config's topic patterns.
+ */
+export function discoverAsyncEndpoints(
+    appName: string,
+    project: MuleProject,
+    properties: Record<string, string>
+): AsyncEndpoint[] {
+    const endpoints: AsyncEndpoint[] = [];
+    const seen = new Set<string>();
+    const add = (kind: AsyncChannel['kind'], destination: string | undefined, direction: 'in' | 'out') => {
+        if (!isResolved(destination) || !destination.trim()) { return; }
+        const key = `${kind}|${destination}|${direction}`;
+        if (seen.has(key)) { return; }
+        seen.add(key);
+        endpoints.push({ app: appName, channel: { kind, destination: destination.trim() }, direction });
+    };
+
+    for (const op of project.connectorOperations) {
+        if (!op.direction || !(op.kind in ASYNC_CHANNEL_LABELS)) { continue; }
+        const kind = op.kind as AsyncChannel['kind'];
+
+        if (op.destination) {
+            add(kind, resolvePlaceholders(op.destination, properties), op.direction);
+        } else if (kind === 'kafka' && op.direction === 'in') {
+            const config = project.connectorConfigs.find(c => c.name === op.configRef);
+            for (const pattern of config?.topicPatterns || []) {
+                add(kind, resolvePlaceholders(pattern, properties), 'in');
+            }
+        }
+    }
+    return endpoints;
+}
+
+/**
+ * Producer → consumer edges for every channel both sides use. Producers with no
+ * known consumer (e.g. an Anypoint MQ exchange whose bindings are not in any
+ * JAR) get an external edge to the channel itself so the publish is not lost.
+ */
+export function linkAsyncEndpoints(endpoints: AsyncEndpoint[]): DependencyEntry[] {
+    const producers = endpoints.filter(e => e.direction === 'out');
+    const consumers = endpoints.filter(e => e.direction === 'in');
+    const deps: DependencyEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const producer of producers) {
+        const { kind, destination } = producer.channel;
+        const matches = consumers.filter(c =>
+            c.channel.kind === kind && c.app !== producer.app && channelMatches(c.channel.destination, destination)
+        );
+
+        const targets = matches.length > 0 ? matches.map(c => c.app) : [`${kind}:${destination}`];
+        for (const targetApp of targets) {
+            const key = `${producer.app}|${targetApp}|${kind}|${destination}`;
+            if (seen.has(key)) { continue; }
+            seen.add(key);
+            deps.push({
+                sourceApp: producer.app,
+                targetApp,
+                targetUrl: `${kind}://${destination}`,
+                discoveryMethod: 'mule_config',
+                confidence: matches.length > 0 ? 'high' : 'medium',
+                isExternal: matches.length === 0,
+                targetKind: kind,
+                via: producer.channel
+            });
+        }
+    }
+    return deps;
+}
+
+/** Human-readable channel, e.g. "Anypoint MQ orders-queue" or "Kafka topic payments" */
+export function formatAsyncChannel(channel: AsyncChannel): string {
+    return `${ASYNC_CHANNEL_LABELS[channel.kind]} ${channel.destination}`;
+}
+
+/** Consumers match exact names; Kafka topic patterns may also be regular expressions */
+function channelMatches(consumed: string, published: string): boolean {
+    if (consumed === published) { return true; }
+    if (!/[*+?[\]()|^$\\]/.test(consumed)) { return false; }
+    try {
+        return new RegExp(`^(?:${consumed})$`).test(published);
+    } catch {
+        return false;
+    }
+}
+
+export function resolvePlaceholders(value: string | undefined, properties: Record<string, string>): string | undefined {
+    if (!value || !value.includes('${')) { return value; }
+    return value.replace(PLACEHOLDER_RE, (match, key) => {
+        const trimmed = String(key).trim();
+        return Object.prototype.hasOwnProperty.call(properties, trimmed) ? properties[trimmed] : match;
+    });
+}
+
+function isResolved(value: string | undefined): value is string {
+    return !!value && !value.includes('${');
+}
+
+/** Absolute URL a requester calls, or null when its host cannot be resolved */
+function requesterUrl(
+    requester: HttpRequester,
+    configs: ConnectorConfig[],
+    properties: Record<string, string>
+): string | null {
+    const path = resolvePlaceholders(requester.path, properties) || '';
+    if (/^https?:\/\//i.test(path)) {
+        return isResolved(path) ? path : null;
+    }
+
+    const config = configs.find(c => c.name === requester.configRef && c.localName === 'request-config');
+    if (!config) { return null; }
+
+    const connection = config.connection?.attributes || {};
+    const host = resolvePlaceholders(connection.host, properties);
+    if (!isResolved(host)) { return null; }
+
+    const protocol = (resolvePlaceholders(connection.protocol, properties) || 'HTTP').toLowerCase() === 'https' ? 'https' : 'http';
+    const port = resolvePlaceholders(connection.port, properties);
+    const defaultPort = protocol === 'https' ? '443' : '80';
+    const portPart = isResolved(port) && port !== defaultPort ? `:${port}` : '';
+    const basePath = resolvePlaceholders(config.attributes.basePath, properties) || '';
+
+    return `${protocol}://${host}${portPart}${joinPaths(isResolved(basePath) ? basePath : '', isResolved(path) ? path : '')}`;
+}
+
+function joinPaths(...parts: string[]): string {
+    const joined = parts
+        .map(p => p.trim().replace(/^\/+|\/+$/g, ''))
+        .filter(Boolean)
+        .join('/');
+    return joined ? `/${joined}` : '';
+}
+
+function hostOf(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+function pathOf(url: string): string {
+    try {
+        return new URL(url).pathname || '/';
+    } catch {
+        return '/';
+    }
+}
+
+/**
+ * Host-level identity of a connector target, e.g. `orders-db.internal` for a
+ * MySQL connection or `broker-1.kafka.example.com` for Kafka bootstrap servers.
+ */
+function connectorIdentity(
+    config: ConnectorConfig,
+    properties: Record<string, string>
+): { target: string; url: string } | null {
+    const attributes = { ...config.attributes, ...(config.connection?.attributes || {}) };
+
+    for (const key of IDENTITY_ATTRIBUTES) {
+        const value = resolvePlaceholders(attributes[key], properties);
+        if (!isResolved(value) || !value.trim()) { continue; }
+
+        if (key === 'region') {
+            return { target: `${config.kind}:${value}`, url: value };
+        }
+        // bootstrapServers / servers may list several hosts; the first identifies the cluster
+        const first = value.split(',')[0].trim();
+        const target = hostFromConnectionString(first);
+        if (!target) { continue; }
+
+        const port = resolvePlaceholders(attributes.port, properties);
+        const url = key === 'host' && isResolved(port) ? `${first}:${port}` : value;
+        return { target, url };
+    }
+    return null;
+}
+
+/** Hostname from a URL, JDBC URL, `host:port` pair or bare host */
+function hostFromConnectionString(value: string): string | null {
+    const withoutJdbc = value.replace(/^jdbc:[a-z0-9]+:(?:thin:@)?/i, '');
+    const candidate = /^[a-z][a-z0-9+.-]*:\/\//i.test(withoutJdbc) ? withoutJdbc : `tcp://${withoutJdbc.replace(/^\/\//, '')}`;
+    const host = hostOf(candidate);
+    if (host) { return host; }
+    // Oracle-style "host:1521:SID" is not a valid URL; take everything before the first separator
+    const match = withoutJdbc.match(/^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@/]*@)?([^:/?#@]+)/i);
+    return match ? match[1].toLowerCase() : null;
+}
@@ -0,0 +1,161 @@
+import { WarRoomReport } from './types';
+
+export function generateRecommendations(report: WarRoomReport): string[] {
+    const actions: string[] = [];
+    const primary = report.correlations[0];
+
+    if (!primary) {
+        actions.push('Review application logs for any error patterns');
+        actions.push('Check Anypoint Platform status page for known incidents');
+        return actions;
+    }
+
+    switch (primary.category) {
+        case 'recent_deployment': {
+            for (const [, appData] of report.apps) {
+                for (const dep of appData.deployments) {
+                    if (dep.suspicious) {
+                        actions.push(`**Rollback ${dep.appName}** to previous version (currently ${dep.version}, deployed by ${dep.triggeredBy})`);
+                    }
+                }
+            }
+            actions.push('Review deployment change logs and diff for the suspicious deployments');
+            actions.push('Check if the deployment included configuration changes that may have caused the issue');
+            break;
+        }
+        case 'resource_exhaustion': {
+            for (const [appName, appData] of report.apps) {
+                for (const anomaly of appData.metrics.anomalies) {
+                    if (anomaly.metric === 'CPU' && anomaly.severity === 'high') {
+                        actions.push(`**Scale up ${appName}** workers or increase worker size (CPU at ${anomaly.current.toFixed(1)}%)`);
+                    }
+                    if (anomaly.metric === 'Memory' && anomaly.severity === 'high') {
+                        actions.push(`**Investigate memory leak in ${appName}** or increase worker memory (Memory at ${anomaly.current.toFixed(1)}%)`);
+                    }
+                }
+            }
+            actions.push('Consider enabling auto-scaling if available');
+            actions.push('Review recent traffic patterns for unexpected load increases');
+            break;
+        }
+        case 'downstream_failure': {
+            const downstreamApps = report.blastRadius.downstream.map(d => d.app);
+            actions.push(`**Investigate downstream services**: ${downstreamApps.join(', ')}`);
+            actions.push('Check if downstream services are responding and healthy');
+            actions.push('Review circuit breaker and retry policies in calling applications');
+            actions.push('Consider enabling fallback responses for degraded downstream services');
+            break;
+        }
+        case 'connectivity_failure': {
+            // Extract source→target pairs from evidence lines
+            const connPairs: Array<{ source: string; target: string }> = [];
+            for (const ev of primary.evidence) {
+                const match = ev.match(/^(.+?) errors reference (.+?):/);
+                if (match) {
+                    connPairs.push({ source: match[1], target: match[2] });
+                }
+            }
+            if (connPairs.length > 0) {
+                const uniqueTargets = [...new Set(connPairs.map(p => p.target))];
+                const uniqueSources = [...new Set(connPairs.map(p => p.source))];
+                actions.push(`**Investigate connectivity between ${uniqueSources.join(', ')} and ${uniqueTargets.join(', ')}**`);
+                for (const target of uniqueTargets) {
+                    actions.push(`Check if **${target}** is healthy, responding, and reachable from calling apps`);
+                }
+            } else {
+                actions.push('**Investigate connectivity** between the apps referenced in error messages');
+            }
+            actions.push('Review network policies, firewall rules, and DNS resolution');
+            actions.push('Check circuit breaker and retry configuration in calling applications');
+            break;
+        }
+        case 'shared_dependency': {
+            actions.push('Check shared infrastructure: load balancers, VPNs, databases');
+            actions.push('Review Anypoint Platform status page for regional outages');
+            actions.push('Check network connectivity between applications');
+            actions.push('Verify shared credentials and certificates have not expired');
+            break;
+        }
+        case 'certificate_expiry': {
+            const apps = appsFromEvidence(primary.evidence);
+            actions.push(`**Renew the expired certificate** used by ${apps.length > 0 ? apps.join(', ') : 'the affected apps'} and redeploy or update the TLS context keystore/truststore`);
+            actions.push('Check whether the expired certificate belongs to a downstream endpoint — if so, contact its owner or update the truststore with the new chain');
+            actions.push('Inventory certificate expiry dates for all TLS contexts and add expiry monitoring (alert 30 days ahead)');
+            break;
+        }
+        case 'rate_limiting': {
+            const apps = appsFromEvidence(primary.evidence);
+            actions.push(`**Reduce request rate** from ${apps.length > 0 ? apps.join(', ') : 'the affected apps'} or request a higher SLA tier / rate limit from the API owner`);
+            actions.push('Check API Manager rate-limiting, spike control and SLA tier policies applied to the called APIs');
+            actions.push('Add retry with exponential backoff honoring Retry-After headers on HTTP 429 responses');
+            actions.push('Review recent traffic patterns for unexpected load increases or retry storms');
+            break;
+        }
+        case 'mq_quota': {
+            const queues = (report.mqStats || [])
+                .filter(q => primary.evidence.some(e => e.startsWith(`Queue ${q.queueId} `)))
+                .map(q => q.queueId);
+            if (queues.length > 0) {
+                actions.push(`**Drain in-flight messages** on ${queues.join(', ')} — check that consumers acknowledge (ack/nack) every message they receive`);
+            }
+            actions.push('**Check Anypoint MQ usage against the organization quota** (Access Management → Subscription) and request an increase if needed');
+            actions.push('Scale consumer apps or increase prefetch/acknowledgement throughput to reduce backlog');
+            actions.push('Review publisher retry loops that may be multiplying MQ API requests');
+            break;
+        }
+        default: {
+            // Build contextual actions from actual findings instead of generic advice
+            const appsWithErrors: string[] = [];
+            const appsWithWarnings: string[] = [];
+            const stoppedApps: string[] = [];
+            const topWarningPatterns: Array<{ app: string; pattern: string; count: number }> = [];
+
+            for (const [appName, appData] of report.apps) {
+                if (appData.logs.errors > 0) { appsWithErrors.push(appName); }
+                if (appData.logs.warnings > 0) {
+                    appsWithWarnings.push(appName);
+                    for (const g of appData.logs.groups.filter(g => g.level === 'WARN').slice(0, 3)) {
+                        topWarningPatterns.push({ app: appName, pattern: g.pattern.substring(0, 80), count: g.count });
+                    }
+                }
+                const st = appData.status.status.toUpperCase();
+                if (['STOPPED', 'FAILED', 'UNDEPLOYED'].includes(st)) { stoppedApps.push(appName); }
+            }
+
+            if (stoppedApps.length > 0) {
+                actions.push(`**Investigate stopped/failed apps**: ${stoppedApps.join(', ')} — check deployment status and restart if needed`);
+            }
+            if (appsWithErrors.length > 0) {
+                actions.push(`**Review errors** on ${appsWithErrors.join(', ')} — see Error Summary above for patterns`);
+            }
+            if (topWarningPatterns.length > 0) {
+                actions.push(`**Review ${topWarningPatterns.reduce((s, p) => s + p.count, 0)} warnings** on ${appsWithWarnings.join(', ')} — see Warning Summary above for patterns`);
+                for (const wp of topWarningPatterns.slice(0, 3)) {
+                    actions.push(`Investigate warning on **${wp.app}** (${wp.count}x): "${wp.pattern}"`);
+                }
+            }
+            if (appsWithErrors.length === 0 && topWarningPatterns.length === 0 && stoppedApps.length === 0) {
+                actions.push('No errors, warnings, or failures detected — consider widening the time window');
+                actions.push('Check Anypoint Platform status page for known incidents');
+                actions.push('Verify application health via Real-Time Logs for live troubleshooting');
+            }
+        }
+    }
+
+    if (report.config.severity === 'SEV1') {
+        actions.push('**[SEV1]** Escalate to on-call engineering lead immediately');
+        actions.push('**[SEV1]** Begin customer communication if external impact confirmed');
+    } else if (report.config.severity === 'SEV2') {
+        actions.push('**[SEV2]** Notify engineering team lead within 30 minutes');
+    }
+
+    return actions;
+}
+
+/** App names from evidence lines of the form "<app>: <detail>" */
+function appsFromEvidence(evidence: string[]): string[] {
+    const apps = evidence
+        .map(e => e.match(/^([^\s:]+): /)?.[1])
+        .filter((app): app is string => !!app);
+    return [...new Set(apps)];
+}
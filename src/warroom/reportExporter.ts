@@ -0,0 +1,116 @@
+import { WarRoomReport, WarRoomReportExport } from './types';
+import { serializeReport } from './incidentDiff';
+import { generateRecommendations } from './recommendations';
+
+export const REPORT_EXPORT_SCHEMA_VERSION = '1.0.0';
+
+export function renderJsonExport(report: WarRoomReport): string {
+    const payload: WarRoomReportExport = {
+        schema: 'anypoint-monitor/war-room-report',
+        schemaVersion: REPORT_EXPORT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        report: serializeReport(report)
+    };
+    return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Postmortem template pre-filled from the report. Impact, timeline, root cause
+ * and action items are drafted from the collected data; the remaining sections
+ * are left as prompts for the incident owner.
+ */
+export function renderPostmortem(report: WarRoomReport): string {
+    const { config, correlations, timeline, apps, blastRadius } = report;
+    const lines: string[] = [];
+    const primary = correlations[0];
+
+    const impacted = [...apps.entries()].filter(([, d]) =>
+        d.logs.errors > 0 || ['STOPPED', 'FAILED', 'UNDEPLOYED'].includes(d.status.status.toUpperCase())
+    );
+    const totalErrors = [...apps.values()].reduce((s, a) => s + a.logs.errors, 0);
+    const durationMinutes = Math.round((config.timeWindow.end.getTime() - config.timeWindow.start.getTime()) / 60000);
+
+    lines.push(`# Postmortem: ${primary && primary.category !== 'unknown' ? primary.probableCause : `${config.severity} incident in ${config.environment}`}`);
+    lines.push('');
+    lines.push(`| Field | Value |`);
+    lines.push(`|-------|-------|`);
+    lines.push(`| **Severity** | ${config.severity} |`);
+    lines.push(`| **Environment** | ${config.environment} |`);
+    lines.push(`| **Detection window** | ${config.timeWindow.start.toISOString()} — ${config.timeWindow.end.toISOString()} (${durationMinutes} min) |`);
+    lines.push(`| **Incident owner** | _TBD_ |`);
+    lines.push(`| **Status** | Draft |`);
+    lines.push('');
+
+    lines.push('## Summary');
+    lines.push('');
+    lines.push('_One paragraph describing what happened, who was affected, and how it was resolved._');
+    lines.push('');
+
+    lines.push('## Impact');
+    lines.push('');
+    lines.push(`- ${apps.size} application(s) analyzed (${blastRadius.seedApps.length} seed, ${blastRadius.upstream.length} upstream, ${blastRadius.downstream.length} downstream)`);
+    lines.push(`- ${impacted.length} application(s) with errors or failed status, ${totalErrors} error log entries in the window`);
+    for (const [appName, appData] of impacted) {
+        lines.push(`  - **${appName}**: ${appData.logs.errors} errors, status ${appData.status.status}`);
+    }
+    lines.push('- Customer impact: _TBD_');
+    lines.push('');
+
+    lines.push('## Timeline');
+    lines.push('');
+    lines.push('All times UTC.');
+    lines.push('');
+    lines.push(`- **${fmtTime(config.timeWindow.start.toISOString())}** — Start of analyzed window`);
+    for (const ev of timeline.filter(e => e.severity !== 'info' || e.type === 'deployment').slice(0, 50)) {
+        lines.push(`- **${fmtTime(ev.timestamp)}** — [${ev.app}] ${ev.description}`);
+    }
+    lines.push(`- **${fmtTime(config.timeWindow.end.toISOString())}** — End of analyzed window`);
+    lines.push('');
+
+    lines.push('## Root Cause');
+    lines.push('');
+    if (primary) {
+        lines.push(`**${primary.probableCause}** (confidence: ${primary.confidence}, category: ${primary.category.replace(/_/g, ' ')})`);
+        lines.push('');
+        lines.push('Evidence:');
+        for (const e of primary.evidence) { lines.push(`- ${e}`); }
+    } else {
+        lines.push('_No correlation patterns detected. Describe the confirmed root cause here._');
+    }
+    lines.push('');
+
+    if (correlations.length > 1) {
+        lines.push('## Contributing Factors');
+        lines.push('');
+        for (const c of correlations.slice(1)) {
+            lines.push(`- ${c.probableCause} (confidence: ${c.confidence})`);
+        }
+        lines.push('');
+    }
+
+    lines.push('## Action Items');
+    lines.push('');
+    lines.push('| Action | Owner | Due |');
+    lines.push('|--------|-------|-----|');
+    for (const action of generateRecommendations(report)) {
+        lines.push(`| ${action.replace(/\|/g, '\\|')} | _TBD_ | _TBD_ |`);
+    }
+    lines.push('');
+
+    lines.push('## Lessons Learned');
+    lines.push('');
+    lines.push('- What went well: _TBD_');
+    lines.push('- What went wrong: _TBD_');
+    lines.push('- Where we got lucky: _TBD_');
+    lines.push('');
+    lines.push('---');
+    lines.push(`*Drafted by Anypoint Monitor War Room Mode from the report generated ${report.generatedAt}*`);
+
+    return lines.join('\n');
+}
+
+function fmtTime(timestamp: string): string {
+    const d = new Date(timestamp);
+    if (isNaN(d.getTime())) { return timestamp; }
+    return d.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, '');
+}
@@ -7,6 +7,7 @@ import {
     summaryCard,
     button,
     escapeHtml as escHtml,
+    escapeAttr,
     type BadgeVariant,
 } from '../webview/ui-kit';
 import {
@@ -14,17 +15,81 @@ import {
     WarRoomData,
     TimelineEvent,
     CorrelationResult,
+    WarRoomIncident,
+    IncidentDiff,
+    LiveRefreshHandler,
+    MQQueueStats,
 } from './types';
+import { createIncident, appendSnapshot, saveIncident } from './incidentStore';
+import { diffReports, isDiffEmpty } from './incidentDiff';
+import { buildTimeline, analyzeCorrelations } from './correlationEngine';
+import { createLivePoller, findNewKeys, timelineEventKey, correlationKey } from './liveMerge';
+import { generateRecommendations } from './recommendations';
+import { renderJsonExport, renderPostmortem } from './reportExporter';
+import { buildSwimlaneModel, renderSwimlaneHtml, correlationApps, SWIMLANE_STYLES, SWIMLANE_SCRIPT } from './swimlaneChart';
 
 const WARROOM_DIR = '.warroom';
 const REPORTS_DIR = 'reports';
 
+type ReportExportFormat = 'html' | 'json' | 'postmortem';
+
+const EXPORT_FORMATS: { format: ReportExportFormat; label: string; description: string; prefix: string; extension: string; filterName: string }[] = [
+    { format: 'html', label: 'Standalone HTML', description: 'Self-contained page to share outside VS Code', prefix: 'incident', extension: 'html', filterName: 'HTML' },
+    { format: 'json', label: 'JSON', description: 'Versioned machine-readable report', prefix: 'incident', extension: 'json', filterName: 'JSON' },
+    { format: 'postmortem', label: 'Postmortem Template', description: 'Markdown draft with impact, timeline, root cause and action items', prefix: 'postmortem', extension: 'md', filterName: 'Markdown' }
+];
+
+const DEFAULT_LIVE_REFRESH_SECONDS = 60;
+const MIN_LIVE_REFRESH_SECONDS = 15;
+
+interface LiveViewState {
+    available: boolean;
+    active: boolean;
+    intervalSeconds: number;
+    lastRefresh: string | null;
+    newTimelineKeys: Set<string>;
+    newCorrelationKeys: Set<string>;
+}
+
 export async function generateReport(
     data: WarRoomData,
     timeline: TimelineEvent[],
-    correlations: CorrelationResult[]
+    correlations: CorrelationResult[],
+    incident?: WarRoomIncident,
+    refresh?: LiveRefreshHandler
 ): Promise<string> {
-    const report: WarRoomReport = {
+    const report = buildReport(data, timeline, correlations);
+
+    const markdown = renderMarkdown(report);
+    const filePath = await saveReport(markdown);
+
+    // Persist the full report as a snapshot of the (new or resumed) incident
+    const updatedIncident = incident ? appendSnapshot(incident, report) : createIncident(report);
+    saveIncident(updatedIncident);
+
+    openReportPanel(updatedIncident, filePath, refresh ? { data, refresh } : undefined);
+
+    // Also reveal the saved file path in status bar
+    if (filePath) {
+        vscode.window.setStatusBarMessage(`War Room report saved: ${filePath}`, 8000);
+    }
+
+    return markdown;
+}
+
+/**
+ * Re-open the latest snapshot of a saved incident without collecting new data.
+ */
+export function showIncidentReport(incident: WarRoomIncident): void {
+    openReportPanel(incident, null);
+}
+
+function buildReport(
+    data: WarRoomData,
+    timeline: TimelineEvent[],
+    correlations: CorrelationResult[]
+): WarRoomReport {
+    return {
         config: data.config,
         blastRadius: data.blastRadius,
         timeline,
@@ -32,20 +97,96 @@ export async function generateReport(
         apps: data.apps,
         collectionErrors: data.collectionErrors,
         collectionTime: data.collectionTime,
-        generatedAt: new Date().toISOString()
+        generatedAt: new Date().toISOString(),
+        mqStats: data.mqStats
     };
+}
 
-    const markdown = renderMarkdown(report);
-    const filePath = await saveReport(markdown);
+function getLiveRefreshSeconds(): number {
+    const seconds = vscode.workspace
+        .getConfiguration('anypointMonitor')
+        .get<number>('warRoom.liveRefreshSeconds', DEFAULT_LIVE_REFRESH_SECONDS);
+    return Math.max(MIN_LIVE_REFRESH_SECONDS, seconds || DEFAULT_LIVE_REFRESH_SECONDS);
+}
+
+function openReportPanel(
+    incident: WarRoomIncident,
+    filePath: string | null,
+    liveSource?: { data: WarRoomData; refresh: LiveRefreshHandler }
+): void {
+    let currentIncident = incident;
+    let report = incident.snapshots[incident.snapshots.length - 1];
+    let markdown = renderMarkdown(report);
+    let liveData = liveSource?.data;
+    const refreshLive = liveSource ? createLivePoller(liveSource.refresh, report.config.timeWindow.end) : undefined;
+    let liveTimer: NodeJS.Timeout | undefined;
+    let liveInFlight = false;
+    let unsavedLiveUpdates = false;
+
+    const live: LiveViewState = {
+        available: !!liveSource,
+        active: false,
+        intervalSeconds: getLiveRefreshSeconds(),
+        lastRefresh: null,
+        newTimelineKeys: new Set(),
+        newCorrelationKeys: new Set()
+    };
 
     // Open formatted webview panel
     const panel = vscode.window.createWebviewPanel(
         'warRoomReport',
-        `War Room: ${data.config.severity} — ${data.config.environment}`,
+        `War Room: ${report.config.severity} — ${report.config.environment}`,
         vscode.ViewColumn.One,
         { enableScripts: true, retainContextWhenHidden: true }
     );
-    panel.webview.html = renderWebview(report);
+
+    const render = () => {
+        // Compare against the last saved snapshot that is not the report on screen
+        const snapshots = currentIncident.snapshots;
+        const last = snapshots[snapshots.length - 1];
+        const previous = last === report ? snapshots[snapshots.length - 2] : last;
+        const diff = previous ? diffReports(previous, report) : null;
+        panel.webview.html = renderWebview(report, { incident: currentIncident, diff, live });
+    };
+
+    const pollLive = async () => {
+        if (!refreshLive || !liveData || liveInFlight) { return; }
+        liveInFlight = true;
+        try {
+            liveData = await refreshLive(liveData);
+
+            const timeline = buildTimeline(liveData);
+            const correlations = analyzeCorrelations(liveData, timeline);
+            live.newTimelineKeys = findNewKeys(report.timeline, timeline, timelineEventKey);
+            live.newCorrelationKeys = findNewKeys(report.correlations, correlations, correlationKey);
+            live.lastRefresh = new Date().toISOString();
+
+            report = buildReport(liveData, timeline, correlations);
+            markdown = renderMarkdown(report);
+            unsavedLiveUpdates = true;
+            render();
+        } catch (err: any) {
+            panel.webview.postMessage({ command: 'toast', text: `Live refresh failed: ${err.message || err}` });
+        } finally {
+            liveInFlight = false;
+        }
+    };
+
+    const stopLive = () => {
+        if (liveTimer) {
+            clearInterval(liveTimer);
+            liveTimer = undefined;
+        }
+        live.active = false;
+        // Persist the live state as one snapshot rather than one per poll
+        if (unsavedLiveUpdates) {
+            currentIncident = appendSnapshot(currentIncident, report);
+            saveIncident(currentIncident);
+            unsavedLiveUpdates = false;
+        }
+    };
+
+    render();
 
     // Handle webview messages for interactive actions
     panel.webview.onDidReceiveMessage(async (message) => {
@@ -55,11 +196,24 @@ export async function generateReport(
                 panel.webview.postMessage({ command: 'toast', text: 'Report copied to clipboard' });
                 break;
             case 'refreshReport':
+                stopLive();
                 panel.dispose();
-                await vscode.commands.executeCommand('anypoint-monitor.startWarRoom');
+                await vscode.commands.executeCommand('anypoint-monitor.openWarRoomIncident', { incidentId: currentIncident.id, rerun: true });
+                break;
+            case 'toggleLive':
+                if (live.active) {
+                    stopLive();
+                    render();
+                } else if (liveSource) {
+                    live.active = true;
+                    live.intervalSeconds = getLiveRefreshSeconds();
+                    liveTimer = setInterval(pollLive, live.intervalSeconds * 1000);
+                    render();
+                    await pollLive();
+                }
                 break;
             case 'openMarkdown':
-                if (filePath) {
+                if (filePath && !unsavedLiveUpdates) {
                     const doc = await vscode.workspace.openTextDocument(filePath);
                     await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
                 } else {
@@ -67,6 +221,13 @@ export async function generateReport(
                     await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: false });
                 }
                 break;
+            case 'exportReport': {
+                const savedPath = await exportReport(report);
+                if (savedPath) {
+                    panel.webview.postMessage({ command: 'toast', text: `Exported to ${path.basename(savedPath)}` });
+                }
+                break;
+            }
             case 'openCommandCenter':
                 await vscode.commands.executeCommand('anypoint-monitor.commandCenter');
                 panel.webview.postMessage({ command: 'toast', text: `Opening Command Center — select ${message.appName}` });
@@ -78,12 +239,7 @@ export async function generateReport(
         }
     });
 
-    // Also reveal the saved file path in status bar
-    if (filePath) {
-        vscode.window.setStatusBarMessage(`War Room report saved: ${filePath}`, 8000);
-    }
-
-    return markdown;
+    panel.onDidDispose(() => stopLive());
 }
 
 // ─── Webview renderer ────────────────────────────────────────────────────────
@@ -105,8 +261,48 @@ function directionBadgeHtml(dir: string): string {
     return `<span class="am-badge am-badge-pill ${dirCls}">${escHtml(dir)}</span>`;
 }
 
-function renderWebview(report: WarRoomReport): string {
+interface WebviewRenderOptions {
+    incident?: WarRoomIncident;
+    diff?: IncidentDiff | null;
+    live?: LiveViewState;
+    /** Offline export: no VS Code API, action buttons or app links */
+    standalone?: boolean;
+}
+
+const STATIC_LIVE_STATE: LiveViewState = {
+    available: false,
+    active: false,
+    intervalSeconds: 0,
+    lastRefresh: null,
+    newTimelineKeys: new Set(),
+    newCorrelationKeys: new Set()
+};
+
+/** Fallback values for the VS Code theme variables the ui-kit tokens resolve to */
+const STANDALONE_THEME_STYLES = `
+        :root {
+            --vscode-editor-background: #ffffff;
+            --vscode-sideBar-background: #f6f8fa;
+            --vscode-editorWidget-background: #ffffff;
+            --vscode-list-hoverBackground: #eef1f4;
+            --vscode-editor-foreground: #1f2328;
+            --vscode-descriptionForeground: #59636e;
+            --vscode-disabledForeground: #818b98;
+            --vscode-textLink-foreground: #0969da;
+            --vscode-panel-border: #d1d9e0;
+            --vscode-badge-background: #eef1f4;
+            --vscode-badge-foreground: #1f2328;
+            --vscode-font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+            --vscode-font-size: 13px;
+        }
+        body { background: var(--vscode-editor-background); color: var(--vscode-editor-foreground); }
+`;
+
+function renderWebview(report: WarRoomReport, opts: WebviewRenderOptions = {}): string {
     const { config, blastRadius, timeline, correlations, apps, collectionErrors, collectionTime } = report;
+    const { incident, diff, standalone } = opts;
+    const live = opts.live || STATIC_LIVE_STATE;
+    const interactive = !standalone;
 
     const primary = correlations[0];
     const totalErrors = [...apps.values()].reduce((s, a) => s + a.logs.errors, 0);
@@ -119,9 +315,9 @@ function renderWebview(report: WarRoomReport): string {
         config.severity === 'SEV1' ? 'war-sev-sev1' : config.severity === 'SEV2' ? 'war-sev-sev2' : 'war-sev-sev3';
 
     const blastRows = [
-        ...blastRadius.seedApps.map(a => ({ app: a, dir: 'SEED', hops: 0 })),
-        ...blastRadius.upstream.map(u => ({ app: u.app, dir: 'UPSTREAM', hops: u.hops })),
-        ...blastRadius.downstream.map(d => ({ app: d.app, dir: 'DOWNSTREAM', hops: d.hops }))
+        ...blastRadius.seedApps.map(a => ({ app: a, dir: 'SEED', hops: 0, impact: undefined as number | undefined, confidence: undefined as number | undefined, via: undefined as string | undefined, noTrafficData: undefined as boolean | undefined })),
+        ...blastRadius.upstream.map(u => ({ app: u.app, dir: 'UPSTREAM', hops: u.hops, impact: u.impact, confidence: u.confidence, via: u.via, noTrafficData: u.noTrafficData })),
+        ...blastRadius.downstream.map(d => ({ app: d.app, dir: 'DOWNSTREAM', hops: d.hops, impact: d.impact, confidence: d.confidence, via: d.via, noTrafficData: d.noTrafficData }))
     ];
 
     const extraStyles = `
@@ -359,6 +555,21 @@ function renderWebview(report: WarRoomReport): string {
         .war-count-error { color: var(--am-error); font-weight: 600; }
         .war-count-warn { color: var(--am-warning); font-weight: 600; }
         .war-count-zero { color: var(--am-text-muted); }
+        .am-table.war-table tr.war-row-new td {
+            background: color-mix(in srgb, var(--am-info) 10%, transparent);
+        }
+        .war-new-flag { margin-left: 6px; }
+        .war-live-pill {
+            padding: 3px 10px;
+            border-radius: var(--am-radius-pill);
+            font-size: 12px;
+            color: var(--am-error);
+            border: 1px solid color-mix(in srgb, var(--am-error) 35%, transparent);
+            background: color-mix(in srgb, var(--am-error) 10%, transparent);
+        }
+        .war-other-causes { border-top: 1px solid var(--am-border); margin-top: 12px; padding-top: 12px; }
+        .war-other-cause { font-size: 13px; color: var(--am-text-secondary); padding: 4px 0; }
+        ${SWIMLANE_STYLES}
     `;
 
     const scripts = `
@@ -385,10 +596,21 @@ function openCommandCenter(appName) {
 function openLogs(appName) {
     vscode.postMessage({ command: 'openLogs', appName });
 }
+function exportReport() {
+    vscode.postMessage({ command: 'exportReport' });
+}
+function toggleLive() {
+    vscode.postMessage({ command: 'toggleLive' });
+}
+// Live mode re-renders the whole document; keep the reader's scroll position
+const savedState = vscode.getState();
+if (savedState && savedState.scrollY) { window.scrollTo(0, savedState.scrollY); }
+window.addEventListener('scroll', () => vscode.setState(Object.assign({}, vscode.getState() || {}, { scrollY: window.scrollY })));
 window.addEventListener('message', event => {
     const msg = event.data;
     if (msg.command === 'toast') { showToast(msg.text); }
 });
+${SWIMLANE_SCRIPT}
 `.trim();
 
     const body = `
@@ -402,16 +624,20 @@ window.addEventListener('message', event => {
             <div class="am-page-header-meta">
                 <span class="war-meta-pill">🏢 ${escHtml(config.environment)}</span>
                 <span class="war-meta-pill">📱 ${config.applications.map(a => escHtml(a.name)).join(', ')}</span>
+                ${live.active ? `<span class="war-live-pill">● LIVE every ${live.intervalSeconds}s${live.lastRefresh ? ` · last poll ${fmtTime(live.lastRefresh)}` : ''}</span>` : ''}
             </div>
             <div class="am-timestamp">
                 ${fmtDate(config.timeWindow.start)} → ${fmtDate(config.timeWindow.end)}
                 · Generated ${fmtDate(new Date(report.generatedAt))}
+                ${incident ? `· ${escHtml(incident.id)} (snapshot ${incident.snapshots.length})` : ''}
             </div>
-            <div class="war-header-actions">
+            ${interactive ? `<div class="war-header-actions">
                 ${button('Copy Report', { variant: 'ghost', icon: '📋', onclick: 'copyReport()' })}
-                ${button('Refresh', { variant: 'ghost', icon: '🔄', onclick: 'refreshReport()' })}
+                ${button('Re-run Collection', { variant: 'ghost', icon: '🔄', onclick: 'refreshReport()' })}
                 ${button('Open Markdown', { variant: 'ghost', icon: '📄', onclick: 'openMarkdown()' })}
-            </div>
+                ${button('Export…', { variant: 'ghost', icon: '📤', onclick: 'exportReport()' })}
+                ${live.available ? button(live.active ? 'Stop Live' : 'Go Live', { variant: live.active ? 'danger' : 'ghost', icon: live.active ? '⏹' : '📡', onclick: 'toggleLive()' }) : ''}
+            </div>` : ''}
         </div>
     </header>
 
@@ -457,68 +683,84 @@ window.addEventListener('message', event => {
     <section class="war-section">
         <div class="war-section-header">🔍 Probable Cause</div>
         <div class="war-section-body">
-            <div class="war-cause-box">
+            <div class="war-cause-box"${primary ? appsDataAttr(primary, apps) : ''}>
                 <div class="war-cause-label">Assessment</div>
                 <div class="war-cause-text">${primary ? escHtml(primary.probableCause) : 'Insufficient data for root cause analysis'}</div>
                 ${primary ? `<div class="war-conf-row">
                     ${badge(primary.confidence.toUpperCase() + ' CONFIDENCE', confidenceBadgeVariant(primary.confidence), true)}
                     <span class="war-cell-muted">${primary.category.replace(/_/g, ' ').toUpperCase()}</span>
+                    ${newFlag(live.newCorrelationKeys.has(correlationKey(primary)))}
                 </div>
                 <ul class="war-evidence-list">
                     ${primary.evidence.map(e => `<li>${escHtml(e)}</li>`).join('')}
-                </ul>` : '<p class="war-cell-muted">No correlation patterns detected in the collected data.</p>'}
+                </ul>
+                ${correlations.length > 1 ? `<div class="war-other-causes">
+                    <div class="war-cause-label">Other Candidates</div>
+                    ${correlations.slice(1).map(c => `<div class="war-other-cause"${appsDataAttr(c, apps)}>
+                        ${badge(c.confidence.toUpperCase(), confidenceBadgeVariant(c.confidence))}
+                        ${escHtml(c.probableCause)}${newFlag(live.newCorrelationKeys.has(correlationKey(c)))}
+                    </div>`).join('')}
+                </div>` : ''}` : '<p class="war-cell-muted">No correlation patterns detected in the collected data.</p>'}
             </div>
         </div>
     </section>
 
+    ${diff ? renderDiffSectionHtml(diff) : ''}
+
     <section class="war-section">
         <div class="war-section-header">💥 Blast Radius (${blastRows.length} apps)</div>
         <div class="war-section-body">
             <div class="am-table-container">
                 <table class="am-table war-table">
                     <thead><tr>
-                        <th>Application</th><th>Direction</th><th>Hops</th>
-                        <th>Status</th><th>Errors</th><th>Warnings</th><th>Actions</th>
+                        <th>Application</th><th>Direction</th><th>Hops</th><th>Impact</th>
+                        <th>Status</th><th>Errors</th><th>Warnings</th>${interactive ? '<th>Actions</th>' : ''}
                     </tr></thead>
                     <tbody>
                     ${blastRows.map(r => {
         const appData = apps.get(r.app);
         const st = appData?.status.status || 'UNKNOWN';
         return `<tr class="am-row">
-                            <td><strong>${escHtml(r.app)}</strong></td>
+                            <td><strong>${escHtml(r.app)}</strong>${r.via ? ` <span class="war-cell-muted">via ${escHtml(r.via)}</span>` : ''}</td>
                             <td>${directionBadgeHtml(r.dir)}</td>
                             <td class="war-cell-muted">${r.hops}</td>
+                            <td class="war-cell-muted"${r.confidence !== undefined ? ` title="Path confidence ${r.confidence.toFixed(2)}"` : ''}>${r.impact !== undefined ? r.impact.toFixed(2) : '—'}${r.noTrafficData ? ' <span title="No inbound traffic sample; weighted by the average share">(no traffic data)</span>' : ''}</td>
                             <td>${statusBadge(st)}</td>
                             <td>${appData?.logs.errors ? `<span class="war-count-error">${appData.logs.errors}</span>` : '<span class="war-count-zero">0</span>'}</td>
                             <td>${appData?.logs.warnings ? `<span class="war-count-warn">${appData.logs.warnings}</span>` : '<span class="war-count-zero">0</span>'}</td>
-                            <td><div class="war-app-actions">
+                            ${interactive ? `<td><div class="war-app-actions">
                                 <span class="war-app-link" onclick="openCommandCenter(${JSON.stringify(r.app)})">Command Center</span>
                                 <span class="war-app-link" onclick="openLogs(${JSON.stringify(r.app)})">Logs</span>
-                            </div></td>
+                            </div></td>` : ''}
                         </tr>`;
     }).join('')}
                     </tbody>
                 </table>
             </div>
+            ${blastRadius.prunedEdges ? `<p class="war-cell-muted">${blastRadius.prunedEdges} dependencies below the minimum confidence were not followed.</p>` : ''}
         </div>
     </section>
 
     <section class="war-section">
         <div class="war-section-header">⏱ Timeline (${timeline.length} events)</div>
         <div class="war-section-body">
+            ${renderSwimlaneHtml(buildSwimlaneModel(report), interactive)}
             <div class="am-table-container">
                 <table class="am-table war-table">
                     <thead><tr><th>Time</th><th>App</th><th>Type</th><th>Severity</th><th>Description</th></tr></thead>
                     <tbody>
                     ${timeline.length === 0
         ? `<tr class="war-empty-row"><td colspan="5">No significant events detected in the time window.</td></tr>`
-        : timeline.slice(0, 100).map(ev => `<tr class="am-row war-row-sev-${ev.severity}">
-                            <td class="war-cell-muted war-cell-nowrap">${fmtTime(ev.timestamp)}</td>
+        : timeline.slice(0, 100).map(ev => {
+            const isNew = live.newTimelineKeys.has(timelineEventKey(ev));
+            return `<tr class="am-row war-row-sev-${ev.severity}${isNew ? ' war-row-new' : ''}"${epochAttr('ts', ev.timestamp)}>
+                            <td class="war-cell-muted war-cell-nowrap">${fmtTime(ev.timestamp)}${newFlag(isNew)}</td>
                             <td class="war-cell-nowrap"><strong>${escHtml(ev.app)}</strong></td>
                             <td>${badge(ev.type, 'default')}</td>
                             <td><span class="war-sev-dot ${ev.severity}"></span>${escHtml(ev.severity)}</td>
                             <td class="war-cell-muted">${escHtml(ev.description.substring(0, 120))}</td>
-                        </tr>`).join('')
+                        </tr>`;
+        }).join('')
     }
                     ${timeline.length > 100 ? `<tr class="war-empty-row"><td colspan="5">${timeline.length - 100} more events omitted</td></tr>` : ''}
                     </tbody>
@@ -541,7 +783,7 @@ window.addEventListener('message', event => {
                 const short = escHtml(g.pattern.substring(0, 100));
                 const full = escHtml(g.pattern);
                 const expandable = g.pattern.length > 100;
-                rows.push(`<tr class="am-row">
+                rows.push(`<tr class="am-row"${epochAttr('first', g.firstSeen)}${epochAttr('last', g.lastSeen)}>
                             <td><strong>${escHtml(appName)}</strong></td>
                             <td><span class="war-count-error">${g.count}</span></td>
                             <td class="war-cell-muted">${fmtTime(g.firstSeen)}</td>
@@ -578,7 +820,7 @@ window.addEventListener('message', event => {
                 const flag = dep.suspicious
                     ? `<span class="war-flag-suspicious">⚠ ${escHtml(dep.suspiciousReason || 'Near incident window')}</span>`
                     : `<span class="war-flag-none">—</span>`;
-                rows.push(`<tr class="am-row${dep.suspicious ? ' am-row-warning war-row-sev-warning' : ''}">
+                rows.push(`<tr class="am-row${dep.suspicious ? ' am-row-warning war-row-sev-warning' : ''}"${epochAttr('ts', dep.timestamp)}>
                             <td><strong>${escHtml(dep.appName)}</strong></td>
                             <td><code class="war-code">${escHtml(dep.version)}</code></td>
                             <td class="war-cell-muted war-cell-nowrap">${fmtTime(dep.timestamp)}</td>
@@ -614,7 +856,9 @@ window.addEventListener('message', event => {
                             <td>${escHtml(a.metric)}</td>
                             <td><span class="war-count-error">${fmtMetric(a.current, a.metric)}</span></td>
                             <td class="war-cell-muted">${fmtMetric(a.baseline, a.metric)}</td>
-                            <td>${badge(a.deviation.toFixed(1) + 'x', 'warning')}</td>
+                            <td>${badge(a.score !== undefined
+        ? `${a.method === 'mad' ? 'robust z' : 'z'}=${a.score.toFixed(1)}`
+        : a.deviation.toFixed(1) + 'x', 'warning')}</td>
                             <td>${a.severity === 'high'
         ? badge('HIGH', 'error')
         : badge('MEDIUM', 'warning')}</td>
@@ -631,12 +875,14 @@ window.addEventListener('message', event => {
         </div>
     </section>
 
+    ${report.mqStats && report.mqStats.length > 0 ? renderMQSectionHtml(report.mqStats) : ''}
+
     <section class="war-section">
         <div class="war-section-header">🖥 Application Status</div>
         <div class="war-section-body">
             <div class="am-table-container">
                 <table class="am-table war-table">
-                    <thead><tr><th>Application</th><th>Status</th><th>Workers</th><th>Mule Runtime</th><th>Region</th><th>Last Modified</th><th>Actions</th></tr></thead>
+                    <thead><tr><th>Application</th><th>Status</th><th>Workers</th><th>Mule Runtime</th><th>Region</th><th>Last Modified</th>${interactive ? '<th>Actions</th>' : ''}</tr></thead>
                     <tbody>
                     ${[...apps.values()].map(appData => {
         const s = appData.status;
@@ -647,10 +893,10 @@ window.addEventListener('message', event => {
                     <td class="war-cell-muted">${s.runtimeVersion ? escHtml(s.runtimeVersion) : '—'}</td>
                     <td class="war-cell-muted">${s.region ? escHtml(s.region) : '—'}</td>
                     <td class="war-cell-muted">${s.lastRestart ? fmtTime(s.lastRestart) : '—'}</td>
-                    <td><div class="war-app-actions">
+                    ${interactive ? `<td><div class="war-app-actions">
                         <span class="war-app-link" onclick="openCommandCenter(${JSON.stringify(s.name)})">Command Center</span>
                         <span class="war-app-link" onclick="openLogs(${JSON.stringify(s.name)})">Logs</span>
-                    </div></td>
+                    </div></td>` : ''}
                 </tr>`;
     }).join('')}
                     </tbody>
@@ -701,11 +947,19 @@ window.addEventListener('message', event => {
     return wrapWebviewHtml({
         title: 'War Room Report',
         body,
-        scripts,
-        extraStyles,
+        scripts: interactive ? scripts : undefined,
+        extraStyles: standalone ? STANDALONE_THEME_STYLES + extraStyles : extraStyles,
     });
 }
 
+/**
+ * Self-contained HTML export of the report: same sections as the panel, with
+ * inline styles and fallback theme colors so it renders outside VS Code.
+ */
+export function renderStandaloneHtml(report: WarRoomReport): string {
+    return renderWebview(report, { standalone: true });
+}
+
 // ─── Markdown renderer (saved to disk) ───────────────────────────────────────
 
 function renderMarkdown(report: WarRoomReport): string {
@@ -740,19 +994,23 @@ function renderMarkdown(report: WarRoomReport): string {
 
     lines.push(`## Blast Radius`);
     lines.push('');
-    lines.push(`| App | Direction | Hops | Status | Errors | Warnings |`);
-    lines.push(`|-----|-----------|------|--------|--------|----------|`);
+    lines.push(`| App | Direction | Hops | Impact | Status | Errors | Warnings |`);
+    lines.push(`|-----|-----------|------|--------|--------|--------|----------|`);
     for (const seed of blastRadius.seedApps) {
         const d = apps.get(seed);
-        lines.push(`| **${seed}** | SEED | 0 | ${d?.status.status ?? 'UNKNOWN'} | ${d?.logs.errors ?? 0} | ${d?.logs.warnings ?? 0} |`);
+        lines.push(`| **${seed}** | SEED | 0 | — | ${d?.status.status ?? 'UNKNOWN'} | ${d?.logs.errors ?? 0} | ${d?.logs.warnings ?? 0} |`);
     }
     for (const u of blastRadius.upstream) {
         const d = apps.get(u.app);
-        lines.push(`| ${u.app} | UPSTREAM | ${u.hops} | ${d?.status.status ?? 'UNKNOWN'} | ${d?.logs.errors ?? 0} | ${d?.logs.warnings ?? 0} |`);
+        lines.push(`| ${u.app}${u.via ? ` (via ${u.via})` : ''} | UPSTREAM | ${u.hops} | ${u.impact?.toFixed(2) ?? '—'}${u.noTrafficData ? ' (no traffic data)' : ''} | ${d?.status.status ?? 'UNKNOWN'} | ${d?.logs.errors ?? 0} | ${d?.logs.warnings ?? 0} |`);
     }
     for (const dn of blastRadius.downstream) {
         const d = apps.get(dn.app);
-        lines.push(`| ${dn.app} | DOWNSTREAM | ${dn.hops} | ${d?.status.status ?? 'UNKNOWN'} | ${d?.logs.errors ?? 0} | ${d?.logs.warnings ?? 0} |`);
+        lines.push(`| ${dn.app}${dn.via ? ` (via ${dn.via})` : ''} | DOWNSTREAM | ${dn.hops} | ${dn.impact?.toFixed(2) ?? '—'}${dn.noTrafficData ? ' (no traffic data)' : ''} | ${d?.status.status ?? 'UNKNOWN'} | ${d?.logs.errors ?? 0} | ${d?.logs.warnings ?? 0} |`);
+    }
+    if (blastRadius.prunedEdges) {
+        lines.push('');
+        lines.push(`_${blastRadius.prunedEdges} dependencies below the minimum confidence were not followed._`);
     }
     lines.push('');
 
@@ -797,6 +1055,18 @@ function renderMarkdown(report: WarRoomReport): string {
     if (!anyDep) { lines.push(`| *No deployments found* | | | | | |`); }
     lines.push('');
 
+    const busyQueues = busiestQueues(report.mqStats || []);
+    if (busyQueues.length > 0) {
+        lines.push(`## Anypoint MQ Queues`);
+        lines.push('');
+        lines.push(`| Queue | Region | Messages | In-Flight | Type | DLQ |`);
+        lines.push(`|-------|--------|----------|-----------|------|-----|`);
+        for (const q of busyQueues) {
+            lines.push(`| ${q.queueId} | ${q.region} | ${q.messages} | ${q.inflightMessages} | ${q.fifo ? 'FIFO' : 'Standard'} | ${q.deadLetterQueueId || '—'} |`);
+        }
+        lines.push('');
+    }
+
     lines.push(`## Application Status`);
     lines.push('');
     lines.push(`| App | Status | Workers | Mule Runtime | Region | Last Modified |`);
@@ -833,133 +1103,6 @@ function renderMarkdown(report: WarRoomReport): string {
     return lines.join('\n');
 }
 
-// ─── Recommendations ─────────────────────────────────────────────────────────
-
-function generateRecommendations(report: WarRoomReport): string[] {
-    const actions: string[] = [];
-    const primary = report.correlations[0];
-
-    if (!primary) {
-        actions.push('Review application logs for any error patterns');
-        actions.push('Check Anypoint Platform status page for known incidents');
-        return actions;
-    }
-
-    switch (primary.category) {
-        case 'recent_deployment': {
-            for (const [, appData] of report.apps) {
-                for (const dep of appData.deployments) {
-                    if (dep.suspicious) {
-                        actions.push(`**Rollback ${dep.appName}** to previous version (currently ${dep.version}, deployed by ${dep.triggeredBy})`);
-                    }
-                }
-            }
-            actions.push('Review deployment change logs and diff for the suspicious deployments');
-            actions.push('Check if the deployment included configuration changes that may have caused the issue');
-            break;
-        }
-        case 'resource_exhaustion': {
-            for (const [appName, appData] of report.apps) {
-                for (const anomaly of appData.metrics.anomalies) {
-                    if (anomaly.metric === 'CPU' && anomaly.severity === 'high') {
-                        actions.push(`**Scale up ${appName}** workers or increase worker size (CPU at ${anomaly.current.toFixed(1)}%)`);
-                    }
-                    if (anomaly.metric === 'Memory' && anomaly.severity === 'high') {
-                        actions.push(`**Investigate memory leak in ${appName}** or increase worker memory (Memory at ${anomaly.current.toFixed(1)}%)`);
-                    }
-                }
-            }
-            actions.push('Consider enabling auto-scaling if available');
-            actions.push('Review recent traffic patterns for unexpected load increases');
-            break;
-        }
-        case 'downstream_failure': {
-            const downstreamApps = report.blastRadius.downstream.map(d => d.app);
-            actions.push(`**Investigate downstream services**: ${downstreamApps.join(', ')}`);
-            actions.push('Check if downstream services are responding and healthy');
-            actions.push('Review circuit breaker and retry policies in calling applications');
-            actions.push('Consider enabling fallback responses for degraded downstream services');
-            break;
-        }
-        case 'connectivity_failure': {
-            // Extract source→target pairs from evidence lines
-            const connPairs: Array<{ source: string; target: string }> = [];
-            for (const ev of primary.evidence) {
-                const match = ev.match(/^(.+?) errors reference (.+?):/);
-                if (match) {
-                    connPairs.push({ source: match[1], target: match[2] });
-                }
-            }
-            if (connPairs.length > 0) {
-                const uniqueTargets = [...new Set(connPairs.map(p => p.target))];
-                const uniqueSources = [...new Set(connPairs.map(p => p.source))];
-                actions.push(`**Investigate connectivity between ${uniqueSources.join(', ')} and ${uniqueTargets.join(', ')}**`);
-                for (const target of uniqueTargets) {
-                    actions.push(`Check if **${target}** is healthy, responding, and reachable from calling apps`);
-                }
-            } else {
-                actions.push('**Investigate connectivity** between the apps referenced in error messages');
-            }
-            actions.push('Review network policies, firewall rules, and DNS resolution');
-            actions.push('Check circuit breaker and retry configuration in calling applications');
-            break;
-        }
-        case 'shared_dependency': {
-            actions.push('Check shared infrastructure: load balancers, VPNs, databases');
-            actions.push('Review Anypoint Platform status page for regional outages');
-            actions.push('Check network connectivity between applications');
-            actions.push('Verify shared credentials and certificates have not expired');
-            break;
-        }
-        default: {
-            // Build contextual actions from actual findings instead of generic advice
-            const appsWithErrors: string[] = [];
-            const appsWithWarnings: string[] = [];
-            const stoppedApps: string[] = [];
-            const topWarningPatterns: Array<{ app: string; pattern: string; count: number }> = [];
-
-            for (const [appName, appData] of report.apps) {
-                if (appData.logs.errors > 0) { appsWithErrors.push(appName); }
-                if (appData.logs.warnings > 0) {
-                    appsWithWarnings.push(appName);
-                    for (const g of appData.logs.groups.filter(g => g.level === 'WARN').slice(0, 3)) {
-                        topWarningPatterns.push({ app: appName, pattern: g.pattern.substring(0, 80), count: g.count });
-                    }
-                }
-                const st = appData.status.status.toUpperCase();
-                if (['STOPPED', 'FAILED', 'UNDEPLOYED'].includes(st)) { stoppedApps.push(appName); }
-            }
-
-            if (stoppedApps.length > 0) {
-                actions.push(`**Investigate stopped/failed apps**: ${stoppedApps.join(', ')} — check deployment status and restart if needed`);
-            }
-            if (appsWithErrors.length > 0) {
-                actions.push(`**Review errors** on ${appsWithErrors.join(', ')} — see Error Summary above for patterns`);
-            }
-            if (topWarningPatterns.length > 0) {
-                actions.push(`**Review ${topWarningPatterns.reduce((s, p) => s + p.count, 0)} warnings** on ${appsWithWarnings.join(', ')} — see Warning Summary above for patterns`);
-                for (const wp of topWarningPatterns.slice(0, 3)) {
-                    actions.push(`Investigate warning on **${wp.app}** (${wp.count}x): "${wp.pattern}"`);
-                }
-            }
-            if (appsWithErrors.length === 0 && topWarningPatterns.length === 0 && stoppedApps.length === 0) {
-                actions.push('No errors, warnings, or failures detected — consider widening the time window');
-                actions.push('Check Anypoint Platform status page for known incidents');
-                actions.push('Verify application health via Real-Time Logs for live troubleshooting');
-            }
-        }
-    }
-
-    if (report.config.severity === 'SEV1') {
-        actions.push('**[SEV1]** Escalate to on-call engineering lead immediately');
-        actions.push('**[SEV1]** Begin customer communication if external impact confirmed');
-    } else if (report.config.severity === 'SEV2') {
-        actions.push('**[SEV2]** Notify engineering team lead within 30 minutes');
-    }
-
-    return actions;
-}
-
 // ─── Save to disk ─────────────────────────────────────────────────────────────
 
 async function saveReport(markdown: string): Promise<string | null> {
@@ -975,8 +1118,48 @@ async function saveReport(markdown: string): Promise<string | null> {
     return filePath;
 }
 
+/**
+ * Ask for an export format and destination (defaulting to .warroom/reports),
+ * then write the report. Returns the saved path, or null if cancelled.
+ */
+async function exportReport(report: WarRoomReport): Promise<string | null> {
+    const choice = await vscode.window.showQuickPick(EXPORT_FORMATS, {
+        title: 'Export War Room Report',
+        placeHolder: 'Select export format'
+    });
+    if (!choice) { return null; }
+
+    const fileName = `${choice.prefix}-${report.generatedAt.replace(/[:.]/g, '-')}.${choice.extension}`;
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const defaultUri = workspaceFolders && workspaceFolders.length > 0
+        ? vscode.Uri.file(path.join(workspaceFolders[0].uri.fsPath, WARROOM_DIR, REPORTS_DIR, fileName))
+        : undefined;
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri,
+        filters: { [choice.filterName]: [choice.extension] },
+        saveLabel: 'Export'
+    });
+    if (!target) { return null; }
+
+    const content =
+        choice.format === 'html' ? renderStandaloneHtml(report) :
+        choice.format === 'json' ? renderJsonExport(report) :
+        renderPostmortem(report);
+
+    const dir = path.dirname(target.fsPath);
+    if (!fs.existsSync(dir)) { fs.mkdirSync(dir, { recursive: true }); }
+    fs.writeFileSync(target.fsPath, content, 'utf-8');
+    return target.fsPath;
+}
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Badge marking rows that appeared in the latest live poll */
+function newFlag(isNew: boolean): string {
+    return isNew ? `<span class="war-new-flag">${badge('NEW', 'info')}</span>` : '';
+}
+
 /** Convert **bold** markdown inside already-escaped HTML back to <strong> */
 function markdownBold(text: string): string {
     return text.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
@@ -1014,6 +1197,17 @@ function statusBadge(status: string): string {
     return badge(status, 'default');
 }
 
+/** ` data-<name>="<epoch ms>"` for swimlane brushing, or nothing when the timestamp does not parse */
+function epochAttr(name: string, iso: string): string {
+    const ms = Date.parse(iso);
+    return isNaN(ms) ? '' : ` data-${name}="${ms}"`;
+}
+
+function appsDataAttr(correlation: CorrelationResult, apps: Map<string, unknown>): string {
+    const names = correlationApps([correlation.probableCause, ...correlation.evidence], [...apps.keys()]);
+    return ` data-apps="${escapeAttr(JSON.stringify(names))}"`;
+}
+
 function renderWarningsSectionHtml(apps: Map<string, import('./types').AppWarRoomData>): string {
     const rows: string[] = [];
     for (const [appName, appData] of apps) {
@@ -1021,7 +1215,7 @@ function renderWarningsSectionHtml(apps: Map<string, import('./types').AppWarRoo
             const short = escHtml(g.pattern.substring(0, 100));
             const full = escHtml(g.pattern);
             const expandable = g.pattern.length > 100;
-            rows.push(`<tr class="am-row">
+            rows.push(`<tr class="am-row"${epochAttr('first', g.firstSeen)}${epochAttr('last', g.lastSeen)}>
                 <td><strong>${escHtml(appName)}</strong></td>
                 <td><span class="war-count-warn">${g.count}</span></td>
                 <td class="war-cell-muted">${fmtTime(g.firstSeen)}</td>
@@ -1049,3 +1243,81 @@ function renderWarningsSectionHtml(apps: Map<string, import('./types').AppWarRoo
     </div>
 </section>`;
 }
+
+/** Queues holding messages, busiest (by in-flight, then depth) first */
+function busiestQueues(mqStats: MQQueueStats[]): MQQueueStats[] {
+    return mqStats
+        .filter(q => q.messages > 0 || q.inflightMessages > 0)
+        .sort((a, b) => (b.inflightMessages - a.inflightMessages) || (b.messages - a.messages))
+        .slice(0, 15);
+}
+
+function renderMQSectionHtml(mqStats: MQQueueStats[]): string {
+    const queues = busiestQueues(mqStats);
+    const tbody = queues.length > 0
+        ? queues.map(q => `<tr class="am-row">
+                <td><strong>${escHtml(q.queueId)}</strong></td>
+                <td class="war-cell-muted">${escHtml(q.region)}</td>
+                <td>${q.messages.toLocaleString()}</td>
+                <td>${q.inflightMessages > 0 ? `<span class="war-count-warn">${q.inflightMessages.toLocaleString()}</span>` : '0'}</td>
+                <td>${q.fifo ? badge('FIFO', 'info') : badge('Standard', 'default')}</td>
+                <td class="war-cell-muted">${q.deadLetterQueueId ? escHtml(q.deadLetterQueueId) : '—'}</td>
+            </tr>`).join('')
+        : `<tr class="war-empty-row"><td colspan="6">All ${mqStats.length} queues are empty.</td></tr>`;
+
+    return `<section class="war-section">
+    <div class="war-section-header">📬 Anypoint MQ Queues</div>
+    <div class="war-section-body">
+        <div class="am-table-container">
+        <table class="am-table war-table">
+            <thead><tr><th>Queue</th><th>Region</th><th>Messages</th><th>In-Flight</th><th>Type</th><th>DLQ</th></tr></thead>
+            <tbody>${tbody}</tbody>
+        </table>
+        </div>
+    </div>
+</section>`;
+}
+
+function renderDiffSectionHtml(diff: IncidentDiff): string {
+    const rows: string[] = [];
+    const row = (change: string, variant: BadgeVariant, app: string, detail: string) => rows.push(`<tr class="am-row">
+                <td>${badge(change, variant)}</td>
+                <td><strong>${escHtml(app)}</strong></td>
+                <td class="war-cell-muted">${escHtml(detail)}</td>
+            </tr>`);
+
+    for (const change of diff.statusChanges) {
+        row('STATUS', 'info', change.app, `${change.from} → ${change.to}`);
+    }
+    for (const dep of diff.newDeployments) {
+        row('NEW DEPLOYMENT', 'warning', dep.appName, `v${dep.version} at ${fmtTime(dep.timestamp)} by ${dep.triggeredBy}`);
+    }
+    for (const g of diff.newLogGroups) {
+        row(`NEW ${g.level}`, g.level === 'ERROR' ? 'error' : 'warning', g.appName, `(${g.count}x) ${g.pattern.substring(0, 120)}`);
+    }
+    for (const g of diff.resolvedLogGroups) {
+        row(`RESOLVED ${g.level}`, 'success', g.appName, g.pattern.substring(0, 120));
+    }
+    for (const { app, anomaly } of diff.newAnomalies) {
+        row('NEW ANOMALY', 'error', app, anomaly.description);
+    }
+    for (const { app, anomaly } of diff.resolvedAnomalies) {
+        row('RESOLVED ANOMALY', 'success', app, anomaly.description);
+    }
+
+    const tbody = isDiffEmpty(diff)
+        ? `<tr class="war-empty-row"><td colspan="3">No changes since the previous snapshot.</td></tr>`
+        : rows.join('');
+
+    return `<section class="war-section">
+    <div class="war-section-header">🔁 Changes Since ${fmtDate(new Date(diff.previousGeneratedAt))}</div>
+    <div class="war-section-body">
+        <div class="am-table-container">
+        <table class="am-table war-table">
+            <thead><tr><th>Change</th><th>App</th><th>Detail</th></tr></thead>
+            <tbody>${tbody}</tbody>
+        </table>
+        </div>
+    </div>
+</section>`;
+}
@@ -0,0 +1,368 @@
+import { WarRoomReport } from './types';
+import { escapeHtml, escapeAttr } from '../webview/ui-kit';
+
+// ─── Model ────────────────────────────────────────────────────────────────────
+
+export type SwimlaneItemKind = 'error' | 'warn' | 'deployment' | 'anomaly' | 'status';
+
+export interface SwimlaneItem {
+    kind: SwimlaneItemKind;
+    /** Epoch ms, clamped to the chart domain */
+    t0: number;
+    t1: number;
+    label: string;
+}
+
+export interface SwimlaneLane {
+    app: string;
+    direction: 'SEED' | 'UPSTREAM' | 'DOWNSTREAM' | 'OTHER';
+    items: SwimlaneItem[];
+}
+
+export interface SwimlaneModel {
+    start: number;
+    end: number;
+    lanes: SwimlaneLane[];
+}
+
+const MINUTE_MS = 60000;
+/** How far before the incident window deployments may stretch the chart */
+const MAX_LEAD_MS = 60 * MINUTE_MS;
+const TICK_STEPS_MINUTES = [1, 2, 5, 10, 15, 30, 60, 120, 180, 360, 720, 1440];
+const MAX_TICKS = 8;
+
+/**
+ * One lane per app in the blast radius (seed, upstream, downstream order) with
+ * error/warning spans from log groups and point markers for deployments,
+ * metric anomalies and status changes.
+ */
+export function buildSwimlaneModel(report: WarRoomReport): SwimlaneModel {
+    const windowStart = report.config.timeWindow.start.getTime();
+    const windowEnd = report.config.timeWindow.end.getTime();
+    const leadLimit = windowStart - Math.min(MAX_LEAD_MS, Math.max(windowEnd - windowStart, MINUTE_MS));
+
+    const order: Array<{ app: string; direction: SwimlaneLane['direction'] }> = [
+        ...report.blastRadius.seedApps.map(app => ({ app, direction: 'SEED' as const })),
+        ...report.blastRadius.upstream.map(u => ({ app: u.app, direction: 'UPSTREAM' as const })),
+        ...report.blastRadius.downstream.map(d => ({ app: d.app, direction: 'DOWNSTREAM' as const }))
+    ];
+    for (const app of report.apps.keys()) {
+        if (!order.some(o => o.app === app)) { order.push({ app, direction: 'OTHER' }); }
+    }
+
+    const raw: Array<{ app: string; direction: SwimlaneLane['direction']; items: Array<SwimlaneItem & { at: number }> }> = [];
+    let start = windowStart;
+    let end = windowEnd;
+
+    for (const { app, direction } of order) {
+        if (raw.some(l => l.app === app)) { continue; }
+        const appData = report.apps.get(app);
+        const items: Array<SwimlaneItem & { at: number }> = [];
+
+        for (const g of appData?.logs.groups || []) {
+            if (g.level !== 'ERROR' && g.level !== 'WARN') { continue; }
+            const t0 = Date.parse(g.firstSeen);
+            const t1 = Date.parse(g.lastSeen);
+            if (isNaN(t0)) { continue; }
+            items.push({
+                kind: g.level === 'ERROR' ? 'error' : 'warn',
+                at: t0,
+                t0,
+                t1: isNaN(t1) ? t0 : Math.max(t0, t1),
+                label: `${g.level} ${g.count}x: ${g.pattern.substring(0, 120)}`
+            });
+        }
+        for (const dep of appData?.deployments || []) {
+            const at = Date.parse(dep.timestamp);
+            if (isNaN(at)) { continue; }
+            items.push({
+                kind: 'deployment', at, t0: at, t1: at,
+                label: `Deployed v${dep.version} by ${dep.triggeredBy}${dep.suspicious ? ' [SUSPICIOUS]' : ''}`
+            });
+        }
+        const anomalyAt = Date.parse(appData?.metrics.current.timestamp || '');
+        if (!isNaN(anomalyAt)) {
+            for (const anomaly of appData?.metrics.anomalies || []) {
+                items.push({ kind: 'anomaly', at: anomalyAt, t0: anomalyAt, t1: anomalyAt, label: anomaly.description });
+            }
+        }
+        for (const ev of report.timeline) {
+            if (ev.type !== 'status_change' || ev.app !== app) { continue; }
+            const at = Date.parse(ev.timestamp);
+            if (!isNaN(at)) { items.push({ kind: 'status', at, t0: at, t1: at, label: ev.description }); }
+        }
+
+        for (const item of items) {
+            start = Math.min(start, Math.max(item.t0, leadLimit));
+            end = Math.max(end, item.t1);
+        }
+        raw.push({ app, direction, items });
+    }
+
+    const lanes: SwimlaneLane[] = raw.map(lane => ({
+        app: lane.app,
+        direction: lane.direction,
+        items: lane.items.map(({ at, ...item }) => ({
+            ...item,
+            label: `${new Date(at).toISOString().substring(11, 19)}Z — ${item.label}`,
+            t0: Math.max(item.t0, start),
+            t1: Math.max(item.t1, start)
+        }))
+    }));
+
+    return { start, end: Math.max(end, start + MINUTE_MS), lanes };
+}
+
+/** Evenly spaced, minute-aligned axis ticks for [start, end] */
+export function axisTicks(start: number, end: number): number[] {
+    const spanMinutes = (end - start) / MINUTE_MS;
+    const stepMinutes = TICK_STEPS_MINUTES.find(s => spanMinutes / s <= MAX_TICKS) ?? TICK_STEPS_MINUTES[TICK_STEPS_MINUTES.length - 1];
+    const step = stepMinutes * MINUTE_MS;
+    const ticks: number[] = [];
+    for (let t = Math.ceil(start / step) * step; t <= end; t += step) {
+        ticks.push(t);
+    }
+    return ticks;
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+const WIDTH = 1000;
+const LABEL_WIDTH = 170;
+const PLOT_WIDTH = WIDTH - LABEL_WIDTH - 10;
+const AXIS_HEIGHT = 22;
+const LANE_HEIGHT = 30;
+
+export function renderSwimlaneHtml(model: SwimlaneModel, interactive: boolean): string {
+    if (model.lanes.length === 0) {
+        return '';
+    }
+
+    const height = AXIS_HEIGHT + model.lanes.length * LANE_HEIGHT + 4;
+    const xOf = (t: number) => LABEL_WIDTH + ((t - model.start) / (model.end - model.start)) * PLOT_WIDTH;
+
+    const lanesSvg = model.lanes.map((lane, i) => {
+        const y = AXIS_HEIGHT + i * LANE_HEIGHT;
+        const appAttr = escapeAttr(lane.app);
+        const shortName = lane.app.length > 22 ? `${lane.app.substring(0, 21)}…` : lane.app;
+
+        const items = lane.items.map(item => {
+            const title = `<title>${escapeHtml(item.label)}</title>`;
+            const data = `data-app="${appAttr}" data-t0="${item.t0}" data-t1="${item.t1}"`;
+            if (item.kind === 'error' || item.kind === 'warn') {
+                const x = xOf(item.t0);
+                const w = Math.max(3, xOf(item.t1) - x);
+                const barY = item.kind === 'error' ? y + 6 : y + 17;
+                return `<rect class="war-sw-span war-sw-${item.kind}" ${data} x="${x.toFixed(1)}" y="${barY}" width="${w.toFixed(1)}" height="8" rx="2">${title}</rect>`;
+            }
+            const shape = item.kind === 'deployment'
+                ? `<line x1="0" y1="${y + 2}" x2="0" y2="${y + LANE_HEIGHT - 2}"/><path d="M0 ${y} l5 5 l-5 5 l-5 -5 z"/>`
+                : item.kind === 'anomaly'
+                    ? `<path d="M0 ${y + LANE_HEIGHT - 14} l6 10 h-12 z"/>`
+                    : `<circle cx="0" cy="${y + LANE_HEIGHT / 2}" r="4"/>`;
+            return `<g class="war-sw-marker war-sw-${item.kind}" ${data} transform="translate(${xOf(item.t0).toFixed(1)},0)">${shape}${title}</g>`;
+        }).join('');
+
+        return `<g class="war-sw-lane">
+            <rect class="war-sw-lane-bg" x="0" y="${y}" width="${WIDTH}" height="${LANE_HEIGHT}"/>
+            <text class="war-sw-label war-sw-dir-${lane.direction.toLowerCase()}" x="8" y="${y + LANE_HEIGHT / 2 + 4}">${escapeHtml(shortName)}<title>${escapeHtml(`${lane.app} (${lane.direction.toLowerCase()})`)}</title></text>
+            ${items}
+        </g>`;
+    }).join('');
+
+    const axis = axisTicks(model.start, model.end).map(t => {
+        const x = xOf(t).toFixed(1);
+        return `<line x1="${x}" y1="${AXIS_HEIGHT - 4}" x2="${x}" y2="${height}"/><text x="${x}" y="${AXIS_HEIGHT - 8}">${tickLabel(t, model.end - model.start)}</text>`;
+    }).join('');
+
+    return `<div class="war-swimlanes">
+        <div class="war-sw-toolbar">
+            <span class="war-sw-legend">
+                <span class="war-sw-key war-sw-key-error"></span>Errors
+                <span class="war-sw-key war-sw-key-warn"></span>Warnings
+                <span class="war-sw-key-glyph war-sw-deployment">◆</span>Deployment
+                <span class="war-sw-key-glyph war-sw-anomaly">▲</span>Anomaly
+                <span class="war-sw-key-glyph war-sw-status">●</span>Status change
+            </span>
+            ${interactive ? `<span class="war-sw-hint" id="war-sw-range">Drag across the chart to zoom</span>
+            <button class="am-btn am-btn-ghost war-sw-reset" id="war-sw-reset" style="display:none">Reset zoom</button>` : ''}
+        </div>
+        <svg id="war-swimlanes" class="war-sw-svg" viewBox="0 0 ${WIDTH} ${height}"
+            data-start="${model.start}" data-end="${model.end}" data-left="${LABEL_WIDTH}" data-width="${PLOT_WIDTH}">
+            <g class="war-sw-axis">${axis}</g>
+            ${lanesSvg}
+            <rect class="war-sw-brush" x="0" y="${AXIS_HEIGHT}" width="0" height="${height - AXIS_HEIGHT}"/>
+        </svg>
+    </div>`;
+}
+
+function tickLabel(t: number, spanMs: number): string {
+    const iso = new Date(t).toISOString();
+    return spanMs > 24 * 60 * MINUTE_MS ? `${iso.substring(5, 10)} ${iso.substring(11, 16)}` : iso.substring(11, 16);
+}
+
+export const SWIMLANE_STYLES = `
+        .war-swimlanes { margin-bottom: 16px; }
+        .war-sw-toolbar { display: flex; align-items: center; gap: 12px; flex-wrap: wrap; margin-bottom: 6px; font-size: 12px; color: var(--am-text-secondary); }
+        .war-sw-legend { display: inline-flex; align-items: center; gap: 6px; flex-wrap: wrap; }
+        .war-sw-key { display: inline-block; width: 14px; height: 8px; border-radius: 2px; margin-left: 6px; }
+        .war-sw-key-error { background: var(--am-error); }
+        .war-sw-key-warn { background: var(--am-warning); }
+        .war-sw-key-glyph { margin-left: 6px; }
+        .war-sw-hint { margin-left: auto; }
+        .war-sw-svg { width: 100%; height: auto; display: block; user-select: none; cursor: crosshair; }
+        .war-sw-lane-bg { fill: transparent; stroke: var(--am-border); stroke-opacity: 0.4; }
+        .war-sw-lane:nth-child(even) .war-sw-lane-bg { fill: var(--am-bg-secondary); }
+        .war-sw-label { font-size: 11px; fill: var(--am-text-primary); }
+        .war-sw-dir-upstream, .war-sw-dir-downstream { fill: var(--am-text-secondary); }
+        .war-sw-axis line { stroke: var(--am-border); stroke-opacity: 0.5; }
+        .war-sw-axis text { font-size: 10px; fill: var(--am-text-secondary); text-anchor: middle; }
+        .war-sw-span.war-sw-error { fill: var(--am-error); fill-opacity: 0.8; }
+        .war-sw-span.war-sw-warn { fill: var(--am-warning); fill-opacity: 0.7; }
+        .war-sw-marker.war-sw-deployment { stroke: var(--am-info); fill: var(--am-info); stroke-width: 1.5; }
+        .war-sw-marker.war-sw-anomaly { fill: var(--am-error); }
+        .war-sw-marker.war-sw-status { fill: var(--am-warning); }
+        .war-sw-deployment { color: var(--am-info); }
+        .war-sw-anomaly { color: var(--am-error); }
+        .war-sw-status { color: var(--am-warning); }
+        .war-sw-brush { fill: var(--am-info); fill-opacity: 0.15; stroke: var(--am-info); stroke-opacity: 0.6; pointer-events: none; }
+        .war-filtered-out { opacity: 0.35; }
+`;
+
+/**
+ * Client-side brushing: drag to zoom the chart into a sub-window, re-position
+ * every item carrying data-t0/data-t1, and filter report rows (data-ts,
+ * data-first/data-last) and correlations (data-apps) to that window.
+ */
+export const SWIMLANE_SCRIPT = `
+(function () {
+    const svg = document.getElementById('war-swimlanes');
+    if (!svg) { return; }
+    const MINUTE = 60000;
+    const STEPS = ${JSON.stringify(TICK_STEPS_MINUTES)};
+    const full = [Number(svg.dataset.start), Number(svg.dataset.end)];
+    const left = Number(svg.dataset.left);
+    const width = Number(svg.dataset.width);
+    const brush = svg.querySelector('.war-sw-brush');
+    const axis = svg.querySelector('.war-sw-axis');
+    const rangeLabel = document.getElementById('war-sw-range');
+    const resetBtn = document.getElementById('war-sw-reset');
+    let domain = full.slice();
+    let dragFrom = null;
+
+    const xOf = t => left + (t - domain[0]) / (domain[1] - domain[0]) * width;
+    const tOf = x => domain[0] + (Math.min(Math.max(x, left), left + width) - left) / width * (domain[1] - domain[0]);
+    const svgX = evt => {
+        const pt = svg.createSVGPoint();
+        pt.x = evt.clientX;
+        pt.y = evt.clientY;
+        return pt.matrixTransform(svg.getScreenCTM().inverse()).x;
+    };
+    const fmt = t => new Date(t).toISOString().substring(11, 16);
+
+    function renderAxis() {
+        const height = svg.viewBox.baseVal.height;
+        const span = (domain[1] - domain[0]) / MINUTE;
+        const step = (STEPS.find(s => span / s <= ${MAX_TICKS}) || STEPS[STEPS.length - 1]) * MINUTE;
+        let html = '';
+        for (let t = Math.ceil(domain[0] / step) * step; t <= domain[1]; t += step) {
+            const x = xOf(t).toFixed(1);
+            html += '<line x1="' + x + '" y1="${AXIS_HEIGHT - 4}" x2="' + x + '" y2="' + height + '"/><text x="' + x + '" y="${AXIS_HEIGHT - 8}">' + fmt(t) + '</text>';
+        }
+        axis.innerHTML = html;
+    }
+
+    function layout() {
+        svg.querySelectorAll('[data-t0]').forEach(el => {
+            const t0 = Number(el.dataset.t0);
+            const t1 = Number(el.dataset.t1);
+            const visible = t1 >= domain[0] && t0 <= domain[1];
+            el.style.display = visible ? '' : 'none';
+            if (!visible) { return; }
+            if (el.tagName === 'rect') {
+                const x0 = xOf(Math.max(t0, domain[0]));
+                const x1 = xOf(Math.min(t1, domain[1]));
+                el.setAttribute('x', x0.toFixed(1));
+                el.setAttribute('width', Math.max(3, x1 - x0).toFixed(1));
+            } else {
+                el.setAttribute('transform', 'translate(' + xOf(t0).toFixed(1) + ',0)');
+            }
+        });
+        renderAxis();
+    }
+
+    function applyFilter() {
+        const zoomed = domain[0] > full[0] || domain[1] < full[1];
+        const inRange = (t0, t1) => !zoomed || (t1 >= domain[0] && t0 <= domain[1]);
+        document.querySelectorAll('tr[data-ts]').forEach(row => {
+            const t = Number(row.dataset.ts);
+            row.style.display = inRange(t, t) ? '' : 'none';
+        });
+        document.querySelectorAll('tr[data-first]').forEach(row => {
+            row.style.display = inRange(Number(row.dataset.first), Number(row.dataset.last)) ? '' : 'none';
+        });
+        const active = new Set();
+        svg.querySelectorAll('[data-app][data-t0]').forEach(el => {
+            if (el.style.display !== 'none') { active.add(el.dataset.app); }
+        });
+        document.querySelectorAll('[data-apps]').forEach(el => {
+            const apps = JSON.parse(el.dataset.apps || '[]');
+            el.classList.toggle('war-filtered-out', zoomed && apps.length > 0 && !apps.some(a => active.has(a)));
+        });
+        if (rangeLabel) {
+            rangeLabel.textContent = zoomed
+                ? 'Showing ' + fmt(domain[0]) + '–' + fmt(domain[1]) + ' UTC (tables below are filtered)'
+                : 'Drag across the chart to zoom';
+        }
+        if (resetBtn) { resetBtn.style.display = zoomed ? '' : 'none'; }
+        vscode.setState(Object.assign({}, vscode.getState() || {}, { swimlaneDomain: zoomed ? domain : null }));
+    }
+
+    function zoomTo(next) {
+        domain = next;
+        layout();
+        applyFilter();
+    }
+
+    svg.addEventListener('mousedown', evt => {
+        const x = svgX(evt);
+        if (x < left || x > left + width) { return; }
+        dragFrom = x;
+        brush.setAttribute('x', x.toFixed(1));
+        brush.setAttribute('width', '0');
+    });
+    window.addEventListener('mousemove', evt => {
+        if (dragFrom === null) { return; }
+        const x = Math.min(Math.max(svgX(evt), left), left + width);
+        brush.setAttribute('x', Math.min(dragFrom, x).toFixed(1));
+        brush.setAttribute('width', Math.abs(x - dragFrom).toFixed(1));
+    });
+    window.addEventListener('mouseup', evt => {
+        if (dragFrom === null) { return; }
+        const x = svgX(evt);
+        const from = dragFrom;
+        dragFrom = null;
+        brush.setAttribute('width', '0');
+        if (Math.abs(x - from) < 5) { return; }
+        const t0 = tOf(Math.min(from, x));
+        const t1 = tOf(Math.max(from, x));
+        if (t1 - t0 >= MINUTE) { zoomTo([t0, t1]); }
+    });
+    if (resetBtn) { resetBtn.addEventListener('click', () => zoomTo(full.slice())); }
+
+    const saved = (vscode.getState() || {}).swimlaneDomain;
+    if (saved && saved[0] >= full[0] && saved[1] <= full[1]) { zoomTo(saved); }
+})();
+`;
+
+/**
+ * Apps named in a correlation's cause or evidence, used to dim correlations
+ * with no activity inside a zoomed window.
+ */
+export function correlationApps(texts: string[], appNames: string[]): string[] {
+    const joined = texts.join('\n');
+    return appNames.filter(app => {
+        const escaped = app.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(^|[^\\w-])${escaped}($|[^\\w-])`).test(joined);
+    });
+}
@@ -29,21 +29,129 @@ export interface DependencyEntry {
     discoveryMethod: 'property_file' | 'mule_config' | 'api_autodiscovery' | 'api_contract' | 'naming_convention' | 'manual';
     confidence: 'high' | 'medium' | 'low';
     isExternal: boolean;
+    /** What kind of system the target is, when known from connector configuration */
+    targetKind?: DependencyTargetKind;
+    /** HTTP method and path of the calling requester (mule_config edges) */
+    method?: string;
+    path?: string;
+    /** Set on asynchronous edges: the producer publishes to this channel and the target consumes from it */
+    via?: AsyncChannel;
 }
 
+export interface AsyncChannel {
+    kind: 'anypoint-mq' | 'jms' | 'kafka';
+    /** Queue, exchange, topic or JMS destination name */
+    destination: string;
+}
+
+/** One side of an asynchronous connection found in an app's Mule configuration */
+export interface AsyncEndpoint {
+    app: string;
+    channel: AsyncChannel;
+    direction: 'in' | 'out';
+}
+
+export type DependencyTargetKind =
+    | 'http'
+    | 'database'
+    | 'salesforce'
+    | 'sap'
+    | 'sftp'
+    | 'ftp'
+    | 'email'
+    | 'kafka'
+    | 'jms'
+    | 'anypoint-mq'
+    | 'redis'
+    | 'mongodb'
+    | 'amazon-s3'
+    | 'amazon-sqs';
+
 export interface ManualDependencyFile {
+    /** Edges that always exist; they replace any inferred entry for the same pair */
     dependencies: Array<{
         sourceApp: string;
         targetApp: string;
         note?: string;
+        /** The edge was inferred and confirmed in the dependency editor rather than added by hand */
+        confirmed?: boolean;
+    }>;
+    /** Inferred edges that are wrong; dependency map builds drop them */
+    rejected?: Array<{
+        sourceApp: string;
+        targetApp: string;
+        note?: string;
     }>;
 }
 
+export type DependencyEditorStatus = 'inferred' | 'confirmed' | 'manual' | 'rejected';
+
+/** One source → target pair as shown in the dependency editor */
+export interface DependencyEditorRow {
+    sourceApp: string;
+    targetApp: string;
+    status: DependencyEditorStatus;
+    /** Discovery methods of the inferred entries, empty for hand-added edges */
+    discoveredBy: DependencyEntry['discoveryMethod'][];
+    confidence?: DependencyEntry['confidence'];
+    targetUrls: string[];
+    isExternal: boolean;
+    note?: string;
+}
+
+export interface DependencyMapVersion {
+    id: string;
+    generatedAt: string;
+    environment: string;
+    appCount: number;
+    dependencyCount: number;
+}
+
+export interface DependencyEdgeChange {
+    sourceApp: string;
+    targetApp: string;
+    before: string[];
+    after: string[];
+}
+
+export interface DependencyMapDiff {
+    fromGeneratedAt: string;
+    toGeneratedAt: string;
+    addedEdges: DependencyEntry[];
+    removedEdges: DependencyEntry[];
+    /** Same source → target pair reached through different target URLs */
+    changedUrls: DependencyEdgeChange[];
+    /** External targets referenced by `to` but by no edge in `from` */
+    newExternalServices: string[];
+}
+
+export interface BlastRadiusEntry {
+    app: string;
+    hops: number;
+    /** Product of edge confidence weights along the highest-scoring path (0..1) */
+    confidence?: number;
+    /** Hop decay × path confidence × inbound traffic share (0..1) */
+    impact?: number;
+    /** No inbound traffic sample for the app; impact uses the mean share of the apps that have one */
+    noTrafficData?: boolean;
+    /** Message channel of the last edge on that path, when the app is reached asynchronously */
+    via?: string;
+}
+
 export interface BlastRadius {
     seedApps: string[];
-    upstream: Array<{ app: string; hops: number }>;
-    downstream: Array<{ app: string; hops: number }>;
+    upstream: BlastRadiusEntry[];
+    downstream: BlastRadiusEntry[];
     allAffected: string[];
+    /** Internal edges ignored because they were below the minimum confidence */
+    prunedEdges?: number;
+}
+
+export interface BlastRadiusOptions {
+    /** Edges below this confidence are ignored; manual edges are always kept */
+    minConfidence?: DependencyEntry['confidence'];
+    /** Inbound request count per app over the incident window */
+    traffic?: Map<string, number>;
 }
 
 export interface LogGroup {
@@ -75,13 +183,19 @@ export interface MetricSnapshot {
     timestamp: string;
 }
 
+export type BaselineMethod = 'zscore' | 'mad';
+
 export interface Anomaly {
     metric: string;
     current: number;
     baseline: number;
+    /** Ratio of current to baseline */
     deviation: number;
     severity: 'high' | 'medium' | 'low';
     description: string;
+    /** Standardized distance from the seasonal baseline; absent for the 24h ratio fallback */
+    score?: number;
+    method?: BaselineMethod;
 }
 
 export interface AppStatus {
@@ -115,12 +229,24 @@ export interface CollectionError {
     error: string;
 }
 
+/** Point-in-time Anypoint MQ queue statistics for the incident environment */
+export interface MQQueueStats {
+    queueId: string;
+    region: string;
+    messages: number;
+    inflightMessages: number;
+    fifo: boolean;
+    deadLetterQueueId: string | null;
+}
+
 export interface WarRoomData {
     config: WarRoomConfig;
     blastRadius: BlastRadius;
     apps: Map<string, AppWarRoomData>;
     collectionErrors: CollectionError[];
     collectionTime: number;
+    /** Environment-wide queue stats; absent when Anypoint MQ is not used or not reachable */
+    mqStats?: MQQueueStats[];
 }
 
 export interface TimelineEvent {
@@ -136,7 +262,64 @@ export interface CorrelationResult {
     probableCause: string;
     confidence: 'high' | 'medium' | 'low';
     evidence: string[];
-    category: 'recent_deployment' | 'resource_exhaustion' | 'downstream_failure' | 'connectivity_failure' | 'shared_dependency' | 'unknown';
+    category:
+        | 'recent_deployment'
+        | 'resource_exhaustion'
+        | 'downstream_failure'
+        | 'connectivity_failure'
+        | 'shared_dependency'
+        | 'certificate_expiry'
+        | 'rate_limiting'
+        | 'mq_quota'
+        | 'unknown';
+    /** Rule that produced the result; set by analyzeCorrelations */
+    ruleId?: string;
+    /** Apps, queues or app pairs the result is about, used to recognise it across polls */
+    subjects?: string[];
+}
+
+export type CorrelationCategory = CorrelationResult['category'];
+
+/**
+ * One entry in the correlation rule registry. `evaluate` returns a result when
+ * the rule's failure signature is present in the collected data.
+ */
+export interface CorrelationRule {
+    id: string;
+    source: 'builtin' | 'workspace';
+    evaluate: (data: WarRoomData, timeline: TimelineEvent[]) => CorrelationResult | null;
+}
+
+/**
+ * Workspace rule definition as written in `.warroom/rules/*.json|yaml`. Every
+ * condition under `match` that is present must hold for the same app.
+ */
+export interface CorrelationRuleDefinition {
+    id: string;
+    /** Probable cause text; `{apps}` is replaced with the matching app names */
+    title: string;
+    category: CorrelationCategory;
+    confidence: 'high' | 'medium' | 'low';
+    match: {
+        /** Regular expression tested against log group patterns and sample messages */
+        logPattern?: string;
+        logLevel?: 'ERROR' | 'WARN';
+        /** Minimum total occurrences of matching log groups (default 1) */
+        minCount?: number;
+        metricAnomaly?: {
+            metric: string;
+            severity?: 'high' | 'medium';
+        };
+        /** A deployment within this many minutes before the first matching error (or window end) */
+        deploymentWithinMinutes?: number;
+    };
+    /** Extra evidence lines appended after the generated ones; `{apps}` is substituted */
+    evidence?: string[];
+}
+
+export interface CorrelationRuleLoadResult {
+    rules: CorrelationRule[];
+    errors: string[];
 }
 
 export interface WarRoomReport {
@@ -148,4 +331,57 @@ export interface WarRoomReport {
     collectionErrors: CollectionError[];
     collectionTime: number;
     generatedAt: string;
+    mqStats?: MQQueueStats[];
+}
+
+/**
+ * Collects data for the window [since, now] and merges it into `data`.
+ * Supplied by runWarRoom so the report panel can poll in live mode.
+ */
+export type LiveRefreshHandler = (data: WarRoomData, since: Date) => Promise<WarRoomData>;
+
+export interface WarRoomIncident {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    snapshots: WarRoomReport[];
+}
+
+/**
+ * JSON form of a WarRoomReport: the apps Map becomes a plain object and
+ * the time window dates become ISO strings.
+ */
+export interface SerializedWarRoomReport extends Omit<WarRoomReport, 'config' | 'apps'> {
+    config: Omit<WarRoomConfig, 'timeWindow'> & { timeWindow: { start: string; end: string } };
+    apps: Record<string, AppWarRoomData>;
+}
+
+export interface SerializedWarRoomIncident {
+    schemaVersion: number;
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    snapshots: SerializedWarRoomReport[];
+}
+
+export interface IncidentDiff {
+    previousGeneratedAt: string;
+    currentGeneratedAt: string;
+    newLogGroups: LogGroup[];
+    resolvedLogGroups: LogGroup[];
+    newAnomalies: Array<{ app: string; anomaly: Anomaly }>;
+    resolvedAnomalies: Array<{ app: string; anomaly: Anomaly }>;
+    newDeployments: DeploymentRecord[];
+    statusChanges: Array<{ app: string; from: string; to: string }>;
+}
+
+/**
+ * Machine-readable JSON export of a report. Bump `schemaVersion` whenever a
+ * field is removed or changes meaning so downstream consumers can detect it.
+ */
+export interface WarRoomReportExport {
+    schema: 'anypoint-monitor/war-room-report';
+    schemaVersion: string;
+    exportedAt: string;
+    report: SerializedWarRoomReport;
 }
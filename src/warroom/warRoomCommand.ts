@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
 import { WarRoomConfig } from './types';
 import { runWarRoom } from './index';
-import { buildDependencyMap } from './dependencyMapper';
+import { buildDependencyMap, listDependencyMapVersions, loadDependencyMapVersion } from './dependencyMapper';
+import { diffDependencyMaps, renderDependencyMapDiffMarkdown } from './dependencyDrift';
+import { listIncidents, loadIncident } from './incidentStore';
+import { showIncidentReport } from './reportGenerator';
 import { AccountService } from '../controllers/accountService';
 import { ApiHelper } from '../controllers/apiHelper';
 import { getBaseUrl } from '../constants';
@@ -52,6 +55,74 @@ export async function startWarRoom(context: vscode.ExtensionContext): Promise<vo
     await runWarRoom(context, config);
 }
 
+/**
+ * Reopen a saved incident. Either shows the latest snapshot as-is or re-runs
+ * collection with the same config, rolling the time window forward to now.
+ */
+export async function openWarRoomIncident(
+    context: vscode.ExtensionContext,
+    args?: { incidentId?: string; rerun?: boolean }
+): Promise<void> {
+    let incidentId = args?.incidentId;
+
+    if (!incidentId) {
+        const incidents = listIncidents();
+        if (incidents.length === 0) {
+            vscode.window.showInformationMessage('No saved War Room incidents found in .warroom/incidents.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            incidents.map(inc => ({
+                label: `${inc.severity} — ${inc.environment}`,
+                description: inc.seedApps.join(', '),
+                detail: `${inc.id} · ${inc.snapshotCount} snapshot(s) · updated ${new Date(inc.updatedAt).toLocaleString()}`,
+                id: inc.id
+            })),
+            {
+                placeHolder: 'Select an incident to open',
+                title: 'War Room - Open Incident'
+            }
+        );
+        if (!selected) { return; }
+        incidentId = selected.id;
+    }
+
+    const incident = loadIncident(incidentId);
+    if (!incident) {
+        vscode.window.showErrorMessage(`War Room incident ${incidentId} could not be loaded.`);
+        return;
+    }
+
+    let rerun = args?.rerun;
+    if (rerun === undefined) {
+        const action = await vscode.window.showQuickPick([
+            { label: '$(eye) View latest snapshot', description: 'Open the saved report without collecting new data', value: false },
+            { label: '$(refresh) Re-run collection', description: 'Collect fresh data and compare with the latest snapshot', value: true }
+        ], {
+            placeHolder: 'What would you like to do with this incident?',
+            title: `War Room - ${incident.id}`
+        });
+        if (!action) { return; }
+        rerun = action.value;
+    }
+
+    if (!rerun) {
+        showIncidentReport(incident);
+        return;
+    }
+
+    const latest = incident.snapshots[incident.snapshots.length - 1];
+    const windowMs = latest.config.timeWindow.end.getTime() - latest.config.timeWindow.start.getTime();
+    const end = new Date();
+    const config: WarRoomConfig = {
+        ...latest.config,
+        timeWindow: { start: new Date(end.getTime() - windowMs), end }
+    };
+
+    await runWarRoom(context, config, incident);
+}
+
 export async function startBuildDependencyMap(context: vscode.ExtensionContext): Promise<void> {
     const accountService = new AccountService(context);
     const activeAccount = await accountService.getActiveAccount();
@@ -77,6 +148,63 @@ export async function startBuildDependencyMap(context: vscode.ExtensionContext):
     });
 }
 
+/**
+ * Pick two saved dependency map builds (defaulting to the two newest for the
+ * chosen environment) and open their drift as a markdown document.
+ */
+export async function compareDependencyMapVersions(): Promise<void> {
+    const versions = listDependencyMapVersions();
+    if (versions.length < 2) {
+        vscode.window.showInformationMessage('At least two saved dependency map versions are needed. Versions are saved to .warroom/dependency-maps on every build.');
+        return;
+    }
+
+    const toItem = (v: typeof versions[number]) => ({
+        label: new Date(v.generatedAt).toLocaleString(),
+        description: v.environment,
+        detail: `${v.appCount} apps · ${v.dependencyCount} dependencies`,
+        id: v.id
+    });
+
+    const newer = await vscode.window.showQuickPick(versions.map(toItem), {
+        placeHolder: 'Select the newer dependency map version',
+        title: 'Dependency Map Drift (1/2)'
+    });
+    if (!newer) { return; }
+
+    const newerVersion = versions.find(v => v.id === newer.id)!;
+    const candidates = versions.filter(v => v.generatedAt < newerVersion.generatedAt);
+    if (candidates.length === 0) {
+        vscode.window.showInformationMessage('No older dependency map version to compare with.');
+        return;
+    }
+    // Same-environment builds first, so the default pick is the previous build
+    candidates.sort((a, b) =>
+        Number(b.environment === newerVersion.environment) - Number(a.environment === newerVersion.environment) ||
+        b.generatedAt.localeCompare(a.generatedAt)
+    );
+
+    const older = await vscode.window.showQuickPick(candidates.map(toItem), {
+        placeHolder: 'Select the older version to compare against',
+        title: 'Dependency Map Drift (2/2)'
+    });
+    if (!older) { return; }
+
+    const from = loadDependencyMapVersion(older.id);
+    const to = loadDependencyMapVersion(newer.id);
+    if (!from || !to) {
+        vscode.window.showErrorMessage('The selected dependency map versions could not be loaded.');
+        return;
+    }
+
+    const environment = from.environment === to.environment ? to.environment : `${from.environment} → ${to.environment}`;
+    const doc = await vscode.workspace.openTextDocument({
+        content: renderDependencyMapDiffMarkdown(diffDependencyMaps(from, to), environment),
+        language: 'markdown'
+    });
+    await vscode.window.showTextDocument(doc, { preview: false });
+}
+
 async function selectEnvironment(
     context: vscode.ExtensionContext,
     accountService: AccountService